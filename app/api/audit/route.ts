@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authorize } from "../../lib/auth";
+import { getServiceSupabase } from "../../lib/supabase-admin";
+
+const MAX_LIMIT = 500;
+
+// Lists audit events, newest first. Supports ?action=&actor=&table=&from=&to=&q=&limit=
+export async function GET(req: NextRequest) {
+  const { error: authError } = await authorize(req, "viewer");
+  if (authError) return authError;
+
+  const params = req.nextUrl.searchParams;
+  const limit = Math.min(Number(params.get("limit")) || 200, MAX_LIMIT);
+
+  let query = getServiceSupabase()
+    .from("audit_events")
+    .select("*")
+    .order("created_at", { ascending: false })
+    .limit(limit);
+
+  const action = params.get("action");
+  const actor = params.get("actor");
+  const table = params.get("table");
+  const from = params.get("from");
+  const to = params.get("to");
+  // PostgREST filter syntax uses , ( ) as separators, so strip them from free text.
+  const q = params.get("q")?.replace(/[,()*%]/g, " ").trim();
+
+  if (action) query = query.eq("action", action);
+  if (actor) query = query.eq("actor_username", actor);
+  if (table) query = query.eq("target_table", table);
+  if (from) query = query.gte("created_at", from);
+  if (to) query = query.lte("created_at", to);
+  if (q) {
+    query = query.or(`actor_username.ilike.*${q}*,action.ilike.*${q}*,target_id.ilike.*${q}*,target_table.ilike.*${q}*`);
+  }
+
+  const { data, error } = await query;
+  if (error) {
+    console.error("Failed to load audit events:", error.message);
+    return NextResponse.json({ error: "Failed to load audit events" }, { status: 500 });
+  }
+
+  return NextResponse.json({ events: data });
+}
@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authenticate } from "../../../lib/auth";
+import { SESSION_COOKIE, createSessionToken, sessionCookieOptions } from "../../../lib/session";
+
+export async function POST(req: NextRequest) {
+  try {
+    const body = await req.json().catch(() => null);
+    if (!body || typeof body !== "object") {
+      return NextResponse.json({ error: "Invalid request body" }, { status: 400 });
+    }
+    const { username, password } = body;
+
+    if (typeof username !== "string" || typeof password !== "string" || !username || !password) {
+      return NextResponse.json(
+        { error: "Missing required fields: username, password" },
+        { status: 400 }
+      );
+    }
+
+    const user = await authenticate(username.trim(), password);
+    if (!user) {
+      return NextResponse.json({ error: "Invalid username or password" }, { status: 401 });
+    }
+
+    const { token, session } = createSessionToken(user);
+    const res = NextResponse.json({ success: true, session });
+    res.cookies.set(SESSION_COOKIE, token, sessionCookieOptions());
+    return res;
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    console.error("Login failed:", message);
+    return NextResponse.json({ error: "Login failed" }, { status: 500 });
+  }
+}
@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from "next/server";
+import { recordAuditEvent } from "../../../../lib/audit";
+import { authorize } from "../../../../lib/auth";
+import { unclaimedRecipientsFilter } from "../../../../lib/email-campaigns";
+import { getServiceSupabase } from "../../../../lib/supabase-admin";
+
+// Stops a campaign that is scheduled or part-way through sending. Recipients
+// still queued are marked skipped; emails already sent stay sent, and a run
+// in the middle of a batch finishes it.
+export async function POST(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { session, error: authError } = await authorize(req, "operator");
+  if (authError) return authError;
+  const { id } = await params;
+
+  try {
+    const db = getServiceSupabase();
+    const { data: before, error: beforeError } = await db.from("email_campaigns").select("name, status").eq("id", id).maybeSingle();
+    if (beforeError) throw beforeError;
+    if (!before) return NextResponse.json({ error: "Campaign not found" }, { status: 404 });
+
+    const { data, error } = await db
+      .from("email_campaigns")
+      .update({ status: "cancelled", finished_at: new Date().toISOString() })
+      .eq("id", id)
+      .in("status", ["scheduled", "sending"])
+      .select("*")
+      .maybeSingle();
+    if (error) throw error;
+    if (!data) {
+      return NextResponse.json({ error: `Campaign is already ${before.status}` }, { status: 409 });
+    }
+
+    const { data: skipped, error: skipError } = await db
+      .from("email_campaign_recipients")
+      .update({ status: "skipped", error: "Campaign cancelled" })
+      .eq("campaign_id", id)
+      .or(unclaimedRecipientsFilter())
+      .select("id");
+    if (skipError) throw skipError;
+
+    await recordAuditEvent(session, {
+      action: "campaign.cancel",
+      targetTable: "email_campaigns",
+      targetId: id,
+      before: { name: before.name, status: before.status },
+      after: { name: data.name, status: data.status, skipped: skipped?.length ?? 0 },
+    });
+
+    return NextResponse.json({ campaign: data });
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    console.error("Campaign cancel failed:", message);
+    return NextResponse.json({ error: `Failed to cancel campaign: ${message}` }, { status: 500 });
+  }
+}
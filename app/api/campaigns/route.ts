@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from "next/server";
+import { recordAuditEvent } from "../../lib/audit";
+import { authorize } from "../../lib/auth";
+import { renderCampaign, validateCampaignContent } from "../../lib/email-campaigns";
+import { EmailLintError } from "../../lib/email-html";
+import { getServiceSupabase } from "../../lib/supabase-admin";
+
+// Lint target: merge fields render against a stand-in recipient.
+const SAMPLE_RECIPIENT = {
+  id: "00000000-0000-0000-0000-000000000000",
+  name: "Sample Subscriber",
+  email: "sample@example.com",
+  signup_date: "2026-01-01",
+  status: "active",
+  attributes: {},
+};
+
+// Schedules a campaign ({ name, segmentId, subject, html, scheduledAt? }).
+// Without scheduledAt it goes out on the next campaign run.
+export async function POST(req: NextRequest) {
+  const { session, error: authError } = await authorize(req, "operator");
+  if (authError) return authError;
+
+  try {
+    const { name, segmentId, subject, html, scheduledAt } = await req.json();
+    if (typeof name !== "string" || !name.trim() || name.trim().length > 100) {
+      return NextResponse.json({ error: "name must be 1–100 characters" }, { status: 400 });
+    }
+    const invalid = validateCampaignContent(subject, html);
+    if (invalid) {
+      return NextResponse.json({ error: invalid }, { status: 400 });
+    }
+    const scheduled = scheduledAt ? new Date(scheduledAt) : new Date();
+    if (Number.isNaN(scheduled.getTime())) {
+      return NextResponse.json({ error: "scheduledAt must be an ISO timestamp" }, { status: 400 });
+    }
+    const content = { subject: subject.trim(), html };
+    renderCampaign(content, SAMPLE_RECIPIENT);
+
+    const db = getServiceSupabase();
+    const { data: segment, error: segmentError } = await db.from("email_segments").select("id, name").eq("id", segmentId).maybeSingle();
+    if (segmentError) throw segmentError;
+    if (!segment) return NextResponse.json({ error: "Segment not found" }, { status: 404 });
+
+    const { data, error } = await db
+      .from("email_campaigns")
+      .insert({ name: name.trim(), segment_id: segment.id, ...content, scheduled_at: scheduled.toISOString(), created_by: session.username })
+      .select("*")
+      .single();
+    if (error) throw error;
+
+    await recordAuditEvent(session, {
+      action: "campaign.create",
+      targetTable: "email_campaigns",
+      targetId: data.id,
+      after: { name: data.name, segment: segment.name, subject: data.subject, scheduled_at: data.scheduled_at },
+    });
+
+    return NextResponse.json({ campaign: data }, { status: 201 });
+  } catch (error: unknown) {
+    if (error instanceof EmailLintError) {
+      return NextResponse.json({ error: error.message, issues: error.issues }, { status: 422 });
+    }
+    const message = error instanceof Error ? error.message : "Unknown error";
+    console.error("Campaign create failed:", message);
+    return NextResponse.json({ error: `Failed to schedule campaign: ${message}` }, { status: 500 });
+  }
+}
@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from "next/server";
+import { CRON_ACTOR, recordAuditEvent, type AuditActor } from "../../../lib/audit";
+import { authorize, isCronRequest } from "../../../lib/auth";
+import { runEmailCampaigns } from "../../../lib/email-campaigns";
+
+export const maxDuration = 300;
+
+async function run(actor: AuditActor) {
+  try {
+    const summary = await runEmailCampaigns();
+    if (summary.started + summary.sent + summary.failed + summary.skipped > 0) {
+      await recordAuditEvent(actor, {
+        action: "campaign.run",
+        targetTable: "email_campaigns",
+        targetId: null,
+        after: summary,
+      });
+    }
+    return NextResponse.json(summary);
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    console.error("Campaign run failed:", message);
+    return NextResponse.json({ error: `Campaign run failed: ${message}` }, { status: 500 });
+  }
+}
+
+// Vercel Cron entry point (see vercel.json).
+export async function GET(req: NextRequest) {
+  if (!isCronRequest(req)) {
+    return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+  }
+  return run(CRON_ACTOR);
+}
+
+// "Send due now" from the Email page.
+export async function POST(req: NextRequest) {
+  const { session, error: authError } = await authorize(req, "operator");
+  if (authError) return authError;
+  return run(session);
+}
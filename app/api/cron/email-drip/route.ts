@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from "next/server";
+import { CRON_ACTOR, recordAuditEvent, type AuditActor } from "../../../lib/audit";
+import { authorize, isCronRequest } from "../../../lib/auth";
+import { runEmailDrip } from "../../../lib/email-drip";
+
+export const maxDuration = 300;
+
+async function run(actor: AuditActor) {
+  try {
+    const summary = await runEmailDrip();
+    if (summary.due > 0) {
+      await recordAuditEvent(actor, {
+        action: "drip.run",
+        targetTable: "email_sends",
+        targetId: null,
+        after: summary,
+      });
+    }
+    return NextResponse.json(summary);
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    console.error("Email drip failed:", message);
+    return NextResponse.json({ error: `Email drip failed: ${message}` }, { status: 500 });
+  }
+}
+
+// Vercel Cron entry point (see vercel.json).
+export async function GET(req: NextRequest) {
+  if (!isCronRequest(req)) {
+    return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+  }
+  return run(CRON_ACTOR);
+}
+
+// "Run drip now" from the Email page.
+export async function POST(req: NextRequest) {
+  const { session, error: authError } = await authorize(req, "operator");
+  if (authError) return authError;
+  return run(session);
+}
@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from "next/server";
+import { CRON_ACTOR, recordAuditEvent, type AuditActor } from "../../../lib/audit";
+import { authorize, isCronRequest } from "../../../lib/auth";
+import { drainOutbox } from "../../../lib/email-outbox";
+
+export const maxDuration = 300;
+
+async function run(actor: AuditActor) {
+  try {
+    const summary = await drainOutbox();
+    if (summary.processed > 0) {
+      await recordAuditEvent(actor, {
+        action: "outbox.run",
+        targetTable: "email_outbox",
+        targetId: null,
+        after: summary,
+      });
+    }
+    return NextResponse.json(summary);
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    console.error("Outbox run failed:", message);
+    return NextResponse.json({ error: `Outbox run failed: ${message}` }, { status: 500 });
+  }
+}
+
+// Vercel Cron entry point (see vercel.json).
+export async function GET(req: NextRequest) {
+  if (!isCronRequest(req)) {
+    return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+  }
+  return run(CRON_ACTOR);
+}
+
+// "Retry due now" from the Email page.
+export async function POST(req: NextRequest) {
+  const { session, error: authError } = await authorize(req, "operator");
+  if (authError) return authError;
+  return run(session);
+}
@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authorize } from "../../../lib/auth";
+import { clearCapturedEmails, isDevOutboxEnabled, listCapturedEmails } from "../../../lib/mail-capture";
+import { getMailTransportKind } from "../../../lib/mailer";
+
+function notFound() {
+  return NextResponse.json({ error: "Not found" }, { status: 404 });
+}
+
+// Lists the messages captured by the file or memory mail transport, newest
+// first. With the SMTP transport nothing is captured and the list is empty.
+export async function GET(req: NextRequest) {
+  if (!isDevOutboxEnabled()) return notFound();
+  const { error: authError } = await authorize(req, "viewer");
+  if (authError) return authError;
+
+  try {
+    const transport = getMailTransportKind();
+    const emails = transport === "smtp" ? [] : await listCapturedEmails(transport);
+    return NextResponse.json({ transport, emails });
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    return NextResponse.json({ error: `Failed to load captured emails: ${message}` }, { status: 500 });
+  }
+}
+
+export async function DELETE(req: NextRequest) {
+  if (!isDevOutboxEnabled()) return notFound();
+  const { error: authError } = await authorize(req, "operator");
+  if (authError) return authError;
+
+  try {
+    const transport = getMailTransportKind();
+    if (transport !== "smtp") await clearCapturedEmails(transport);
+    return NextResponse.json({ success: true });
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    return NextResponse.json({ error: `Failed to clear captured emails: ${message}` }, { status: 500 });
+  }
+}
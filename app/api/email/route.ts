@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authorize } from "../../lib/auth";
+import { getServiceSupabase, selectAll } from "../../lib/supabase-admin";
+
+// The Email page's reads of tables the anon key can't see — subscribers, send
+// history (without the stored html), opens and clicks, campaign recipients
+// and the latest outbox rows — plus enrollments. Every table is read in full,
+// page by page, since the rates and the funnel are counted from these rows.
+export async function GET(req: NextRequest) {
+  const { error: authError } = await authorize(req, "viewer");
+  if (authError) return authError;
+
+  try {
+    const db = getServiceSupabase();
+    const [subscribers, enrollments, sends, events, campaignRecipients, outboxRes] = await Promise.all([
+      selectAll((from, to) => db.from("email_subscribers").select("*").order("signup_date", { ascending: false }).order("id").range(from, to)),
+      selectAll((from, to) => db.from("sequence_enrollments").select("*").order("subscriber_id").order("sequence_id").range(from, to)),
+      selectAll((from, to) =>
+        db
+          .from("email_sends")
+          .select("id, subscriber_id, sequence_id, email_number, sent_at, status, error, template_version, variant_id, bounce_type, complained_at")
+          .order("sent_at", { ascending: false })
+          .order("id")
+          .range(from, to)
+      ),
+      selectAll((from, to) => db.from("email_events").select("send_id, event_type, created_at").order("id").range(from, to)),
+      selectAll((from, to) =>
+        db.from("email_campaign_recipients").select("id, campaign_id, email, status, error, sent_at").order("email").order("id").range(from, to)
+      ),
+      db.from("email_outbox").select("*").order("created_at", { ascending: false }).limit(50),
+    ]);
+    if (outboxRes.error) throw outboxRes.error;
+
+    return NextResponse.json({ subscribers, enrollments, sends, events, campaignRecipients, outbox: outboxRes.data });
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    console.error("Failed to load email data:", message);
+    return NextResponse.json({ error: "Failed to load email data" }, { status: 500 });
+  }
+}
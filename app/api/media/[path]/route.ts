@@ -0,0 +1,21 @@
+import { NextRequest, NextResponse } from "next/server";
+import { MEDIA_TYPES } from "../../../lib/content-posts";
+import { getMediaStorageKind, readLocalMedia } from "../../../lib/media-storage";
+
+const CONTENT_TYPES = Object.fromEntries(Object.entries(MEDIA_TYPES).map(([type, ext]) => [ext, type]));
+
+// Serves images from local media storage. Public, like Storage's public
+// bucket, so scripts/post-scheduler.py can download them; names are random.
+export async function GET(_req: NextRequest, { params }: { params: Promise<{ path: string }> }) {
+  const { path } = await params;
+  if (getMediaStorageKind() !== "local") return NextResponse.json({ error: "Not found" }, { status: 404 });
+
+  const bytes = await readLocalMedia(path);
+  if (!bytes) return NextResponse.json({ error: "Not found" }, { status: 404 });
+  return new NextResponse(new Uint8Array(bytes), {
+    headers: {
+      "Content-Type": CONTENT_TYPES[path.split(".").pop() ?? ""] ?? "application/octet-stream",
+      "Cache-Control": "public, max-age=31536000, immutable",
+    },
+  });
+}
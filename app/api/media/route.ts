@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authorize } from "../../lib/auth";
+import { MAX_MEDIA_BYTES, MEDIA_TYPES, SITE_ASSETS } from "../../lib/content-posts";
+import { getPublicBaseUrl } from "../../lib/email-tracking";
+import { storeMedia, uploadToken } from "../../lib/media-storage";
+
+// Stores an image for a post: a multipart upload with a `file` field, or
+// { asset } naming one of SITE_ASSETS to copy from public/. The image is only
+// attached once a post is saved with it and the returned token.
+export async function POST(req: NextRequest) {
+  const { error: authError } = await authorize(req, "operator");
+  if (authError) return authError;
+
+  try {
+    let bytes: Buffer;
+    let contentType: string;
+    if (req.headers.get("content-type")?.startsWith("multipart/form-data")) {
+      const file = (await req.formData()).get("file");
+      if (!(file instanceof File)) return NextResponse.json({ error: "Missing file" }, { status: 400 });
+      bytes = Buffer.from(await file.arrayBuffer());
+      contentType = file.type;
+    } else {
+      const { asset } = await req.json().catch(() => ({}));
+      if (!SITE_ASSETS.includes(asset)) {
+        return NextResponse.json({ error: `asset must be one of ${SITE_ASSETS.join(", ")}` }, { status: 400 });
+      }
+      // public/ is served by the CDN, not readable from the function, so
+      // fetch it like a browser would — from CASPER_PUBLIC_URL, not the
+      // request's Host header.
+      const res = await fetch(new URL(`/${asset}`, getPublicBaseUrl()));
+      if (!res.ok) throw new Error(`Couldn't load ${asset}: HTTP ${res.status}`);
+      bytes = Buffer.from(await res.arrayBuffer());
+      contentType = res.headers.get("content-type")?.split(";")[0] ?? "";
+    }
+
+    if (!(contentType in MEDIA_TYPES)) {
+      return NextResponse.json({ error: "Images must be JPEG, PNG, GIF or WebP" }, { status: 415 });
+    }
+    if (bytes.length > MAX_MEDIA_BYTES) {
+      return NextResponse.json({ error: `Images can be at most ${MAX_MEDIA_BYTES / 1024 / 1024}MB` }, { status: 413 });
+    }
+
+    const media = await storeMedia(bytes, contentType);
+    return NextResponse.json({ media: { ...media, alt: "", token: uploadToken(media.path) } }, { status: 201 });
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    console.error("Media upload failed:", message);
+    return NextResponse.json({ error: `Failed to store image: ${message}` }, { status: 500 });
+  }
+}
@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from "next/server";
+import { recordAuditEvent } from "../../../../lib/audit";
+import { authorize } from "../../../../lib/auth";
+import { processOutboxItem, requeueOutboxItem } from "../../../../lib/email-outbox";
+import { getServiceSupabase } from "../../../../lib/supabase-admin";
+
+// Gives a dead outbox email a fresh set of attempts and tries it once now.
+export async function POST(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { session, error: authError } = await authorize(req, "operator");
+  if (authError) return authError;
+  const { id } = await params;
+
+  try {
+    const { data: before, error: beforeError } = await getServiceSupabase()
+      .from("email_outbox")
+      .select("status, attempts, last_error")
+      .eq("id", id)
+      .maybeSingle();
+    if (beforeError) throw beforeError;
+    if (!before) return NextResponse.json({ error: "Outbox email not found" }, { status: 404 });
+
+    const requeued = await requeueOutboxItem(id);
+    if (!requeued) {
+      return NextResponse.json({ error: `Outbox email is ${before.status}, not dead` }, { status: 409 });
+    }
+    const item = (await processOutboxItem(id)) ?? requeued;
+
+    await recordAuditEvent(session, {
+      action: "outbox.retry",
+      targetTable: "email_outbox",
+      targetId: id,
+      before,
+      after: { status: item.status, attempts: item.attempts, last_error: item.last_error },
+    });
+
+    return NextResponse.json({ item });
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    console.error("Outbox retry failed:", message);
+    return NextResponse.json({ error: `Failed to retry email: ${message}` }, { status: 500 });
+  }
+}
@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from "next/server";
+import { recordAuditEvent } from "../../../../lib/audit";
+import { authorize } from "../../../../lib/auth";
+import { getServiceSupabase } from "../../../../lib/supabase-admin";
+
+// "Post Now": schedules a draft for immediate pickup by scripts/post-scheduler.py.
+export async function POST(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { session, error: authError } = await authorize(req, "operator");
+  if (authError) return authError;
+  const { id } = await params;
+
+  try {
+    const db = getServiceSupabase();
+    const { data: before, error: beforeError } = await db.from("content_posts").select("*").eq("id", id).maybeSingle();
+    if (beforeError) throw beforeError;
+    if (!before || before.status !== "draft") return NextResponse.json({ error: "Draft not found" }, { status: 404 });
+
+    const { data, error } = await db
+      .from("content_posts")
+      .update({ status: "scheduled", scheduled_at: new Date().toISOString() })
+      .eq("id", id)
+      .eq("status", "draft")
+      .select("*")
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!data) return NextResponse.json({ error: "Draft not found" }, { status: 404 });
+
+    await recordAuditEvent(session, {
+      action: "post.publish",
+      targetTable: "content_posts",
+      targetId: id,
+      before: { status: before.status, scheduled_at: before.scheduled_at },
+      after: { status: data.status, scheduled_at: data.scheduled_at },
+    });
+
+    return NextResponse.json({ post: data });
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    console.error("Publish post failed:", message);
+    return NextResponse.json({ error: `Failed to schedule post: ${message}` }, { status: 500 });
+  }
+}
@@ -0,0 +1,120 @@
+import { NextRequest, NextResponse } from "next/server";
+import { recordAuditEvent } from "../../../lib/audit";
+import { authorize } from "../../../lib/auth";
+import { EDITABLE_POST_STATUSES, postSegments, validatePost, type PostMedia } from "../../../lib/content-posts";
+import { deleteMedia, verifyUploadToken, withStoredUrls } from "../../../lib/media-storage";
+import { getServiceSupabase } from "../../../lib/supabase-admin";
+
+const AUDITED_FIELDS = ["account", "segments", "status", "scheduled_at", "media"] as const;
+
+function pick(row: Record<string, unknown>) {
+  return Object.fromEntries(AUDITED_FIELDS.map((field) => [field, row[field]]));
+}
+
+// Loads a post that can still be changed. Posted ones belong to X now, and so
+// does a thread the scheduler has started publishing (post_id is set with its
+// first segment).
+async function loadEditablePost(id: string) {
+  const { data, error } = await getServiceSupabase().from("content_posts").select("*").eq("id", id).maybeSingle();
+  if (error) throw error;
+  if (!data) return { error: NextResponse.json({ error: "Post not found" }, { status: 404 }) };
+  if (data.status === "posted" || data.post_id) return { error: NextResponse.json({ error: "Post has already been published" }, { status: 409 }) };
+  return { post: data };
+}
+
+// Edits a draft or scheduled post: its account, segments, status, time and
+// images. Fields left out keep their current values; new images need the token
+// POST /api/media returned, and images no longer attached are deleted from
+// storage.
+export async function PATCH(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { session, error: authError } = await authorize(req, "operator");
+  if (authError) return authError;
+  const { id } = await params;
+
+  try {
+    const body = await req.json().catch(() => ({}));
+    const loaded = await loadEditablePost(id);
+    if (loaded.error) return loaded.error;
+    const before = loaded.post;
+
+    const result = validatePost({
+      account: body.account ?? before.account,
+      segments: body.segments ?? (typeof body.content === "string" ? [body.content] : postSegments(before)),
+      status: body.status ?? before.status,
+      scheduledAt: "scheduledAt" in body ? body.scheduledAt : before.scheduled_at,
+      media: body.media ?? before.media,
+      current: { status: before.status, scheduledAt: before.scheduled_at, media: before.media ?? [] },
+      verifyUpload: verifyUploadToken,
+    });
+    if ("error" in result) return NextResponse.json({ error: result.error }, { status: 400 });
+    const { post } = result;
+
+    // The filters lose the race cleanly if the scheduler starts publishing
+    // the post in the meantime.
+    const { data, error } = await getServiceSupabase()
+      .from("content_posts")
+      .update({ account: post.account, content: post.content, segments: post.segments, status: post.status, scheduled_at: post.scheduledAt, media: withStoredUrls(post.media) })
+      .eq("id", id)
+      .in("status", [...EDITABLE_POST_STATUSES])
+      .is("post_id", null)
+      .select("*")
+      .maybeSingle();
+    if (error) throw error;
+    if (!data) return NextResponse.json({ error: "Post has already been published" }, { status: 409 });
+
+    const kept = new Set(post.media.map((item) => item.path));
+    await deleteMedia(((before.media ?? []) as PostMedia[]).map((item) => item.path).filter((file) => !kept.has(file)));
+
+    await recordAuditEvent(session, {
+      action: "post.update",
+      targetTable: "content_posts",
+      targetId: id,
+      before: pick(before),
+      after: pick(data),
+    });
+
+    return NextResponse.json({ post: data });
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    console.error("Update post failed:", message);
+    return NextResponse.json({ error: `Failed to save post: ${message}` }, { status: 500 });
+  }
+}
+
+// Deletes a draft or scheduled post and its images.
+export async function DELETE(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { session, error: authError } = await authorize(req, "operator");
+  if (authError) return authError;
+  const { id } = await params;
+
+  try {
+    const loaded = await loadEditablePost(id);
+    if (loaded.error) return loaded.error;
+
+    const { data, error } = await getServiceSupabase()
+      .from("content_posts")
+      .delete()
+      .eq("id", id)
+      .in("status", [...EDITABLE_POST_STATUSES])
+      .is("post_id", null)
+      .select("*")
+      .maybeSingle();
+    if (error) throw error;
+    if (!data) return NextResponse.json({ error: "Post has already been published" }, { status: 409 });
+
+    await deleteMedia(((data.media ?? []) as PostMedia[]).map((item) => item.path));
+
+    await recordAuditEvent(session, {
+      action: "post.delete",
+      targetTable: "content_posts",
+      targetId: id,
+      before: pick(data),
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    console.error("Delete post failed:", message);
+    return NextResponse.json({ error: `Failed to delete post: ${message}` }, { status: 500 });
+  }
+}
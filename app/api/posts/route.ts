@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from "next/server";
+import { recordAuditEvent } from "../../lib/audit";
+import { authorize } from "../../lib/auth";
+import { validatePost } from "../../lib/content-posts";
+import { verifyUploadToken, withStoredUrls } from "../../lib/media-storage";
+import { getServiceSupabase } from "../../lib/supabase-admin";
+
+// Creates a draft, or a post scheduled for scripts/post-scheduler.py to
+// publish. Body: { account, segments, status: "draft" | "scheduled", scheduledAt,
+// media }; `content` may stand in for a single segment. Images in media are
+// ones POST /api/media stored, each with the token it returned.
+export async function POST(req: NextRequest) {
+  const { session, error: authError } = await authorize(req, "operator");
+  if (authError) return authError;
+
+  try {
+    const body = await req.json().catch(() => ({}));
+    const result = validatePost({
+      account: body.account,
+      segments: body.segments ?? (typeof body.content === "string" ? [body.content] : undefined),
+      status: body.status,
+      scheduledAt: body.scheduledAt ?? null,
+      media: body.media,
+      verifyUpload: verifyUploadToken,
+    });
+    if ("error" in result) return NextResponse.json({ error: result.error }, { status: 400 });
+    const { post } = result;
+
+    const { data, error } = await getServiceSupabase()
+      .from("content_posts")
+      .insert({ account: post.account, content: post.content, segments: post.segments, status: post.status, scheduled_at: post.scheduledAt, media: withStoredUrls(post.media) })
+      .select("*")
+      .single();
+    if (error) throw error;
+
+    await recordAuditEvent(session, {
+      action: "post.create",
+      targetTable: "content_posts",
+      targetId: data.id,
+      after: { account: data.account, status: data.status, scheduled_at: data.scheduled_at, segments: data.segments, media: data.media },
+    });
+
+    return NextResponse.json({ post: data }, { status: 201 });
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    console.error("Create post failed:", message);
+    return NextResponse.json({ error: `Failed to save post: ${message}` }, { status: 500 });
+  }
+}
@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from "next/server";
+import { recordAuditEvent } from "../../lib/audit";
+import { authorize } from "../../lib/auth";
+import { getServiceSupabase } from "../../lib/supabase-admin";
+
+// Queues a suggested reply for a research finding and marks the finding queued.
+export async function POST(req: NextRequest) {
+  const { session, error: authError } = await authorize(req, "operator");
+  if (authError) return authError;
+
+  try {
+    const { researchId } = await req.json();
+    if (typeof researchId !== "string" || !researchId) {
+      return NextResponse.json({ error: "Missing required field: researchId" }, { status: 400 });
+    }
+
+    const db = getServiceSupabase();
+    const { data: item, error: itemError } = await db.from("content_research").select("*").eq("id", researchId).maybeSingle();
+    if (itemError) throw itemError;
+    if (!item) return NextResponse.json({ error: "Research item not found" }, { status: 404 });
+    if (!item.post_url) return NextResponse.json({ error: "Research item has no post URL" }, { status: 400 });
+    if (item.status === "queued") return NextResponse.json({ error: "Reply already queued" }, { status: 409 });
+
+    const account = item.author_followers > 50000 ? "@gettraqd" : "@igobykofi";
+    const handle = String(item.author_handle).replace(/^@/, "");
+    const suggested = `Strong point on this, @${handle}. Curious which framework is driving your current growth loop?`;
+
+    const { data: reply, error: insertError } = await db
+      .from("content_replies")
+      .insert({
+        target_post_url: item.post_url,
+        target_author: item.author_handle,
+        suggested_reply: suggested,
+        account,
+        status: "queued",
+      })
+      .select("*")
+      .single();
+    if (insertError) throw insertError;
+
+    const { error: updateError } = await db.from("content_research").update({ status: "queued" }).eq("id", researchId);
+    if (updateError) throw updateError;
+
+    await recordAuditEvent(session, {
+      action: "reply.queue",
+      targetTable: "content_replies",
+      targetId: reply.id,
+      before: { research_id: researchId, research_status: item.status },
+      after: reply,
+    });
+
+    return NextResponse.json({ reply }, { status: 201 });
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    console.error("Queue reply failed:", message);
+    return NextResponse.json({ error: `Failed to queue reply: ${message}` }, { status: 500 });
+  }
+}
@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from "next/server";
+import { recordAuditEvent } from "../../../lib/audit";
+import { authorize } from "../../../lib/auth";
+import { getServiceSupabase } from "../../../lib/supabase-admin";
+
+// Deletes a segment no campaign has used.
+export async function DELETE(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { session, error: authError } = await authorize(req, "operator");
+  if (authError) return authError;
+  const { id } = await params;
+
+  try {
+    const { data, error } = await getServiceSupabase().from("email_segments").delete().eq("id", id).select("*").maybeSingle();
+    if (error?.code === "23503") {
+      return NextResponse.json({ error: "Segment is used by a campaign" }, { status: 409 });
+    }
+    if (error) throw error;
+    if (!data) return NextResponse.json({ error: "Segment not found" }, { status: 404 });
+
+    await recordAuditEvent(session, {
+      action: "segment.delete",
+      targetTable: "email_segments",
+      targetId: id,
+      before: { name: data.name, filters: data.filters },
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    console.error("Segment delete failed:", message);
+    return NextResponse.json({ error: `Failed to delete segment: ${message}` }, { status: 500 });
+  }
+}
@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from "next/server";
+import { recordAuditEvent } from "../../lib/audit";
+import { authorize } from "../../lib/auth";
+import { parseSegmentFilters } from "../../lib/email-segments";
+import { getServiceSupabase } from "../../lib/supabase-admin";
+
+// Saves a segment ({ name, filters }) for campaigns to target.
+export async function POST(req: NextRequest) {
+  const { session, error: authError } = await authorize(req, "operator");
+  if (authError) return authError;
+
+  try {
+    const { name, filters: input } = await req.json();
+    if (typeof name !== "string" || !name.trim() || name.trim().length > 100) {
+      return NextResponse.json({ error: "name must be 1–100 characters" }, { status: 400 });
+    }
+    const { filters, error: filterError } = parseSegmentFilters(input);
+    if (filterError !== null) {
+      return NextResponse.json({ error: filterError }, { status: 400 });
+    }
+
+    const db = getServiceSupabase();
+    if (filters.sequenceId) {
+      const { data: sequence, error: sequenceError } = await db.from("email_sequences").select("id").eq("id", filters.sequenceId).maybeSingle();
+      if (sequenceError) throw sequenceError;
+      if (!sequence) return NextResponse.json({ error: "Sequence not found" }, { status: 404 });
+    }
+
+    const { data, error } = await db
+      .from("email_segments")
+      .insert({ name: name.trim(), filters, created_by: session.username })
+      .select("*")
+      .single();
+    if (error?.code === "23505") {
+      return NextResponse.json({ error: `A segment named "${name.trim()}" already exists` }, { status: 409 });
+    }
+    if (error) throw error;
+
+    await recordAuditEvent(session, {
+      action: "segment.create",
+      targetTable: "email_segments",
+      targetId: data.id,
+      after: { name: data.name, filters: data.filters },
+    });
+
+    return NextResponse.json({ segment: data }, { status: 201 });
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    console.error("Segment create failed:", message);
+    return NextResponse.json({ error: `Failed to create segment: ${message}` }, { status: 500 });
+  }
+}
@@ -1,55 +1,104 @@
 import { NextRequest, NextResponse } from "next/server";
-import nodemailer from "nodemailer";
-import { getEmailTemplate } from "../../lib/email-templates";
+import { recordAuditEvent } from "../../lib/audit";
+import { authorize } from "../../lib/auth";
+import { enqueueOutboxEmail, outboxKey, processOutboxItem, type OutboxRow } from "../../lib/email-outbox";
+import { getSequence } from "../../lib/email-sequences";
+import { getServiceSupabase } from "../../lib/supabase-admin";
 
+const MAX_IDEMPOTENCY_KEY_LENGTH = 200;
+
+function describe(item: OutboxRow): string {
+  switch (item.status) {
+    case "sent":
+      return `Email #${item.email_number} sent${item.last_error ? ` (${item.last_error})` : ""}`;
+    case "dead":
+      return `Email #${item.email_number} failed after ${item.attempts} attempt${item.attempts === 1 ? "" : "s"}: ${item.last_error}`;
+    default:
+      return item.last_error
+        ? `Email #${item.email_number} failed (${item.last_error}); retrying after ${new Date(item.next_attempt_at).toISOString()}`
+        : `Email #${item.email_number} queued`;
+  }
+}
+
+// Sends one step of a sequence (the default one if sequenceId is omitted)
+// without touching the subscriber's progress. The email goes through the
+// outbox: it's tried once now and retried by the outbox worker if that fails.
+// Requests are idempotent per subscriber and stage, or per Idempotency-Key
+// header if one is sent, so a repeated request returns the first one's row
+// with duplicate: true instead of sending again. Sending a step again on
+// purpose takes a new Idempotency-Key.
 export async function POST(req: NextRequest) {
+  const { session, error: authError } = await authorize(req, "operator");
+  if (authError) return authError;
+
   try {
-    const { subscriberId, emailNumber, name, email } = await req.json();
+    const { subscriberId, emailNumber, sequenceId = null } = await req.json();
 
-    if (!subscriberId || !emailNumber || !name || !email) {
+    if (!subscriberId || !emailNumber) {
       return NextResponse.json(
-        { error: "Missing required fields: subscriberId, emailNumber, name, email" },
+        { error: "Missing required fields: subscriberId, emailNumber" },
         { status: 400 }
       );
     }
+    const headerKey = req.headers.get("idempotency-key")?.trim();
+    if (headerKey !== undefined && (!headerKey || headerKey.length > MAX_IDEMPOTENCY_KEY_LENGTH)) {
+      return NextResponse.json({ error: `Idempotency-Key must be 1 to ${MAX_IDEMPOTENCY_KEY_LENGTH} characters` }, { status: 400 });
+    }
 
-    if (emailNumber < 1 || emailNumber > 8) {
+    const loaded = await getSequence(sequenceId);
+    if (!loaded) {
+      return NextResponse.json({ error: "Sequence not found" }, { status: 404 });
+    }
+    if (!Number.isInteger(emailNumber) || emailNumber < 1 || emailNumber > loaded.steps.length) {
       return NextResponse.json(
-        { error: "emailNumber must be between 1 and 8" },
+        { error: `emailNumber must be between 1 and ${loaded.steps.length}` },
         { status: 400 }
       );
     }
 
-    const template = getEmailTemplate(emailNumber, name);
-    if (!template) {
-      return NextResponse.json(
-        { error: `No template found for email stage ${emailNumber}` },
-        { status: 400 }
-      );
+    const { data: subscriber, error: subError } = await getServiceSupabase()
+      .from("email_subscribers")
+      .select("id, email, status")
+      .eq("id", subscriberId)
+      .maybeSingle();
+    if (subError) throw subError;
+    if (!subscriber) {
+      return NextResponse.json({ error: "Subscriber not found" }, { status: 404 });
+    }
+    if (subscriber.status === "pending") {
+      return NextResponse.json({ error: "Subscriber hasn't confirmed their email yet" }, { status: 409 });
     }
 
-    const transporter = nodemailer.createTransport({
-      host: process.env.CASPER_SMTP_HOST,
-      port: 587,
-      secure: false,
-      requireTLS: true,
-      auth: {
-        user: process.env.CASPER_EMAIL,
-        pass: process.env.CASPER_EMAIL_PASSWORD,
-      },
-    });
+    const request = { subscriberId: subscriber.id, sequenceId: loaded.sequence.id, emailNumber };
+    const { item: queued, created } = await enqueueOutboxEmail(request, headerKey ?? outboxKey(request), session.username);
+    if (!created) {
+      if (queued.subscriber_id !== request.subscriberId || queued.sequence_id !== request.sequenceId || queued.email_number !== emailNumber) {
+        return NextResponse.json({ error: "Idempotency-Key was already used for a different email" }, { status: 409 });
+      }
+      return NextResponse.json({
+        success: queued.status !== "dead",
+        duplicate: true,
+        message: `Already requested, not sent again (send a new Idempotency-Key to resend): ${describe(queued)}`,
+        item: queued,
+      });
+    }
 
-    await transporter.sendMail({
-      from: "Traqd <Casperowens@traqd.io>",
-      to: email,
-      subject: template.subject,
-      html: template.html,
-    });
+    const item = (await processOutboxItem(queued.id)) ?? queued;
 
-    return NextResponse.json({
-      success: true,
-      message: `Email #${emailNumber} sent to ${email}`,
+    await recordAuditEvent(session, {
+      action: "email.send",
+      targetTable: "email_subscribers",
+      targetId: String(subscriber.id),
+      after: { sequence: loaded.sequence.name, email_number: emailNumber, email: subscriber.email, outbox_id: item.id, status: item.status, error: item.last_error },
     });
+
+    if (item.status === "dead") {
+      return NextResponse.json({ error: describe(item), item }, { status: 502 });
+    }
+    return NextResponse.json(
+      { success: true, message: item.status === "sent" ? `${describe(item)} to ${subscriber.email}` : describe(item), item },
+      { status: item.status === "sent" ? 200 : 202 }
+    );
   } catch (error: unknown) {
     const message = error instanceof Error ? error.message : "Unknown error";
     console.error("Email send failed:", message);
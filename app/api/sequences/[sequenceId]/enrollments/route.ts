@@ -0,0 +1,87 @@
+import { NextRequest, NextResponse } from "next/server";
+import { recordAuditEvent } from "../../../../lib/audit";
+import { authorize } from "../../../../lib/auth";
+import { getSequence } from "../../../../lib/email-sequences";
+import { MAX_BULK_IDS, type BulkResult } from "../../../../lib/subscriber-bulk";
+import { getServiceSupabase } from "../../../../lib/supabase-admin";
+
+// Enrolls subscribers in a sequence at the start: the drip sends step 1
+// once its delay has passed. Subscribers already enrolled, unsubscribed or
+// suppressed are reported as failures with a reason, like the bulk actions.
+export async function POST(req: NextRequest, { params }: { params: Promise<{ sequenceId: string }> }) {
+  const { session, error: authError } = await authorize(req, "operator");
+  if (authError) return authError;
+  const { sequenceId } = await params;
+
+  try {
+    const { ids } = await req.json();
+    if (!Array.isArray(ids) || ids.length === 0 || !ids.every((id) => typeof id === "string")) {
+      return NextResponse.json({ error: "ids must be a non-empty array of subscriber ids" }, { status: 400 });
+    }
+    if (ids.length > MAX_BULK_IDS) {
+      return NextResponse.json({ error: `Select at most ${MAX_BULK_IDS} subscribers at a time` }, { status: 400 });
+    }
+
+    const loaded = await getSequence(sequenceId);
+    if (!loaded) return NextResponse.json({ error: "Sequence not found" }, { status: 404 });
+
+    const db = getServiceSupabase();
+    const [{ data: subscribers, error: subError }, { data: enrolled, error: enrolledError }] = await Promise.all([
+      db.from("email_subscribers").select("id, email, status").in("id", ids),
+      db.from("sequence_enrollments").select("subscriber_id").eq("sequence_id", sequenceId).in("subscriber_id", ids),
+    ]);
+    if (subError) throw subError;
+    if (enrolledError) throw enrolledError;
+
+    const found = new Map((subscribers || []).map((s) => [s.id as string, s]));
+    const alreadyEnrolled = new Set((enrolled || []).map((e) => e.subscriber_id as string));
+    const results: BulkResult[] = [];
+    const toEnroll: { id: string; email: string }[] = [];
+    for (const id of new Set<string>(ids)) {
+      const sub = found.get(id);
+      const reason = !sub
+        ? "Subscriber not found"
+        : sub.status === "unsubscribed" || sub.status === "suppressed"
+          ? `Subscriber is ${sub.status}`
+          : alreadyEnrolled.has(id)
+            ? `Already in ${loaded.sequence.name}`
+            : null;
+      if (sub && !reason) toEnroll.push({ id, email: sub.email });
+      else results.push({ id, email: sub?.email ?? "", ok: false, error: reason });
+    }
+
+    // ignoreDuplicates leaves anyone enrolled since the lookup above alone.
+    const inserted = new Set<string>();
+    if (toEnroll.length > 0) {
+      const { data, error } = await db
+        .from("sequence_enrollments")
+        .upsert(toEnroll.map((s) => ({ subscriber_id: s.id, sequence_id: sequenceId })), { onConflict: "subscriber_id,sequence_id", ignoreDuplicates: true })
+        .select("subscriber_id");
+      if (error) throw error;
+      for (const row of data || []) inserted.add(row.subscriber_id);
+    }
+    for (const sub of toEnroll) {
+      results.push({ id: sub.id, email: sub.email, ok: inserted.has(sub.id), error: inserted.has(sub.id) ? null : `Already in ${loaded.sequence.name}` });
+    }
+
+    const succeeded = toEnroll.filter((s) => inserted.has(s.id));
+    if (succeeded.length > 0) {
+      await recordAuditEvent(session, {
+        action: "sequence.enroll",
+        targetTable: "sequence_enrollments",
+        targetId: sequenceId,
+        after: { sequence: loaded.sequence.name, emails: succeeded.map((s) => s.email) },
+      });
+    }
+
+    return NextResponse.json({
+      succeeded: succeeded.length,
+      failed: results.filter((r) => !r.ok).length,
+      results,
+    });
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    console.error("Enrollment failed:", message);
+    return NextResponse.json({ error: `Failed to enroll subscribers: ${message}` }, { status: 500 });
+  }
+}
@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from "next/server";
+import { recordAuditEvent } from "../../../../../../lib/audit";
+import { authorize } from "../../../../../../lib/auth";
+import { parseStage, saveEmailTemplate } from "../../../../../../lib/email-templates";
+import { getServiceSupabase } from "../../../../../../lib/supabase-admin";
+
+// Restores an older version by saving its content as a new version, so the
+// history stays append-only.
+export async function POST(req: NextRequest, { params }: { params: Promise<{ sequenceId: string; stage: string }> }) {
+  const { session, error: authError } = await authorize(req, "admin");
+  if (authError) return authError;
+  const { sequenceId, stage: stageParam } = await params;
+  const stage = parseStage(stageParam);
+
+  if (stage === null) {
+    return NextResponse.json({ error: "stage must be a positive integer" }, { status: 400 });
+  }
+
+  try {
+    const { version } = await req.json();
+    if (!Number.isInteger(version)) {
+      return NextResponse.json({ error: "version is required" }, { status: 400 });
+    }
+
+    const db = getServiceSupabase();
+    const [{ data: current, error: currentError }, { data: target, error: targetError }] = await Promise.all([
+      db.from("email_templates").select("*").eq("sequence_id", sequenceId).eq("stage", stage).maybeSingle(),
+      db.from("email_template_versions").select("*").eq("sequence_id", sequenceId).eq("stage", stage).eq("version", version).maybeSingle(),
+    ]);
+    if (currentError) throw currentError;
+    if (targetError) throw targetError;
+    if (!current || !target) return NextResponse.json({ error: "Version not found" }, { status: 404 });
+    if (current.version === version) {
+      return NextResponse.json({ error: `Version ${version} is already current` }, { status: 409 });
+    }
+
+    const data = await saveEmailTemplate(sequenceId, stage, { subject: target.subject, html: target.html }, session.username, version);
+
+    await recordAuditEvent(session, {
+      action: "template.rollback",
+      targetTable: "email_templates",
+      targetId: `${sequenceId}:${stage}`,
+      before: { version: current.version, subject: current.subject, html: current.html },
+      after: { version: data.version, restored_from: version, subject: data.subject, html: data.html },
+    });
+
+    return NextResponse.json({ template: data });
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    console.error("Template rollback failed:", message);
+    return NextResponse.json({ error: `Failed to roll back template: ${message}` }, { status: 500 });
+  }
+}
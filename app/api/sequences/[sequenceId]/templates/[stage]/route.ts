@@ -0,0 +1,118 @@
+import { NextRequest, NextResponse } from "next/server";
+import { recordAuditEvent } from "../../../../../lib/audit";
+import { authorize } from "../../../../../lib/auth";
+import { MAX_DELAY_DAYS, isValidDelay } from "../../../../../lib/email-sequences";
+import { parseStage, saveEmailTemplate } from "../../../../../lib/email-templates";
+import { validateTemplateContent } from "../../../../../lib/render-template";
+import { getServiceSupabase } from "../../../../../lib/supabase-admin";
+
+// Saves a new version of the control template ({ subject, html }), changes
+// its A/B traffic weight ({ controlWeight }) or the step's settings
+// ({ label, delayDays }).
+export async function PATCH(req: NextRequest, { params }: { params: Promise<{ sequenceId: string; stage: string }> }) {
+  const { session, error: authError } = await authorize(req, "operator");
+  if (authError) return authError;
+  const { sequenceId, stage: stageParam } = await params;
+  const stage = parseStage(stageParam);
+
+  if (stage === null) {
+    return NextResponse.json({ error: "stage must be a positive integer" }, { status: 400 });
+  }
+
+  try {
+    const body = await req.json();
+    const db = getServiceSupabase();
+    const { data: before, error: beforeError } = await db
+      .from("email_templates")
+      .select("*")
+      .eq("sequence_id", sequenceId)
+      .eq("stage", stage)
+      .maybeSingle();
+    if (beforeError) throw beforeError;
+    if (!before) return NextResponse.json({ error: "Template not found" }, { status: 404 });
+
+    if (body.controlWeight !== undefined) {
+      if (!Number.isInteger(body.controlWeight) || body.controlWeight < 0) {
+        return NextResponse.json({ error: "controlWeight must be a non-negative integer" }, { status: 400 });
+      }
+      const { data, error } = await db
+        .from("email_templates")
+        .update({ control_weight: body.controlWeight })
+        .eq("sequence_id", sequenceId)
+        .eq("stage", stage)
+        .select("*")
+        .single();
+      if (error) throw error;
+
+      await recordAuditEvent(session, {
+        action: "variant.update",
+        targetTable: "email_templates",
+        targetId: `${sequenceId}:${stage}`,
+        before: { control_weight: before.control_weight },
+        after: { control_weight: data.control_weight },
+      });
+      return NextResponse.json({ template: data });
+    }
+
+    if (body.label !== undefined || body.delayDays !== undefined) {
+      const updates: Record<string, unknown> = {};
+      if (body.label !== undefined) {
+        if (typeof body.label !== "string" || !body.label.trim() || body.label.trim().length > 100) {
+          return NextResponse.json({ error: "label must be 1–100 characters" }, { status: 400 });
+        }
+        updates.label = body.label.trim();
+      }
+      if (body.delayDays !== undefined) {
+        if (!isValidDelay(body.delayDays)) {
+          return NextResponse.json({ error: `delayDays must be a whole number from 0 to ${MAX_DELAY_DAYS}` }, { status: 400 });
+        }
+        updates.delay_days = body.delayDays;
+      }
+
+      const { data, error } = await db
+        .from("email_templates")
+        .update(updates)
+        .eq("sequence_id", sequenceId)
+        .eq("stage", stage)
+        .select("*")
+        .single();
+      if (error) throw error;
+
+      await recordAuditEvent(session, {
+        action: "sequence.step",
+        targetTable: "email_templates",
+        targetId: `${sequenceId}:${stage}`,
+        before: Object.fromEntries(Object.keys(updates).map((k) => [k, before[k]])),
+        after: updates,
+      });
+      return NextResponse.json({ template: data });
+    }
+
+    const { subject, html } = body;
+    const invalid = validateTemplateContent(subject, html);
+    if (invalid) {
+      return NextResponse.json({ error: invalid }, { status: 400 });
+    }
+
+    // Saving unchanged content would only add an identical version.
+    if (before.subject === subject.trim() && before.html === html) {
+      return NextResponse.json({ template: before });
+    }
+
+    const data = await saveEmailTemplate(sequenceId, stage, { subject: subject.trim(), html }, session.username);
+
+    await recordAuditEvent(session, {
+      action: "template.update",
+      targetTable: "email_templates",
+      targetId: `${sequenceId}:${stage}`,
+      before: { version: before.version, subject: before.subject, html: before.html },
+      after: { version: data.version, subject: data.subject, html: data.html },
+    });
+
+    return NextResponse.json({ template: data });
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    console.error("Template update failed:", message);
+    return NextResponse.json({ error: `Failed to update template: ${message}` }, { status: 500 });
+  }
+}
@@ -0,0 +1,80 @@
+import { NextRequest, NextResponse } from "next/server";
+import { recordAuditEvent } from "../../../../../../../lib/audit";
+import { authorize } from "../../../../../../../lib/auth";
+import { parseStage } from "../../../../../../../lib/email-templates";
+import { validateTemplateContent } from "../../../../../../../lib/render-template";
+import { getServiceSupabase } from "../../../../../../../lib/supabase-admin";
+
+// Edits a variant's content, weight or active flag. There is no DELETE:
+// email_sends rows reference the variant, so retiring it means active = false.
+export async function PATCH(req: NextRequest, { params }: { params: Promise<{ sequenceId: string; stage: string; id: string }> }) {
+  const { session, error: authError } = await authorize(req, "operator");
+  if (authError) return authError;
+  const { sequenceId, stage: stageParam, id } = await params;
+  const stage = parseStage(stageParam);
+
+  if (stage === null) {
+    return NextResponse.json({ error: "stage must be a positive integer" }, { status: 400 });
+  }
+
+  try {
+    const body = await req.json();
+    const db = getServiceSupabase();
+    const { data: before, error: beforeError } = await db
+      .from("email_template_variants")
+      .select("*")
+      .eq("id", id)
+      .eq("sequence_id", sequenceId)
+      .eq("stage", stage)
+      .maybeSingle();
+    if (beforeError) throw beforeError;
+    if (!before) return NextResponse.json({ error: "Variant not found" }, { status: 404 });
+
+    const updates: Record<string, unknown> = {};
+    if (body.subject !== undefined || body.html !== undefined) {
+      const subject = body.subject ?? before.subject;
+      const html = body.html ?? before.html;
+      const invalid = validateTemplateContent(subject, html);
+      if (invalid) return NextResponse.json({ error: invalid }, { status: 400 });
+      updates.subject = subject.trim();
+      updates.html = html;
+    }
+    if (body.weight !== undefined) {
+      if (!Number.isInteger(body.weight) || body.weight < 0) {
+        return NextResponse.json({ error: "weight must be a non-negative integer" }, { status: 400 });
+      }
+      updates.weight = body.weight;
+    }
+    if (body.active !== undefined) {
+      if (typeof body.active !== "boolean") {
+        return NextResponse.json({ error: "active must be a boolean" }, { status: 400 });
+      }
+      updates.active = body.active;
+    }
+    if (Object.keys(updates).length === 0) {
+      return NextResponse.json({ error: "Nothing to update" }, { status: 400 });
+    }
+
+    const { data, error } = await db
+      .from("email_template_variants")
+      .update({ ...updates, updated_at: new Date().toISOString() })
+      .eq("id", id)
+      .select("*")
+      .single();
+    if (error) throw error;
+
+    await recordAuditEvent(session, {
+      action: "variant.update",
+      targetTable: "email_template_variants",
+      targetId: id,
+      before: Object.fromEntries(Object.keys(updates).map((k) => [k, before[k]])),
+      after: Object.fromEntries(Object.keys(updates).map((k) => [k, data[k]])),
+    });
+
+    return NextResponse.json({ variant: data });
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    console.error("Variant update failed:", message);
+    return NextResponse.json({ error: `Failed to update variant: ${message}` }, { status: 500 });
+  }
+}
@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from "next/server";
+import { recordAuditEvent } from "../../../../../../lib/audit";
+import { authorize } from "../../../../../../lib/auth";
+import { parseStage } from "../../../../../../lib/email-templates";
+import { validateTemplateContent } from "../../../../../../lib/render-template";
+import { getServiceSupabase } from "../../../../../../lib/supabase-admin";
+
+const VARIANT_NAMES = "BCDEFGHIJKLMNOPQRSTUVWXYZ".split("");
+
+// Adds an A/B variant to a stage. The control template is "A"; variants take
+// the next free letter. The body defaults to a copy of the control's.
+export async function POST(req: NextRequest, { params }: { params: Promise<{ sequenceId: string; stage: string }> }) {
+  const { session, error: authError } = await authorize(req, "operator");
+  if (authError) return authError;
+  const { sequenceId, stage: stageParam } = await params;
+  const stage = parseStage(stageParam);
+
+  if (stage === null) {
+    return NextResponse.json({ error: "stage must be a positive integer" }, { status: 400 });
+  }
+
+  try {
+    const { subject, html, weight = 100 } = await req.json();
+    if (!Number.isInteger(weight) || weight < 0) {
+      return NextResponse.json({ error: "weight must be a non-negative integer" }, { status: 400 });
+    }
+
+    const db = getServiceSupabase();
+    const [{ data: template, error: templateError }, { data: existing, error: existingError }] = await Promise.all([
+      db.from("email_templates").select("html").eq("sequence_id", sequenceId).eq("stage", stage).maybeSingle(),
+      db.from("email_template_variants").select("name").eq("sequence_id", sequenceId).eq("stage", stage),
+    ]);
+    if (templateError) throw templateError;
+    if (existingError) throw existingError;
+    if (!template) return NextResponse.json({ error: "Template not found" }, { status: 404 });
+
+    const body = html ?? template.html;
+    const invalid = validateTemplateContent(subject, body);
+    if (invalid) {
+      return NextResponse.json({ error: invalid }, { status: 400 });
+    }
+
+    const taken = new Set((existing || []).map((v) => v.name));
+    const name = VARIANT_NAMES.find((n) => !taken.has(n));
+    if (!name) return NextResponse.json({ error: "This stage already has the maximum number of variants" }, { status: 409 });
+
+    const { data, error } = await db
+      .from("email_template_variants")
+      .insert({ sequence_id: sequenceId, stage, name, subject: subject.trim(), html: body, weight, created_by: session.username })
+      .select("*")
+      .single();
+    if (error) throw error;
+
+    await recordAuditEvent(session, {
+      action: "variant.create",
+      targetTable: "email_template_variants",
+      targetId: data.id,
+      after: { sequence_id: sequenceId, stage, name, subject: data.subject, weight },
+    });
+
+    return NextResponse.json({ variant: data }, { status: 201 });
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    console.error("Variant create failed:", message);
+    return NextResponse.json({ error: `Failed to create variant: ${message}` }, { status: 500 });
+  }
+}
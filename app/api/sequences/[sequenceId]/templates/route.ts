@@ -0,0 +1,81 @@
+import { NextRequest, NextResponse } from "next/server";
+import { recordAuditEvent } from "../../../../lib/audit";
+import { authorize } from "../../../../lib/auth";
+import { MAX_DELAY_DAYS, getSequence, isValidDelay } from "../../../../lib/email-sequences";
+import { addSequenceStep } from "../../../../lib/email-templates";
+import { validateTemplateContent } from "../../../../lib/render-template";
+import { getServiceSupabase } from "../../../../lib/supabase-admin";
+
+// Body for a sequence's first step when none is given; later steps start as
+// a copy of the step before.
+const STARTER_HTML = `<div style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; max-width: 600px; margin: 0 auto; padding: 40px 20px; color: #1a1a1a;">
+  <p style="font-size: 16px; line-height: 1.6; color: #333;">Hi {{first_name | "there"}},</p>
+
+  <p style="font-size: 16px; line-height: 1.6; color: #333;"></p>
+
+  <p style="font-size: 16px; line-height: 1.6; color: #333;">— Kofi & Curtis</p>
+
+  <hr style="border: none; border-top: 1px solid #eee; margin: 30px 0;" />
+  <p style="font-size: 12px; color: #999;">You're receiving this because you signed up for the Traqd waitlist. <a href="https://traqd.io" style="color: #999;">traqd.io</a> · <a href="{{unsubscribe_url}}" style="color: #999;">Unsubscribe</a></p>
+</div>`;
+
+// Appends a step ({ label, delayDays, subject?, html? }) to the end of the
+// sequence. The subject defaults to the label.
+export async function POST(req: NextRequest, { params }: { params: Promise<{ sequenceId: string }> }) {
+  const { session, error: authError } = await authorize(req, "operator");
+  if (authError) return authError;
+  const { sequenceId } = await params;
+
+  try {
+    const { label, delayDays, subject, html } = await req.json();
+    if (typeof label !== "string" || !label.trim() || label.trim().length > 100) {
+      return NextResponse.json({ error: "label must be 1–100 characters" }, { status: 400 });
+    }
+    if (!isValidDelay(delayDays)) {
+      return NextResponse.json({ error: `delayDays must be a whole number from 0 to ${MAX_DELAY_DAYS}` }, { status: 400 });
+    }
+
+    const loaded = await getSequence(sequenceId);
+    if (!loaded) return NextResponse.json({ error: "Sequence not found" }, { status: 404 });
+
+    const lastStep = loaded.steps[loaded.steps.length - 1];
+    let body = html;
+    if (body === undefined) {
+      body = STARTER_HTML;
+      if (lastStep) {
+        const { data, error } = await getServiceSupabase()
+          .from("email_templates")
+          .select("html")
+          .eq("sequence_id", sequenceId)
+          .eq("stage", lastStep.stage)
+          .single();
+        if (error) throw error;
+        body = data.html;
+      }
+    }
+    const content = { subject: subject ?? label.trim(), html: body };
+    const invalid = validateTemplateContent(content.subject, content.html);
+    if (invalid) {
+      return NextResponse.json({ error: invalid }, { status: 400 });
+    }
+
+    const data = await addSequenceStep(
+      sequenceId,
+      { label: label.trim(), delayDays, subject: content.subject.trim(), html: content.html },
+      session.username
+    );
+
+    await recordAuditEvent(session, {
+      action: "sequence.step",
+      targetTable: "email_templates",
+      targetId: `${sequenceId}:${data.stage}`,
+      after: { sequence: loaded.sequence.name, stage: data.stage, label: data.label, delay_days: data.delay_days, subject: data.subject },
+    });
+
+    return NextResponse.json({ template: data }, { status: 201 });
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    console.error("Add step failed:", message);
+    return NextResponse.json({ error: `Failed to add step: ${message}` }, { status: 500 });
+  }
+}
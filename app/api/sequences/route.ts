@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from "next/server";
+import { recordAuditEvent } from "../../lib/audit";
+import { authorize } from "../../lib/auth";
+import { getServiceSupabase } from "../../lib/supabase-admin";
+
+// Creates an empty sequence; steps are added with
+// POST /api/sequences/:sequenceId/templates.
+export async function POST(req: NextRequest) {
+  const { session, error: authError } = await authorize(req, "operator");
+  if (authError) return authError;
+
+  try {
+    const { name, description } = await req.json();
+    if (typeof name !== "string" || !name.trim() || name.trim().length > 100) {
+      return NextResponse.json({ error: "name must be 1–100 characters" }, { status: 400 });
+    }
+    if (description !== undefined && description !== null && typeof description !== "string") {
+      return NextResponse.json({ error: "description must be a string" }, { status: 400 });
+    }
+
+    const { data, error } = await getServiceSupabase()
+      .from("email_sequences")
+      .insert({ name: name.trim(), description: description?.trim() || null, created_by: session.username })
+      .select("*")
+      .single();
+    if (error?.code === "23505") {
+      return NextResponse.json({ error: `A sequence named "${name.trim()}" already exists` }, { status: 409 });
+    }
+    if (error) throw error;
+
+    await recordAuditEvent(session, {
+      action: "sequence.create",
+      targetTable: "email_sequences",
+      targetId: data.id,
+      after: { name: data.name, description: data.description },
+    });
+
+    return NextResponse.json({ sequence: data }, { status: 201 });
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    console.error("Sequence create failed:", message);
+    return NextResponse.json({ error: `Failed to create sequence: ${message}` }, { status: 500 });
+  }
+}
@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from "next/server";
+import { SUBSCRIBER_ACTOR, recordAuditEvent } from "../../../lib/audit";
+import { deliverStageEmail } from "../../../lib/email-delivery";
+import { getEnrolledSubscriber, getSequence } from "../../../lib/email-sequences";
+import { confirmSubscriber, verifyConfirmToken } from "../../../lib/email-signup";
+
+// Public: called by the /confirm page from the double opt-in email. Activates
+// the subscriber and sends them step 1 of the default sequence (the welcome
+// email). The signed token in the query string is the only credential.
+export async function POST(req: NextRequest) {
+  const id = req.nextUrl.searchParams.get("id");
+  const token = req.nextUrl.searchParams.get("token");
+
+  if (!id || !token || !verifyConfirmToken(id, token)) {
+    return NextResponse.json({ error: "Invalid confirmation link" }, { status: 400 });
+  }
+
+  try {
+    const result = await confirmSubscriber(id);
+    if (!result) return NextResponse.json({ error: "Subscriber not found" }, { status: 404 });
+    if (result.previousStatus !== "pending") {
+      return NextResponse.json({ success: true, alreadyConfirmed: true });
+    }
+
+    // The subscription stands even if the welcome email fails; the failure
+    // is recorded in email_sends like any other and the drip retries it.
+    let send: { id: string; status: string; error: string | null } | null = null;
+    try {
+      const loaded = await getSequence();
+      const enrolled = loaded && (await getEnrolledSubscriber(id, loaded.sequence.id));
+      if (loaded && loaded.steps.length > 0 && enrolled?.enrollment?.current_stage === 0) {
+        const delivery = await deliverStageEmail(result.subscriber, loaded.sequence.id, 1);
+        send = { id: delivery.send.id, status: delivery.send.status, error: delivery.error };
+      }
+    } catch (err: unknown) {
+      console.error(`Welcome email to ${result.subscriber.email} failed:`, err instanceof Error ? err.message : err);
+    }
+
+    await recordAuditEvent(SUBSCRIBER_ACTOR, {
+      action: "subscriber.confirm",
+      targetTable: "email_subscribers",
+      targetId: id,
+      before: { status: "pending" },
+      after: { status: "active", send_id: send?.id ?? null, send_status: send?.status ?? "failed", error: send?.error ?? null },
+    });
+
+    return NextResponse.json({ success: true, alreadyConfirmed: false });
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    console.error("Signup confirmation failed:", message);
+    return NextResponse.json({ error: "Could not confirm the subscription" }, { status: 500 });
+  }
+}
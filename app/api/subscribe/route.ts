@@ -0,0 +1,121 @@
+import { NextRequest, NextResponse } from "next/server";
+import { SUBSCRIBER_ACTOR, recordAuditEvent } from "../../lib/audit";
+import { UTM_FIELDS, createPendingSubscriber, sendConfirmationEmail, type Attribution } from "../../lib/email-signup";
+import { getSuppression } from "../../lib/email-suppression";
+import { clientIp, isRateLimited } from "../../lib/rate-limit";
+import { isValidEmail } from "../../lib/subscriber-import";
+
+const HOUR_MS = 60 * 60 * 1000;
+// Per client IP, against scripted signups.
+const SIGNUPS_PER_IP_PER_HOUR = 5;
+// Per address, so the form can't be used to flood someone's inbox with
+// confirmation emails.
+const CONFIRMATIONS_PER_EMAIL_PER_DAY = 3;
+// Bots fill in every field; people never see this one.
+const HONEYPOT_FIELD = "website";
+const MAX_FIELD_LENGTH = 200;
+
+// Whatever happened, the caller gets the same answer — the response must not
+// reveal whether an address is already on the list.
+const ACCEPTED = { success: true, message: "Check your inbox to confirm your subscription" };
+
+// The waitlist form is served from the marketing site, not this dashboard.
+function corsHeaders(): Record<string, string> {
+  return {
+    "Access-Control-Allow-Origin": process.env.CASPER_SIGNUP_ORIGIN || "*",
+    "Access-Control-Allow-Methods": "POST, OPTIONS",
+    "Access-Control-Allow-Headers": "Content-Type",
+  };
+}
+
+function respond(body: unknown, status = 200) {
+  return NextResponse.json(body, { status, headers: corsHeaders() });
+}
+
+function field(body: Record<string, unknown>, name: string): string {
+  const value = body[name];
+  return typeof value === "string" ? value.trim().slice(0, MAX_FIELD_LENGTH) : "";
+}
+
+// Accepts JSON or a plain form post. Returns null if the body can't be parsed.
+async function readBody(req: NextRequest): Promise<Record<string, unknown> | null> {
+  try {
+    if (req.headers.get("content-type")?.includes("application/json")) {
+      const body = await req.json();
+      return body && typeof body === "object" ? body : {};
+    }
+    return Object.fromEntries(await req.formData());
+  } catch {
+    return null;
+  }
+}
+
+function attributionFrom(body: Record<string, unknown>, req: NextRequest): Attribution {
+  const attribution: Attribution = {};
+  for (const name of UTM_FIELDS) {
+    if (field(body, name)) attribution[name] = field(body, name);
+  }
+  attribution.source = field(body, "source") || "waitlist";
+  const referrer = field(body, "referrer") || req.headers.get("referer")?.slice(0, MAX_FIELD_LENGTH);
+  if (referrer) attribution.referrer = referrer;
+  return attribution;
+}
+
+export function OPTIONS() {
+  return new NextResponse(null, { status: 204, headers: corsHeaders() });
+}
+
+// Public waitlist signup: creates a pending subscriber at stage 1 and sends
+// the double opt-in email. Confirming (POST /api/subscribe/confirm) activates
+// them and sends the welcome email.
+export async function POST(req: NextRequest) {
+  try {
+    const body = await readBody(req);
+    if (!body) {
+      return respond({ error: "Invalid request body" }, 400);
+    }
+
+    if (field(body, HONEYPOT_FIELD)) {
+      console.warn("Signup rejected by honeypot");
+      return respond(ACCEPTED);
+    }
+
+    const email = field(body, "email").toLowerCase();
+    if (!isValidEmail(email)) {
+      return respond({ error: "Enter a valid email address" }, 400);
+    }
+
+    if (await isRateLimited(`signup-ip:${clientIp(req)}`, SIGNUPS_PER_IP_PER_HOUR, HOUR_MS)) {
+      return respond({ error: "Too many signups from this network. Try again later." }, 429);
+    }
+
+    const attribution = attributionFrom(body, req);
+    const name = field(body, "name") || email.split("@")[0];
+    const { subscriber, created } = await createPendingSubscriber(email, name, attribution);
+
+    if (created) {
+      await recordAuditEvent(SUBSCRIBER_ACTOR, {
+        action: "subscriber.signup",
+        targetTable: "email_subscribers",
+        targetId: subscriber.id,
+        after: { email: subscriber.email, status: "pending", ...attribution },
+      });
+    }
+
+    // Only unconfirmed signups get (another) confirmation email; anyone
+    // already active, or on the suppression list, gets nothing.
+    if (
+      subscriber.status === "pending" &&
+      !(await getSuppression(subscriber.email)) &&
+      !(await isRateLimited(`signup-email:${subscriber.email}`, CONFIRMATIONS_PER_EMAIL_PER_DAY, 24 * HOUR_MS))
+    ) {
+      await sendConfirmationEmail(subscriber);
+    }
+
+    return respond(ACCEPTED);
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    console.error("Signup failed:", message);
+    return respond({ error: "Could not process the signup. Try again later." }, 500);
+  }
+}
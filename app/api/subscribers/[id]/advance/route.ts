@@ -0,0 +1,86 @@
+import { NextRequest, NextResponse } from "next/server";
+import { recordAuditEvent } from "../../../../lib/audit";
+import { authorize } from "../../../../lib/auth";
+import { deliverStageEmail } from "../../../../lib/email-delivery";
+import { EmailLintError } from "../../../../lib/email-html";
+import { claimEnrollment, getEnrolledSubscriber, getSequence, releaseEnrollment } from "../../../../lib/email-sequences";
+import { SuppressedAddressError } from "../../../../lib/email-suppression";
+import { getServiceSupabase } from "../../../../lib/supabase-admin";
+
+// Sends the subscriber's next email in a sequence (the default one if
+// sequenceId is omitted) and, only if it went out, advances them.
+export async function POST(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { session, error: authError } = await authorize(req, "operator");
+  if (authError) return authError;
+  const { id } = await params;
+
+  try {
+    const { sequenceId = null } = await req.json().catch(() => ({}));
+    const loaded = await getSequence(sequenceId);
+    if (!loaded) return NextResponse.json({ error: "Sequence not found" }, { status: 404 });
+    const { sequence, steps } = loaded;
+
+    const found = await getEnrolledSubscriber(id, sequence.id);
+    if (!found) return NextResponse.json({ error: "Subscriber not found" }, { status: 404 });
+    const { subscriber: sub, enrollment } = found;
+
+    if (sub.status !== "active") {
+      return NextResponse.json({ error: `Subscriber is ${sub.status}` }, { status: 409 });
+    }
+    if (!enrollment) {
+      return NextResponse.json({ error: `Subscriber isn't in ${sequence.name}` }, { status: 409 });
+    }
+    if (enrollment.status !== "active") {
+      return NextResponse.json({ error: `Subscriber is ${enrollment.status} in ${sequence.name}` }, { status: 409 });
+    }
+    if (enrollment.current_stage >= steps.length) {
+      return NextResponse.json({ error: `Subscriber has finished ${sequence.name}` }, { status: 409 });
+    }
+
+    // Without the claim, a second advance or a drip run at the same time
+    // would send this step again.
+    if (!(await claimEnrollment(enrollment))) {
+      return NextResponse.json({ error: `Another email to this subscriber in ${sequence.name} is being sent; try again shortly` }, { status: 409 });
+    }
+    const newStage = enrollment.current_stage + 1;
+    let result;
+    try {
+      result = await deliverStageEmail(sub, sequence.id, newStage);
+    } finally {
+      await releaseEnrollment(enrollment);
+    }
+
+    const { data: after } = await getServiceSupabase()
+      .from("sequence_enrollments")
+      .select("current_stage, status")
+      .eq("subscriber_id", id)
+      .eq("sequence_id", sequence.id)
+      .single();
+    await recordAuditEvent(session, {
+      action: "subscriber.advance",
+      targetTable: "sequence_enrollments",
+      targetId: id,
+      before: { sequence: sequence.name, current_stage: enrollment.current_stage, status: enrollment.status },
+      after: { ...after, send_id: result.send.id, send_status: result.send.status, error: result.error },
+    });
+
+    if (!result.ok) {
+      return NextResponse.json(
+        { error: `Email #${newStage} failed to send: ${result.error}`, send: result.send },
+        { status: 502 }
+      );
+    }
+
+    return NextResponse.json({ success: true, stage: after?.current_stage ?? newStage, status: after?.status, send: result.send });
+  } catch (error: unknown) {
+    if (error instanceof SuppressedAddressError) {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
+    if (error instanceof EmailLintError) {
+      return NextResponse.json({ error: error.message, issues: error.issues }, { status: 422 });
+    }
+    const message = error instanceof Error ? error.message : "Unknown error";
+    console.error("Advance stage failed:", message);
+    return NextResponse.json({ error: `Failed to advance subscriber: ${message}` }, { status: 500 });
+  }
+}
@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from "next/server";
+import { recordAuditEvent } from "../../../../lib/audit";
+import { authorize } from "../../../../lib/auth";
+import { getServiceSupabase } from "../../../../lib/supabase-admin";
+
+const MAX_NOTE_LENGTH = 5000;
+
+export async function POST(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { session, error: authError } = await authorize(req, "operator");
+  if (authError) return authError;
+  const { id } = await params;
+
+  try {
+    const { body } = await req.json();
+    if (typeof body !== "string" || !body.trim() || body.length > MAX_NOTE_LENGTH) {
+      return NextResponse.json({ error: `body must be 1–${MAX_NOTE_LENGTH} characters` }, { status: 400 });
+    }
+
+    const db = getServiceSupabase();
+    const { data: sub, error: subError } = await db.from("email_subscribers").select("id").eq("id", id).maybeSingle();
+    if (subError) throw subError;
+    if (!sub) return NextResponse.json({ error: "Subscriber not found" }, { status: 404 });
+
+    const { data, error } = await db
+      .from("subscriber_notes")
+      .insert({ subscriber_id: id, body: body.trim(), author: session.username })
+      .select("*")
+      .single();
+    if (error) throw error;
+
+    await recordAuditEvent(session, {
+      action: "subscriber.note",
+      targetTable: "subscriber_notes",
+      targetId: data.id,
+      after: { subscriber_id: id, body: data.body },
+    });
+
+    return NextResponse.json({ note: data });
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    console.error("Add note failed:", message);
+    return NextResponse.json({ error: `Failed to add note: ${message}` }, { status: 500 });
+  }
+}
@@ -0,0 +1,73 @@
+import { NextRequest, NextResponse } from "next/server";
+import { recordAuditEvent } from "../../../../lib/audit";
+import { authorize } from "../../../../lib/auth";
+import { deliverStageEmail } from "../../../../lib/email-delivery";
+import { EmailLintError } from "../../../../lib/email-html";
+import { claimEnrollment, getEnrolledSubscriber, getSequence, releaseEnrollment } from "../../../../lib/email-sequences";
+import { SuppressedAddressError } from "../../../../lib/email-suppression";
+
+// Sends a step of a sequence the subscriber has already reached again, with
+// today's template. Their stage doesn't change (record_email_send only moves
+// forward). Paused and completed enrollments can be resent to.
+export async function POST(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { session, error: authError } = await authorize(req, "operator");
+  if (authError) return authError;
+  const { id } = await params;
+
+  try {
+    const { stage, sequenceId = null } = await req.json();
+    const loaded = await getSequence(sequenceId);
+    if (!loaded) return NextResponse.json({ error: "Sequence not found" }, { status: 404 });
+    const { sequence } = loaded;
+
+    const found = await getEnrolledSubscriber(id, sequence.id);
+    if (!found) return NextResponse.json({ error: "Subscriber not found" }, { status: 404 });
+    const { subscriber: sub, enrollment } = found;
+
+    if (sub.status !== "active") {
+      return NextResponse.json({ error: `Subscriber is ${sub.status}` }, { status: 409 });
+    }
+    if (!enrollment) {
+      return NextResponse.json({ error: `Subscriber isn't in ${sequence.name}` }, { status: 409 });
+    }
+    if (!Number.isInteger(stage) || stage < 1 || stage > enrollment.current_stage) {
+      return NextResponse.json(
+        { error: enrollment.current_stage === 0 ? "Nothing has been sent yet" : `stage must be between 1 and ${enrollment.current_stage}` },
+        { status: 400 }
+      );
+    }
+
+    // Two resends, or a resend and an advance, at once would both go out.
+    if (!(await claimEnrollment(enrollment))) {
+      return NextResponse.json({ error: `Another email to this subscriber in ${sequence.name} is being sent; try again shortly` }, { status: 409 });
+    }
+    let result;
+    try {
+      result = await deliverStageEmail(sub, sequence.id, stage);
+    } finally {
+      await releaseEnrollment(enrollment);
+    }
+
+    await recordAuditEvent(session, {
+      action: "email.resend",
+      targetTable: "email_subscribers",
+      targetId: id,
+      after: { sequence: sequence.name, email_number: stage, send_id: result.send.id, send_status: result.send.status, error: result.error },
+    });
+
+    if (!result.ok) {
+      return NextResponse.json({ error: `Email #${stage} failed to send: ${result.error}`, send: result.send }, { status: 502 });
+    }
+    return NextResponse.json({ success: true, send: result.send });
+  } catch (error: unknown) {
+    if (error instanceof SuppressedAddressError) {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
+    if (error instanceof EmailLintError) {
+      return NextResponse.json({ error: error.message, issues: error.issues }, { status: 422 });
+    }
+    const message = error instanceof Error ? error.message : "Unknown error";
+    console.error("Resend failed:", message);
+    return NextResponse.json({ error: `Failed to resend email: ${message}` }, { status: 500 });
+  }
+}
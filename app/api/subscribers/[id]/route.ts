@@ -0,0 +1,100 @@
+import { NextRequest, NextResponse } from "next/server";
+import { recordAuditEvent } from "../../../lib/audit";
+import { authorize } from "../../../lib/auth";
+import { getEnrolledSubscriber, getSequence } from "../../../lib/email-sequences";
+import { getServiceSupabase } from "../../../lib/supabase-admin";
+
+const SETTABLE_STATUSES = ["active", "paused"];
+
+// The subscriber page's reads of tables the anon key can't see: the
+// subscriber, their sends with the html as sent, opens and clicks, notes and
+// bounces.
+export async function GET(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { error: authError } = await authorize(req, "viewer");
+  if (authError) return authError;
+  const { id } = await params;
+
+  try {
+    const db = getServiceSupabase();
+    const [subRes, sendRes, noteRes, bounceRes] = await Promise.all([
+      db.from("email_subscribers").select("*").eq("id", id).maybeSingle(),
+      db.from("email_sends").select("*").eq("subscriber_id", id).order("sent_at", { ascending: false }),
+      db.from("subscriber_notes").select("*").eq("subscriber_id", id).order("created_at", { ascending: false }),
+      db.from("email_bounces").select("id, kind, bounce_type, send_id, status_code, diagnostic, received_at").eq("subscriber_id", id),
+    ]);
+    for (const res of [subRes, sendRes, noteRes, bounceRes]) if (res.error) throw res.error;
+    if (!subRes.data) return NextResponse.json({ error: "Subscriber not found" }, { status: 404 });
+
+    const sendIds = (sendRes.data || []).map((s) => s.id as string);
+    const { data: events, error: eventError } = sendIds.length
+      ? await db.from("email_events").select("id, send_id, event_type, url, created_at").in("send_id", sendIds)
+      : { data: [], error: null };
+    if (eventError) throw eventError;
+
+    return NextResponse.json({ subscriber: subRes.data, sends: sendRes.data, events, notes: noteRes.data, bounces: bounceRes.data });
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    console.error("Subscriber lookup failed:", message);
+    return NextResponse.json({ error: `Failed to load subscriber: ${message}` }, { status: 500 });
+  }
+}
+
+// Pauses or resumes the subscriber in one sequence (the default one if
+// sequenceId is omitted).
+export async function PATCH(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { session, error: authError } = await authorize(req, "operator");
+  if (authError) return authError;
+  const { id } = await params;
+
+  try {
+    const { status, sequenceId = null } = await req.json();
+    if (!SETTABLE_STATUSES.includes(status)) {
+      return NextResponse.json({ error: "status must be active or paused" }, { status: 400 });
+    }
+
+    const loaded = await getSequence(sequenceId);
+    if (!loaded) return NextResponse.json({ error: "Sequence not found" }, { status: 404 });
+    const found = await getEnrolledSubscriber(id, loaded.sequence.id);
+    if (!found) return NextResponse.json({ error: "Subscriber not found" }, { status: 404 });
+    const { subscriber, enrollment: before } = found;
+
+    if (subscriber.status === "unsubscribed") {
+      return NextResponse.json({ error: "Subscriber has unsubscribed and cannot be resumed" }, { status: 409 });
+    }
+    if (subscriber.status === "suppressed") {
+      return NextResponse.json({ error: "Subscriber's address bounced or reported spam and cannot be resumed" }, { status: 409 });
+    }
+    if (subscriber.status === "pending") {
+      return NextResponse.json({ error: "Subscriber hasn't confirmed their email yet" }, { status: 409 });
+    }
+    if (!before) {
+      return NextResponse.json({ error: `Subscriber isn't in ${loaded.sequence.name}` }, { status: 409 });
+    }
+    if (before.status === "completed") {
+      return NextResponse.json({ error: `Subscriber has finished ${loaded.sequence.name}` }, { status: 409 });
+    }
+
+    const { data, error } = await getServiceSupabase()
+      .from("sequence_enrollments")
+      .update({ status })
+      .eq("subscriber_id", id)
+      .eq("sequence_id", loaded.sequence.id)
+      .select("*")
+      .single();
+    if (error) throw error;
+
+    await recordAuditEvent(session, {
+      action: "subscriber.status",
+      targetTable: "sequence_enrollments",
+      targetId: id,
+      before: { sequence: loaded.sequence.name, status: before.status },
+      after: { sequence: loaded.sequence.name, status: data.status },
+    });
+
+    return NextResponse.json({ enrollment: data });
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    console.error("Subscriber update failed:", message);
+    return NextResponse.json({ error: `Failed to update subscriber: ${message}` }, { status: 500 });
+  }
+}
@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from "next/server";
+import { recordAuditEvent } from "../../../../lib/audit";
+import { authorize } from "../../../../lib/auth";
+import { normalizeTags } from "../../../../lib/email-segments";
+import { getServiceSupabase } from "../../../../lib/supabase-admin";
+
+const MAX_TAGS = 50;
+const MAX_TAG_LENGTH = 50;
+
+// Replaces a subscriber's tags ({ tags: string[] }).
+export async function PUT(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { session, error: authError } = await authorize(req, "operator");
+  if (authError) return authError;
+  const { id } = await params;
+
+  try {
+    const { tags } = await req.json();
+    if (!Array.isArray(tags) || !tags.every((t) => typeof t === "string")) {
+      return NextResponse.json({ error: "tags must be a list of strings" }, { status: 400 });
+    }
+    const normalized = normalizeTags(tags);
+    if (normalized.length > MAX_TAGS || normalized.some((t) => t.length > MAX_TAG_LENGTH)) {
+      return NextResponse.json({ error: `At most ${MAX_TAGS} tags of up to ${MAX_TAG_LENGTH} characters` }, { status: 400 });
+    }
+
+    const db = getServiceSupabase();
+    const { data: before, error: beforeError } = await db.from("email_subscribers").select("tags").eq("id", id).maybeSingle();
+    if (beforeError) throw beforeError;
+    if (!before) return NextResponse.json({ error: "Subscriber not found" }, { status: 404 });
+
+    const { data, error } = await db.from("email_subscribers").update({ tags: normalized }).eq("id", id).select("id, tags").single();
+    if (error) throw error;
+
+    await recordAuditEvent(session, {
+      action: "subscriber.tags",
+      targetTable: "email_subscribers",
+      targetId: id,
+      before: { tags: before.tags },
+      after: { tags: data.tags },
+    });
+
+    return NextResponse.json({ subscriber: data });
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    console.error("Tag update failed:", message);
+    return NextResponse.json({ error: `Failed to update tags: ${message}` }, { status: 500 });
+  }
+}
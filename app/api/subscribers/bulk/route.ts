@@ -0,0 +1,156 @@
+import { NextRequest, NextResponse } from "next/server";
+import { recordAuditEvent } from "../../../lib/audit";
+import { authorize } from "../../../lib/auth";
+import { enrollmentStatus } from "../../../lib/drip-schedule";
+import { getSequence } from "../../../lib/email-sequences";
+import { hasRole } from "../../../lib/roles";
+import {
+  BULK_ACTIONS,
+  MAX_BULK_IDS,
+  checkBulkAction,
+  isBulkAction,
+  statusAfterStageChange,
+  type BulkResult,
+  type BulkSubscriber,
+} from "../../../lib/subscriber-bulk";
+import { getServiceSupabase } from "../../../lib/supabase-admin";
+
+// Applies one action to many subscribers' enrollment in a sequence (the
+// default one if sequenceId is omitted), or deletes them outright. Rows the
+// action doesn't apply to are reported as failures with a reason rather than
+// failing the batch.
+export async function POST(req: NextRequest) {
+  const { session, error: authError } = await authorize(req, "operator");
+  if (authError) return authError;
+
+  try {
+    const { action, ids, stage = null, sequenceId = null } = await req.json();
+
+    if (!isBulkAction(action)) {
+      return NextResponse.json({ error: `action must be one of ${Object.keys(BULK_ACTIONS).join(", ")}` }, { status: 400 });
+    }
+    const info = BULK_ACTIONS[action];
+    if (!hasRole(session.role, info.role)) {
+      return NextResponse.json({ error: `This action requires the ${info.role} role` }, { status: 403 });
+    }
+    if (!Array.isArray(ids) || ids.length === 0 || !ids.every((id) => typeof id === "string")) {
+      return NextResponse.json({ error: "ids must be a non-empty array of subscriber ids" }, { status: 400 });
+    }
+    if (ids.length > MAX_BULK_IDS) {
+      return NextResponse.json({ error: `Select at most ${MAX_BULK_IDS} subscribers at a time` }, { status: 400 });
+    }
+
+    const loaded = await getSequence(sequenceId);
+    if (!loaded) return NextResponse.json({ error: "Sequence not found" }, { status: 404 });
+    const { sequence, steps } = loaded;
+    if (info.needsStage && (!Number.isInteger(stage) || stage < 1 || stage > steps.length)) {
+      return NextResponse.json({ error: `stage must be between 1 and ${steps.length}` }, { status: 400 });
+    }
+
+    const db = getServiceSupabase();
+    const [{ data: rows, error: loadError }, { data: enrollments, error: enrollmentError }] = await Promise.all([
+      db.from("email_subscribers").select("id, email, status").in("id", ids),
+      db.from("sequence_enrollments").select("subscriber_id, current_stage, status").eq("sequence_id", sequence.id).in("subscriber_id", ids),
+    ]);
+    if (loadError) throw loadError;
+    if (enrollmentError) throw enrollmentError;
+
+    const enrollmentsById = new Map((enrollments || []).map((e) => [e.subscriber_id as string, e]));
+    const found = new Map((rows || []).map((row) => [row.id as string, row]));
+    const results: BulkResult[] = [];
+    const applicable: BulkSubscriber[] = [];
+    for (const id of new Set<string>(ids)) {
+      const row = found.get(id);
+      const enrollment = enrollmentsById.get(id);
+      const sub: BulkSubscriber | null = row
+        ? { id, email: row.email, status: enrollmentStatus(row.status, enrollment?.status ?? "active"), current_stage: enrollment?.current_stage ?? 0 }
+        : null;
+      const reason = !sub
+        ? "Subscriber not found"
+        : !enrollment && action !== "delete"
+          ? `Not in ${sequence.name}`
+          : checkBulkAction(action, sub, stage);
+      if (sub && !reason) applicable.push(sub);
+      else results.push({ id, email: sub?.email ?? "", ok: false, error: reason });
+    }
+
+    // Each update re-checks the precondition in its WHERE clause, so a row
+    // changed since it was loaded is left alone and reported as a failure.
+    const changed = new Set<string>();
+    const applicableIds = applicable.map((s) => s.id);
+    if (applicable.length > 0) {
+      if (action === "delete") {
+        const { data, error } = await db.from("email_subscribers").delete().in("id", applicableIds).select("id");
+        if (error) throw error;
+        for (const row of data || []) changed.add(row.id);
+      } else if (action === "pause" || action === "resume") {
+        const { data, error } = await db
+          .from("sequence_enrollments")
+          .update({ status: action === "pause" ? "paused" : "active" })
+          .eq("sequence_id", sequence.id)
+          .in("subscriber_id", applicableIds)
+          .eq("status", action === "pause" ? "active" : "paused")
+          .select("subscriber_id");
+        if (error) throw error;
+        for (const row of data || []) changed.add(row.subscriber_id);
+      } else {
+        // Group by resulting status: moving to the last step completes an
+        // enrollment, moving a completed one back reactivates it.
+        const byStatus = new Map<string, string[]>();
+        for (const sub of applicable) {
+          const status = statusAfterStageChange(sub, stage, steps.length);
+          byStatus.set(status, [...(byStatus.get(status) ?? []), sub.id]);
+        }
+        for (const [status, groupIds] of byStatus) {
+          const { data, error } = await db
+            .from("sequence_enrollments")
+            .update({ current_stage: stage, status })
+            .eq("sequence_id", sequence.id)
+            .in("subscriber_id", groupIds)
+            .filter("current_stage", action === "advance" ? "lt" : "gt", stage)
+            .select("subscriber_id");
+          if (error) throw error;
+          for (const row of data || []) changed.add(row.subscriber_id);
+        }
+      }
+    }
+
+    for (const sub of applicable) {
+      results.push({ id: sub.id, email: sub.email, ok: changed.has(sub.id), error: changed.has(sub.id) ? null : "Changed by someone else; try again" });
+    }
+
+    const succeeded = applicable.filter((s) => changed.has(s.id));
+    if (succeeded.length > 0) {
+      await recordAuditEvent(session, {
+        action: "subscriber.bulk",
+        targetTable: "email_subscribers",
+        targetId: null,
+        before: Object.fromEntries(succeeded.map((s) => [s.email, { status: s.status, current_stage: s.current_stage }])),
+        after: Object.fromEntries([
+          ["action", info.needsStage ? `${action} to stage ${stage}` : action],
+          ["sequence", action === "delete" ? null : sequence.name],
+          ...succeeded.map((s) => [
+            s.email,
+            action === "delete"
+              ? null
+              : action === "pause" || action === "resume"
+                ? { status: action === "pause" ? "paused" : "active", current_stage: s.current_stage }
+                : { status: statusAfterStageChange(s, stage, steps.length), current_stage: stage },
+          ]),
+        ]),
+      });
+    }
+
+    return NextResponse.json({
+      action,
+      stage: info.needsStage ? stage : null,
+      succeeded: succeeded.length,
+      failed: results.filter((r) => !r.ok).length,
+      results,
+    });
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    console.error("Bulk subscriber action failed:", message);
+    return NextResponse.json({ error: `Bulk action failed: ${message}` }, { status: 500 });
+  }
+}
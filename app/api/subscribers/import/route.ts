@@ -0,0 +1,113 @@
+import { NextRequest, NextResponse } from "next/server";
+import { recordAuditEvent } from "../../../lib/audit";
+import { authorize } from "../../../lib/auth";
+import { getSequence } from "../../../lib/email-sequences";
+import { getSuppressedEmails } from "../../../lib/email-suppression";
+import { MAX_IMPORT_ROWS, planImport, validateMapping, type ColumnTarget } from "../../../lib/subscriber-import";
+import { chunked, getServiceSupabase } from "../../../lib/supabase-admin";
+
+function isStringMatrix(value: unknown): value is string[][] {
+  return Array.isArray(value) && value.every((row) => Array.isArray(row) && row.every((cell) => typeof cell === "string"));
+}
+
+// Addresses already subscribed, lower-cased. Looks up each candidate in both
+// its original and lower-cased form, since older rows weren't normalized.
+async function getExistingEmails(candidates: string[]): Promise<Set<string>> {
+  const db = getServiceSupabase();
+  const lookups = [...new Set(candidates.flatMap((email) => [email.trim(), email.trim().toLowerCase()]))];
+  const existing = new Set<string>();
+  for (const chunk of chunked(lookups)) {
+    const { data, error } = await db.from("email_subscribers").select("email").in("email", chunk);
+    if (error) throw error;
+    for (const row of data || []) existing.add((row.email as string).toLowerCase());
+  }
+  return existing;
+}
+
+// Imports parsed CSV rows and enrolls the new subscribers in a sequence (the
+// default one if sequenceId is omitted). With dryRun the plan is returned
+// without writing, so the Email page can show what will be imported and
+// skipped first.
+export async function POST(req: NextRequest) {
+  const { session, error: authError } = await authorize(req, "operator");
+  if (authError) return authError;
+
+  try {
+    const { header, rows, targets, dryRun, sequenceId = null } = await req.json();
+
+    if (!Array.isArray(header) || !header.every((h) => typeof h === "string") || !isStringMatrix(rows) || !Array.isArray(targets)) {
+      return NextResponse.json({ error: "Expected header, rows and targets arrays" }, { status: 400 });
+    }
+    if (rows.length === 0) {
+      return NextResponse.json({ error: "The file has no data rows" }, { status: 400 });
+    }
+    if (rows.length > MAX_IMPORT_ROWS) {
+      return NextResponse.json({ error: `Import at most ${MAX_IMPORT_ROWS} rows at a time` }, { status: 400 });
+    }
+    const invalid = validateMapping(header, targets as ColumnTarget[]);
+    if (invalid) {
+      return NextResponse.json({ error: invalid }, { status: 400 });
+    }
+
+    const loaded = await getSequence(sequenceId);
+    if (!loaded) {
+      return NextResponse.json({ error: "Sequence not found" }, { status: 404 });
+    }
+
+    const emailColumn = (targets as ColumnTarget[]).indexOf("email");
+    const candidates = rows.map((row) => row[emailColumn] ?? "").filter(Boolean);
+    const [existing, suppressed] = await Promise.all([getExistingEmails(candidates), getSuppressedEmails(candidates)]);
+    const today = new Date().toISOString().slice(0, 10);
+    const plan = planImport(header, rows, targets as ColumnTarget[], existing, suppressed, today, loaded.steps.length);
+
+    if (dryRun || plan.subscribers.length === 0) {
+      return NextResponse.json({ dryRun: true, toImport: plan.subscribers.length, sample: plan.subscribers.slice(0, 5), skipped: plan.skipped });
+    }
+
+    // ignoreDuplicates lets the unique constraint catch anyone added since
+    // the lookup above instead of failing the whole batch.
+    const db = getServiceSupabase();
+    const { data, error } = await db
+      .from("email_subscribers")
+      .upsert(
+        plan.subscribers.map(({ current_stage: _stage, status: _status, ...subscriber }) => ({ ...subscriber, status: "active" })),
+        { onConflict: "email", ignoreDuplicates: true }
+      )
+      .select("id, email");
+    if (error) throw error;
+
+    const inserted = new Set((data || []).map((row) => row.email as string));
+    const planned = new Map(plan.subscribers.map((s) => [s.email, s]));
+    // Step delays count from the signup date, as if they'd been enrolled then.
+    const { error: enrollError } = await db.from("sequence_enrollments").insert(
+      (data || []).map((row) => {
+        const sub = planned.get(row.email)!;
+        return { subscriber_id: row.id, sequence_id: loaded.sequence.id, current_stage: sub.current_stage, status: sub.status, enrolled_at: `${sub.signup_date}T00:00:00Z` };
+      })
+    );
+    if (enrollError) throw enrollError;
+    const skipped = [
+      ...plan.skipped,
+      ...plan.subscribers
+        .filter((s) => !inserted.has(s.email))
+        .map((s) => ({
+          row: rows.findIndex((row) => (row[emailColumn] ?? "").trim().toLowerCase() === s.email) + 1,
+          email: s.email,
+          reason: "Already a subscriber",
+        })),
+    ];
+
+    await recordAuditEvent(session, {
+      action: "subscriber.import",
+      targetTable: "email_subscribers",
+      targetId: null,
+      after: { sequence: loaded.sequence.name, imported: inserted.size, skipped: skipped.length, emails: [...inserted] },
+    });
+
+    return NextResponse.json({ dryRun: false, imported: inserted.size, skipped });
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    console.error("Subscriber import failed:", message);
+    return NextResponse.json({ error: `Failed to import subscribers: ${message}` }, { status: 500 });
+  }
+}
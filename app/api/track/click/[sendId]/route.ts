@@ -0,0 +1,15 @@
+import { NextRequest, NextResponse } from "next/server";
+import { isSendId, recordEmailEvent, verifyClick } from "../../../../lib/email-tracking";
+
+export async function GET(req: NextRequest, { params }: { params: Promise<{ sendId: string }> }) {
+  const { sendId } = await params;
+  const url = req.nextUrl.searchParams.get("url");
+  const signature = req.nextUrl.searchParams.get("sig");
+
+  if (!isSendId(sendId) || !url || !signature || !verifyClick(sendId, url, signature)) {
+    return NextResponse.json({ error: "Invalid tracking link" }, { status: 400 });
+  }
+
+  await recordEmailEvent(sendId, "click", url, req.headers.get("user-agent"));
+  return NextResponse.redirect(url, 302);
+}
@@ -0,0 +1,19 @@
+import { NextRequest, NextResponse } from "next/server";
+import { TRACKING_PIXEL, isSendId, recordEmailEvent } from "../../../../lib/email-tracking";
+
+// Tracking pixel embedded in every nurture email. Always answers with the GIF
+// so a bad id or a database hiccup never shows a broken image to the reader.
+export async function GET(req: NextRequest, { params }: { params: Promise<{ sendId: string }> }) {
+  const { sendId } = await params;
+
+  if (isSendId(sendId)) {
+    await recordEmailEvent(sendId, "open", null, req.headers.get("user-agent"));
+  }
+
+  return new NextResponse(new Uint8Array(TRACKING_PIXEL), {
+    headers: {
+      "Content-Type": "image/gif",
+      "Cache-Control": "no-store, no-cache, must-revalidate, max-age=0",
+    },
+  });
+}
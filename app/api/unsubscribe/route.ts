@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from "next/server";
+import { SUBSCRIBER_ACTOR, recordAuditEvent } from "../../lib/audit";
+import { unsubscribeSubscriber, verifyUnsubscribeToken } from "../../lib/email-suppression";
+
+// Public: called by the /unsubscribe page and, as a one-click
+// List-Unsubscribe-Post (RFC 8058), directly by mail clients. The signed
+// token in the query string is the only credential.
+export async function POST(req: NextRequest) {
+  const id = req.nextUrl.searchParams.get("id");
+  const token = req.nextUrl.searchParams.get("token");
+
+  if (!id || !token || !verifyUnsubscribeToken(id, token)) {
+    return NextResponse.json({ error: "Invalid unsubscribe link" }, { status: 400 });
+  }
+
+  try {
+    const result = await unsubscribeSubscriber(id);
+    if (!result) return NextResponse.json({ error: "Subscriber not found" }, { status: 404 });
+
+    if (result.previousStatus !== "unsubscribed") {
+      await recordAuditEvent(SUBSCRIBER_ACTOR, {
+        action: "subscriber.unsubscribe",
+        targetTable: "email_subscribers",
+        targetId: id,
+        before: { status: result.previousStatus },
+        after: { status: "unsubscribed" },
+      });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    console.error("Unsubscribe failed:", message);
+    return NextResponse.json({ error: "Could not process the unsubscribe request" }, { status: 500 });
+  }
+}
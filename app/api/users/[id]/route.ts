@@ -0,0 +1,106 @@
+import { NextRequest, NextResponse } from "next/server";
+import { recordAuditEvent } from "../../../lib/audit";
+import { authorize, hashPassword } from "../../../lib/auth";
+import { isRole } from "../../../lib/roles";
+import { getServiceSupabase } from "../../../lib/supabase-admin";
+
+const USER_COLUMNS = "id, username, display_name, role, disabled, created_at, updated_at";
+
+export async function PATCH(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { session, error: authError } = await authorize(req, "admin");
+  if (authError) return authError;
+  const { id } = await params;
+
+  try {
+    const { displayName, password, role, disabled } = await req.json();
+    const updates: Record<string, unknown> = { updated_at: new Date().toISOString() };
+
+    if (displayName !== undefined) {
+      if (typeof displayName !== "string" || !displayName.trim()) {
+        return NextResponse.json({ error: "displayName cannot be empty" }, { status: 400 });
+      }
+      updates.display_name = displayName.trim();
+    }
+    if (password !== undefined) {
+      if (typeof password !== "string" || password.length < 10) {
+        return NextResponse.json({ error: "password must be at least 10 characters" }, { status: 400 });
+      }
+      updates.password_hash = hashPassword(password);
+    }
+    if (role !== undefined) {
+      if (!isRole(role)) {
+        return NextResponse.json({ error: "role must be viewer, operator or admin" }, { status: 400 });
+      }
+      if (id === session.userId && role !== "admin") {
+        return NextResponse.json({ error: "You cannot remove your own admin role" }, { status: 400 });
+      }
+      updates.role = role;
+    }
+    if (disabled !== undefined) {
+      if (typeof disabled !== "boolean") {
+        return NextResponse.json({ error: "disabled must be a boolean" }, { status: 400 });
+      }
+      if (id === session.userId && disabled) {
+        return NextResponse.json({ error: "You cannot disable your own account" }, { status: 400 });
+      }
+      updates.disabled = disabled;
+    }
+
+    const db = getServiceSupabase();
+    const { data: before, error: beforeError } = await db.from("dashboard_users").select(USER_COLUMNS).eq("id", id).maybeSingle();
+    if (beforeError) throw beforeError;
+    if (!before) return NextResponse.json({ error: "User not found" }, { status: 404 });
+
+    const { data, error } = await db
+      .from("dashboard_users")
+      .update(updates)
+      .eq("id", id)
+      .select(USER_COLUMNS)
+      .single();
+    if (error) throw error;
+
+    await recordAuditEvent(session, {
+      action: "user.update",
+      targetTable: "dashboard_users",
+      targetId: id,
+      before,
+      // Never log the hash itself, only that it changed.
+      after: password !== undefined ? { ...data, password_changed: true } : data,
+    });
+
+    return NextResponse.json({ user: data });
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    console.error("Update user failed:", message);
+    return NextResponse.json({ error: `Failed to update user: ${message}` }, { status: 500 });
+  }
+}
+
+export async function DELETE(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { session, error: authError } = await authorize(req, "admin");
+  if (authError) return authError;
+  const { id } = await params;
+
+  if (id === session.userId) {
+    return NextResponse.json({ error: "You cannot delete your own account" }, { status: 400 });
+  }
+
+  const db = getServiceSupabase();
+  const { data: before } = await db.from("dashboard_users").select(USER_COLUMNS).eq("id", id).maybeSingle();
+  if (!before) return NextResponse.json({ error: "User not found" }, { status: 404 });
+
+  const { error } = await db.from("dashboard_users").delete().eq("id", id);
+  if (error) {
+    console.error("Delete user failed:", error.message);
+    return NextResponse.json({ error: `Failed to delete user: ${error.message}` }, { status: 500 });
+  }
+
+  await recordAuditEvent(session, {
+    action: "user.delete",
+    targetTable: "dashboard_users",
+    targetId: id,
+    before,
+  });
+
+  return NextResponse.json({ success: true });
+}
@@ -0,0 +1,78 @@
+import { NextRequest, NextResponse } from "next/server";
+import { recordAuditEvent } from "../../lib/audit";
+import { authorize, hashPassword } from "../../lib/auth";
+import { isRole } from "../../lib/roles";
+import { getServiceSupabase } from "../../lib/supabase-admin";
+
+const USER_COLUMNS = "id, username, display_name, role, disabled, created_at, updated_at";
+
+export async function GET(req: NextRequest) {
+  const { error: authError } = await authorize(req, "admin");
+  if (authError) return authError;
+
+  const { data, error } = await getServiceSupabase()
+    .from("dashboard_users")
+    .select(USER_COLUMNS)
+    .order("created_at", { ascending: true });
+
+  if (error) {
+    console.error("Failed to list users:", error.message);
+    return NextResponse.json({ error: "Failed to list users" }, { status: 500 });
+  }
+
+  return NextResponse.json({ users: data });
+}
+
+export async function POST(req: NextRequest) {
+  const { session, error: authError } = await authorize(req, "admin");
+  if (authError) return authError;
+
+  try {
+    const { username, displayName, password, role } = await req.json();
+
+    if (typeof username !== "string" || !/^[a-z0-9._-]{2,32}$/i.test(username.trim())) {
+      return NextResponse.json(
+        { error: "username must be 2-32 characters: letters, numbers, dot, dash or underscore" },
+        { status: 400 }
+      );
+    }
+    if (typeof password !== "string" || password.length < 10) {
+      return NextResponse.json({ error: "password must be at least 10 characters" }, { status: 400 });
+    }
+    if (!isRole(role)) {
+      return NextResponse.json({ error: "role must be viewer, operator or admin" }, { status: 400 });
+    }
+
+    const { data, error } = await getServiceSupabase()
+      .from("dashboard_users")
+      .insert({
+        username: username.trim().toLowerCase(),
+        display_name: typeof displayName === "string" && displayName.trim() ? displayName.trim() : username.trim(),
+        password_hash: hashPassword(password),
+        role,
+      })
+      .select(USER_COLUMNS)
+      .single();
+
+    if (error) {
+      const status = error.code === "23505" ? 409 : 500;
+      return NextResponse.json(
+        { error: status === 409 ? `User "${username}" already exists` : `Failed to create user: ${error.message}` },
+        { status }
+      );
+    }
+
+    await recordAuditEvent(session, {
+      action: "user.create",
+      targetTable: "dashboard_users",
+      targetId: data.id,
+      after: data,
+    });
+
+    return NextResponse.json({ user: data }, { status: 201 });
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    console.error("Create user failed:", message);
+    return NextResponse.json({ error: `Failed to create user: ${message}` }, { status: 500 });
+  }
+}
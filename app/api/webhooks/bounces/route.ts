@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from "next/server";
+import { INBOUND_ACTOR, recordAuditEvent } from "../../../lib/audit";
+import { isInboundRequest } from "../../../lib/auth";
+import { parseBounceEvents, processBounceEvents, processInboundMessages, type InboundSource, type InboundSummary } from "../../../lib/email-bounces";
+
+const MAX_MESSAGES_PER_REQUEST = 50;
+const MAILBOX_SOURCES: InboundSource[] = ["imap", "maildir"];
+
+// Bounce and complaint reports. Accepts one raw message (any non-JSON
+// body, e.g. message/rfc822), a JSON batch of raw messages from
+// scripts/bounce-processor.py ({ source, messages }), or parsed events from a
+// provider webhook ({ events }).
+export async function POST(req: NextRequest) {
+  if (!isInboundRequest(req)) {
+    return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+  }
+
+  try {
+    let summary: InboundSummary;
+    if ((req.headers.get("content-type") ?? "").includes("application/json")) {
+      const body = await req.json().catch(() => null);
+      if (Array.isArray(body?.events)) {
+        const { reports, error } = parseBounceEvents(body.events);
+        if (error !== null) return NextResponse.json({ error }, { status: 400 });
+        summary = await processBounceEvents(reports);
+      } else if (Array.isArray(body?.messages) && body.messages.every((m: unknown) => typeof m === "string")) {
+        if (body.messages.length > MAX_MESSAGES_PER_REQUEST) {
+          return NextResponse.json({ error: `At most ${MAX_MESSAGES_PER_REQUEST} messages per request` }, { status: 400 });
+        }
+        const source = MAILBOX_SOURCES.includes(body.source) ? body.source : "webhook";
+        summary = await processInboundMessages(body.messages, source);
+      } else {
+        return NextResponse.json({ error: "Expected { events } or { messages }" }, { status: 400 });
+      }
+    } else {
+      const raw = await req.text();
+      if (!raw.trim()) return NextResponse.json({ error: "Empty message" }, { status: 400 });
+      summary = await processInboundMessages([raw], "webhook");
+    }
+
+    for (const outcome of summary.outcomes) {
+      if (!outcome.suppressedFrom) continue;
+      await recordAuditEvent(INBOUND_ACTOR, {
+        action: "subscriber.suppress",
+        targetTable: "email_subscribers",
+        targetId: outcome.subscriberId,
+        before: { status: outcome.suppressedFrom },
+        after: { status: "suppressed", reason: outcome.kind === "complaint" ? "complained" : "bounced", send_id: outcome.sendId },
+      });
+    }
+
+    return NextResponse.json(summary);
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    console.error("Bounce processing failed:", message);
+    return NextResponse.json({ error: `Bounce processing failed: ${message}` }, { status: 500 });
+  }
+}
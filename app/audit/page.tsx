@@ -0,0 +1,249 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import Header from "../components/Header";
+
+function useIsMobile(breakpoint = 768) {
+  const [isMobile, setIsMobile] = useState(false);
+  useEffect(() => {
+    const check = () => setIsMobile(window.innerWidth <= breakpoint);
+    check();
+    window.addEventListener("resize", check);
+    return () => window.removeEventListener("resize", check);
+  }, [breakpoint]);
+  return isMobile;
+}
+
+interface AuditEvent {
+  id: string;
+  actor_id: string | null;
+  actor_username: string;
+  actor_role: string;
+  action: string;
+  target_table: string;
+  target_id: string | null;
+  before: Record<string, unknown> | null;
+  after: Record<string, unknown> | null;
+  created_at: string;
+}
+
+const ACTION_LABELS: Record<string, string> = {
+  "subscriber.status": "Subscriber status",
+  "subscriber.advance": "Advance stage",
+  "subscriber.unsubscribe": "Unsubscribe",
+  "subscriber.import": "Import subscribers",
+  "subscriber.signup": "Waitlist signup",
+  "subscriber.confirm": "Confirm signup",
+  "subscriber.bulk": "Bulk subscriber action",
+  "subscriber.note": "Add note",
+  "subscriber.tags": "Edit tags",
+  "subscriber.suppress": "Suppress (bounce/complaint)",
+  "reply.queue": "Queue reply",
+  "post.create": "Create post",
+  "post.update": "Edit post",
+  "post.delete": "Delete post",
+  "post.publish": "Post now",
+  "email.send": "Send email",
+  "email.resend": "Resend email",
+  "outbox.retry": "Retry queued email",
+  "template.update": "Edit template",
+  "template.rollback": "Roll back template",
+  "variant.create": "Add A/B variant",
+  "variant.update": "Edit A/B variant",
+  "sequence.create": "Create sequence",
+  "sequence.step": "Edit sequence step",
+  "sequence.enroll": "Enroll in sequence",
+  "segment.create": "Create segment",
+  "segment.delete": "Delete segment",
+  "campaign.create": "Schedule campaign",
+  "campaign.cancel": "Cancel campaign",
+  "user.create": "Create user",
+  "user.update": "Update user",
+  "user.delete": "Delete user",
+  "drip.run": "Drip run",
+  "campaign.run": "Campaign run",
+  "outbox.run": "Outbox run",
+};
+
+const ACTION_COLORS: Record<string, string> = {
+  subscriber: "#86EFAC",
+  email: "#86EFAC",
+  reply: "#60A5FA",
+  post: "#60A5FA",
+  user: "#F59E0B",
+  drip: "#86EFAC",
+  template: "#60A5FA",
+  variant: "#60A5FA",
+  sequence: "#60A5FA",
+  segment: "#60A5FA",
+  campaign: "#86EFAC",
+  outbox: "#86EFAC",
+};
+
+function formatTimestamp(iso: string) {
+  const parsed = new Date(iso);
+  if (Number.isNaN(parsed.getTime())) return "—";
+  return parsed.toLocaleString("en-GB", { day: "2-digit", month: "short", hour: "2-digit", minute: "2-digit", second: "2-digit" });
+}
+
+function summarizeChange(event: AuditEvent) {
+  const { before, after } = event;
+  if (!before || !after) return null;
+  const keys = Array.from(new Set([...Object.keys(before), ...Object.keys(after)]));
+  const changed = keys.filter((k) => JSON.stringify(before[k]) !== JSON.stringify(after[k]) && k !== "updated_at");
+  return changed.map((k) => `${k}: ${JSON.stringify(before[k] ?? null)} → ${JSON.stringify(after[k] ?? null)}`).join(", ");
+}
+
+export default function AuditPage() {
+  const isMobile = useIsMobile();
+  const [events, setEvents] = useState<AuditEvent[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [search, setSearch] = useState("");
+  const [debouncedSearch, setDebouncedSearch] = useState("");
+  const [filterAction, setFilterAction] = useState("");
+  const [filterActor, setFilterActor] = useState("");
+  const [fromDate, setFromDate] = useState("");
+  const [toDate, setToDate] = useState("");
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  useEffect(() => {
+    const timer = setTimeout(() => setDebouncedSearch(search), 300);
+    return () => clearTimeout(timer);
+  }, [search]);
+
+  const fetchEvents = useCallback(async () => {
+    const params = new URLSearchParams();
+    if (debouncedSearch.trim()) params.set("q", debouncedSearch.trim());
+    if (filterAction) params.set("action", filterAction);
+    if (filterActor) params.set("actor", filterActor);
+    if (fromDate) params.set("from", new Date(`${fromDate}T00:00:00`).toISOString());
+    if (toDate) params.set("to", new Date(`${toDate}T23:59:59.999`).toISOString());
+
+    try {
+      const res = await fetch(`/api/audit?${params.toString()}`);
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || `HTTP ${res.status}`);
+      setEvents(data.events || []);
+      setError(null);
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : "Failed to load audit log");
+    } finally {
+      setLoading(false);
+    }
+  }, [debouncedSearch, filterAction, filterActor, fromDate, toDate]);
+
+  useEffect(() => {
+    fetchEvents();
+  }, [fetchEvents]);
+
+  const actors = useMemo(() => Array.from(new Set(events.map((e) => e.actor_username))).sort(), [events]);
+
+  const cardStyle: React.CSSProperties = {
+    background: "#0D0D0D",
+    border: "1px solid #1F1F1F",
+    borderRadius: "12px",
+    padding: "20px",
+  };
+
+  const controlStyle: React.CSSProperties = {
+    background: "#000",
+    border: "1px solid #1F1F1F",
+    borderRadius: "6px",
+    padding: "6px 8px",
+    color: "#A0A0A0",
+    fontSize: "12px",
+    fontFamily: "'Inter', sans-serif",
+    outline: "none",
+  };
+
+  const columns = isMobile ? "0.9fr 1fr 1fr" : "0.9fr 0.8fr 1fr 1.2fr 2fr";
+
+  return (
+    <div style={{ minHeight: "100vh", background: "#000", color: "#fff" }}>
+      <Header activePage="audit" />
+
+      <main style={{ padding: isMobile ? "12px" : "24px", maxWidth: "1200px", margin: "0 auto" }}>
+        <div style={cardStyle}>
+          <div style={{ display: "flex", justifyContent: "space-between", alignItems: "center", marginBottom: "16px", flexWrap: "wrap", gap: "8px" }}>
+            <h3 style={{ fontFamily: "'Space Grotesk', sans-serif", fontWeight: 700, fontSize: "14px", margin: 0 }}>Audit Log</h3>
+            <div style={{ display: "flex", gap: "8px", alignItems: "center", flexWrap: "wrap" }}>
+              <input type="text" placeholder="Search actor, action, target…" value={search} onChange={(e) => setSearch(e.target.value)} style={{ ...controlStyle, color: "#fff", width: "200px" }} />
+              <select value={filterAction} onChange={(e) => setFilterAction(e.target.value)} style={controlStyle}>
+                <option value="">All Actions</option>
+                {Object.entries(ACTION_LABELS).map(([value, label]) => <option key={value} value={value}>{label}</option>)}
+              </select>
+              <select value={filterActor} onChange={(e) => setFilterActor(e.target.value)} style={controlStyle}>
+                <option value="">All Users</option>
+                {actors.map((a) => <option key={a} value={a}>{a}</option>)}
+                {filterActor && !actors.includes(filterActor) && <option value={filterActor}>{filterActor}</option>}
+              </select>
+              <input type="date" value={fromDate} onChange={(e) => setFromDate(e.target.value)} style={controlStyle} aria-label="From date" />
+              <input type="date" value={toDate} onChange={(e) => setToDate(e.target.value)} style={controlStyle} aria-label="To date" />
+              <button onClick={fetchEvents} style={{ ...controlStyle, cursor: "pointer" }}>↻ Refresh</button>
+            </div>
+          </div>
+
+          {error && (
+            <div style={{ color: "#EF4444", fontSize: "12px", fontFamily: "'Inter', sans-serif", marginBottom: "12px" }}>{error}</div>
+          )}
+
+          <div style={{ display: "grid", gridTemplateColumns: columns, gap: "8px", padding: "8px 12px", fontSize: "10px", color: "#A0A0A0", fontFamily: "'Inter', sans-serif", textTransform: "uppercase", letterSpacing: "0.5px", borderBottom: "1px solid #1F1F1F" }}>
+            <span>When</span>
+            {!isMobile && <span>Who</span>}
+            <span>Action</span>
+            <span>Target</span>
+            {!isMobile && <span>Change</span>}
+          </div>
+
+          {loading ? (
+            <div style={{ padding: "24px", textAlign: "center", color: "#555", fontSize: "12px", fontFamily: "'Inter', sans-serif" }}>Loading…</div>
+          ) : events.length === 0 ? (
+            <div style={{ padding: "24px", textAlign: "center", color: "#555", fontSize: "12px", fontFamily: "'Inter', sans-serif" }}>No audit events match these filters</div>
+          ) : (
+            events.map((event) => {
+              const isExpanded = expandedId === event.id;
+              const change = summarizeChange(event);
+              return (
+                <div key={event.id}>
+                  <div onClick={() => setExpandedId(isExpanded ? null : event.id)} style={{ display: "grid", gridTemplateColumns: columns, gap: "8px", padding: "10px 12px", fontSize: isMobile ? "11px" : "12px", fontFamily: "'Inter', sans-serif", borderBottom: "1px solid #141414", cursor: "pointer", background: isExpanded ? "#111" : "transparent" }}>
+                    <span style={{ color: "#A0A0A0" }}>{formatTimestamp(event.created_at)}</span>
+                    {!isMobile && (
+                      <span style={{ color: "#fff" }}>
+                        {event.actor_username} <span style={{ color: "#555", fontSize: "10px" }}>{event.actor_role}</span>
+                      </span>
+                    )}
+                    <span style={{ color: ACTION_COLORS[event.action.split(".")[0]] || "#A0A0A0" }}>{ACTION_LABELS[event.action] || event.action}</span>
+                    <span style={{ color: "#A0A0A0", overflow: "hidden", textOverflow: "ellipsis", whiteSpace: "nowrap" }}>
+                      {event.target_table}
+                      {event.target_id && <span style={{ color: "#555" }}> · {event.target_id.slice(0, 8)}</span>}
+                    </span>
+                    {!isMobile && (
+                      <span style={{ color: "#555", overflow: "hidden", textOverflow: "ellipsis", whiteSpace: "nowrap" }}>{change || "—"}</span>
+                    )}
+                  </div>
+
+                  {isExpanded && (
+                    <div style={{ padding: "12px 24px", background: "#0A0A0A", borderBottom: "1px solid #1F1F1F", display: "grid", gridTemplateColumns: isMobile ? "1fr" : "1fr 1fr", gap: "12px" }}>
+                      {(["before", "after"] as const).map((side) => (
+                        <div key={side}>
+                          <div style={{ fontSize: "10px", color: "#A0A0A0", fontFamily: "'Inter', sans-serif", textTransform: "uppercase", letterSpacing: "0.5px", marginBottom: "6px" }}>{side}</div>
+                          <pre style={{ margin: 0, fontSize: "11px", color: side === "before" ? "#A0A0A0" : "#86EFAC", background: "#000", border: "1px solid #1F1F1F", borderRadius: "6px", padding: "10px", overflowX: "auto", whiteSpace: "pre-wrap", wordBreak: "break-all" }}>
+                            {event[side] ? JSON.stringify(event[side], null, 2) : "—"}
+                          </pre>
+                        </div>
+                      ))}
+                      <div style={{ fontSize: "11px", color: "#555", fontFamily: "'Inter', sans-serif" }}>
+                        Target ID: <span style={{ color: "#A0A0A0" }}>{event.target_id || "—"}</span>
+                      </div>
+                    </div>
+                  )}
+                </div>
+              );
+            })
+          )}
+        </div>
+      </main>
+    </div>
+  );
+}
@@ -1,36 +1,53 @@
 "use client";
 
 import { useState, useEffect, ReactNode } from "react";
+import { usePathname } from "next/navigation";
+import { SessionContext } from "../hooks/useSession";
+import { isPublicPage } from "../lib/public-paths";
+import type { Session } from "../lib/session";
 
-const PASSWORD = "T35t@m3nt54321234567891011";
-const STORAGE_KEY = "casper_auth";
-
-export default function AuthGate({ children }: { children: ReactNode }) {
-  const [authenticated, setAuthenticated] = useState<boolean | null>(null);
+export default function AuthGate({ session, children }: { session: Session | null; children: ReactNode }) {
+  const pathname = usePathname();
+  const [username, setUsername] = useState("");
   const [input, setInput] = useState("");
-  const [error, setError] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [submitting, setSubmitting] = useState(false);
   const [shake, setShake] = useState(false);
 
+  // Sessions expire server-side; reload when ours does so proxy.ts sends us back to login.
   useEffect(() => {
-    const stored = localStorage.getItem(STORAGE_KEY);
-    setAuthenticated(stored === "1");
-  }, []);
-
-  if (authenticated === null) return null; // SSR safe
+    if (!session) return;
+    const msLeft = session.expiresAt * 1000 - Date.now();
+    const timer = setTimeout(() => window.location.reload(), Math.max(msLeft, 0));
+    return () => clearTimeout(timer);
+  }, [session]);
 
-  if (authenticated) return <>{children}</>;
+  if (session || isPublicPage(pathname)) {
+    return <SessionContext.Provider value={session}>{children}</SessionContext.Provider>;
+  }
 
-  const handleSubmit = (e: React.FormEvent) => {
+  const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (input === PASSWORD) {
-      localStorage.setItem(STORAGE_KEY, "1");
-      setAuthenticated(true);
-    } else {
-      setError(true);
-      setShake(true);
-      setInput("");
-      setTimeout(() => setShake(false), 500);
+    setSubmitting(true);
+    try {
+      const res = await fetch("/api/auth/login", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ username, password: input }),
+      });
+      if (res.ok) {
+        window.location.reload();
+        return;
+      }
+      const data = await res.json().catch(() => ({}));
+      setError(data.error || "Login failed");
+    } catch {
+      setError("Network error");
     }
+    setSubmitting(false);
+    setShake(true);
+    setInput("");
+    setTimeout(() => setShake(false), 500);
   };
 
   return (
@@ -75,19 +92,44 @@ export default function AuthGate({ children }: { children: ReactNode }) {
             marginBottom: "28px",
           }}
         >
-          Enter access password to continue
+          Sign in to continue
         </p>
 
         <form onSubmit={handleSubmit}>
+          <input
+            type="text"
+            value={username}
+            onChange={(e) => {
+              setUsername(e.target.value);
+              setError(null);
+            }}
+            placeholder="Username"
+            autoComplete="username"
+            autoFocus
+            style={{
+              width: "100%",
+              background: "#111",
+              border: `1px solid ${error ? "#EF4444" : "#1F1F1F"}`,
+              borderRadius: "8px",
+              padding: "12px 14px",
+              color: "#fff",
+              fontSize: "14px",
+              fontFamily: "'Inter', sans-serif",
+              outline: "none",
+              boxSizing: "border-box",
+              marginBottom: "12px",
+              transition: "border-color 0.2s",
+            }}
+          />
           <input
             type="password"
             value={input}
             onChange={(e) => {
               setInput(e.target.value);
-              setError(false);
+              setError(null);
             }}
             placeholder="Password"
-            autoFocus
+            autoComplete="current-password"
             style={{
               width: "100%",
               background: "#111",
@@ -111,11 +153,12 @@ export default function AuthGate({ children }: { children: ReactNode }) {
                 marginBottom: "12px",
               }}
             >
-              Incorrect password
+              {error}
             </div>
           )}
           <button
             type="submit"
+            disabled={submitting}
             style={{
               width: "100%",
               background: "#86EFAC",
@@ -126,10 +169,10 @@ export default function AuthGate({ children }: { children: ReactNode }) {
               fontSize: "14px",
               fontWeight: 600,
               fontFamily: "'Space Grotesk', sans-serif",
-              cursor: "pointer",
+              cursor: submitting ? "wait" : "pointer",
             }}
           >
-            Unlock
+            {submitting ? "Signing in…" : "Sign in"}
           </button>
         </form>
       </div>
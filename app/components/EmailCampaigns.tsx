@@ -0,0 +1,418 @@
+"use client";
+
+import { useState } from "react";
+import { inlineCss, lintEmailHtml } from "../lib/email-html";
+import { EMPTY_SEGMENT, SEGMENT_STATUSES, describeSegment, matchesSegment, normalizeTags, type SegmentFilters } from "../lib/email-segments";
+import { buildMergeContext, renderTemplate, type MergeSubscriber } from "../lib/render-template";
+
+export interface EmailSegment {
+  id: string;
+  name: string;
+  filters: SegmentFilters;
+  created_by: string | null;
+  created_at: string;
+}
+
+export interface EmailCampaign {
+  id: string;
+  name: string;
+  subject: string;
+  segment_id: string;
+  status: "scheduled" | "sending" | "sent" | "cancelled";
+  scheduled_at: string;
+  started_at: string | null;
+  finished_at: string | null;
+  created_by: string | null;
+}
+
+export interface CampaignRecipient {
+  id: string;
+  campaign_id: string;
+  email: string;
+  status: "queued" | "sending" | "sent" | "failed" | "skipped";
+  error: string | null;
+  sent_at: string | null;
+}
+
+interface Candidate {
+  id: string;
+  status: string;
+  signup_date: string;
+  tags: string[] | null;
+}
+
+interface CandidateEnrollment {
+  subscriber_id: string;
+  sequence_id: string;
+  current_stage: number;
+  status: string;
+}
+
+const PREVIEW_UNSUBSCRIBE_URL = "#unsubscribe";
+
+const SAMPLE_SUBSCRIBER: MergeSubscriber = { name: "Sarah Johnson", email: "sarah@example.com", signup_date: "2026-02-28", attributes: {} };
+
+const STARTER_HTML = `<div style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; max-width: 600px; margin: 0 auto; padding: 40px 20px; color: #1a1a1a;">
+  <p style="font-size: 16px; line-height: 1.6; color: #333;">Hi {{first_name | "there"}},</p>
+
+  <p style="font-size: 16px; line-height: 1.6; color: #333;"></p>
+
+  <p style="font-size: 16px; line-height: 1.6; color: #333;">— Kofi & Curtis</p>
+
+  <hr style="border: none; border-top: 1px solid #eee; margin: 30px 0;" />
+  <p style="font-size: 12px; color: #999;">You're receiving this because you signed up for the Traqd waitlist. <a href="https://traqd.io" style="color: #999;">traqd.io</a> · <a href="{{unsubscribe_url}}" style="color: #999;">Unsubscribe</a></p>
+</div>`;
+
+const CAMPAIGN_COLORS: Record<string, string> = {
+  scheduled: "#60A5FA",
+  sending: "#F59E0B",
+  sent: "#86EFAC",
+  cancelled: "#A0A0A0",
+};
+
+const RECIPIENT_COLORS: Record<string, string> = {
+  queued: "#A0A0A0",
+  sending: "#60A5FA",
+  sent: "#86EFAC",
+  failed: "#EF4444",
+  skipped: "#F59E0B",
+};
+
+const inputStyle: React.CSSProperties = {
+  background: "#000",
+  border: "1px solid #1F1F1F",
+  borderRadius: "6px",
+  padding: "6px 8px",
+  color: "#fff",
+  fontSize: "12px",
+  fontFamily: "'Inter', sans-serif",
+  outline: "none",
+};
+
+const buttonStyle = (color: string): React.CSSProperties => ({
+  background: `${color}20`,
+  color,
+  border: "none",
+  borderRadius: "6px",
+  padding: "6px 10px",
+  fontSize: "12px",
+  cursor: "pointer",
+  fontFamily: "'Inter', sans-serif",
+});
+
+function formatTimestamp(iso: string) {
+  return new Date(iso).toLocaleString("en-GB", { day: "2-digit", month: "short", hour: "2-digit", minute: "2-digit" });
+}
+
+// Segments and one-off broadcast campaigns. Recipient counts are previewed
+// here with the same matchesSegment() the campaign run uses; suppressed
+// addresses are only found (and skipped) when sending starts.
+export default function EmailCampaigns({
+  sequences,
+  subscribers,
+  enrollments,
+  segments,
+  campaigns,
+  recipients,
+  canOperate,
+  onChange,
+  onError,
+  cardStyle,
+  isMobile,
+}: {
+  sequences: { id: string; name: string }[];
+  subscribers: Candidate[];
+  enrollments: CandidateEnrollment[];
+  segments: EmailSegment[];
+  campaigns: EmailCampaign[];
+  recipients: CampaignRecipient[];
+  canOperate: boolean;
+  onChange: () => void;
+  onError: (message: string) => void;
+  cardStyle: React.CSSProperties;
+  isMobile: boolean;
+}) {
+  const [segmentDraft, setSegmentDraft] = useState<{ name: string; filters: SegmentFilters; tags: string } | null>(null);
+  const [campaignDraft, setCampaignDraft] = useState<{ name: string; segmentId: string; subject: string; html: string; scheduledAt: string } | null>(null);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [runNotice, setRunNotice] = useState<string | null>(null);
+
+  const request = async (url: string, method: string, body?: unknown): Promise<Record<string, unknown> | null> => {
+    setBusy(true);
+    let result: Record<string, unknown> | null = null;
+    try {
+      const res = await fetch(url, { method, headers: { "Content-Type": "application/json" }, body: body === undefined ? undefined : JSON.stringify(body) });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) onError(data.error || `Failed: HTTP ${res.status}`);
+      else result = data;
+    } catch (err: unknown) {
+      onError(`Failed: ${err instanceof Error ? err.message : "Network error"}`);
+    }
+    setBusy(false);
+    onChange();
+    return result;
+  };
+
+  const enrollmentsByKey = new Map(enrollments.map((e) => [`${e.sequence_id}:${e.subscriber_id}`, e]));
+  const countMatching = (filters: SegmentFilters) =>
+    subscribers.filter((sub) => matchesSegment(sub, filters.sequenceId ? enrollmentsByKey.get(`${filters.sequenceId}:${sub.id}`) ?? null : null, filters)).length;
+  const sequenceName = (id: string) => sequences.find((s) => s.id === id)?.name ?? "Unknown sequence";
+  const knownTags = Array.from(new Set(subscribers.flatMap((sub) => sub.tags ?? []))).sort();
+
+  const draftFilters = segmentDraft ? { ...segmentDraft.filters, tags: normalizeTags(segmentDraft.tags.split(",")) } : null;
+  const setFilter = (changes: Partial<SegmentFilters>) => segmentDraft && setSegmentDraft({ ...segmentDraft, filters: { ...segmentDraft.filters, ...changes } });
+
+  const saveSegment = async () => {
+    if (!segmentDraft || !draftFilters) return;
+    const data = await request("/api/segments", "POST", { name: segmentDraft.name, filters: draftFilters });
+    if (data) setSegmentDraft(null);
+  };
+
+  const deleteSegment = async (segment: EmailSegment) => {
+    if (!window.confirm(`Delete the segment "${segment.name}"?`)) return;
+    await request(`/api/segments/${segment.id}`, "DELETE");
+  };
+
+  const scheduleCampaign = async () => {
+    if (!campaignDraft) return;
+    const segment = segments.find((s) => s.id === campaignDraft.segmentId);
+    const when = campaignDraft.scheduledAt ? formatTimestamp(new Date(campaignDraft.scheduledAt).toISOString()) : "on the next run";
+    if (!segment || !window.confirm(`Send "${campaignDraft.subject}" to ${countMatching(segment.filters)} subscribers in ${segment.name} ${when}?`)) return;
+    const data = await request("/api/campaigns", "POST", {
+      name: campaignDraft.name,
+      segmentId: campaignDraft.segmentId,
+      subject: campaignDraft.subject,
+      html: campaignDraft.html,
+      scheduledAt: campaignDraft.scheduledAt ? new Date(campaignDraft.scheduledAt).toISOString() : null,
+    });
+    if (data) setCampaignDraft(null);
+  };
+
+  const cancelCampaign = async (campaign: EmailCampaign) => {
+    if (!window.confirm(`Cancel "${campaign.name}"? Recipients not yet sent to will be skipped.`)) return;
+    await request(`/api/campaigns/${campaign.id}/cancel`, "POST");
+  };
+
+  const runNow = async () => {
+    const data = await request("/api/cron/email-campaigns", "POST");
+    if (data) {
+      setRunNotice(`Sent ${data.sent}, failed ${data.failed}, skipped ${data.skipped}${data.remaining ? `, ${data.remaining} still queued` : ""}`);
+      setTimeout(() => setRunNotice(null), 5000);
+    }
+  };
+
+  const preview = campaignDraft
+    ? (() => {
+        const rendered = renderTemplate(campaignDraft, buildMergeContext(SAMPLE_SUBSCRIBER, 0, PREVIEW_UNSUBSCRIBE_URL));
+        const html = inlineCss(rendered.html);
+        return { subject: rendered.subject, html, unknown: rendered.unknown, issues: lintEmailHtml(html, PREVIEW_UNSUBSCRIBE_URL) };
+      })()
+    : null;
+
+  return (
+    <div style={{ ...cardStyle, marginBottom: "24px", ...(isMobile ? { overflowX: "auto" as const } : {}) }}>
+      <div style={{ display: "flex", justifyContent: "space-between", alignItems: "center", marginBottom: "16px", flexWrap: "wrap", gap: "8px" }}>
+        <h3 style={{ fontFamily: "'Space Grotesk', sans-serif", fontWeight: 700, fontSize: "14px", margin: 0 }}>Campaigns</h3>
+        <div style={{ display: "flex", gap: "8px", alignItems: "center" }}>
+          {runNotice && <span style={{ fontSize: "11px", color: "#86EFAC", fontFamily: "'Inter', sans-serif" }}>{runNotice}</span>}
+          {canOperate && (
+            <>
+              <button onClick={() => setSegmentDraft(segmentDraft ? null : { name: "", filters: EMPTY_SEGMENT, tags: "" })} style={buttonStyle("#60A5FA")}>New Segment</button>
+              <button
+                disabled={segments.length === 0}
+                title={segments.length === 0 ? "Save a segment first" : undefined}
+                onClick={() => setCampaignDraft(campaignDraft ? null : { name: "", segmentId: segments[0]?.id ?? "", subject: "", html: STARTER_HTML, scheduledAt: "" })}
+                style={{ ...buttonStyle("#86EFAC"), cursor: segments.length === 0 ? "not-allowed" : "pointer" }}
+              >
+                New Campaign
+              </button>
+              <button disabled={busy} onClick={runNow} title="Start due campaigns and send queued recipients now" style={{ ...buttonStyle("#A0A0A0"), cursor: busy ? "wait" : "pointer" }}>Send Due Now</button>
+            </>
+          )}
+        </div>
+      </div>
+
+      {/* Segment builder */}
+      {segmentDraft && draftFilters && (
+        <div style={{ display: "flex", flexDirection: "column", gap: "8px", padding: "12px", marginBottom: "16px", background: "#111", borderRadius: "8px", fontSize: "12px", fontFamily: "'Inter', sans-serif", color: "#A0A0A0" }}>
+          <div style={{ display: "flex", gap: "8px", flexWrap: "wrap", alignItems: "center" }}>
+            <input value={segmentDraft.name} onChange={(e) => setSegmentDraft({ ...segmentDraft, name: e.target.value })} placeholder="Segment name" style={{ ...inputStyle, width: "180px" }} />
+            <select
+              value={draftFilters.sequenceId ?? ""}
+              onChange={(e) => setFilter(e.target.value ? { sequenceId: e.target.value } : { sequenceId: null, statuses: [], stageMin: null, stageMax: null })}
+              style={inputStyle}
+            >
+              <option value="">Any sequence</option>
+              {sequences.map((seq) => <option key={seq.id} value={seq.id}>In {seq.name}</option>)}
+            </select>
+            {draftFilters.sequenceId && (
+              <>
+                {SEGMENT_STATUSES.map((status) => (
+                  <label key={status} style={{ display: "flex", gap: "4px", alignItems: "center", textTransform: "capitalize" }}>
+                    <input
+                      type="checkbox"
+                      checked={draftFilters.statuses.includes(status)}
+                      onChange={() => setFilter({ statuses: draftFilters.statuses.includes(status) ? draftFilters.statuses.filter((s) => s !== status) : [...draftFilters.statuses, status] })}
+                      style={{ margin: 0 }}
+                    />
+                    {status}
+                  </label>
+                ))}
+                <span>Stage</span>
+                <input type="number" min={0} value={draftFilters.stageMin ?? ""} onChange={(e) => setFilter({ stageMin: e.target.value === "" ? null : Number(e.target.value) })} placeholder="from" style={{ ...inputStyle, width: "60px" }} />
+                <input type="number" min={0} value={draftFilters.stageMax ?? ""} onChange={(e) => setFilter({ stageMax: e.target.value === "" ? null : Number(e.target.value) })} placeholder="to" style={{ ...inputStyle, width: "60px" }} />
+              </>
+            )}
+          </div>
+          <div style={{ display: "flex", gap: "8px", flexWrap: "wrap", alignItems: "center" }}>
+            <span>Signed up</span>
+            <input type="date" value={draftFilters.signedUpFrom ?? ""} onChange={(e) => setFilter({ signedUpFrom: e.target.value || null })} style={inputStyle} />
+            <span>to</span>
+            <input type="date" value={draftFilters.signedUpTo ?? ""} onChange={(e) => setFilter({ signedUpTo: e.target.value || null })} style={inputStyle} />
+            <input list="segment-tags" value={segmentDraft.tags} onChange={(e) => setSegmentDraft({ ...segmentDraft, tags: e.target.value })} placeholder="Tags, comma separated (any)" style={{ ...inputStyle, width: "220px" }} />
+            <datalist id="segment-tags">
+              {knownTags.map((tag) => <option key={tag} value={tag} />)}
+            </datalist>
+          </div>
+          <div style={{ display: "flex", justifyContent: "space-between", alignItems: "center", gap: "8px" }}>
+            <span>
+              <span style={{ color: "#fff", fontWeight: 600 }}>{countMatching(draftFilters)}</span> active subscriber{countMatching(draftFilters) === 1 ? "" : "s"} match · {describeSegment(draftFilters, sequenceName)}
+            </span>
+            <div style={{ display: "flex", gap: "8px" }}>
+              <button onClick={() => setSegmentDraft(null)} style={buttonStyle("#A0A0A0")}>Cancel</button>
+              <button disabled={busy || !segmentDraft.name.trim()} onClick={saveSegment} style={{ ...buttonStyle("#86EFAC"), cursor: !segmentDraft.name.trim() ? "not-allowed" : busy ? "wait" : "pointer" }}>Save Segment</button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Campaign composer */}
+      {campaignDraft && preview && (
+        <div style={{ display: "flex", flexDirection: "column", gap: "8px", padding: "12px", marginBottom: "16px", background: "#111", borderRadius: "8px", fontSize: "12px", fontFamily: "'Inter', sans-serif", color: "#A0A0A0" }}>
+          <div style={{ display: "flex", gap: "8px", flexWrap: "wrap", alignItems: "center" }}>
+            <input value={campaignDraft.name} onChange={(e) => setCampaignDraft({ ...campaignDraft, name: e.target.value })} placeholder="Campaign name" style={{ ...inputStyle, width: "180px" }} />
+            <select value={campaignDraft.segmentId} onChange={(e) => setCampaignDraft({ ...campaignDraft, segmentId: e.target.value })} style={inputStyle}>
+              {segments.map((segment) => <option key={segment.id} value={segment.id}>{segment.name} ({countMatching(segment.filters)})</option>)}
+            </select>
+            <span>Send at</span>
+            <input type="datetime-local" value={campaignDraft.scheduledAt} onChange={(e) => setCampaignDraft({ ...campaignDraft, scheduledAt: e.target.value })} title="Leave empty to send on the next run" style={inputStyle} />
+          </div>
+          <input value={campaignDraft.subject} onChange={(e) => setCampaignDraft({ ...campaignDraft, subject: e.target.value })} placeholder="Subject" style={{ ...inputStyle, fontWeight: 600 }} />
+          <div style={{ display: "grid", gridTemplateColumns: isMobile ? "1fr" : "1fr 1fr", gap: "8px" }}>
+            <textarea
+              value={campaignDraft.html}
+              onChange={(e) => setCampaignDraft({ ...campaignDraft, html: e.target.value })}
+              spellCheck={false}
+              style={{ ...inputStyle, minHeight: "320px", color: "#E5E5E5", lineHeight: "1.5", fontFamily: "ui-monospace, SFMono-Regular, Menlo, monospace", resize: "vertical" }}
+            />
+            <iframe srcDoc={preview.html} sandbox="allow-same-origin" title="Campaign preview" style={{ width: "100%", minHeight: "320px", border: "none", borderRadius: "6px", background: "#fff" }} />
+          </div>
+          {preview.unknown.length > 0 && <div style={{ color: "#EF4444" }}>Unknown merge fields: {preview.unknown.map((f) => `{{${f}}}`).join(", ")}</div>}
+          {preview.issues.map((issue, i) => (
+            <div key={i} style={{ color: issue.level === "error" ? "#EF4444" : "#F59E0B" }}>
+              {issue.level === "error" ? "Blocks sending: " : "Warning: "}{issue.message}
+            </div>
+          ))}
+          <div style={{ display: "flex", justifyContent: "space-between", alignItems: "center", gap: "8px" }}>
+            <span style={{ color: "#555" }}>Previewed for {SAMPLE_SUBSCRIBER.email}. Sent at up to 5 emails a second; unsubscribed and suppressed addresses are skipped.</span>
+            <div style={{ display: "flex", gap: "8px" }}>
+              <button onClick={() => setCampaignDraft(null)} style={buttonStyle("#A0A0A0")}>Cancel</button>
+              <button
+                disabled={busy || !campaignDraft.name.trim() || !campaignDraft.subject.trim()}
+                onClick={scheduleCampaign}
+                style={{ ...buttonStyle("#86EFAC"), cursor: !campaignDraft.name.trim() || !campaignDraft.subject.trim() ? "not-allowed" : busy ? "wait" : "pointer" }}
+              >
+                {campaignDraft.scheduledAt ? "Schedule" : "Send"}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Saved segments */}
+      {segments.length > 0 && (
+        <div style={{ display: "flex", gap: "8px", flexWrap: "wrap", marginBottom: "16px", fontSize: "11px", fontFamily: "'Inter', sans-serif" }}>
+          {segments.map((segment) => (
+            <span key={segment.id} title={describeSegment(segment.filters, sequenceName)} style={{ background: "#111", borderRadius: "10px", padding: "3px 10px", color: "#A0A0A0" }}>
+              <span style={{ color: "#fff" }}>{segment.name}</span> · {countMatching(segment.filters)}
+              {canOperate && (
+                <button onClick={() => deleteSegment(segment)} title="Delete segment" style={{ background: "none", border: "none", color: "#555", fontSize: "11px", cursor: "pointer", padding: "0 0 0 6px" }}>✕</button>
+              )}
+            </span>
+          ))}
+        </div>
+      )}
+
+      {/* Campaign list */}
+      {campaigns.length === 0 ? (
+        <div style={{ fontSize: "12px", color: "#555", fontFamily: "'Inter', sans-serif" }}>
+          No campaigns yet. Save a segment, then compose a campaign to send it a one-off email.
+        </div>
+      ) : (
+        <div style={{ display: "flex", flexDirection: "column", minWidth: isMobile ? "520px" : "unset" }}>
+          {campaigns.map((campaign) => {
+            const results = recipients.filter((r) => r.campaign_id === campaign.id);
+            const counts = Object.fromEntries(["queued", "sending", "sent", "failed", "skipped"].map((status) => [status, results.filter((r) => r.status === status).length]));
+            const segment = segments.find((s) => s.id === campaign.segment_id);
+            const isExpanded = expandedId === campaign.id;
+            return (
+              <div key={campaign.id} style={{ borderBottom: "1px solid #141414" }}>
+                <div onClick={() => setExpandedId(isExpanded ? null : campaign.id)} style={{ display: "grid", gridTemplateColumns: "1.6fr 1fr 0.7fr 1.6fr 0.6fr", gap: "8px", padding: "8px 12px", fontSize: "12px", fontFamily: "'Inter', sans-serif", alignItems: "center", cursor: "pointer", background: isExpanded ? "#111" : "transparent" }}>
+                  <span style={{ overflow: "hidden", textOverflow: "ellipsis", whiteSpace: "nowrap" }} title={campaign.subject}>
+                    <span style={{ color: "#fff", fontWeight: 500 }}>{campaign.name}</span>
+                    <span style={{ color: "#555" }}> · {campaign.subject}</span>
+                  </span>
+                  <span style={{ color: "#A0A0A0", overflow: "hidden", textOverflow: "ellipsis", whiteSpace: "nowrap" }}>{segment?.name ?? "—"}</span>
+                  <span style={{ color: CAMPAIGN_COLORS[campaign.status], textTransform: "capitalize" }}>{campaign.status}</span>
+                  <span style={{ color: "#A0A0A0" }}>
+                    {campaign.status === "scheduled" ? (
+                      `Sends ${formatTimestamp(campaign.scheduled_at)}`
+                    ) : (
+                      <>
+                        <span style={{ color: "#86EFAC" }}>{counts.sent} sent</span>
+                        {counts.failed > 0 && <span style={{ color: "#EF4444" }}> · {counts.failed} failed</span>}
+                        {counts.skipped > 0 && <span style={{ color: "#F59E0B" }}> · {counts.skipped} skipped</span>}
+                        {counts.queued > 0 && <span> · {counts.queued} queued</span>}
+                        {counts.sending > 0 && <span style={{ color: "#60A5FA" }}> · {counts.sending} sending</span>}
+                      </>
+                    )}
+                  </span>
+                  <span onClick={(e) => e.stopPropagation()}>
+                    {canOperate && (campaign.status === "scheduled" || campaign.status === "sending") && (
+                      <button disabled={busy} onClick={() => cancelCampaign(campaign)} style={{ background: "#EF444420", color: "#EF4444", border: "none", borderRadius: "4px", padding: "3px 8px", fontSize: "10px", cursor: "pointer", fontFamily: "'Inter', sans-serif" }}>Cancel</button>
+                    )}
+                  </span>
+                </div>
+                {isExpanded && (
+                  <div style={{ padding: "8px 24px 12px", background: "#0A0A0A", fontSize: "11px", fontFamily: "'Inter', sans-serif", color: "#555", display: "flex", flexDirection: "column", gap: "4px" }}>
+                    <div>
+                      Scheduled {formatTimestamp(campaign.scheduled_at)} by {campaign.created_by ?? "unknown"}
+                      {campaign.started_at && ` · started ${formatTimestamp(campaign.started_at)}`}
+                      {campaign.finished_at && ` · ${campaign.status === "cancelled" ? "cancelled" : "finished"} ${formatTimestamp(campaign.finished_at)}`}
+                      {segment && ` · ${describeSegment(segment.filters, sequenceName)}`}
+                    </div>
+                    {results.length === 0 ? (
+                      <div>{campaign.status === "scheduled" ? "Recipients are picked when sending starts." : "No recipients."}</div>
+                    ) : (
+                      <div style={{ display: "flex", flexDirection: "column", gap: "2px", maxHeight: "240px", overflowY: "auto" }}>
+                        {results.map((r) => (
+                          <div key={r.id} style={{ display: "flex", gap: "12px" }}>
+                            <span style={{ color: "#A0A0A0", minWidth: "200px", overflow: "hidden", textOverflow: "ellipsis", whiteSpace: "nowrap" }}>{r.email}</span>
+                            <span style={{ color: RECIPIENT_COLORS[r.status] }}>{r.status}</span>
+                            {r.sent_at && <span>{formatTimestamp(r.sent_at)}</span>}
+                            {r.error && <span style={{ overflow: "hidden", textOverflow: "ellipsis", whiteSpace: "nowrap" }} title={r.error}>{r.error}</span>}
+                          </div>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,149 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+
+export interface OutboxItem {
+  id: string;
+  subscriber_id: string;
+  sequence_id: string;
+  email_number: number;
+  status: "queued" | "sending" | "sent" | "dead";
+  attempts: number;
+  max_attempts: number;
+  next_attempt_at: string;
+  last_error: string | null;
+  created_by: string | null;
+  created_at: string;
+  sent_at: string | null;
+}
+
+const OUTBOX_COLORS: Record<string, string> = {
+  queued: "#60A5FA",
+  sending: "#F59E0B",
+  sent: "#86EFAC",
+  dead: "#EF4444",
+};
+
+function formatTimestamp(iso: string) {
+  return new Date(iso).toLocaleString("en-GB", { day: "2-digit", month: "short", hour: "2-digit", minute: "2-digit" });
+}
+
+// Emails queued by POST /api/send-email and their delivery attempts. Dead
+// rows ran out of attempts (or failed in a way a retry can't fix) and can be
+// given a fresh set.
+export default function EmailOutbox({
+  items,
+  subscriberName,
+  stepLabel,
+  canOperate,
+  onChange,
+  onError,
+  cardStyle,
+  isMobile,
+}: {
+  items: OutboxItem[];
+  subscriberName: (id: string) => string;
+  stepLabel: (sequenceId: string, stage: number) => string;
+  canOperate: boolean;
+  onChange: () => void;
+  onError: (message: string) => void;
+  cardStyle: React.CSSProperties;
+  isMobile: boolean;
+}) {
+  const [busy, setBusy] = useState(false);
+  const [runNotice, setRunNotice] = useState<string | null>(null);
+
+  const post = async (url: string): Promise<Record<string, unknown> | null> => {
+    setBusy(true);
+    let result: Record<string, unknown> | null = null;
+    try {
+      const res = await fetch(url, { method: "POST" });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) onError(data.error || `Failed: HTTP ${res.status}`);
+      else result = data;
+    } catch (err: unknown) {
+      onError(`Failed: ${err instanceof Error ? err.message : "Network error"}`);
+    }
+    setBusy(false);
+    onChange();
+    return result;
+  };
+
+  const runNow = async () => {
+    const data = await post("/api/cron/email-outbox");
+    if (data) {
+      setRunNotice(data.processed ? `Sent ${data.sent}, retrying ${data.retrying}, dead ${data.dead}` : "Nothing due");
+      setTimeout(() => setRunNotice(null), 5000);
+    }
+  };
+
+  const retry = async (item: OutboxItem) => {
+    const data = await post(`/api/outbox/${item.id}/retry`);
+    const updated = data?.item as OutboxItem | undefined;
+    if (updated && updated.status !== "sent") onError(`Email #${item.email_number} failed again: ${updated.last_error}`);
+  };
+
+  const counts = Object.fromEntries(["queued", "sending", "sent", "dead"].map((status) => [status, items.filter((i) => i.status === status).length]));
+
+  return (
+    <div style={{ ...cardStyle, marginBottom: "24px", ...(isMobile ? { overflowX: "auto" as const } : {}) }}>
+      <div style={{ display: "flex", justifyContent: "space-between", alignItems: "center", marginBottom: "16px", flexWrap: "wrap", gap: "8px" }}>
+        <h3 style={{ fontFamily: "'Space Grotesk', sans-serif", fontWeight: 700, fontSize: "14px", margin: 0 }}>
+          Outbox
+          <span style={{ fontFamily: "'Inter', sans-serif", fontWeight: 400, fontSize: "11px", color: "#555" }}>
+            {(["queued", "sending", "sent", "dead"] as const).filter((s) => counts[s] > 0).map((s) => (
+              <span key={s}> · <span style={{ color: OUTBOX_COLORS[s] }}>{counts[s]} {s}</span></span>
+            ))}
+          </span>
+        </h3>
+        <div style={{ display: "flex", gap: "8px", alignItems: "center" }}>
+          {runNotice && <span style={{ fontSize: "11px", color: "#86EFAC", fontFamily: "'Inter', sans-serif" }}>{runNotice}</span>}
+          {canOperate && (
+            <button
+              disabled={busy || counts.queued === 0}
+              onClick={runNow}
+              title="Retry every queued email that is due"
+              style={{ background: "#A0A0A020", color: "#A0A0A0", border: "none", borderRadius: "6px", padding: "6px 10px", fontSize: "12px", cursor: busy ? "wait" : counts.queued === 0 ? "not-allowed" : "pointer", fontFamily: "'Inter', sans-serif" }}
+            >
+              Retry Due Now
+            </button>
+          )}
+        </div>
+      </div>
+
+      {items.length === 0 ? (
+        <div style={{ fontSize: "12px", color: "#555", fontFamily: "'Inter', sans-serif" }}>No one-off emails sent through the outbox yet.</div>
+      ) : (
+        <div style={{ display: "flex", flexDirection: "column", minWidth: isMobile ? "560px" : "unset", maxHeight: "320px", overflowY: "auto" }}>
+          {items.map((item) => (
+            <div key={item.id} style={{ display: "grid", gridTemplateColumns: "1.2fr 1.4fr 0.6fr 0.5fr 1.6fr 0.5fr", gap: "8px", padding: "8px 0", fontSize: "12px", fontFamily: "'Inter', sans-serif", alignItems: "center", borderBottom: "1px solid #141414" }}>
+              <Link href={`/email/${item.subscriber_id}`} style={{ color: "#fff", textDecoration: "none", overflow: "hidden", textOverflow: "ellipsis", whiteSpace: "nowrap" }}>
+                {subscriberName(item.subscriber_id)}
+              </Link>
+              <span style={{ color: "#A0A0A0", overflow: "hidden", textOverflow: "ellipsis", whiteSpace: "nowrap" }}>
+                Email #{item.email_number} · {stepLabel(item.sequence_id, item.email_number)}
+              </span>
+              <span style={{ color: OUTBOX_COLORS[item.status], textTransform: "capitalize" }}>{item.status}</span>
+              <span style={{ color: "#555" }} title="Attempts">{item.attempts}/{item.max_attempts}</span>
+              <span style={{ color: "#555", overflow: "hidden", textOverflow: "ellipsis", whiteSpace: "nowrap" }} title={item.last_error ?? undefined}>
+                {item.status === "sent" && item.sent_at
+                  ? `Sent ${formatTimestamp(item.sent_at)}${item.last_error ? ` · ${item.last_error}` : ""}`
+                  : item.status === "queued"
+                    ? `Next try ${formatTimestamp(item.next_attempt_at)}${item.last_error ? ` · ${item.last_error}` : ""}`
+                    : item.last_error ?? `Queued ${formatTimestamp(item.created_at)}`}
+              </span>
+              <span>
+                {canOperate && item.status === "dead" && (
+                  <button disabled={busy} onClick={() => retry(item)} style={{ background: "#86EFAC20", color: "#86EFAC", border: "none", borderRadius: "4px", padding: "3px 8px", fontSize: "10px", cursor: busy ? "wait" : "pointer", fontFamily: "'Inter', sans-serif" }}>
+                    Retry
+                  </button>
+                )}
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
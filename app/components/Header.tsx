@@ -2,6 +2,8 @@
 
 import { useState, useEffect } from "react";
 import Link from "next/link";
+import { useSession } from "../hooks/useSession";
+import { hasRole, type Role } from "../lib/roles";
 
 function useIsMobile(breakpoint = 768) {
   const [isMobile, setIsMobile] = useState(false);
@@ -15,23 +17,33 @@ function useIsMobile(breakpoint = 768) {
 }
 
 interface HeaderProps {
-  activePage: "dashboard" | "history" | "email" | "content";
+  activePage: "dashboard" | "history" | "email" | "content" | "audit" | "users";
   countdown?: number;
   lastRefresh?: Date | null;
   formatTime?: (iso: string) => string;
   live?: boolean;
 }
 
-const NAV_ITEMS = [
-  { href: "/", key: "dashboard", label: "🏠 Dashboard" },
-  { href: "/history", key: "history", label: "📜 History" },
-  { href: "/email", key: "email", label: "📧 Email" },
-  { href: "/content", key: "content", label: "🧠 Content" },
+const NAV_ITEMS: { href: string; key: string; label: string; role: Role }[] = [
+  { href: "/", key: "dashboard", label: "🏠 Dashboard", role: "viewer" },
+  { href: "/history", key: "history", label: "📜 History", role: "viewer" },
+  { href: "/email", key: "email", label: "📧 Email", role: "viewer" },
+  { href: "/content", key: "content", label: "🧠 Content", role: "viewer" },
+  { href: "/audit", key: "audit", label: "🧾 Audit", role: "viewer" },
+  { href: "/users", key: "users", label: "👥 Users", role: "admin" },
 ];
 
+const ROLE_COLORS: Record<Role, string> = {
+  viewer: "#A0A0A0",
+  operator: "#60A5FA",
+  admin: "#F59E0B",
+};
+
 export default function Header({ activePage, countdown, lastRefresh, formatTime, live }: HeaderProps) {
   const isMobile = useIsMobile();
   const [menuOpen, setMenuOpen] = useState(false);
+  const { session, logout } = useSession();
+  const navItems = NAV_ITEMS.filter((item) => hasRole(session?.role, item.role));
 
   return (
     <header
@@ -84,7 +96,7 @@ export default function Header({ activePage, countdown, lastRefresh, formatTime,
                 zIndex: 200,
               }}
             >
-              {NAV_ITEMS.map((item) => (
+              {navItems.map((item) => (
                 <Link
                   key={item.href}
                   href={item.href}
@@ -101,12 +113,34 @@ export default function Header({ activePage, countdown, lastRefresh, formatTime,
                   {item.label}
                 </Link>
               ))}
+              {session && (
+                <div style={{ borderTop: "1px solid #1F1F1F", marginTop: "4px", padding: "8px 16px 0", fontSize: "11px", fontFamily: "'Inter', sans-serif", color: "#555" }}>
+                  {session.name} · <span style={{ color: ROLE_COLORS[session.role] }}>{session.role}</span>
+                </div>
+              )}
+              <button
+                onClick={logout}
+                style={{
+                  display: "block",
+                  width: "100%",
+                  textAlign: "left",
+                  background: "none",
+                  border: "none",
+                  padding: "8px 16px",
+                  color: "#A0A0A0",
+                  fontSize: "13px",
+                  fontFamily: "'Inter', sans-serif",
+                  cursor: "pointer",
+                }}
+              >
+                🚪 Log out
+              </button>
             </div>
           )}
         </div>
       ) : (
         <div style={{ display: "flex", alignItems: "center", gap: "16px", fontSize: "12px", color: "#A0A0A0", fontFamily: "'Inter', sans-serif" }}>
-          {NAV_ITEMS.map((item) =>
+          {navItems.map((item) =>
             item.key === activePage ? (
               <span key={item.key} style={{ color: "#86EFAC" }}>{item.label.split(" ")[1]}</span>
             ) : (
@@ -139,6 +173,21 @@ export default function Header({ activePage, countdown, lastRefresh, formatTime,
               )}
             </>
           ) : null}
+          <span style={{ color: "#1F1F1F" }}>|</span>
+          {session && (
+            <span title={`Signed in as ${session.username}`}>
+              {session.name}{" "}
+              <span style={{ color: ROLE_COLORS[session.role], border: `1px solid ${ROLE_COLORS[session.role]}40`, borderRadius: "4px", padding: "1px 6px", fontSize: "10px", textTransform: "uppercase", letterSpacing: "0.05em" }}>
+                {session.role}
+              </span>
+            </span>
+          )}
+          <button
+            onClick={logout}
+            style={{ background: "none", border: "none", padding: 0, color: "#A0A0A0", fontSize: "12px", fontFamily: "'Inter', sans-serif", cursor: "pointer" }}
+          >
+            Log out
+          </button>
         </div>
       )}
     </header>
@@ -0,0 +1,458 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import {
+  MAX_ALT_TEXT_LENGTH,
+  MAX_MEDIA_BYTES,
+  MAX_POST_MEDIA,
+  MAX_THREAD_SEGMENTS,
+  MEDIA_TYPES,
+  POST_ACCOUNTS,
+  SITE_ASSETS,
+  X_MAX_WEIGHTED_LENGTH,
+  X_URL_WEIGHT,
+  postLength,
+  postSegments,
+  splitToFit,
+  type PostAccount,
+  type PostMedia,
+} from "../lib/content-posts";
+
+export interface ComposerPost {
+  id: string;
+  account: PostAccount;
+  content: string;
+  segments: string[];
+  scheduled_at: string | null;
+  status: "scheduled" | "posted" | "draft";
+  // Set once the first segment of a thread is out; it can't be edited after.
+  post_id: string | null;
+  media: PostMedia[];
+}
+
+interface Draft {
+  account: PostAccount;
+  // One entry per post in the thread.
+  segments: string[];
+  // datetime-local value, in the browser's time zone.
+  scheduledAt: string;
+  media: PostMedia[];
+}
+
+const EMPTY_DRAFT: Draft = { account: "@gettraqd", segments: [""], scheduledAt: "", media: [] };
+
+const inputStyle: React.CSSProperties = {
+  background: "#000",
+  border: "1px solid #1F1F1F",
+  borderRadius: "6px",
+  padding: "6px 8px",
+  color: "#fff",
+  fontSize: "12px",
+  fontFamily: "'Inter', sans-serif",
+  outline: "none",
+};
+
+const buttonStyle = (color: string): React.CSSProperties => ({
+  background: `${color}20`,
+  color,
+  border: "none",
+  borderRadius: "6px",
+  padding: "6px 10px",
+  fontSize: "12px",
+  cursor: "pointer",
+  fontFamily: "'Inter', sans-serif",
+});
+
+function toDatetimeLocal(iso: string | null) {
+  if (!iso) return "";
+  const date = new Date(iso);
+  if (Number.isNaN(date.getTime())) return "";
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(date.getHours())}:${pad(date.getMinutes())}`;
+}
+
+function formatTimestamp(iso: string) {
+  return new Date(iso).toLocaleString("en-GB", { weekday: "short", day: "2-digit", month: "short", hour: "2-digit", minute: "2-digit" });
+}
+
+function queueLabel(post: ComposerPost) {
+  const thread = `${post.segments.length > 1 ? ` · 🧵 ${post.segments.length}` : ""}${post.media.length > 0 ? ` · 🖼 ${post.media.length}` : ""}`;
+  if (post.status === "scheduled" && post.scheduled_at) return `${formatTimestamp(post.scheduled_at)}${thread}`;
+  return `${post.scheduled_at ? `Draft for ${formatTimestamp(post.scheduled_at)}` : "Draft, no time set"}${thread}`;
+}
+
+// Writes and edits content_posts, as a single post or a thread: each segment
+// is its own tweet with its own length limit, and can be split at the cursor
+// or joined with the next one. Drafts may have a planned time or none;
+// scheduling needs a time in the future, and scripts/post-scheduler.py
+// publishes the post once it's due. The queue lists every draft and
+// scheduled post, including ones outside the calendar's week.
+export default function PostComposer({
+  queue,
+  editing,
+  onEdit,
+  onChange,
+  cardStyle,
+  isMobile,
+}: {
+  queue: ComposerPost[];
+  // The post loaded into the form, or null when composing a new one.
+  editing: ComposerPost | null;
+  onEdit: (post: ComposerPost | null) => void;
+  onChange: () => void;
+  cardStyle: React.CSSProperties;
+  isMobile: boolean;
+}) {
+  const [draft, setDraft] = useState<Draft>(EMPTY_DRAFT);
+  const [busy, setBusy] = useState(false);
+  const [uploading, setUploading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  // Caret position in each segment's textarea, for splitting at the cursor.
+  const [cursors, setCursors] = useState<Record<number, number>>({});
+
+  useEffect(() => {
+    setDraft(
+      editing
+        ? { account: editing.account, segments: postSegments(editing), scheduledAt: toDatetimeLocal(editing.scheduled_at), media: editing.media }
+        : EMPTY_DRAFT
+    );
+    setCursors({});
+    setError(null);
+  }, [editing]);
+
+  const lengths = draft.segments.map((segment) => postLength(segment));
+  const overLimit = lengths.some((length) => length.remaining < 0);
+  const filled = draft.segments.filter((segment) => segment.trim());
+  const isEmpty = filled.length === 0;
+  const isThread = draft.segments.length > 1;
+
+  const setSegments = (segments: string[]) => {
+    setDraft({ ...draft, segments });
+    setCursors({});
+  };
+  const updateSegment = (index: number, value: string) => setDraft({ ...draft, segments: draft.segments.map((s, i) => (i === index ? value : s)) });
+  const splitAtCursor = (index: number) => {
+    const segment = draft.segments[index];
+    const at = cursors[index] ?? segment.length;
+    setSegments([...draft.segments.slice(0, index), segment.slice(0, at).trimEnd(), segment.slice(at).trimStart(), ...draft.segments.slice(index + 1)]);
+  };
+  const joinWithNext = (index: number) => {
+    const joined = [draft.segments[index].trimEnd(), draft.segments[index + 1].trimStart()].filter(Boolean).join(" ");
+    setSegments([...draft.segments.slice(0, index), joined, ...draft.segments.slice(index + 2)]);
+  };
+  const splitSegmentToFit = (index: number) => {
+    setSegments([...draft.segments.slice(0, index), ...splitToFit(draft.segments[index]), ...draft.segments.slice(index + 1)]);
+  };
+  const removeSegment = (index: number) => setSegments(draft.segments.filter((_, i) => i !== index));
+  const scheduledDate = draft.scheduledAt ? new Date(draft.scheduledAt) : null;
+  const inPast = scheduledDate !== null && scheduledDate.getTime() <= Date.now();
+
+  const send = async (url: string, method: string, body?: unknown): Promise<boolean> => {
+    setBusy(true);
+    setError(null);
+    let ok = false;
+    try {
+      const res = await fetch(url, {
+        method,
+        headers: body ? { "Content-Type": "application/json" } : undefined,
+        body: body ? JSON.stringify(body) : undefined,
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) setError(data.error || `Failed: HTTP ${res.status}`);
+      else ok = true;
+    } catch (err: unknown) {
+      setError(`Failed: ${err instanceof Error ? err.message : "Network error"}`);
+    }
+    setBusy(false);
+    onChange();
+    return ok;
+  };
+
+  const save = async (status: "draft" | "scheduled") => {
+    if (status === "scheduled" && !scheduledDate) return setError("Pick a date and time to schedule the post");
+    if (status === "scheduled" && inPast) return setError("Scheduled time is in the past");
+    const body = {
+      account: draft.account,
+      // Blank segments are dropped rather than rejected.
+      segments: filled,
+      media: draft.media,
+      status,
+      scheduledAt: scheduledDate ? scheduledDate.toISOString() : null,
+    };
+    const ok = editing ? await send(`/api/posts/${editing.id}`, "PATCH", body) : await send("/api/posts", "POST", body);
+    if (ok) {
+      onEdit(null);
+      setDraft(EMPTY_DRAFT);
+    }
+  };
+
+  // Images are stored as soon as they're picked and attached when the post
+  // is saved.
+  const attach = async (requests: RequestInit[]) => {
+    setUploading(true);
+    setError(null);
+    const added: PostMedia[] = [];
+    for (const request of requests.slice(0, MAX_POST_MEDIA - draft.media.length)) {
+      try {
+        const res = await fetch("/api/media", { method: "POST", ...request });
+        const data = await res.json().catch(() => ({}));
+        if (!res.ok) {
+          setError(data.error || `Upload failed: HTTP ${res.status}`);
+          break;
+        }
+        added.push(data.media);
+      } catch (err: unknown) {
+        setError(`Upload failed: ${err instanceof Error ? err.message : "Network error"}`);
+        break;
+      }
+    }
+    setDraft((current) => ({ ...current, media: [...current.media, ...added].slice(0, MAX_POST_MEDIA) }));
+    setUploading(false);
+  };
+
+  const uploadFiles = (files: FileList | null) => {
+    const picked = Array.from(files ?? []);
+    const rejected = picked.find((file) => !(file.type in MEDIA_TYPES) || file.size > MAX_MEDIA_BYTES);
+    if (rejected) return setError(`${rejected.name} isn't a JPEG, PNG, GIF or WebP image of at most ${MAX_MEDIA_BYTES / 1024 / 1024}MB`);
+    attach(
+      picked.map((file) => {
+        const form = new FormData();
+        form.append("file", file);
+        return { body: form };
+      })
+    );
+  };
+
+  const attachAsset = (asset: string) =>
+    attach([{ headers: { "Content-Type": "application/json" }, body: JSON.stringify({ asset }) }]);
+
+  const updateMedia = (index: number, alt: string) =>
+    setDraft({ ...draft, media: draft.media.map((item, i) => (i === index ? { ...item, alt } : item)) });
+
+  const remove = async (post: ComposerPost) => {
+    if (!confirm(`Delete this ${post.status} post from ${post.account}?`)) return;
+    if ((await send(`/api/posts/${post.id}`, "DELETE")) && editing?.id === post.id) onEdit(null);
+  };
+
+  const sortedQueue = [...queue].sort((a, b) => {
+    // Unplanned drafts first, then by time.
+    if (!a.scheduled_at || !b.scheduled_at) return a.scheduled_at ? 1 : b.scheduled_at ? -1 : 0;
+    return new Date(a.scheduled_at).getTime() - new Date(b.scheduled_at).getTime();
+  });
+
+  return (
+    <div style={{ ...cardStyle, marginBottom: "24px" }}>
+      <div style={{ display: "flex", justifyContent: "space-between", alignItems: "center", marginBottom: "16px", gap: "8px", flexWrap: "wrap" }}>
+        <h3 style={{ fontFamily: "'Space Grotesk', sans-serif", fontWeight: 700, fontSize: "14px", margin: 0 }}>
+          {editing ? `Edit ${editing.status === "draft" ? "Draft" : "Scheduled Post"}` : isThread ? "New Thread" : "New Post"}
+        </h3>
+        {editing && (
+          <button onClick={() => onEdit(null)} disabled={busy} style={buttonStyle("#A0A0A0")}>
+            Cancel Edit
+          </button>
+        )}
+      </div>
+
+      <div style={{ display: "grid", gridTemplateColumns: isMobile ? "1fr" : "1.4fr 1fr", gap: "20px" }}>
+        <div style={{ display: "flex", flexDirection: "column", gap: "10px" }}>
+          <div style={{ display: "flex", gap: "8px", flexWrap: "wrap" }}>
+            {POST_ACCOUNTS.map((account) => (
+              <button
+                key={account}
+                onClick={() => setDraft({ ...draft, account })}
+                style={{
+                  ...inputStyle,
+                  cursor: "pointer",
+                  color: draft.account === account ? "#000" : "#A0A0A0",
+                  background: draft.account === account ? "#86EFAC" : "#000",
+                  borderColor: draft.account === account ? "#86EFAC" : "#1F1F1F",
+                  fontWeight: 600,
+                }}
+              >
+                {account}
+              </button>
+            ))}
+          </div>
+
+          {draft.segments.map((segment, index) => {
+            const length = lengths[index];
+            const segmentOver = length.remaining < 0;
+            return (
+              <div key={index} style={{ display: "flex", flexDirection: "column", gap: "6px", ...(isThread ? { borderLeft: "2px solid #1F1F1F", paddingLeft: "10px" } : {}) }}>
+                <textarea
+                  value={segment}
+                  onChange={(e) => updateSegment(index, e.target.value)}
+                  onSelect={(e) => setCursors({ ...cursors, [index]: e.currentTarget.selectionStart })}
+                  placeholder={index === 0 ? `What's happening at ${draft.account}?` : "Add to the thread"}
+                  rows={isThread ? 4 : 6}
+                  style={{ ...inputStyle, fontSize: "14px", lineHeight: 1.5, resize: "vertical", borderColor: segmentOver ? "#EF4444" : "#1F1F1F" }}
+                />
+                <div style={{ display: "flex", justifyContent: "space-between", alignItems: "center", fontSize: "11px", fontFamily: "'Inter', sans-serif", gap: "8px", flexWrap: "wrap" }}>
+                  <span style={{ display: "flex", gap: "6px", alignItems: "center", flexWrap: "wrap" }}>
+                    {isThread && <span style={{ color: "#A0A0A0", fontWeight: 600 }}>{index + 1}/{draft.segments.length}</span>}
+                    {segmentOver && (
+                      <button onClick={() => splitSegmentToFit(index)} disabled={draft.segments.length - 1 + splitToFit(segment).length > MAX_THREAD_SEGMENTS} style={{ ...buttonStyle("#EF4444"), padding: "3px 8px", fontSize: "10px" }}>
+                        Split to Fit
+                      </button>
+                    )}
+                    {draft.segments.length < MAX_THREAD_SEGMENTS && (
+                      <button onClick={() => splitAtCursor(index)} title="Start a new post in the thread at the cursor" style={{ ...buttonStyle("#A0A0A0"), padding: "3px 8px", fontSize: "10px" }}>
+                        Split at Cursor
+                      </button>
+                    )}
+                    {index < draft.segments.length - 1 && (
+                      <button onClick={() => joinWithNext(index)} title="Merge with the next post" style={{ ...buttonStyle("#A0A0A0"), padding: "3px 8px", fontSize: "10px" }}>
+                        Join Next
+                      </button>
+                    )}
+                    {isThread && (
+                      <button onClick={() => removeSegment(index)} style={{ ...buttonStyle("#EF4444"), padding: "3px 8px", fontSize: "10px" }}>
+                        Remove
+                      </button>
+                    )}
+                    {length.urls.length > 0 && (
+                      <span style={{ color: "#555" }}>
+                        {length.urls.length} link{length.urls.length === 1 ? "" : "s"} counted as {X_URL_WEIGHT} characters each
+                      </span>
+                    )}
+                  </span>
+                  <span
+                    title={`Weighted the way X counts: links are ${X_URL_WEIGHT}, emoji and CJK characters are 2`}
+                    style={{ color: segmentOver ? "#EF4444" : length.remaining <= 20 ? "#F59E0B" : "#A0A0A0", fontWeight: 600 }}
+                  >
+                    {length.weighted}/{X_MAX_WEIGHTED_LENGTH}
+                  </span>
+                </div>
+              </div>
+            );
+          })}
+
+          <div style={{ display: "flex", gap: "8px", alignItems: "center", flexWrap: "wrap" }}>
+            {draft.segments.length < MAX_THREAD_SEGMENTS && (
+              <button onClick={() => setSegments([...draft.segments, ""])} style={buttonStyle("#60A5FA")}>
+                + Add to Thread
+              </button>
+            )}
+            {draft.media.length < MAX_POST_MEDIA && (
+              <>
+                <label style={{ ...buttonStyle("#60A5FA"), cursor: uploading ? "wait" : "pointer" }}>
+                  {uploading ? "Uploading…" : "+ Image"}
+                  <input
+                    type="file"
+                    accept={Object.keys(MEDIA_TYPES).join(",")}
+                    multiple
+                    disabled={uploading}
+                    onChange={(e) => {
+                      uploadFiles(e.target.files);
+                      e.target.value = "";
+                    }}
+                    style={{ display: "none" }}
+                  />
+                </label>
+                <select value="" disabled={uploading} onChange={(e) => e.target.value && attachAsset(e.target.value)} style={{ ...inputStyle, color: "#A0A0A0" }}>
+                  <option value="">Site asset…</option>
+                  {SITE_ASSETS.map((asset) => <option key={asset} value={asset}>{asset}</option>)}
+                </select>
+              </>
+            )}
+          </div>
+
+          {draft.media.length > 0 && (
+            <div>
+              <div style={{ fontSize: "11px", color: "#555", fontFamily: "'Inter', sans-serif", marginBottom: "6px" }}>
+                {draft.media.length}/{MAX_POST_MEDIA} images{isThread ? ", attached to the first post" : ""}
+              </div>
+              <div style={{ display: "grid", gridTemplateColumns: isMobile ? "1fr 1fr" : "repeat(4, 1fr)", gap: "8px" }}>
+                {draft.media.map((item, index) => (
+                  <div key={item.path} style={{ display: "flex", flexDirection: "column", gap: "4px" }}>
+                    <div style={{ position: "relative" }}>
+                      <img src={item.url} alt={item.alt} style={{ width: "100%", aspectRatio: "1", objectFit: "cover", borderRadius: "6px", border: "1px solid #1F1F1F", display: "block" }} />
+                      <button
+                        onClick={() => setDraft({ ...draft, media: draft.media.filter((_, i) => i !== index) })}
+                        title="Remove image"
+                        style={{ position: "absolute", top: "4px", right: "4px", background: "#000000B0", color: "#fff", border: "none", borderRadius: "50%", width: "20px", height: "20px", fontSize: "11px", cursor: "pointer", lineHeight: 1 }}
+                      >
+                        ✕
+                      </button>
+                    </div>
+                    <input
+                      value={item.alt}
+                      onChange={(e) => updateMedia(index, e.target.value)}
+                      maxLength={MAX_ALT_TEXT_LENGTH}
+                      placeholder="Alt text"
+                      style={{ ...inputStyle, fontSize: "11px", padding: "4px 6px", borderColor: item.alt.trim() ? "#1F1F1F" : "#F59E0B60" }}
+                    />
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          <div style={{ display: "flex", gap: "8px", alignItems: "center", flexWrap: "wrap" }}>
+            <input
+              type="datetime-local"
+              value={draft.scheduledAt}
+              min={toDatetimeLocal(new Date().toISOString())}
+              onChange={(e) => setDraft({ ...draft, scheduledAt: e.target.value })}
+              aria-label="Scheduled time"
+              style={{ ...inputStyle, borderColor: inPast ? "#EF4444" : "#1F1F1F", colorScheme: "dark" }}
+            />
+            {draft.scheduledAt && (
+              <button onClick={() => setDraft({ ...draft, scheduledAt: "" })} style={buttonStyle("#A0A0A0")}>
+                Clear Time
+              </button>
+            )}
+            <span style={{ flex: 1 }} />
+            <button disabled={busy || isEmpty || overLimit} onClick={() => save("draft")} style={buttonStyle("#A0A0A0")}>
+              Save Draft
+            </button>
+            <button
+              disabled={busy || isEmpty || overLimit || !scheduledDate || inPast}
+              onClick={() => save("scheduled")}
+              style={{ ...buttonStyle("#86EFAC"), opacity: busy || isEmpty || overLimit || !scheduledDate || inPast ? 0.5 : 1 }}
+            >
+              Schedule
+            </button>
+          </div>
+          {inPast && <div style={{ color: "#F59E0B", fontSize: "11px", fontFamily: "'Inter', sans-serif" }}>That time has passed; pick a later one to schedule.</div>}
+          {error && <div style={{ color: "#EF4444", fontSize: "12px", fontFamily: "'Inter', sans-serif" }}>{error}</div>}
+        </div>
+
+        <div>
+          <div style={{ fontSize: "11px", color: "#A0A0A0", fontFamily: "'Inter', sans-serif", textTransform: "uppercase", letterSpacing: "0.5px", marginBottom: "8px" }}>
+            Queue · {queue.length}
+          </div>
+          {sortedQueue.length === 0 ? (
+            <div style={{ fontSize: "12px", color: "#555", fontFamily: "'Inter', sans-serif" }}>No drafts or scheduled posts</div>
+          ) : (
+            <div style={{ display: "flex", flexDirection: "column", maxHeight: "260px", overflowY: "auto" }}>
+              {sortedQueue.map((post) => (
+                <div key={post.id} style={{ padding: "8px 0", borderBottom: "1px solid #141414", fontFamily: "'Inter', sans-serif", background: editing?.id === post.id ? "#111" : "transparent" }}>
+                  <div style={{ display: "flex", justifyContent: "space-between", alignItems: "center", gap: "8px", fontSize: "11px" }}>
+                    <span>
+                      <span style={{ color: "#86EFAC", fontWeight: 600 }}>{post.account}</span>
+                      <span style={{ color: post.status === "scheduled" ? "#F59E0B" : "#A0A0A0" }}> · {queueLabel(post)}</span>
+                    </span>
+                    {post.post_id ? (
+                      <span style={{ color: "#86EFAC" }} title="The scheduler has started publishing this thread">Publishing</span>
+                    ) : (
+                      <span style={{ display: "flex", gap: "6px" }}>
+                        <button onClick={() => onEdit(post)} disabled={busy} style={{ ...buttonStyle("#60A5FA"), padding: "3px 8px", fontSize: "10px" }}>
+                          Edit
+                        </button>
+                        <button onClick={() => remove(post)} disabled={busy} style={{ ...buttonStyle("#EF4444"), padding: "3px 8px", fontSize: "10px" }}>
+                          Delete
+                        </button>
+                      </span>
+                    )}
+                  </div>
+                  <div style={{ fontSize: "12px", color: "#E5E5E5", marginTop: "4px", overflow: "hidden", textOverflow: "ellipsis", whiteSpace: "nowrap" }}>{postSegments(post)[0]}</div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
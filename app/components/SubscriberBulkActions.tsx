@@ -0,0 +1,205 @@
+"use client";
+
+import { useState } from "react";
+import { BULK_ACTIONS, checkBulkAction, type BulkAction, type BulkResult, type BulkSubscriber } from "../lib/subscriber-bulk";
+
+interface Sequence {
+  id: string;
+  name: string;
+}
+
+// A bulk action on the current sequence, or enrolling the selection in
+// another one.
+type PendingAction = { action: BulkAction; stage: number | null } | { action: "enroll"; target: Sequence };
+
+interface BatchReport {
+  title: string;
+  succeeded: number;
+  failed: number;
+  results: BulkResult[];
+}
+
+const buttonStyle = (color: string): React.CSSProperties => ({
+  background: `${color}20`,
+  color,
+  border: "none",
+  borderRadius: "6px",
+  padding: "5px 10px",
+  fontSize: "11px",
+  cursor: "pointer",
+  fontFamily: "'Inter', sans-serif",
+});
+
+function describe(pending: PendingAction) {
+  if (pending.action === "enroll") return `Enroll in ${pending.target.name}`;
+  const info = BULK_ACTIONS[pending.action];
+  return info.needsStage ? `${info.label} ${pending.stage}` : info.label;
+}
+
+// Toolbar for the selected subscriber rows of one sequence: pick an action,
+// confirm it against the affected count, then show the per-subscriber batch
+// report.
+export default function SubscriberBulkActions({
+  sequence,
+  otherSequences,
+  selected,
+  isAdmin,
+  onClear,
+  onDone,
+  stageLabels,
+}: {
+  sequence: Sequence;
+  otherSequences: Sequence[];
+  selected: BulkSubscriber[];
+  isAdmin: boolean;
+  onClear: () => void;
+  onDone: () => void;
+  stageLabels: string[];
+}) {
+  const [stage, setStage] = useState(1);
+  const [pending, setPending] = useState<PendingAction | null>(null);
+  const [running, setRunning] = useState(false);
+  const [report, setReport] = useState<BatchReport | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const run = async () => {
+    if (!pending) return;
+    setRunning(true);
+    setError(null);
+    try {
+      const ids = selected.map((s) => s.id);
+      const res =
+        pending.action === "enroll"
+          ? await fetch(`/api/sequences/${pending.target.id}/enrollments`, {
+              method: "POST",
+              headers: { "Content-Type": "application/json" },
+              body: JSON.stringify({ ids }),
+            })
+          : await fetch("/api/subscribers/bulk", {
+              method: "POST",
+              headers: { "Content-Type": "application/json" },
+              body: JSON.stringify({ action: pending.action, ids, stage: pending.stage, sequenceId: sequence.id }),
+            });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        setError(data.error || `Failed: HTTP ${res.status}`);
+      } else {
+        setReport({ ...data, title: describe(pending) });
+        setPending(null);
+      }
+    } catch (err: unknown) {
+      setError(`Failed: ${err instanceof Error ? err.message : "Network error"}`);
+    }
+    setRunning(false);
+  };
+
+  const closeReport = () => {
+    setReport(null);
+    onDone();
+  };
+
+  // Skip reasons for the pending action, grouped for the confirmation dialog.
+  // Enrolling only skips unsubscribed and suppressed rows here; the server
+  // reports anyone already in the target sequence.
+  const skips = pending
+    ? selected.reduce<Record<string, number>>((acc, sub) => {
+        const reason =
+          pending.action === "enroll"
+            ? sub.status === "unsubscribed" || sub.status === "suppressed"
+              ? `Subscriber is ${sub.status}`
+              : null
+            : checkBulkAction(pending.action, sub, pending.stage);
+        if (reason) acc[reason] = (acc[reason] ?? 0) + 1;
+        return acc;
+      }, {})
+    : {};
+  const skipped = Object.values(skips).reduce((sum, n) => sum + n, 0);
+  const affected = selected.length - skipped;
+
+  return (
+    <>
+      <div style={{ display: "flex", gap: "8px", alignItems: "center", flexWrap: "wrap", padding: "8px 12px", marginBottom: "8px", background: "#111", borderRadius: "8px", fontSize: "12px", fontFamily: "'Inter', sans-serif" }}>
+        <span style={{ color: "#fff", fontWeight: 600 }}>{selected.length} selected</span>
+        <button onClick={() => setPending({ action: "pause", stage: null })} style={buttonStyle("#F59E0B")}>Pause</button>
+        <button onClick={() => setPending({ action: "resume", stage: null })} style={buttonStyle("#86EFAC")}>Resume</button>
+        <select value={stage} onChange={(e) => setStage(Number(e.target.value))} style={{ background: "#000", border: "1px solid #1F1F1F", borderRadius: "6px", padding: "4px 8px", color: "#A0A0A0", fontSize: "11px", fontFamily: "'Inter', sans-serif" }}>
+          {stageLabels.map((label, i) => <option key={i} value={i + 1}>{i + 1}. {label}</option>)}
+        </select>
+        <button onClick={() => setPending({ action: "advance", stage })} style={buttonStyle("#60A5FA")}>Advance</button>
+        <button onClick={() => setPending({ action: "reset", stage })} style={buttonStyle("#60A5FA")}>Reset</button>
+        {otherSequences.length > 0 && (
+          <select
+            value=""
+            onChange={(e) => {
+              const target = otherSequences.find((seq) => seq.id === e.target.value);
+              if (target) setPending({ action: "enroll", target });
+            }}
+            style={{ background: "#000", border: "1px solid #1F1F1F", borderRadius: "6px", padding: "4px 8px", color: "#A0A0A0", fontSize: "11px", fontFamily: "'Inter', sans-serif" }}
+          >
+            <option value="">Enroll in…</option>
+            {otherSequences.map((seq) => <option key={seq.id} value={seq.id}>{seq.name}</option>)}
+          </select>
+        )}
+        {isAdmin && <button onClick={() => setPending({ action: "delete", stage: null })} style={buttonStyle("#EF4444")}>Delete</button>}
+        <button onClick={onClear} style={{ background: "none", border: "none", color: "#555", fontSize: "11px", cursor: "pointer", fontFamily: "'Inter', sans-serif" }}>Clear</button>
+      </div>
+
+      {(pending || report) && (
+        <div style={{ position: "fixed", top: 0, left: 0, right: 0, bottom: 0, background: "rgba(0,0,0,0.85)", zIndex: 1000, display: "flex", alignItems: "center", justifyContent: "center", padding: "20px" }} onClick={() => (report ? closeReport() : setPending(null))}>
+          <div style={{ background: "#0D0D0D", border: "1px solid #1F1F1F", borderRadius: "16px", maxWidth: "520px", width: "100%", maxHeight: "80vh", display: "flex", flexDirection: "column", overflow: "hidden", fontFamily: "'Inter', sans-serif" }} onClick={(e) => e.stopPropagation()}>
+            {pending && (
+              <>
+                <div style={{ padding: "20px 24px", display: "flex", flexDirection: "column", gap: "10px", fontSize: "12px" }}>
+                  <span style={{ fontFamily: "'Space Grotesk', sans-serif", fontWeight: 700, fontSize: "16px", color: "#fff" }}>
+                    {describe(pending)} — {affected} subscriber{affected === 1 ? "" : "s"}?
+                  </span>
+                  <span style={{ color: "#A0A0A0" }}>
+                    {pending.action === "enroll"
+                      ? `Starts ${pending.target.name} from its first step. Their progress in ${sequence.name} is unchanged.`
+                      : pending.action === "delete"
+                        ? BULK_ACTIONS.delete.description
+                        : `${sequence.name}: ${BULK_ACTIONS[pending.action].description}`}
+                  </span>
+                  {skipped > 0 && (
+                    <div style={{ color: "#F59E0B" }}>
+                      {skipped} of {selected.length} selected will be skipped:
+                      {Object.entries(skips).map(([reason, count]) => <div key={reason} style={{ color: "#A0A0A0", marginLeft: "12px" }}>{count} × {reason}</div>)}
+                    </div>
+                  )}
+                  {error && <span style={{ color: "#EF4444" }}>{error}</span>}
+                </div>
+                <div style={{ padding: "12px 24px", borderTop: "1px solid #1F1F1F", display: "flex", justifyContent: "flex-end", gap: "8px" }}>
+                  <button onClick={() => setPending(null)} style={{ background: "#1F1F1F", border: "none", borderRadius: "8px", padding: "8px 16px", color: "#A0A0A0", fontSize: "12px", cursor: "pointer", fontFamily: "'Inter', sans-serif" }}>Cancel</button>
+                  <button onClick={run} disabled={running || affected === 0} style={{ background: pending.action === "delete" ? "#EF4444" : "#86EFAC", border: "none", borderRadius: "8px", padding: "8px 16px", color: "#000", fontSize: "12px", fontWeight: 600, cursor: running ? "wait" : affected === 0 ? "not-allowed" : "pointer", fontFamily: "'Inter', sans-serif" }}>
+                    {running ? "Working…" : `${describe(pending)} (${affected})`}
+                  </button>
+                </div>
+              </>
+            )}
+
+            {report && (
+              <>
+                <div style={{ padding: "20px 24px", display: "flex", flexDirection: "column", gap: "10px", fontSize: "12px", overflowY: "auto" }}>
+                  <span style={{ fontFamily: "'Space Grotesk', sans-serif", fontWeight: 700, fontSize: "16px", color: "#fff" }}>{report.title}: done</span>
+                  <span>
+                    <span style={{ color: "#86EFAC", fontWeight: 600 }}>{report.succeeded} succeeded</span>
+                    {report.failed > 0 && <span style={{ color: "#EF4444", fontWeight: 600 }}> · {report.failed} failed</span>}
+                  </span>
+                  {report.results.filter((r) => !r.ok).map((r) => (
+                    <div key={r.id} style={{ display: "flex", gap: "8px" }}>
+                      <span style={{ color: "#A0A0A0", overflow: "hidden", textOverflow: "ellipsis", whiteSpace: "nowrap" }}>{r.email || r.id}</span>
+                      <span style={{ color: "#EF4444", flexShrink: 0 }}>{r.error}</span>
+                    </div>
+                  ))}
+                </div>
+                <div style={{ padding: "12px 24px", borderTop: "1px solid #1F1F1F", display: "flex", justifyContent: "flex-end" }}>
+                  <button onClick={closeReport} style={{ background: "#1F1F1F", border: "none", borderRadius: "8px", padding: "8px 16px", color: "#A0A0A0", fontSize: "12px", cursor: "pointer", fontFamily: "'Inter', sans-serif" }}>Close</button>
+                </div>
+              </>
+            )}
+          </div>
+        </div>
+      )}
+    </>
+  );
+}
@@ -0,0 +1,170 @@
+"use client";
+
+import { useState } from "react";
+import { parseCsv } from "../lib/csv";
+import { IMPORT_FIELDS, guessColumnTargets, validateMapping, type ColumnTarget, type ImportSkip, type NewSubscriber } from "../lib/subscriber-import";
+
+interface DryRun {
+  toImport: number;
+  sample: NewSubscriber[];
+  skipped: ImportSkip[];
+}
+
+const SHOWN_SKIPS = 50;
+
+const selectStyle: React.CSSProperties = {
+  background: "#000",
+  border: "1px solid #1F1F1F",
+  borderRadius: "6px",
+  padding: "4px 8px",
+  color: "#A0A0A0",
+  fontSize: "12px",
+  fontFamily: "'Inter', sans-serif",
+};
+
+// CSV import modal: pick a file, map its columns, check a dry run, then
+// import. Imported subscribers are enrolled in the given sequence.
+export default function SubscriberImport({
+  sequence,
+  onClose,
+  onImported,
+}: {
+  sequence: { id: string; name: string };
+  onClose: () => void;
+  onImported: (message: string) => void;
+}) {
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [header, setHeader] = useState<string[]>([]);
+  const [rows, setRows] = useState<string[][]>([]);
+  const [targets, setTargets] = useState<ColumnTarget[]>([]);
+  const [dryRun, setDryRun] = useState<DryRun | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadFile = async (file: File) => {
+    setError(null);
+    setDryRun(null);
+    const [first, ...data] = parseCsv(await file.text());
+    if (!first || data.length === 0) {
+      setError("The file needs a header row and at least one subscriber");
+      return;
+    }
+    setFileName(file.name);
+    setHeader(first);
+    setRows(data);
+    setTargets(guessColumnTargets(first));
+  };
+
+  const setTarget = (column: number, target: ColumnTarget) => {
+    setTargets(targets.map((t, i) => (i === column ? target : t)));
+    setDryRun(null);
+  };
+
+  const submit = async (commit: boolean) => {
+    setBusy(true);
+    setError(null);
+    try {
+      const res = await fetch("/api/subscribers/import", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ header, rows, targets, dryRun: !commit, sequenceId: sequence.id }),
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        setError(data.error || `Import failed: HTTP ${res.status}`);
+      } else if (commit) {
+        onImported(`Imported ${data.imported} subscriber${data.imported === 1 ? "" : "s"}${data.skipped.length > 0 ? `, skipped ${data.skipped.length}` : ""}`);
+      } else {
+        setDryRun(data);
+      }
+    } catch (err: unknown) {
+      setError(`Import failed: ${err instanceof Error ? err.message : "Network error"}`);
+    }
+    setBusy(false);
+  };
+
+  const mappingError = header.length > 0 ? validateMapping(header, targets) : null;
+
+  return (
+    <div style={{ position: "fixed", top: 0, left: 0, right: 0, bottom: 0, background: "rgba(0,0,0,0.85)", zIndex: 1000, display: "flex", alignItems: "center", justifyContent: "center", padding: "20px" }} onClick={onClose}>
+      <div style={{ background: "#0D0D0D", border: "1px solid #1F1F1F", borderRadius: "16px", maxWidth: "760px", width: "100%", maxHeight: "90vh", display: "flex", flexDirection: "column", overflow: "hidden" }} onClick={(e) => e.stopPropagation()}>
+        <div style={{ padding: "16px 24px", borderBottom: "1px solid #1F1F1F", display: "flex", justifyContent: "space-between", alignItems: "center", flexShrink: 0 }}>
+          <span style={{ fontFamily: "'Space Grotesk', sans-serif", fontWeight: 700, fontSize: "16px", color: "#fff" }}>Import Subscribers</span>
+          <button onClick={onClose} style={{ background: "none", border: "none", color: "#555", fontSize: "20px", cursor: "pointer", padding: "4px 8px" }}>✕</button>
+        </div>
+
+        <div style={{ padding: "16px 24px", overflowY: "auto", display: "flex", flexDirection: "column", gap: "16px", fontFamily: "'Inter', sans-serif", fontSize: "12px" }}>
+          <div style={{ color: "#A0A0A0" }}>
+            <input type="file" accept=".csv,text/csv" onChange={(e) => e.target.files?.[0] && loadFile(e.target.files[0])} style={{ color: "#A0A0A0", fontSize: "12px" }} />
+            <div style={{ color: "#555", marginTop: "6px" }}>
+              First row is the header. Only Email is required; new subscribers join {sequence.name} before its first step (stage 0), active, signed up today unless mapped. Other columns can be kept as custom attributes.
+            </div>
+          </div>
+
+          {header.length > 0 && (
+            <div>
+              <div style={{ fontSize: "11px", color: "#86EFAC", fontFamily: "'Space Grotesk', sans-serif", fontWeight: 700, textTransform: "uppercase", letterSpacing: "0.08em", marginBottom: "8px" }}>
+                {fileName} · {rows.length} row{rows.length === 1 ? "" : "s"}
+              </div>
+              <div style={{ display: "grid", gridTemplateColumns: "1fr 1.2fr 1fr", gap: "8px", padding: "6px 0", fontSize: "10px", color: "#A0A0A0", textTransform: "uppercase", letterSpacing: "0.5px", borderBottom: "1px solid #1F1F1F" }}>
+                <span>Column</span>
+                <span>First value</span>
+                <span>Import as</span>
+              </div>
+              {header.map((column, i) => (
+                <div key={i} style={{ display: "grid", gridTemplateColumns: "1fr 1.2fr 1fr", gap: "8px", padding: "6px 0", borderBottom: "1px solid #141414", alignItems: "center" }}>
+                  <span style={{ color: "#fff" }}>{column || <span style={{ color: "#555" }}>(no header)</span>}</span>
+                  <span style={{ color: "#A0A0A0", overflow: "hidden", textOverflow: "ellipsis", whiteSpace: "nowrap" }}>{rows[0][i] ?? ""}</span>
+                  <select value={targets[i]} onChange={(e) => setTarget(i, e.target.value as ColumnTarget)} style={selectStyle}>
+                    <option value="">Skip column</option>
+                    {Object.entries(IMPORT_FIELDS).map(([field, label]) => <option key={field} value={field}>{label}</option>)}
+                    <option value="attribute">Attribute ({`{{attr.${column.trim()}}}`})</option>
+                  </select>
+                </div>
+              ))}
+              {mappingError && <div style={{ color: "#F59E0B", marginTop: "8px" }}>{mappingError}</div>}
+            </div>
+          )}
+
+          {dryRun && (
+            <div>
+              <div style={{ color: "#fff", marginBottom: "8px" }}>
+                <span style={{ color: "#86EFAC", fontWeight: 600 }}>{dryRun.toImport}</span> will be imported
+                {dryRun.skipped.length > 0 && <>, <span style={{ color: "#F59E0B", fontWeight: 600 }}>{dryRun.skipped.length}</span> skipped</>}
+              </div>
+              {dryRun.sample.length > 0 && (
+                <div style={{ color: "#A0A0A0", marginBottom: "8px" }}>
+                  {dryRun.sample.map((s) => (
+                    <div key={s.email}>{s.name} &lt;{s.email}&gt; · stage {s.current_stage} · {s.status} · {s.signup_date}{s.tags.length > 0 && ` · ${s.tags.join(", ")}`}</div>
+                  ))}
+                  {dryRun.toImport > dryRun.sample.length && <div style={{ color: "#555" }}>…and {dryRun.toImport - dryRun.sample.length} more</div>}
+                </div>
+              )}
+              {dryRun.skipped.slice(0, SHOWN_SKIPS).map((skip) => (
+                <div key={skip.row} style={{ color: "#A0A0A0" }}>
+                  <span style={{ color: "#555" }}>Row {skip.row}</span> {skip.email || "—"}: <span style={{ color: "#F59E0B" }}>{skip.reason}</span>
+                </div>
+              ))}
+              {dryRun.skipped.length > SHOWN_SKIPS && <div style={{ color: "#555" }}>…and {dryRun.skipped.length - SHOWN_SKIPS} more</div>}
+            </div>
+          )}
+
+          {error && <div style={{ color: "#EF4444" }}>{error}</div>}
+        </div>
+
+        <div style={{ padding: "12px 24px", borderTop: "1px solid #1F1F1F", display: "flex", justifyContent: "flex-end", gap: "8px", flexShrink: 0 }}>
+          <button onClick={onClose} style={{ background: "#1F1F1F", border: "none", borderRadius: "8px", padding: "8px 16px", color: "#A0A0A0", fontSize: "12px", cursor: "pointer", fontFamily: "'Inter', sans-serif" }}>Cancel</button>
+          {dryRun && dryRun.toImport > 0 ? (
+            <button onClick={() => submit(true)} disabled={busy} style={{ background: "#86EFAC", border: "none", borderRadius: "8px", padding: "8px 16px", color: "#000", fontSize: "12px", fontWeight: 600, cursor: busy ? "wait" : "pointer", fontFamily: "'Inter', sans-serif" }}>
+              {busy ? "Importing…" : `Import ${dryRun.toImport} Subscriber${dryRun.toImport === 1 ? "" : "s"}`}
+            </button>
+          ) : (
+            <button onClick={() => submit(false)} disabled={busy || header.length === 0 || mappingError !== null} style={{ background: "#60A5FA20", border: "none", borderRadius: "8px", padding: "8px 16px", color: "#60A5FA", fontSize: "12px", cursor: busy ? "wait" : header.length === 0 || mappingError ? "not-allowed" : "pointer", fontFamily: "'Inter', sans-serif" }}>
+              {busy ? "Checking…" : "Check Import"}
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,49 @@
+"use client";
+
+import { useMemo } from "react";
+import { diffLines, sideBySide, type DiffRow } from "../lib/text-diff";
+
+interface TemplateContent {
+  subject: string;
+  html: string;
+}
+
+const ROW_COLORS: Record<DiffRow["type"], { left: string; right: string }> = {
+  same: { left: "transparent", right: "transparent" },
+  changed: { left: "rgba(239,68,68,0.12)", right: "rgba(134,239,172,0.12)" },
+  removed: { left: "rgba(239,68,68,0.12)", right: "#0A0A0A" },
+  added: { left: "#0A0A0A", right: "rgba(134,239,172,0.12)" },
+};
+
+const cellStyle: React.CSSProperties = {
+  padding: "1px 10px",
+  whiteSpace: "pre-wrap",
+  wordBreak: "break-all",
+  minHeight: "16px",
+};
+
+// Side-by-side text diff of two template versions (subject first, then HTML).
+export default function TemplateDiff({ before, after, beforeLabel, afterLabel }: { before: TemplateContent; after: TemplateContent; beforeLabel: string; afterLabel: string }) {
+  const rows = useMemo(
+    () => sideBySide(diffLines(`Subject: ${before.subject}\n\n${before.html}`, `Subject: ${after.subject}\n\n${after.html}`)),
+    [before, after]
+  );
+  const changes = rows.filter((r) => r.type !== "same").length;
+
+  return (
+    <div style={{ background: "#000", color: "#A0A0A0", fontSize: "11px", lineHeight: "1.5", fontFamily: "ui-monospace, SFMono-Regular, Menlo, monospace", minHeight: "500px" }}>
+      <div style={{ display: "grid", gridTemplateColumns: "1fr 1fr", position: "sticky", top: 0, background: "#0D0D0D", borderBottom: "1px solid #1F1F1F", fontFamily: "'Inter', sans-serif" }}>
+        <span style={{ padding: "8px 10px", color: "#EF4444" }}>{beforeLabel}</span>
+        <span style={{ padding: "8px 10px", color: "#86EFAC", borderLeft: "1px solid #1F1F1F" }}>
+          {afterLabel} <span style={{ color: "#555" }}>· {changes === 0 ? "identical" : `${changes} changed line${changes !== 1 ? "s" : ""}`}</span>
+        </span>
+      </div>
+      {rows.map((row, i) => (
+        <div key={i} style={{ display: "grid", gridTemplateColumns: "1fr 1fr" }}>
+          <div style={{ ...cellStyle, background: ROW_COLORS[row.type].left, color: row.type === "same" ? "#555" : "#E5E5E5" }}>{row.left}</div>
+          <div style={{ ...cellStyle, background: ROW_COLORS[row.type].right, color: row.type === "same" ? "#555" : "#E5E5E5", borderLeft: "1px solid #1F1F1F" }}>{row.right}</div>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,219 @@
+"use client";
+
+import { useState } from "react";
+import { MIN_TRIALS, compareProportions, type Proportion } from "../lib/ab-stats";
+
+export interface EmailVariant {
+  id: string;
+  sequence_id: string;
+  stage: number;
+  name: string;
+  subject: string;
+  html: string;
+  weight: number;
+  active: boolean;
+  created_by: string | null;
+  created_at: string;
+}
+
+interface StageTemplate {
+  stage: number;
+  label: string;
+  subject: string;
+  control_weight: number;
+}
+
+interface DeliveredSend {
+  id: string;
+  email_number: number;
+  variant_id: string | null;
+}
+
+interface Arm {
+  key: string;
+  variantId: string | null;
+  name: string;
+  subject: string;
+  weight: number;
+  active: boolean;
+  opens: Proportion;
+  clicks: Proportion;
+}
+
+function pct(p: Proportion) {
+  return p.trials === 0 ? "—" : `${Math.round((p.successes / p.trials) * 100)}%`;
+}
+
+// Verdict for one metric of a variant against the control.
+function Significance({ control, variant }: { control: Proportion; variant: Proportion }) {
+  const result = compareProportions(control, variant);
+  if (result.pValue === null) {
+    return <span style={{ color: "#555" }} title={`Needs ${MIN_TRIALS}+ delivered sends in each arm`}>collecting</span>;
+  }
+  const lift = result.lift === null ? "" : `${result.lift >= 0 ? "+" : ""}${Math.round(result.lift * 100)}% `;
+  const color = !result.significant ? "#A0A0A0" : (result.lift ?? 0) >= 0 ? "#86EFAC" : "#EF4444";
+  return (
+    <span style={{ color }} title={result.significant ? "Significant at the 95% level" : "Not significant yet"}>
+      {lift}p={result.pValue < 0.001 ? "<0.001" : result.pValue.toFixed(3)}{result.significant ? " ✓" : ""}
+    </span>
+  );
+}
+
+export default function VariantResults({
+  sequenceId,
+  templates,
+  variants,
+  sends,
+  openedSendIds,
+  clickedSendIds,
+  canOperate,
+  onPreview,
+  onChange,
+  onError,
+  cardStyle,
+  isMobile,
+}: {
+  sequenceId: string;
+  templates: StageTemplate[];
+  variants: EmailVariant[];
+  sends: DeliveredSend[];
+  openedSendIds: Set<string>;
+  clickedSendIds: Set<string>;
+  canOperate: boolean;
+  onPreview: (stage: number, variantId: string | null) => void;
+  onChange: () => void;
+  onError: (message: string) => void;
+  cardStyle: React.CSSProperties;
+  isMobile: boolean;
+}) {
+  const [newTestStage, setNewTestStage] = useState<number | "">("");
+
+  const request = async (url: string, method: string, body: unknown) => {
+    try {
+      const res = await fetch(url, { method, headers: { "Content-Type": "application/json" }, body: JSON.stringify(body) });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) onError(data.error || `Failed: HTTP ${res.status}`);
+    } catch (err: unknown) {
+      onError(`Failed: ${err instanceof Error ? err.message : "Network error"}`);
+    }
+    onChange();
+  };
+
+  const addVariant = async (stage: number) => {
+    const subject = window.prompt(`Subject line for the new stage ${stage} variant`);
+    if (!subject) return;
+    await request(`/api/sequences/${sequenceId}/templates/${stage}/variants`, "POST", { subject });
+    setNewTestStage("");
+  };
+
+  const setWeight = (stage: number, arm: Arm, value: string) => {
+    const weight = Number(value);
+    if (!Number.isInteger(weight) || weight < 0 || weight === arm.weight) return;
+    if (arm.variantId) request(`/api/sequences/${sequenceId}/templates/${stage}/variants/${arm.variantId}`, "PATCH", { weight });
+    else request(`/api/sequences/${sequenceId}/templates/${stage}`, "PATCH", { controlWeight: weight });
+  };
+
+  const armStats = (stage: number, variantId: string | null) => {
+    const armSends = sends.filter((s) => s.email_number === stage && s.variant_id === variantId);
+    return {
+      opens: { successes: armSends.filter((s) => openedSendIds.has(s.id)).length, trials: armSends.length },
+      clicks: { successes: armSends.filter((s) => clickedSendIds.has(s.id)).length, trials: armSends.length },
+    };
+  };
+
+  const stagesUnderTest = templates.filter((t) => variants.some((v) => v.stage === t.stage));
+  const columns = isMobile ? "0.4fr 1.6fr 0.6fr 0.6fr 0.6fr" : "0.4fr 2.4fr 0.6fr 0.5fr 0.6fr 0.6fr 1fr 1fr 0.8fr";
+
+  return (
+    <div style={{ ...cardStyle, marginBottom: "24px", ...(isMobile ? { overflowX: "auto" as const } : {}) }}>
+      <div style={{ display: "flex", justifyContent: "space-between", alignItems: "center", marginBottom: "16px", flexWrap: "wrap", gap: "8px" }}>
+        <h3 style={{ fontFamily: "'Space Grotesk', sans-serif", fontWeight: 700, fontSize: "14px", margin: 0 }}>A/B Tests</h3>
+        {canOperate && (
+          <div style={{ display: "flex", gap: "8px", alignItems: "center" }}>
+            <select value={newTestStage} onChange={(e) => setNewTestStage(e.target.value ? Number(e.target.value) : "")} style={{ background: "#000", border: "1px solid #1F1F1F", borderRadius: "6px", padding: "6px 8px", color: "#A0A0A0", fontSize: "12px", fontFamily: "'Inter', sans-serif" }}>
+              <option value="">Add a variant to…</option>
+              {templates.map((t) => <option key={t.stage} value={t.stage}>{t.stage}. {t.label}</option>)}
+            </select>
+            <button disabled={newTestStage === ""} onClick={() => newTestStage !== "" && addVariant(newTestStage)} style={{ background: "#60A5FA20", color: "#60A5FA", border: "none", borderRadius: "6px", padding: "6px 10px", fontSize: "12px", cursor: newTestStage === "" ? "not-allowed" : "pointer", fontFamily: "'Inter', sans-serif" }}>+ Variant</button>
+          </div>
+        )}
+      </div>
+
+      {stagesUnderTest.length === 0 ? (
+        <div style={{ fontSize: "12px", color: "#555", fontFamily: "'Inter', sans-serif" }}>
+          No tests running. Every stage sends its control template to all subscribers.
+        </div>
+      ) : (
+        <div style={{ minWidth: isMobile ? "520px" : "unset", display: "flex", flexDirection: "column", gap: "16px" }}>
+          {stagesUnderTest.map((template) => {
+            const arms: Arm[] = [
+              { key: "control", variantId: null, name: "A", subject: template.subject, weight: template.control_weight, active: true, ...armStats(template.stage, null) },
+              ...variants
+                .filter((v) => v.stage === template.stage)
+                .map((v) => ({ key: v.id, variantId: v.id, name: v.name, subject: v.subject, weight: v.weight, active: v.active, ...armStats(template.stage, v.id) })),
+            ];
+            const control = arms[0];
+            const totalWeight = arms.filter((a) => a.active).reduce((sum, a) => sum + a.weight, 0);
+
+            return (
+              <div key={template.stage}>
+                <div style={{ fontSize: "11px", color: "#86EFAC", fontFamily: "'Space Grotesk', sans-serif", fontWeight: 700, textTransform: "uppercase", letterSpacing: "0.08em", marginBottom: "6px" }}>
+                  Email {template.stage} · {template.label}
+                </div>
+                <div style={{ display: "grid", gridTemplateColumns: columns, gap: "8px", padding: "6px 12px", fontSize: "10px", color: "#A0A0A0", fontFamily: "'Inter', sans-serif", textTransform: "uppercase", letterSpacing: "0.5px", borderBottom: "1px solid #1F1F1F" }}>
+                  <span>Arm</span>
+                  <span>Subject</span>
+                  <span>Traffic</span>
+                  {!isMobile && <span>Sent</span>}
+                  <span>Opens</span>
+                  <span>Clicks</span>
+                  {!isMobile && <span>Opens vs A</span>}
+                  {!isMobile && <span>Clicks vs A</span>}
+                  {!isMobile && <span />}
+                </div>
+                {arms.map((arm) => {
+                  const share = arm.active && totalWeight > 0 ? Math.round((arm.weight / totalWeight) * 100) : 0;
+                  return (
+                    <div key={arm.key} style={{ display: "grid", gridTemplateColumns: columns, gap: "8px", padding: "8px 12px", fontSize: "12px", fontFamily: "'Inter', sans-serif", borderBottom: "1px solid #141414", alignItems: "center", opacity: arm.active ? 1 : 0.5 }}>
+                      <span style={{ color: "#fff", fontWeight: 600 }}>{arm.name}</span>
+                      <span onClick={() => onPreview(template.stage, arm.variantId)} style={{ color: "#A0A0A0", overflow: "hidden", textOverflow: "ellipsis", whiteSpace: "nowrap", cursor: "pointer" }} title={arm.subject}>{arm.subject}</span>
+                      <span style={{ color: "#A0A0A0" }}>
+                        {canOperate && arm.active ? (
+                          <input
+                            type="number"
+                            min={0}
+                            defaultValue={arm.weight}
+                            key={`${arm.key}-${arm.weight}`}
+                            onBlur={(e) => setWeight(template.stage, arm, e.target.value)}
+                            title={`${share}% of sends`}
+                            style={{ width: "48px", background: "#000", border: "1px solid #1F1F1F", borderRadius: "4px", padding: "2px 4px", color: "#A0A0A0", fontSize: "11px", fontFamily: "'Inter', sans-serif" }}
+                          />
+                        ) : (
+                          `${share}%`
+                        )}
+                      </span>
+                      {!isMobile && <span style={{ color: "#A0A0A0" }}>{arm.opens.trials}</span>}
+                      <span style={{ color: "#60A5FA" }}>{pct(arm.opens)}</span>
+                      <span style={{ color: "#F59E0B" }}>{pct(arm.clicks)}</span>
+                      {!isMobile && (arm === control ? <span style={{ color: "#555" }}>control</span> : <Significance control={control.opens} variant={arm.opens} />)}
+                      {!isMobile && (arm === control ? <span style={{ color: "#555" }}>control</span> : <Significance control={control.clicks} variant={arm.clicks} />)}
+                      {!isMobile && (
+                        <span>
+                          {canOperate && arm.variantId && (
+                            <button onClick={() => request(`/api/sequences/${sequenceId}/templates/${template.stage}/variants/${arm.variantId}`, "PATCH", { active: !arm.active })} style={{ background: arm.active ? "#F59E0B20" : "#86EFAC20", color: arm.active ? "#F59E0B" : "#86EFAC", border: "none", borderRadius: "4px", padding: "3px 8px", fontSize: "10px", cursor: "pointer", fontFamily: "'Inter', sans-serif" }}>
+                              {arm.active ? "Stop" : "Resume"}
+                            </button>
+                          )}
+                        </span>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
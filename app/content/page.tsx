@@ -3,18 +3,27 @@
 import { useCallback, useEffect, useMemo, useState } from "react";
 import Link from "next/link";
 import Header from "../components/Header";
+import PostComposer, { type ComposerPost } from "../components/PostComposer";
+import { postSegments, type PostMedia } from "../lib/content-posts";
 import { supabase } from "../lib/supabase";
 import { useRealtimeSubscription } from "../hooks/useRealtimeSubscription";
+import { useSession } from "../hooks/useSession";
+import { hasRole } from "../lib/roles";
 
 
 interface ContentPost {
   id: string;
   account: "@gettraqd" | "@igobykofi";
   content: string;
+  // The thread's posts in order; a single post has one.
+  segments: string[];
   scheduled_at: string | null;
   posted_at: string | null;
   status: "scheduled" | "posted" | "draft";
   post_id: string | null;
+  // One X post ID per published segment.
+  post_ids: string[];
+  media: PostMedia[];
   engagement_metrics: {
     likes?: number;
     replies?: number;
@@ -74,6 +83,21 @@ function asNullableString(value: unknown): string | null {
   return typeof value === "string" ? value : null;
 }
 
+function asStringArray(value: unknown): string[] {
+  return Array.isArray(value) ? value.filter((item): item is string => typeof item === "string") : [];
+}
+
+function asMedia(value: unknown): PostMedia[] {
+  if (!Array.isArray(value)) return [];
+  return value.filter(isRecord).map((item) => ({
+    path: asString(item.path),
+    url: asString(item.url),
+    alt: asString(item.alt),
+    content_type: asString(item.content_type),
+    size: asNumber(item.size),
+  }));
+}
+
 function asNumber(value: unknown, fallback = 0) {
   return typeof value === "number" && Number.isFinite(value) ? value : fallback;
 }
@@ -101,10 +125,13 @@ function normalizePost(row: unknown, index: number): ContentPost | null {
     id: asString(row.id, `post-${index}`),
     account: normalizeAccount(row.account),
     content: asString(row.content, ""),
+    segments: postSegments({ content: asString(row.content, ""), segments: asStringArray(row.segments) }),
     scheduled_at: asNullableString(row.scheduled_at),
     posted_at: asNullableString(row.posted_at),
     status: normalizePostStatus(row.status),
     post_id: asNullableString(row.post_id),
+    post_ids: asStringArray(row.post_ids),
+    media: asMedia(row.media),
     engagement_metrics: engagement
       ? {
           likes: asNumber(engagement.likes, 0),
@@ -250,18 +277,35 @@ function chartPath(points: number[], width: number, height: number, padding: num
     .join(" ");
 }
 
+function MediaThumbnails({ media, size }: { media: PostMedia[]; size: number }) {
+  if (media.length === 0) return null;
+  return (
+    <div style={{ display: "flex", gap: "6px", flexWrap: "wrap" }}>
+      {media.map((item) => (
+        <a key={item.path} href={item.url} target="_blank" rel="noopener noreferrer" title={item.alt || "No alt text"}>
+          <img src={item.url} alt={item.alt} style={{ width: `${size}px`, height: `${size}px`, objectFit: "cover", borderRadius: "6px", border: "1px solid #1F1F1F", display: "block" }} />
+        </a>
+      ))}
+    </div>
+  );
+}
+
 function getSupabaseClient() {
   return supabase;
 }
 
 export default function ContentPage() {
   const isMobile = useIsMobile();
+  const { session } = useSession();
+  const canOperate = hasRole(session?.role, "operator");
   const [loading, setLoading] = useState(true);
   const [loadError, setLoadError] = useState<string | null>(null);
   const [posts, setPosts] = useState<ContentPost[]>([]);
   const [research, setResearch] = useState<ContentResearch[]>([]);
   const [replies, setReplies] = useState<ContentReply[]>([]);
   const [targetAccounts, setTargetAccounts] = useState<TargetAccount[]>([]);
+  const [postQueue, setPostQueue] = useState<ContentPost[]>([]);
+  const [editingPost, setEditingPost] = useState<ComposerPost | null>(null);
   const [selectedDay, setSelectedDay] = useState<Date>(new Date());
 
   const cardStyle: React.CSSProperties = {
@@ -278,12 +322,17 @@ export default function ContentPage() {
       const weekEnd = new Date(weekStart);
       weekEnd.setDate(weekEnd.getDate() + 7);
 
-      const [postsRes, researchRes, repliesRes, targetsRes] = await Promise.all([
+      const [postsRes, queueRes, researchRes, repliesRes, targetsRes] = await Promise.all([
         getSupabaseClient()
           .from("content_posts")
           .select("*")
           .or(`scheduled_at.gte.${weekStart.toISOString()},posted_at.gte.${weekStart.toISOString()}`)
           .order("scheduled_at", { ascending: true }),
+        getSupabaseClient()
+          .from("content_posts")
+          .select("*")
+          .in("status", ["draft", "scheduled"])
+          .order("scheduled_at", { ascending: true, nullsFirst: true }),
         getSupabaseClient()
           .from("content_research")
           .select("*")
@@ -304,6 +353,7 @@ export default function ContentPage() {
       ]);
 
       if (postsRes.error) throw postsRes.error;
+      if (queueRes.error) throw queueRes.error;
       if (researchRes.error) throw researchRes.error;
       if (repliesRes.error) throw repliesRes.error;
       if (targetsRes.error) throw targetsRes.error;
@@ -322,6 +372,7 @@ export default function ContentPage() {
         setPosts([]);
       }
 
+      setPostQueue((queueRes.data || []).map((item, index) => normalizePost(item, index)).filter((item): item is ContentPost => item !== null));
       setResearch((researchRes.data || []).map((item, index) => normalizeResearch(item, index)).filter((item): item is ContentResearch => item !== null));
       setReplies((repliesRes.data || []).map((item, index) => normalizeReply(item, index)).filter((item): item is ContentReply => item !== null));
       setTargetAccounts(
@@ -346,36 +397,40 @@ export default function ContentPage() {
 
   const queueReply = async (item: ContentResearch) => {
     if (!item.post_url) return;
-    const account = item.author_followers > 50000 ? "@gettraqd" : "@igobykofi";
-    const suggested = `Strong point on this, @${item.author_handle}. Curious which framework is driving your current growth loop?`;
-
-    await getSupabaseClient().from("content_replies").insert({
-      target_post_url: item.post_url,
-      target_author: item.author_handle,
-      suggested_reply: suggested,
-      account,
-      status: "queued",
-    });
-
-    await getSupabaseClient().from("content_research").update({ status: "queued" }).eq("id", item.id);
-    fetchData();
+    try {
+      const res = await fetch("/api/replies", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ researchId: item.id }),
+      });
+      if (!res.ok) {
+        const data = await res.json().catch(() => ({}));
+        console.error("Failed to queue reply:", data.error || res.status);
+      }
+      fetchData();
+    } catch (error) {
+      console.error("Failed to queue reply:", error);
+    }
   };
 
   const postNow = async (postId: string) => {
     try {
-      await getSupabaseClient()
-        .from("content_posts")
-        .update({
-          status: "scheduled",
-          scheduled_at: new Date().toISOString()
-        })
-        .eq("id", postId);
+      const res = await fetch(`/api/posts/${postId}/publish`, { method: "POST" });
+      if (!res.ok) {
+        const data = await res.json().catch(() => ({}));
+        console.error("Failed to schedule post:", data.error || res.status);
+      }
       fetchData();
     } catch (error) {
       console.error("Failed to schedule post:", error);
     }
   };
 
+  const editPost = (post: ContentPost) => {
+    setEditingPost(post);
+    document.getElementById("post-composer")?.scrollIntoView({ behavior: "smooth" });
+  };
+
   const todayStart = startOfDay();
   const todayEnd = endOfDay();
 
@@ -583,6 +638,12 @@ export default function ContentPage() {
           ))}
         </div>
 
+        {canOperate && (
+          <div id="post-composer">
+            <PostComposer queue={postQueue} editing={editingPost} onEdit={setEditingPost} onChange={fetchData} cardStyle={cardStyle} isMobile={isMobile} />
+          </div>
+        )}
+
         {/* Daily Selector and Content Calendar */}
         <div style={{ ...cardStyle, marginBottom: "24px" }}>
           <div style={{ display: "flex", justifyContent: "space-between", alignItems: "center", marginBottom: "16px", gap: "8px", flexWrap: "wrap" }}>
@@ -674,6 +735,12 @@ export default function ContentPage() {
                           <span style={{ fontSize: "13px", color: "#A0A0A0", fontFamily: "'Inter', sans-serif" }}>
                             {formatPostTime(post.scheduled_at || post.posted_at)}
                           </span>
+                          {post.segments.length > 1 && (
+                            <span style={{ fontSize: "11px", color: "#60A5FA", fontFamily: "'Inter', sans-serif" }}>
+                              🧵 {post.segments.length} posts
+                              {post.status !== "posted" && post.post_ids.length > 0 && ` · ${post.post_ids.length} published`}
+                            </span>
+                          )}
                         </div>
                         <div style={{ display: "flex", alignItems: "center", gap: "8px" }}>
                           <span
@@ -690,7 +757,25 @@ export default function ContentPage() {
                           >
                             {post.status}
                           </span>
-                          {post.status === "draft" && (
+                          {canOperate && post.status !== "posted" && !post.post_id && (
+                            <button
+                              onClick={() => editPost(post)}
+                              style={{
+                                background: "rgba(96,165,250,0.15)",
+                                color: "#60A5FA",
+                                border: "1px solid rgba(96,165,250,0.3)",
+                                borderRadius: "6px",
+                                padding: "6px 12px",
+                                fontSize: "11px",
+                                cursor: "pointer",
+                                fontFamily: "'Inter', sans-serif",
+                                fontWeight: 500,
+                              }}
+                            >
+                              Edit
+                            </button>
+                          )}
+                          {canOperate && post.status === "draft" && (
                             <button
                               onClick={() => postNow(post.id)}
                               style={{
@@ -711,17 +796,27 @@ export default function ContentPage() {
                         </div>
                       </div>
 
-                      <div
-                        style={{
-                          fontSize: "14px",
-                          color: "#E5E5E5",
-                          fontFamily: "'Inter', sans-serif",
-                          lineHeight: 1.5,
-                          marginBottom: post.engagement_metrics ? "12px" : 0,
-                          whiteSpace: "pre-wrap",
-                        }}
-                      >
-                        {post.content}
+                      <div style={{ display: "flex", flexDirection: "column", gap: "10px", marginBottom: post.engagement_metrics ? "12px" : 0 }}>
+                        {post.segments.map((segment, index) => (
+                          <div
+                            key={index}
+                            style={{
+                              fontSize: "14px",
+                              color: "#E5E5E5",
+                              fontFamily: "'Inter', sans-serif",
+                              lineHeight: 1.5,
+                              whiteSpace: "pre-wrap",
+                              ...(post.segments.length > 1 ? { borderLeft: `2px solid ${index < post.post_ids.length ? "#86EFAC" : "#1F1F1F"}`, paddingLeft: "10px" } : {}),
+                            }}
+                          >
+                            {segment}
+                            {index === 0 && post.media.length > 0 && (
+                              <div style={{ marginTop: "10px" }}>
+                                <MediaThumbnails media={post.media} size={72} />
+                              </div>
+                            )}
+                          </div>
+                        ))}
                       </div>
 
                       {post.engagement_metrics && (
@@ -778,6 +873,9 @@ export default function ContentPage() {
                       <span style={{ fontSize: "11px", color: "#A0A0A0", fontFamily: "'Inter', sans-serif" }}>
                         {post.posted_at ? timeAgo(post.posted_at) : "Unknown time"}
                       </span>
+                      {post.segments.length > 1 && (
+                        <span style={{ fontSize: "11px", color: "#60A5FA", fontFamily: "'Inter', sans-serif" }}>🧵 {post.segments.length} posts</span>
+                      )}
                     </div>
 
                     <div
@@ -789,9 +887,15 @@ export default function ContentPage() {
                         marginBottom: "10px",
                       }}
                     >
-                      {post.content.length > 120 ? `${post.content.substring(0, 120)}...` : post.content}
+                      {post.segments[0].length > 120 ? `${post.segments[0].substring(0, 120)}...` : post.segments[0]}
                     </div>
 
+                    {post.media.length > 0 && (
+                      <div style={{ marginBottom: "10px" }}>
+                        <MediaThumbnails media={post.media} size={48} />
+                      </div>
+                    )}
+
                     <div style={{ display: "flex", gap: "16px", fontSize: "11px", fontFamily: "'Inter', sans-serif" }}>
                       {post.engagement_metrics ? (
                         <>
@@ -838,22 +942,24 @@ export default function ContentPage() {
                     </div>
 
                     <div style={{ display: "flex", gap: "8px", alignItems: "center" }}>
-                      <button
-                        onClick={() => queueReply(item)}
-                        disabled={item.status === "queued" || !item.post_url}
-                        style={{
-                          background: item.status === "queued" || !item.post_url ? "#1F1F1F" : "rgba(134,239,172,0.12)",
-                          color: item.status === "queued" || !item.post_url ? "#555" : "#86EFAC",
-                          border: `1px solid ${item.status === "queued" || !item.post_url ? "#1F1F1F" : "rgba(134,239,172,0.35)"}`,
-                          borderRadius: "8px",
-                          padding: "6px 10px",
-                          fontSize: "11px",
-                          fontFamily: "'Inter', sans-serif",
-                          cursor: item.status === "queued" || !item.post_url ? "default" : "pointer",
-                        }}
-                      >
-                        {item.status === "queued" ? "Queued" : item.post_url ? "Queue Reply" : "No URL"}
-                      </button>
+                      {canOperate && (
+                        <button
+                          onClick={() => queueReply(item)}
+                          disabled={item.status === "queued" || !item.post_url}
+                          style={{
+                            background: item.status === "queued" || !item.post_url ? "#1F1F1F" : "rgba(134,239,172,0.12)",
+                            color: item.status === "queued" || !item.post_url ? "#555" : "#86EFAC",
+                            border: `1px solid ${item.status === "queued" || !item.post_url ? "#1F1F1F" : "rgba(134,239,172,0.35)"}`,
+                            borderRadius: "8px",
+                            padding: "6px 10px",
+                            fontSize: "11px",
+                            fontFamily: "'Inter', sans-serif",
+                            cursor: item.status === "queued" || !item.post_url ? "default" : "pointer",
+                          }}
+                        >
+                          {item.status === "queued" ? "Queued" : item.post_url ? "Queue Reply" : "No URL"}
+                        </button>
+                      )}
                       <Link href={item.post_url || "#"} target="_blank" style={{ color: "#A0A0A0", fontSize: "11px", fontFamily: "'Inter', sans-serif", textDecoration: "none" }}>
                         View Post ↗
                       </Link>
@@ -0,0 +1,8 @@
+import { notFound } from "next/navigation";
+import { isDevOutboxEnabled } from "../lib/mail-capture";
+
+// Development-only tools; production builds answer 404.
+export default function DevLayout({ children }: { children: React.ReactNode }) {
+  if (!isDevOutboxEnabled()) notFound();
+  return children;
+}
@@ -0,0 +1,205 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import Header from "../../components/Header";
+import { useSession } from "../../hooks/useSession";
+import { hasRole } from "../../lib/roles";
+
+function useIsMobile(breakpoint = 768) {
+  const [isMobile, setIsMobile] = useState(false);
+  useEffect(() => {
+    const check = () => setIsMobile(window.innerWidth <= breakpoint);
+    check();
+    window.addEventListener("resize", check);
+    return () => window.removeEventListener("resize", check);
+  }, [breakpoint]);
+  return isMobile;
+}
+
+interface CapturedEmail {
+  id: string;
+  capturedAt: string;
+  from: string;
+  to: string;
+  subject: string;
+  html: string;
+  text: string | null;
+  headers: Record<string, string>;
+  raw: string;
+}
+
+type BodyView = "html" | "text" | "raw";
+
+// Captures aren't in Supabase, so there's no realtime feed to follow.
+const POLL_INTERVAL_MS = 5000;
+
+function formatTimestamp(iso: string) {
+  return new Date(iso).toLocaleString("en-GB", { day: "2-digit", month: "short", hour: "2-digit", minute: "2-digit", second: "2-digit" });
+}
+
+export default function DevOutboxPage() {
+  const isMobile = useIsMobile();
+  const { session } = useSession();
+  const canOperate = hasRole(session?.role, "operator");
+  const [emails, setEmails] = useState<CapturedEmail[]>([]);
+  const [transport, setTransport] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [view, setView] = useState<BodyView>("html");
+
+  const fetchEmails = useCallback(async () => {
+    try {
+      const res = await fetch("/api/dev/outbox");
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || `HTTP ${res.status}`);
+      setEmails(data.emails || []);
+      setTransport(data.transport);
+      setError(null);
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : "Failed to load captured emails");
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchEmails();
+    const timer = setInterval(fetchEmails, POLL_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [fetchEmails]);
+
+  const clearAll = async () => {
+    if (!confirm(`Delete all ${emails.length} captured emails?`)) return;
+    try {
+      const res = await fetch("/api/dev/outbox", { method: "DELETE" });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(data.error || `HTTP ${res.status}`);
+      setSelectedId(null);
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : "Failed to clear captured emails");
+    }
+    fetchEmails();
+  };
+
+  const selected = emails.find((e) => e.id === selectedId) ?? emails[0] ?? null;
+
+  const cardStyle: React.CSSProperties = {
+    background: "#0D0D0D",
+    border: "1px solid #1F1F1F",
+    borderRadius: "12px",
+    padding: "20px",
+  };
+
+  const buttonStyle: React.CSSProperties = {
+    background: "#000",
+    border: "1px solid #1F1F1F",
+    borderRadius: "6px",
+    padding: "6px 8px",
+    color: "#A0A0A0",
+    fontSize: "12px",
+    fontFamily: "'Inter', sans-serif",
+    cursor: "pointer",
+  };
+
+  const labelStyle: React.CSSProperties = {
+    fontSize: "10px",
+    color: "#A0A0A0",
+    fontFamily: "'Inter', sans-serif",
+    textTransform: "uppercase",
+    letterSpacing: "0.5px",
+  };
+
+  return (
+    <div style={{ minHeight: "100vh", background: "#000", color: "#fff" }}>
+      <Header activePage="email" />
+
+      <main style={{ padding: isMobile ? "12px" : "24px", maxWidth: "1200px", margin: "0 auto" }}>
+        <div style={{ display: "flex", justifyContent: "space-between", alignItems: "center", marginBottom: "16px", flexWrap: "wrap", gap: "8px" }}>
+          <h3 style={{ fontFamily: "'Space Grotesk', sans-serif", fontWeight: 700, fontSize: "14px", margin: 0 }}>
+            Dev Outbox
+            {transport && <span style={{ fontFamily: "'Inter', sans-serif", fontWeight: 400, fontSize: "11px", color: "#555" }}> · {transport} transport · {emails.length} captured</span>}
+          </h3>
+          <div style={{ display: "flex", gap: "8px" }}>
+            <button onClick={fetchEmails} style={buttonStyle}>↻ Refresh</button>
+            {canOperate && emails.length > 0 && (
+              <button onClick={clearAll} style={{ ...buttonStyle, color: "#EF4444" }}>Clear</button>
+            )}
+          </div>
+        </div>
+
+        {error && (
+          <div style={{ color: "#EF4444", fontSize: "12px", fontFamily: "'Inter', sans-serif", marginBottom: "12px" }}>{error}</div>
+        )}
+
+        {loading ? (
+          <div style={{ ...cardStyle, textAlign: "center", color: "#555", fontSize: "12px", fontFamily: "'Inter', sans-serif" }}>Loading…</div>
+        ) : transport === "smtp" ? (
+          <div style={{ ...cardStyle, color: "#A0A0A0", fontSize: "12px", fontFamily: "'Inter', sans-serif" }}>
+            Mail is going out over SMTP, so nothing is captured. Set <code>CASPER_MAIL_TRANSPORT=memory</code> (or <code>file</code>) and restart the dev server to capture emails here instead.
+          </div>
+        ) : emails.length === 0 ? (
+          <div style={{ ...cardStyle, textAlign: "center", color: "#555", fontSize: "12px", fontFamily: "'Inter', sans-serif" }}>No emails captured yet</div>
+        ) : (
+          <div style={{ display: "grid", gridTemplateColumns: isMobile ? "1fr" : "minmax(260px, 1fr) 2.2fr", gap: "16px", alignItems: "start" }}>
+            <div style={{ ...cardStyle, padding: 0, maxHeight: isMobile ? "280px" : "calc(100vh - 160px)", overflowY: "auto" }}>
+              {emails.map((email) => (
+                <div
+                  key={email.id}
+                  onClick={() => setSelectedId(email.id)}
+                  style={{ padding: "10px 14px", borderBottom: "1px solid #141414", cursor: "pointer", fontFamily: "'Inter', sans-serif", background: selected?.id === email.id ? "#111" : "transparent" }}
+                >
+                  <div style={{ display: "flex", justifyContent: "space-between", gap: "8px", fontSize: "11px", color: "#A0A0A0" }}>
+                    <span style={{ overflow: "hidden", textOverflow: "ellipsis", whiteSpace: "nowrap" }}>{email.to}</span>
+                    <span style={{ color: "#555", flexShrink: 0 }}>{formatTimestamp(email.capturedAt)}</span>
+                  </div>
+                  <div style={{ fontSize: "12px", color: "#fff", marginTop: "2px", overflow: "hidden", textOverflow: "ellipsis", whiteSpace: "nowrap" }}>{email.subject || "(no subject)"}</div>
+                </div>
+              ))}
+            </div>
+
+            {selected && (
+              <div style={cardStyle}>
+                <div style={{ display: "grid", gridTemplateColumns: "80px 1fr", gap: "4px 12px", fontSize: "12px", fontFamily: "'Inter', sans-serif", marginBottom: "12px" }}>
+                  <span style={labelStyle}>From</span>
+                  <span style={{ color: "#A0A0A0" }}>{selected.from}</span>
+                  <span style={labelStyle}>To</span>
+                  <span style={{ color: "#A0A0A0" }}>{selected.to}</span>
+                  <span style={labelStyle}>Subject</span>
+                  <span style={{ color: "#fff" }}>{selected.subject}</span>
+                  {Object.entries(selected.headers).map(([name, value]) => (
+                    <span key={name} style={{ display: "contents" }}>
+                      <span style={{ ...labelStyle, textTransform: "none", overflow: "hidden", textOverflow: "ellipsis" }} title={name}>{name}</span>
+                      <span style={{ color: "#555", wordBreak: "break-all" }}>{value}</span>
+                    </span>
+                  ))}
+                </div>
+
+                <div style={{ display: "flex", gap: "6px", marginBottom: "10px" }}>
+                  {(["html", "text", "raw"] as const).map((v) => (
+                    <button
+                      key={v}
+                      onClick={() => setView(v)}
+                      disabled={v === "text" && !selected.text}
+                      style={{ ...buttonStyle, padding: "4px 10px", fontSize: "11px", color: view === v ? "#fff" : "#A0A0A0", borderColor: view === v ? "#A0A0A0" : "#1F1F1F", opacity: v === "text" && !selected.text ? 0.4 : 1 }}
+                    >
+                      {v === "html" ? "HTML" : v === "text" ? "Text" : "Raw"}
+                    </button>
+                  ))}
+                </div>
+
+                {view === "html" ? (
+                  <iframe srcDoc={selected.html} sandbox="allow-same-origin allow-popups" title="Captured email" style={{ width: "100%", minHeight: "520px", border: "none", borderRadius: "6px", background: "#fff" }} />
+                ) : (
+                  <pre style={{ margin: 0, fontSize: "11px", color: "#A0A0A0", background: "#000", border: "1px solid #1F1F1F", borderRadius: "6px", padding: "10px", maxHeight: "520px", overflow: "auto", whiteSpace: "pre-wrap", wordBreak: "break-all" }}>
+                    {view === "text" ? selected.text : selected.raw}
+                  </pre>
+                )}
+              </div>
+            )}
+          </div>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,534 @@
+"use client";
+
+import { useEffect, useState, useCallback } from "react";
+import Link from "next/link";
+import { useParams } from "next/navigation";
+import Header from "../../components/Header";
+import { supabase } from "../../lib/supabase";
+import { useRealtimeSubscription } from "../../hooks/useRealtimeSubscription";
+import { useSession } from "../../hooks/useSession";
+import { hasRole } from "../../lib/roles";
+import { enrollmentStatus, nextSendAt } from "../../lib/drip-schedule";
+
+function useIsMobile(breakpoint = 768) {
+  const [isMobile, setIsMobile] = useState(false);
+  useEffect(() => {
+    const check = () => setIsMobile(window.innerWidth <= breakpoint);
+    check();
+    window.addEventListener("resize", check);
+    return () => window.removeEventListener("resize", check);
+  }, [breakpoint]);
+  return isMobile;
+}
+
+interface Subscriber {
+  id: string;
+  name: string;
+  email: string;
+  signup_date: string;
+  status: "pending" | "active" | "unsubscribed" | "suppressed";
+  attributes: Record<string, unknown> | null;
+  tags: string[] | null;
+  source: string | null;
+  utm_source: string | null;
+  utm_medium: string | null;
+  utm_campaign: string | null;
+  utm_term: string | null;
+  utm_content: string | null;
+  referrer: string | null;
+  confirmed_at: string | null;
+  unsubscribed_at: string | null;
+  created_at: string;
+}
+
+interface Enrollment {
+  sequence_id: string;
+  current_stage: number;
+  status: "active" | "paused" | "completed";
+  enrolled_at: string;
+}
+
+interface Step {
+  sequence_id: string;
+  stage: number;
+  label: string;
+  delay_days: number;
+}
+
+interface EmailSend {
+  id: string;
+  sequence_id: string;
+  email_number: number;
+  sent_at: string;
+  status: "sent" | "failed";
+  error: string | null;
+  template_version: number | null;
+  variant_id: string | null;
+  subject: string | null;
+  html: string | null;
+}
+
+interface EmailEvent {
+  id: string;
+  send_id: string;
+  event_type: "open" | "click";
+  url: string | null;
+  created_at: string;
+}
+
+interface Bounce {
+  id: string;
+  kind: "bounce" | "complaint";
+  bounce_type: "hard" | "soft" | null;
+  send_id: string | null;
+  status_code: string | null;
+  diagnostic: string | null;
+  received_at: string;
+}
+
+interface Note {
+  id: string;
+  body: string;
+  author: string;
+  created_at: string;
+}
+
+type TimelineItem =
+  | { kind: "subscribed"; at: string }
+  | { kind: "confirmed"; at: string }
+  | { kind: "unsubscribed"; at: string }
+  | { kind: "send"; at: string; send: EmailSend }
+  | { kind: "event"; at: string; event: EmailEvent; send: EmailSend | undefined }
+  | { kind: "bounce"; at: string; bounce: Bounce; send: EmailSend | undefined }
+  | { kind: "note"; at: string; note: Note };
+
+const STATUS_COLORS: Record<string, string> = {
+  pending: "#60A5FA",
+  active: "#86EFAC",
+  paused: "#F59E0B",
+  completed: "#A0A0A0",
+  unsubscribed: "#EF4444",
+  suppressed: "#EF4444",
+};
+
+// How often the subscriber's private data from /api/subscribers/:id is
+// reloaded; realtime can't report its changes.
+const PRIVATE_POLL_MS = 30_000;
+
+function formatTimestamp(iso: string) {
+  return new Date(iso).toLocaleString("en-GB", { day: "2-digit", month: "short", year: "numeric", hour: "2-digit", minute: "2-digit" });
+}
+
+export default function SubscriberPage() {
+  const { id } = useParams<{ id: string }>();
+  const isMobile = useIsMobile();
+  const { session } = useSession();
+  const canOperate = hasRole(session?.role, "operator");
+  const [subscriber, setSubscriber] = useState<Subscriber | null>(null);
+  const [sends, setSends] = useState<EmailSend[]>([]);
+  const [events, setEvents] = useState<EmailEvent[]>([]);
+  const [notes, setNotes] = useState<Note[]>([]);
+  const [bounces, setBounces] = useState<Bounce[]>([]);
+  const [enrollments, setEnrollments] = useState<Enrollment[]>([]);
+  const [sequences, setSequences] = useState<{ id: string; name: string }[]>([]);
+  const [steps, setSteps] = useState<Step[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [openSendId, setOpenSendId] = useState<string | null>(null);
+  const [noteDraft, setNoteDraft] = useState("");
+  // Comma-separated tags being edited; null when not editing.
+  const [tagsDraft, setTagsDraft] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+  // Per-sequence picks for Resend and Skip Ahead; unset means the default.
+  const [resendStages, setResendStages] = useState<Record<string, number>>({});
+  const [skipStages, setSkipStages] = useState<Record<string, number>>({});
+  const [enrollTargetPick, setEnrollTarget] = useState("");
+  const [message, setMessage] = useState<{ text: string; error: boolean } | null>(null);
+
+  const fetchData = useCallback(async () => {
+    const [privateRes, enrollmentRes, sequenceRes, templateRes] = await Promise.all([
+      // The subscriber, sends, events, notes and bounces aren't readable
+      // with the anon key.
+      fetch(`/api/subscribers/${id}`).then((res) => (res.ok ? res.json() : null)).catch(() => null),
+      supabase.from("sequence_enrollments").select("sequence_id, current_stage, status, enrolled_at").eq("subscriber_id", id).order("enrolled_at"),
+      supabase.from("email_sequences").select("id, name").order("created_at"),
+      supabase.from("email_templates").select("sequence_id, stage, label, delay_days").order("stage"),
+    ]);
+    setSubscriber(privateRes?.subscriber ?? null);
+    setEnrollments(enrollmentRes.data || []);
+    setSequences(sequenceRes.data || []);
+    setSends(privateRes?.sends || []);
+    setEvents(privateRes?.events || []);
+    setNotes(privateRes?.notes || []);
+    setSteps(templateRes.data || []);
+    setBounces(privateRes?.bounces || []);
+    setLoading(false);
+  }, [id]);
+
+  const { lastRefresh, formatTime } = useRealtimeSubscription(
+    ["sequence_enrollments"],
+    "*",
+    fetchData,
+    PRIVATE_POLL_MS
+  );
+
+  const showMessage = (text: string, error = false) => {
+    setMessage({ text, error });
+    setTimeout(() => setMessage(null), 5000);
+  };
+
+  // Runs one of the subscriber actions and reports its outcome.
+  const act = async (url: string, method: string, body: unknown, success: string) => {
+    setBusy(true);
+    try {
+      const res = await fetch(url, { method, headers: { "Content-Type": "application/json" }, body: JSON.stringify(body) });
+      const data = await res.json().catch(() => ({}));
+      // The bulk route reports per-subscriber failures with a 200.
+      const failure = !res.ok ? data.error || `Failed: HTTP ${res.status}` : data.results?.find((r: { ok: boolean }) => !r.ok)?.error;
+      if (failure) showMessage(failure, true);
+      else showMessage(success);
+    } catch (err: unknown) {
+      showMessage(`Failed: ${err instanceof Error ? err.message : "Network error"}`, true);
+    }
+    setBusy(false);
+    // Stage picks go back to their defaults for the new position.
+    setResendStages({});
+    setSkipStages({});
+    fetchData();
+  };
+
+  const addNote = async () => {
+    if (!noteDraft.trim()) return;
+    await act(`/api/subscribers/${id}/notes`, "POST", { body: noteDraft }, "Note added");
+    setNoteDraft("");
+  };
+
+  const saveTags = async () => {
+    if (tagsDraft === null) return;
+    await act(`/api/subscribers/${id}/tags`, "PUT", { tags: tagsDraft.split(",") }, "Tags saved");
+    setTagsDraft(null);
+  };
+
+  const cardStyle: React.CSSProperties = {
+    background: "#0D0D0D",
+    border: "1px solid #1F1F1F",
+    borderRadius: "12px",
+    padding: "20px",
+  };
+
+  const buttonStyle = (color: string): React.CSSProperties => ({
+    background: `${color}20`,
+    color,
+    border: "none",
+    borderRadius: "6px",
+    padding: "6px 10px",
+    fontSize: "12px",
+    cursor: busy ? "wait" : "pointer",
+    fontFamily: "'Inter', sans-serif",
+  });
+
+  const selectStyle: React.CSSProperties = { background: "#000", border: "1px solid #1F1F1F", borderRadius: "6px", padding: "5px 8px", color: "#A0A0A0", fontSize: "12px", fontFamily: "'Inter', sans-serif" };
+
+  if (loading) {
+    return (
+      <div style={{ minHeight: "100vh", background: "#000", color: "#fff", display: "flex", alignItems: "center", justifyContent: "center" }}>
+        <span style={{ color: "#A0A0A0", fontFamily: "'Inter', sans-serif" }}>Loading…</span>
+      </div>
+    );
+  }
+
+  if (!subscriber) {
+    return (
+      <div style={{ minHeight: "100vh", background: "#000", color: "#fff" }}>
+        <Header activePage="email" live lastRefresh={lastRefresh} formatTime={formatTime} />
+        <main style={{ padding: "24px", maxWidth: "1200px", margin: "0 auto", fontFamily: "'Inter', sans-serif", fontSize: "13px", color: "#A0A0A0" }}>
+          Subscriber not found. <Link href="/email" style={{ color: "#86EFAC" }}>Back to Email</Link>
+        </main>
+      </div>
+    );
+  }
+
+  const stepsOf = (sequenceId: string) => steps.filter((step) => step.sequence_id === sequenceId);
+  const stageLabel = (sequenceId: string, stage: number) => stepsOf(sequenceId).find((step) => step.stage === stage)?.label ?? `Email ${stage}`;
+  const sequenceName = (sequenceId: string) => sequences.find((seq) => seq.id === sequenceId)?.name ?? "Unknown sequence";
+  const unenrolled = sequences.filter((seq) => !enrollments.some((e) => e.sequence_id === seq.id));
+  const enrollTarget = unenrolled.some((seq) => seq.id === enrollTargetPick) ? enrollTargetPick : unenrolled[0]?.id ?? "";
+  const sendsById = new Map(sends.map((s) => [s.id, s]));
+  const delivered = sends.filter((s) => s.status === "sent");
+  const openedIds = new Set(events.filter((e) => e.event_type === "open").map((e) => e.send_id));
+  const clickedIds = new Set(events.filter((e) => e.event_type === "click").map((e) => e.send_id));
+
+  const timeline: TimelineItem[] = [
+    { kind: "subscribed" as const, at: subscriber.created_at },
+    ...(subscriber.confirmed_at ? [{ kind: "confirmed" as const, at: subscriber.confirmed_at }] : []),
+    ...(subscriber.unsubscribed_at ? [{ kind: "unsubscribed" as const, at: subscriber.unsubscribed_at }] : []),
+    ...sends.map((send) => ({ kind: "send" as const, at: send.sent_at, send })),
+    ...events.map((event) => ({ kind: "event" as const, at: event.created_at, event, send: sendsById.get(event.send_id) })),
+    ...bounces.map((bounce) => ({ kind: "bounce" as const, at: bounce.received_at, bounce, send: bounce.send_id ? sendsById.get(bounce.send_id) : undefined })),
+    ...notes.map((note) => ({ kind: "note" as const, at: note.created_at, note })),
+  ].sort((a, b) => new Date(b.at).getTime() - new Date(a.at).getTime());
+
+  const profile: [string, string | null][] = [
+    ["Email", subscriber.email],
+    ["Signed up", new Date(subscriber.signup_date).toLocaleDateString("en-US", { month: "short", day: "numeric", year: "numeric" })],
+    ["Opened", delivered.length > 0 ? `${delivered.filter((s) => openedIds.has(s.id)).length} of ${delivered.length} emails` : null],
+    ["Clicked", delivered.length > 0 ? `${delivered.filter((s) => clickedIds.has(s.id)).length} of ${delivered.length} emails` : null],
+    ["Source", subscriber.source],
+    ["utm_source", subscriber.utm_source],
+    ["utm_medium", subscriber.utm_medium],
+    ["utm_campaign", subscriber.utm_campaign],
+    ["utm_term", subscriber.utm_term],
+    ["utm_content", subscriber.utm_content],
+    ["Referrer", subscriber.referrer],
+    ...Object.entries(subscriber.attributes ?? {}).map(([key, value]): [string, string] => [`attr.${key}`, String(value)]),
+  ];
+
+  return (
+    <div style={{ minHeight: "100vh", background: "#000", color: "#fff" }}>
+      <Header activePage="email" live lastRefresh={lastRefresh} formatTime={formatTime} />
+
+      {message && (
+        <div style={{ position: "fixed", top: "80px", left: "50%", transform: "translateX(-50%)", background: message.error ? "#EF4444" : "#22C55E", color: "#fff", padding: "12px 24px", borderRadius: "8px", fontSize: "13px", fontFamily: "'Inter', sans-serif", zIndex: 2000, maxWidth: "500px", textAlign: "center", boxShadow: "0 4px 12px rgba(0,0,0,0.3)" }}>
+          {message.text}
+        </div>
+      )}
+
+      <main style={{ padding: isMobile ? "12px" : "24px", maxWidth: "1200px", margin: "0 auto" }}>
+        <div style={{ marginBottom: "16px", fontSize: "12px", fontFamily: "'Inter', sans-serif" }}>
+          <Link href="/email" style={{ color: "#A0A0A0", textDecoration: "none" }}>← Subscribers</Link>
+        </div>
+
+        <div style={{ display: "grid", gridTemplateColumns: isMobile ? "1fr" : "340px 1fr", gap: isMobile ? "16px" : "24px", alignItems: "start" }}>
+          <div style={{ display: "flex", flexDirection: "column", gap: isMobile ? "16px" : "24px" }}>
+            {/* Profile */}
+            <div style={cardStyle}>
+              <div style={{ display: "flex", justifyContent: "space-between", alignItems: "baseline", gap: "8px", marginBottom: "16px" }}>
+                <h2 style={{ fontFamily: "'Space Grotesk', sans-serif", fontWeight: 700, fontSize: "18px", margin: 0, overflow: "hidden", textOverflow: "ellipsis" }}>{subscriber.name}</h2>
+                <span style={{ color: STATUS_COLORS[subscriber.status], fontSize: "12px", fontWeight: 500, fontFamily: "'Inter', sans-serif", textTransform: "capitalize" }}>{subscriber.status}</span>
+              </div>
+              <div style={{ display: "flex", flexDirection: "column", gap: "6px", fontSize: "12px", fontFamily: "'Inter', sans-serif" }}>
+                {profile.filter(([, value]) => value).map(([label, value]) => (
+                  <div key={label} style={{ display: "flex", gap: "12px" }}>
+                    <span style={{ color: "#555", minWidth: "90px" }}>{label}</span>
+                    <span style={{ color: "#A0A0A0", wordBreak: "break-all" }}>{value}</span>
+                  </div>
+                ))}
+                <div style={{ display: "flex", gap: "12px", alignItems: "center" }}>
+                  <span style={{ color: "#555", minWidth: "90px" }}>Tags</span>
+                  {tagsDraft === null ? (
+                    <>
+                      <span style={{ color: subscriber.tags?.length ? "#A0A0A0" : "#555" }}>{subscriber.tags?.length ? subscriber.tags.join(", ") : "None"}</span>
+                      {canOperate && (
+                        <button onClick={() => setTagsDraft((subscriber.tags ?? []).join(", "))} style={{ ...buttonStyle("#A0A0A0"), padding: "2px 8px", fontSize: "10px" }}>Edit</button>
+                      )}
+                    </>
+                  ) : (
+                    <>
+                      <input
+                        autoFocus
+                        value={tagsDraft}
+                        onChange={(e) => setTagsDraft(e.target.value)}
+                        onKeyDown={(e) => e.key === "Enter" && saveTags()}
+                        placeholder="beta, press"
+                        style={{ flex: 1, minWidth: 0, background: "#000", border: "1px solid #1F1F1F", borderRadius: "6px", padding: "4px 8px", color: "#fff", fontSize: "12px", fontFamily: "'Inter', sans-serif", outline: "none" }}
+                      />
+                      <button disabled={busy} onClick={saveTags} style={{ ...buttonStyle("#86EFAC"), padding: "2px 8px", fontSize: "10px" }}>Save</button>
+                      <button onClick={() => setTagsDraft(null)} style={{ ...buttonStyle("#A0A0A0"), padding: "2px 8px", fontSize: "10px" }}>Cancel</button>
+                    </>
+                  )}
+                </div>
+              </div>
+            </div>
+
+            {/* Sequences */}
+            <div style={cardStyle}>
+              <h3 style={{ fontFamily: "'Space Grotesk', sans-serif", fontWeight: 700, fontSize: "14px", margin: "0 0 16px 0" }}>Sequences</h3>
+              <div style={{ display: "flex", flexDirection: "column", gap: "16px", fontSize: "12px", fontFamily: "'Inter', sans-serif" }}>
+                {enrollments.length === 0 && <span style={{ color: "#555" }}>Not in any sequence</span>}
+                {enrollments.map((enrollment) => {
+                  const sequenceId = enrollment.sequence_id;
+                  const steps = stepsOf(sequenceId);
+                  const status = enrollmentStatus(subscriber.status, enrollment.status);
+                  const lastDelivered = sends.find((s) => s.sequence_id === sequenceId && s.status === "sent");
+                  const nextSend = nextSendAt({ ...enrollment, status }, steps.map((step) => step.delay_days), lastDelivered?.sent_at ?? null);
+                  const resendStage = resendStages[sequenceId] ?? enrollment.current_stage;
+                  const skipStage = skipStages[sequenceId] ?? enrollment.current_stage + 1;
+                  return (
+                    <div key={sequenceId} style={{ display: "flex", flexDirection: "column", gap: "8px" }}>
+                      <div style={{ display: "flex", justifyContent: "space-between", gap: "8px" }}>
+                        <span style={{ color: "#fff", fontWeight: 500 }}>{sequenceName(sequenceId)}</span>
+                        <span style={{ color: STATUS_COLORS[status], fontWeight: 500, textTransform: "capitalize" }}>{status}</span>
+                      </div>
+                      <div style={{ color: "#A0A0A0" }}>
+                        Stage {enrollment.current_stage}/{steps.length}
+                        {enrollment.current_stage > 0 && ` · ${stageLabel(sequenceId, enrollment.current_stage)}`}
+                        {nextSend && ` · next ${formatTimestamp(nextSend.toISOString())}`}
+                      </div>
+                      {canOperate && (
+                        <>
+                          <div style={{ display: "flex", gap: "8px", flexWrap: "wrap" }}>
+                            {status === "active" && (
+                              <>
+                                <button disabled={busy} onClick={() => act(`/api/subscribers/${id}/advance`, "POST", { sequenceId }, `Email #${enrollment.current_stage + 1} sent`)} style={buttonStyle("#86EFAC")}>Send Next</button>
+                                <button disabled={busy} onClick={() => act(`/api/subscribers/${id}`, "PATCH", { status: "paused", sequenceId }, "Paused")} style={buttonStyle("#F59E0B")}>Pause</button>
+                              </>
+                            )}
+                            {status === "paused" && (
+                              <button disabled={busy} onClick={() => act(`/api/subscribers/${id}`, "PATCH", { status: "active", sequenceId }, "Resumed")} style={buttonStyle("#86EFAC")}>Resume</button>
+                            )}
+                            {subscriber.status !== "active" && <span style={{ color: "#555" }}>No email actions while {subscriber.status}.</span>}
+                          </div>
+                          {subscriber.status === "active" && enrollment.current_stage > 0 && (
+                            <div style={{ display: "flex", gap: "8px", alignItems: "center" }}>
+                              <select value={resendStage} onChange={(e) => setResendStages({ ...resendStages, [sequenceId]: Number(e.target.value) })} style={{ ...selectStyle, flex: 1 }}>
+                                {Array.from({ length: enrollment.current_stage }, (_, i) => <option key={i} value={i + 1}>{i + 1}. {stageLabel(sequenceId, i + 1)}</option>)}
+                              </select>
+                              <button
+                                disabled={busy}
+                                onClick={() => window.confirm(`Send email #${resendStage} to ${subscriber.email} again?`) && act(`/api/subscribers/${id}/resend`, "POST", { stage: resendStage, sequenceId }, `Email #${resendStage} resent`)}
+                                style={buttonStyle("#60A5FA")}
+                              >
+                                Resend
+                              </button>
+                            </div>
+                          )}
+                          {(status === "active" || status === "paused") && enrollment.current_stage < steps.length && (
+                            <div style={{ display: "flex", gap: "8px", alignItems: "center" }}>
+                              <select value={skipStage} onChange={(e) => setSkipStages({ ...skipStages, [sequenceId]: Number(e.target.value) })} style={{ ...selectStyle, flex: 1 }}>
+                                {steps.filter((step) => step.stage > enrollment.current_stage).map((step) => <option key={step.stage} value={step.stage}>{step.stage}. {step.label}</option>)}
+                              </select>
+                              <button
+                                disabled={busy}
+                                onClick={() => window.confirm(`Skip ahead to stage ${skipStage}? The skipped emails won't be sent.`) && act("/api/subscribers/bulk", "POST", { action: "advance", ids: [id], stage: skipStage, sequenceId }, `Moved to stage ${skipStage}`)}
+                                style={buttonStyle("#60A5FA")}
+                              >
+                                Skip Ahead
+                              </button>
+                            </div>
+                          )}
+                        </>
+                      )}
+                    </div>
+                  );
+                })}
+                {canOperate && subscriber.status !== "unsubscribed" && subscriber.status !== "suppressed" && unenrolled.length > 0 && (
+                  <div style={{ display: "flex", gap: "8px", alignItems: "center", borderTop: "1px solid #1F1F1F", paddingTop: "12px" }}>
+                    <select value={enrollTarget} onChange={(e) => setEnrollTarget(e.target.value)} style={{ ...selectStyle, flex: 1 }}>
+                      {unenrolled.map((seq) => <option key={seq.id} value={seq.id}>{seq.name}</option>)}
+                    </select>
+                    <button disabled={busy} onClick={() => act(`/api/sequences/${enrollTarget}/enrollments`, "POST", { ids: [id] }, `Enrolled in ${sequenceName(enrollTarget)}`)} style={buttonStyle("#86EFAC")}>
+                      Enroll
+                    </button>
+                  </div>
+                )}
+              </div>
+            </div>
+
+            {/* Notes */}
+            <div style={cardStyle}>
+              <h3 style={{ fontFamily: "'Space Grotesk', sans-serif", fontWeight: 700, fontSize: "14px", margin: "0 0 12px 0" }}>Notes</h3>
+              {canOperate && (
+                <div style={{ display: "flex", flexDirection: "column", gap: "8px", marginBottom: notes.length > 0 ? "12px" : 0 }}>
+                  <textarea value={noteDraft} onChange={(e) => setNoteDraft(e.target.value)} placeholder="Add a note…" rows={3} style={{ background: "#000", border: "1px solid #1F1F1F", borderRadius: "6px", padding: "8px 10px", color: "#fff", fontSize: "12px", fontFamily: "'Inter', sans-serif", outline: "none", resize: "vertical" }} />
+                  <button disabled={busy || !noteDraft.trim()} onClick={addNote} style={{ ...buttonStyle("#86EFAC"), alignSelf: "flex-end", cursor: !noteDraft.trim() ? "not-allowed" : busy ? "wait" : "pointer" }}>Add Note</button>
+                </div>
+              )}
+              {notes.length === 0 ? (
+                !canOperate && <div style={{ fontSize: "12px", color: "#555", fontFamily: "'Inter', sans-serif" }}>No notes</div>
+              ) : (
+                <div style={{ display: "flex", flexDirection: "column", gap: "10px" }}>
+                  {notes.map((note) => (
+                    <div key={note.id} style={{ fontSize: "12px", fontFamily: "'Inter', sans-serif" }}>
+                      <div style={{ color: "#E5E5E5", whiteSpace: "pre-wrap" }}>{note.body}</div>
+                      <div style={{ color: "#555", fontSize: "10px", marginTop: "2px" }}>{note.author} · {formatTimestamp(note.created_at)}</div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          </div>
+
+          {/* Timeline */}
+          <div style={cardStyle}>
+            <h3 style={{ fontFamily: "'Space Grotesk', sans-serif", fontWeight: 700, fontSize: "14px", margin: "0 0 16px 0" }}>Timeline</h3>
+            <div style={{ display: "flex", flexDirection: "column" }}>
+              {timeline.map((item, i) => {
+                const key =
+                  item.kind === "send" ? item.send.id : item.kind === "event" ? item.event.id : item.kind === "bounce" ? item.bounce.id : item.kind === "note" ? item.note.id : `${item.kind}-${i}`;
+                let color = "#A0A0A0";
+                let title: React.ReactNode;
+                let detail: React.ReactNode = null;
+
+                if (item.kind === "subscribed") {
+                  color = "#86EFAC";
+                  title = "Subscribed";
+                  detail = subscriber.source ? `via ${subscriber.source}${subscriber.utm_campaign ? ` · ${subscriber.utm_campaign}` : ""}` : null;
+                } else if (item.kind === "confirmed") {
+                  color = "#86EFAC";
+                  title = "Confirmed their email";
+                } else if (item.kind === "unsubscribed") {
+                  color = "#EF4444";
+                  title = "Unsubscribed";
+                } else if (item.kind === "send") {
+                  const { send } = item;
+                  color = send.status === "sent" ? "#86EFAC" : "#EF4444";
+                  title = `${send.status === "sent" ? "Sent" : "Failed to send"} ${sequenceName(send.sequence_id)} email #${send.email_number} · ${stageLabel(send.sequence_id, send.email_number)}`;
+                  detail = (
+                    <>
+                      {send.subject && <span style={{ color: "#E5E5E5" }}>{send.subject}</span>}
+                      {send.template_version !== null && <span> · v{send.template_version}</span>}
+                      {send.variant_id && <span> · A/B variant</span>}
+                      {send.error && <span style={{ color: "#EF4444" }}> · {send.error}</span>}
+                    </>
+                  );
+                } else if (item.kind === "event") {
+                  color = item.event.event_type === "open" ? "#60A5FA" : "#F59E0B";
+                  const emailNumber = item.send ? `email #${item.send.email_number}` : "an email";
+                  title = item.event.event_type === "open" ? `Opened ${emailNumber}` : `Clicked a link in ${emailNumber}`;
+                  detail = item.event.url;
+                } else if (item.kind === "bounce") {
+                  const { bounce } = item;
+                  color = bounce.bounce_type === "soft" ? "#F59E0B" : "#EF4444";
+                  const emailNumber = item.send ? `email #${item.send.email_number}` : "an email";
+                  title = bounce.kind === "complaint" ? `Reported ${emailNumber} as spam` : `${bounce.bounce_type === "soft" ? "Soft" : "Hard"} bounce of ${emailNumber}`;
+                  detail = [bounce.status_code, bounce.diagnostic].filter(Boolean).join(" · ") || null;
+                } else {
+                  color = "#E5E5E5";
+                  title = `Note from ${item.note.author}`;
+                  detail = <span style={{ whiteSpace: "pre-wrap" }}>{item.note.body}</span>;
+                }
+
+                return (
+                  <div key={key} style={{ display: "grid", gridTemplateColumns: "12px 1fr", gap: "12px", paddingBottom: "14px" }}>
+                    <span style={{ width: "8px", height: "8px", borderRadius: "50%", background: color, marginTop: "5px" }} />
+                    <div style={{ fontSize: "12px", fontFamily: "'Inter', sans-serif", minWidth: 0 }}>
+                      <div style={{ display: "flex", justifyContent: "space-between", gap: "12px" }}>
+                        <span style={{ color: "#fff" }}>{title}</span>
+                        <span style={{ color: "#555", fontSize: "11px", flexShrink: 0 }} title={item.at}>{formatTimestamp(item.at)}</span>
+                      </div>
+                      {detail && <div style={{ color: "#A0A0A0", marginTop: "2px", overflow: "hidden", textOverflow: "ellipsis" }}>{detail}</div>}
+                      {item.kind === "send" && item.send.html && (
+                        <>
+                          <button onClick={() => setOpenSendId(openSendId === item.send.id ? null : item.send.id)} style={{ background: "none", border: "none", color: "#60A5FA", fontSize: "11px", padding: "4px 0 0 0", cursor: "pointer", fontFamily: "'Inter', sans-serif" }}>
+                            {openSendId === item.send.id ? "Hide email" : "View email"}
+                          </button>
+                          {openSendId === item.send.id && (
+                            <iframe
+                              srcDoc={item.send.html}
+                              sandbox=""
+                              title={`Email #${item.send.email_number} as sent`}
+                              style={{ display: "block", width: "100%", height: "480px", border: "1px solid #1F1F1F", borderRadius: "8px", background: "#fff", marginTop: "8px" }}
+                            />
+                          )}
+                        </>
+                      )}
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        </div>
+      </main>
+    </div>
+  );
+}
@@ -5,6 +5,18 @@ import Link from "next/link";
 import Header from "../components/Header";
 import { supabase } from "../lib/supabase";
 import { useRealtimeSubscription } from "../hooks/useRealtimeSubscription";
+import { useSession } from "../hooks/useSession";
+import { hasRole } from "../lib/roles";
+import { enrollmentStatus, nextSendAt } from "../lib/drip-schedule";
+import { toCsv } from "../lib/csv";
+import { htmlToText, inlineCss, lintEmailHtml } from "../lib/email-html";
+import { BUILT_IN_FIELDS, buildMergeContext, renderTemplate, type MergeSubscriber } from "../lib/render-template";
+import EmailCampaigns, { type CampaignRecipient, type EmailCampaign, type EmailSegment } from "../components/EmailCampaigns";
+import EmailOutbox, { type OutboxItem } from "../components/EmailOutbox";
+import SubscriberBulkActions from "../components/SubscriberBulkActions";
+import SubscriberImport from "../components/SubscriberImport";
+import TemplateDiff from "../components/TemplateDiff";
+import VariantResults, { type EmailVariant } from "../components/VariantResults";
 
 function useIsMobile(breakpoint = 768) {
   const [isMobile, setIsMobile] = useState(false);
@@ -17,6 +29,10 @@ function useIsMobile(breakpoint = 768) {
   return isMobile;
 }
 
+// How often the tables behind /api/email are reloaded; realtime can't
+// report their changes.
+const PRIVATE_POLL_MS = 30_000;
+
 function getSupabase() {
   return supabase;
 }
@@ -26,45 +42,97 @@ interface Subscriber {
   name: string;
   email: string;
   signup_date: string;
+  status: "pending" | "active" | "unsubscribed" | "suppressed";
+  attributes: Record<string, unknown> | null;
+  tags: string[] | null;
+  source: string | null;
+  utm_source: string | null;
+  utm_medium: string | null;
+  utm_campaign: string | null;
+  referrer: string | null;
+  confirmed_at: string | null;
+  created_at: string;
+}
+
+interface Sequence {
+  id: string;
+  name: string;
+  description: string | null;
+  is_default: boolean;
+}
+
+interface Enrollment {
+  subscriber_id: string;
+  sequence_id: string;
   current_stage: number;
   status: "active" | "paused" | "completed";
-  created_at: string;
+  enrolled_at: string;
+}
+
+// A subscriber as a member of the selected sequence: stage and status are
+// those of their enrollment (see enrollmentStatus()).
+interface Member extends Omit<Subscriber, "status"> {
+  current_stage: number;
+  status: string;
+  enrolled_at: string;
 }
 
 interface EmailSend {
   id: string;
   subscriber_id: string;
+  sequence_id: string;
   email_number: number;
   sent_at: string;
   status: "sent" | "failed";
+  error: string | null;
+  template_version: number | null;
+  variant_id: string | null;
+  bounce_type: "hard" | "soft" | null;
+  complained_at: string | null;
+}
+
+interface EmailTemplateRow {
+  sequence_id: string;
+  stage: number;
+  label: string;
+  delay_days: number;
+  subject: string;
+  html: string;
+  version: number;
+  control_weight: number;
+  updated_at: string;
+  updated_by: string | null;
+}
+
+interface TemplateVersion {
+  stage: number;
+  version: number;
+  subject: string;
+  html: string;
+  created_by: string | null;
+  created_at: string;
+  restored_from: number | null;
 }
 
-const STAGE_LABELS = [
-  "Welcome",
-  "Pain Point",
-  "Solution Intro",
-  "Social Proof",
-  "Feature Deep Dive",
-  "Objection Handling",
-  "Urgency/Scarcity",
-  "Final CTA",
-];
-
-const STAGE_DETAILS: { subject: string; description: string }[] = [
-  { subject: "Welcome to Traqd", description: "Welcome email introducing the platform and what to expect from this sequence." },
-  { subject: "The Hidden Cost of Multiple Incomes", description: "Pain point awareness — the chaos of tracking income across multiple streams." },
-  { subject: "Screenshot Your Income. AI Does the Rest.", description: "Solution introduction — how Traqd uses AI to simplify income tracking." },
-  { subject: "How Sarah Saved 12 Hours a Month", description: "Social proof story showing real results from early adopters." },
-  { subject: "Your AI-Powered Financial Command Center", description: "Feature deep dive into Traqd's dashboard, insights, and automation." },
-  { subject: "But What About My Privacy?", description: "Objection handling — addressing data security and privacy concerns." },
-  { subject: "48 Hours Left: Early Access Pricing", description: "Urgency and scarcity — limited-time waitlist pricing incentive." },
-  { subject: "Last Chance: Join the Traqd Waitlist", description: "Final CTA — last push to convert with clear next steps." },
-];
+// Stand-in recipient for the preview when no real subscriber is picked.
+// Stands in for the signed unsubscribe link so the preview can lint for it.
+const PREVIEW_UNSUBSCRIBE_URL = "#unsubscribe";
+
+const SAMPLE_SUBSCRIBER: MergeSubscriber = { name: "Sarah Johnson", email: "sarah@example.com", signup_date: "2026-02-28", attributes: {} };
+
+interface EmailEvent {
+  send_id: string;
+  event_type: "open" | "click";
+  created_at: string;
+}
 
 const STATUS_COLORS: Record<string, string> = {
+  pending: "#60A5FA",
   active: "#86EFAC",
   paused: "#F59E0B",
   completed: "#A0A0A0",
+  unsubscribed: "#EF4444",
+  suppressed: "#EF4444",
 };
 
 function timeAgo(dateStr: string): string {
@@ -80,10 +148,31 @@ function timeAgo(dateStr: string): string {
   return `${days}d ago`;
 }
 
+function formatRate(count: number, total: number): string {
+  if (total === 0) return "—";
+  return `${Math.round((count / total) * 100)}%`;
+}
+
+function formatNextSend(date: Date | null): string {
+  if (!date) return "—";
+  const diff = date.getTime() - Date.now();
+  if (diff <= 0) return "Due now";
+  const hrs = Math.floor(diff / 3600000);
+  if (hrs < 24) return `in ${Math.max(hrs, 1)}h`;
+  return date.toLocaleDateString("en-US", { month: "short", day: "numeric" });
+}
+
 export default function EmailPage() {
   const isMobile = useIsMobile();
+  const { session } = useSession();
+  const canOperate = hasRole(session?.role, "operator");
+  const isAdmin = hasRole(session?.role, "admin");
   const [subscribers, setSubscribers] = useState<Subscriber[]>([]);
+  const [sequences, setSequences] = useState<Sequence[]>([]);
+  const [enrollments, setEnrollments] = useState<Enrollment[]>([]);
+  const [sequenceId, setSequenceId] = useState<string | null>(null);
   const [sends, setSends] = useState<EmailSend[]>([]);
+  const [events, setEvents] = useState<EmailEvent[]>([]);
   const [search, setSearch] = useState("");
   const [filterStage, setFilterStage] = useState<number | null>(null);
   const [filterStatus, setFilterStatus] = useState<string | null>(null);
@@ -92,87 +181,450 @@ export default function EmailPage() {
   const [sendingId, setSendingId] = useState<string | null>(null);
   const [sentId, setSentId] = useState<string | null>(null);
   const [previewStage, setPreviewStage] = useState<number | null>(null);
-  const [emailTemplates, setEmailTemplates] = useState<Record<string, { subject: string; html: string }>>({});
-
-  useEffect(() => {
-    fetch("/email-templates.json")
-      .then((r) => r.json())
-      .then((d) => setEmailTemplates(d))
-      .catch(() => {});
-  }, []);
+  const [templates, setTemplates] = useState<EmailTemplateRow[]>([]);
+  const [draft, setDraft] = useState<{ subject: string; html: string } | null>(null);
+  const [savingTemplate, setSavingTemplate] = useState(false);
+  const [versions, setVersions] = useState<TemplateVersion[]>([]);
+  const [variants, setVariants] = useState<EmailVariant[]>([]);
+  const [segments, setSegments] = useState<EmailSegment[]>([]);
+  const [campaigns, setCampaigns] = useState<EmailCampaign[]>([]);
+  const [campaignRecipients, setCampaignRecipients] = useState<CampaignRecipient[]>([]);
+  const [outbox, setOutbox] = useState<OutboxItem[]>([]);
+  const [previewVariantId, setPreviewVariantId] = useState<string | null>(null);
+  const [previewSubscriberId, setPreviewSubscriberId] = useState("");
+  const [viewVersion, setViewVersion] = useState<number | null>(null);
+  const [showDiff, setShowDiff] = useState(false);
+  const [showText, setShowText] = useState(false);
 
   const fetchData = useCallback(async () => {
-    const [subRes, sendRes] = await Promise.all([
-      getSupabase().from("email_subscribers").select("*").order("signup_date", { ascending: false }),
-      getSupabase().from("email_sends").select("*").order("sent_at", { ascending: false }),
+    const [privateRes, sequenceRes, templateRes, variantRes, segmentRes, campaignRes] = await Promise.all([
+      // Subscribers, sends, events, recipients and the outbox aren't
+      // readable with the anon key; the route also pages through them and
+      // the enrollments past PostgREST's 1000-row limit.
+      fetch("/api/email").then((res) => (res.ok ? res.json() : null)).catch(() => null),
+      getSupabase().from("email_sequences").select("id, name, description, is_default").order("created_at"),
+      getSupabase().from("email_templates").select("*").order("stage"),
+      getSupabase().from("email_template_variants").select("*").order("name"),
+      getSupabase().from("email_segments").select("*").order("name"),
+      // Everything but the html, which only the composer needs.
+      getSupabase()
+        .from("email_campaigns")
+        .select("id, name, subject, segment_id, status, scheduled_at, started_at, finished_at, created_by")
+        .order("scheduled_at", { ascending: false }),
     ]);
-    if (subRes.data) setSubscribers(subRes.data);
-    if (sendRes.data) setSends(sendRes.data);
+    if (privateRes) {
+      setSubscribers(privateRes.subscribers);
+      setEnrollments(privateRes.enrollments);
+      setSends(privateRes.sends);
+      setEvents(privateRes.events);
+      setCampaignRecipients(privateRes.campaignRecipients);
+      setOutbox(privateRes.outbox);
+    }
+    if (sequenceRes.data) setSequences(sequenceRes.data);
+    if (templateRes.data) setTemplates(templateRes.data);
+    if (variantRes.data) setVariants(variantRes.data);
+    if (segmentRes.data) setSegments(segmentRes.data);
+    if (campaignRes.data) setCampaigns(campaignRes.data);
     setLoading(false);
   }, []);
 
+  const fetchVersions = useCallback(async (sequenceId: string, stage: number) => {
+    const { data } = await getSupabase()
+      .from("email_template_versions")
+      .select("*")
+      .eq("sequence_id", sequenceId)
+      .eq("stage", stage)
+      .order("version", { ascending: false });
+    setVersions(data || []);
+  }, []);
+
   const { lastRefresh, formatTime } = useRealtimeSubscription(
-    ["email_subscribers", "email_sends"],
+    ["email_sequences", "sequence_enrollments", "email_templates", "email_template_variants", "email_segments", "email_campaigns"],
     "*",
-    fetchData
+    fetchData,
+    PRIVATE_POLL_MS
   );
 
+  // The selected sequence, the default one until another is picked. Its
+  // steps are its templates in stage order.
+  const sequence = sequences.find((s) => s.id === sequenceId) ?? sequences.find((s) => s.is_default) ?? sequences[0] ?? null;
+  const steps = templates.filter((t) => t.sequence_id === sequence?.id);
+
+  // Every save bumps email_templates, so reloading on `templates` keeps the
+  // open modal's history current.
+  useEffect(() => {
+    if (previewStage !== null && sequence) fetchVersions(sequence.id, previewStage + 1);
+  }, [previewStage, sequence?.id, templates, fetchVersions]);
+
+  const [sendError, setSendError] = useState<string | null>(null);
+
+  const showError = (message: string) => {
+    setSendError(message);
+    setTimeout(() => setSendError(null), 5000);
+  };
+
   const updateStatus = async (id: string, status: string) => {
-    await getSupabase().from("email_subscribers").update({ status }).eq("id", id);
+    try {
+      const res = await fetch(`/api/subscribers/${id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ status, sequenceId: sequence?.id }),
+      });
+      if (!res.ok) {
+        const data = await res.json().catch(() => ({}));
+        showError(data.error || `Failed: HTTP ${res.status}`);
+      }
+    } catch (err: unknown) {
+      showError(`Failed: ${err instanceof Error ? err.message : "Network error"}`);
+    }
     fetchData();
   };
 
-  const [sendError, setSendError] = useState<string | null>(null);
-
-  const advanceStage = async (sub: Subscriber) => {
-    if (sub.current_stage >= 8) return;
+  const advanceStage = async (sub: Member) => {
+    if (!sequence || sub.current_stage >= steps.length) return;
     setSendingId(sub.id);
     setSendError(null);
 
     try {
-      const newStage = sub.current_stage + 1;
-      const newStatus = newStage >= 8 ? "completed" : sub.status;
-      await getSupabase().from("email_subscribers").update({ current_stage: newStage, status: newStatus }).eq("id", sub.id);
-      await getSupabase().from("email_sends").insert({ subscriber_id: sub.id, email_number: newStage, status: "sent" });
+      const res = await fetch(`/api/subscribers/${sub.id}/advance`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ sequenceId: sequence.id }),
+      });
+      const data = await res.json().catch(() => ({}));
       setSendingId(null);
+      if (!res.ok) {
+        showError(data.error || `Failed: HTTP ${res.status}`);
+        return;
+      }
       setSentId(sub.id);
       setTimeout(() => setSentId(null), 3000);
       fetchData();
     } catch (err: unknown) {
       setSendingId(null);
       const message = err instanceof Error ? err.message : "Network error";
-      setSendError(`Failed: ${message}`);
-      setTimeout(() => setSendError(null), 5000);
+      showError(`Failed: ${message}`);
     }
   };
 
+  const [dripRunning, setDripRunning] = useState(false);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [showImport, setShowImport] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+
+  const showNotice = (message: string) => {
+    setNotice(message);
+    setTimeout(() => setNotice(null), 5000);
+  };
+
+  const runDrip = async () => {
+    setDripRunning(true);
+    try {
+      const res = await fetch("/api/cron/email-drip", { method: "POST" });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        showError(data.error || `Failed: HTTP ${res.status}`);
+      } else {
+        showNotice(data.due === 0 ? "No subscribers due" : `Sent ${data.sent}, failed ${data.failed}${data.deferred ? `, ${data.deferred} deferred` : ""}`);
+      }
+    } catch (err: unknown) {
+      showError(`Failed: ${err instanceof Error ? err.message : "Network error"}`);
+    }
+    setDripRunning(false);
+    fetchData();
+  };
+
+  const selectSequence = (id: string) => {
+    setSequenceId(id);
+    setFilterStage(null);
+    setExpandedId(null);
+    setSelectedIds(new Set());
+  };
+
+  const createSequence = async () => {
+    const name = window.prompt("Name of the new sequence");
+    if (!name) return;
+    try {
+      const res = await fetch("/api/sequences", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ name }),
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        showError(data.error || `Failed: HTTP ${res.status}`);
+      } else {
+        await fetchData();
+        selectSequence(data.sequence.id);
+      }
+    } catch (err: unknown) {
+      showError(`Failed: ${err instanceof Error ? err.message : "Network error"}`);
+    }
+  };
+
+  // Appends a step and opens it in the editor; it starts as a copy of the
+  // previous step.
+  const addStep = async () => {
+    if (!sequence) return;
+    const label = window.prompt(`Label for step ${steps.length + 1} of ${sequence.name}`);
+    if (!label) return;
+    const delay = window.prompt(steps.length === 0 ? "Days after enrollment to send it" : "Days after the previous step to send it", "3");
+    if (delay === null) return;
+    try {
+      const res = await fetch(`/api/sequences/${sequence.id}/templates`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ label, delayDays: Number(delay) }),
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        showError(data.error || `Failed: HTTP ${res.status}`);
+      } else {
+        await fetchData();
+        openPreview(data.template.stage - 1);
+      }
+    } catch (err: unknown) {
+      showError(`Failed: ${err instanceof Error ? err.message : "Network error"}`);
+    }
+  };
+
+  const saveDelay = async (template: EmailTemplateRow, value: string) => {
+    const delayDays = Number(value);
+    if (!sequence || value === "" || delayDays === template.delay_days) return;
+    try {
+      const res = await fetch(`/api/sequences/${sequence.id}/templates/${template.stage}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ delayDays }),
+      });
+      if (!res.ok) {
+        const data = await res.json().catch(() => ({}));
+        showError(data.error || `Failed: HTTP ${res.status}`);
+      }
+    } catch (err: unknown) {
+      showError(`Failed: ${err instanceof Error ? err.message : "Network error"}`);
+    }
+    fetchData();
+  };
+
+  const openPreview = (stage: number | null, variantId: string | null = null) => {
+    if (draft && !window.confirm("Discard unsaved template changes?")) return;
+    setDraft(null);
+    setPreviewVariantId(variantId);
+    setViewVersion(null);
+    setShowDiff(false);
+    setShowText(false);
+    setVersions([]);
+    setPreviewStage(stage);
+  };
+
+  const rollbackTemplate = async (version: number) => {
+    if (previewStage === null || !sequence || !window.confirm(`Roll back to version ${version}? This saves its content as a new version.`)) return;
+    try {
+      const res = await fetch(`/api/sequences/${sequence.id}/templates/${previewStage + 1}/rollback`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ version }),
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        showError(data.error || `Failed: HTTP ${res.status}`);
+      } else {
+        setViewVersion(null);
+        setShowDiff(false);
+        fetchData();
+      }
+    } catch (err: unknown) {
+      showError(`Failed: ${err instanceof Error ? err.message : "Network error"}`);
+    }
+  };
+
+  const saveTemplate = async () => {
+    if (previewStage === null || !draft || !sequence) return;
+    setSavingTemplate(true);
+    try {
+      const url = previewVariantId
+        ? `/api/sequences/${sequence.id}/templates/${previewStage + 1}/variants/${previewVariantId}`
+        : `/api/sequences/${sequence.id}/templates/${previewStage + 1}`;
+      const res = await fetch(url, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(draft),
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        showError(data.error || `Failed: HTTP ${res.status}`);
+      } else {
+        setDraft(null);
+        fetchData();
+      }
+    } catch (err: unknown) {
+      showError(`Failed: ${err instanceof Error ? err.message : "Network error"}`);
+    }
+    setSavingTemplate(false);
+  };
+
   // Computed
+  const delays = steps.map((t) => t.delay_days);
+  const memberEnrollments = new Map(enrollments.filter((e) => e.sequence_id === sequence?.id).map((e) => [e.subscriber_id, e]));
+  const members: Member[] = subscribers.flatMap((sub) => {
+    const enrollment = memberEnrollments.get(sub.id);
+    return enrollment
+      ? [{ ...sub, current_stage: enrollment.current_stage, status: enrollmentStatus(sub.status, enrollment.status), enrolled_at: enrollment.enrolled_at }]
+      : [];
+  });
+  const stepLabel = (sequenceId: string, stage: number) =>
+    templates.find((t) => t.sequence_id === sequenceId && t.stage === stage)?.label ?? `Step ${stage}`;
+
   const totalSent = sends.filter((s) => s.status === "sent").length;
-  const activeCount = subscribers.filter((s) => s.status === "active").length;
-  const completedCount = subscribers.filter((s) => s.status === "completed").length;
-  const openRate = "—";
-  const clickRate = "—";
+  const activeCount = members.filter((s) => s.status === "active").length;
+  const completedCount = members.filter((s) => s.status === "completed").length;
+  // Rates count each delivered email once, however many times it was opened
+  // or clicked.
+  const deliveredSends = sends.filter((s) => s.status === "sent");
+  const openedSendIds = new Set(events.filter((e) => e.event_type === "open").map((e) => e.send_id));
+  const clickedSendIds = new Set(events.filter((e) => e.event_type === "click").map((e) => e.send_id));
+  const openRate = formatRate(deliveredSends.filter((s) => openedSendIds.has(s.id)).length, deliveredSends.length);
+  const clickRate = formatRate(deliveredSends.filter((s) => clickedSendIds.has(s.id)).length, deliveredSends.length);
+  // Bounces reported after SMTP accepted the email, hard and soft.
+  const bouncedSends = deliveredSends.filter((s) => s.bounce_type);
+  const bounceRate = formatRate(bouncedSends.length, deliveredSends.length);
+  const bounceBreakdown = `${bouncedSends.filter((s) => s.bounce_type === "hard").length} hard · ${bouncedSends.filter((s) => s.bounce_type === "soft").length} soft · ${deliveredSends.filter((s) => s.complained_at).length} spam complaints`;
+  const sequenceSends = sends.filter((s) => s.sequence_id === sequence?.id);
+  const sequenceDelivered = sequenceSends.filter((s) => s.status === "sent");
 
-  const stageCounts = Array.from({ length: 8 }, (_, i) =>
-    subscribers.filter((s) => s.current_stage === i + 1 && s.status === "active").length
-  );
+  const stageEngagement = steps.map((step) => {
+    const stageSends = sequenceDelivered.filter((s) => s.email_number === step.stage);
+    return {
+      sent: stageSends.length,
+      openRate: formatRate(stageSends.filter((s) => openedSendIds.has(s.id)).length, stageSends.length),
+      clickRate: formatRate(stageSends.filter((s) => clickedSendIds.has(s.id)).length, stageSends.length),
+      bounceRate: formatRate(stageSends.filter((s) => s.bounce_type).length, stageSends.length),
+    };
+  });
+
+  const stageCounts = steps.map((step) => members.filter((s) => s.current_stage === step.stage && s.status === "active").length);
+  const notStartedCount = members.filter((s) => s.current_stage === 0 && s.status === "active").length;
   const maxStageCount = Math.max(...stageCounts, 1);
 
-  const filtered = subscribers.filter((s) => {
+  const filtered = members.filter((s) => {
     if (search && !s.name.toLowerCase().includes(search.toLowerCase()) && !s.email.toLowerCase().includes(search.toLowerCase())) return false;
     if (filterStage !== null && s.current_stage !== filterStage) return false;
     if (filterStatus && s.status !== filterStatus) return false;
     return true;
   });
 
-  const subscriberSends = (id: string) => sends.filter((s) => s.subscriber_id === id);
+  // Bulk actions apply to the selected rows that the current filters show.
+  const selectedSubscribers = filtered.filter((s) => selectedIds.has(s.id));
+  const allFilteredSelected = filtered.length > 0 && selectedSubscribers.length === filtered.length;
+  const toggleSelected = (id: string) => {
+    const next = new Set(selectedIds);
+    if (next.has(id)) next.delete(id);
+    else next.add(id);
+    setSelectedIds(next);
+  };
+  const tableColumns = `${canOperate ? "20px " : ""}${isMobile ? "1fr 0.6fr 0.5fr 0.9fr" : "1.2fr 1.5fr 0.6fr 0.5fr 0.6fr 0.5fr 0.6fr 0.5fr 1fr"}`;
+
+  // The table shows each subscriber's sends in the selected sequence.
+  const subscriberSends = (id: string) => sequenceSends.filter((s) => s.subscriber_id === id);
 
   const lastSendFor = (id: string) => {
     const ss = subscriberSends(id);
     return ss.length > 0 ? ss[0] : null;
   };
 
+  const engagementFor = (id: string) => {
+    const delivered = subscriberSends(id).filter((s) => s.status === "sent");
+    return {
+      sent: delivered.length,
+      opened: delivered.filter((s) => openedSendIds.has(s.id)).length,
+      clicked: delivered.filter((s) => clickedSendIds.has(s.id)).length,
+    };
+  };
+
+  const nextSendFor = (sub: Member) => {
+    const lastDelivered = subscriberSends(sub.id).find((s) => s.status === "sent");
+    return nextSendAt(sub, delays, lastDelivered?.sent_at ?? null);
+  };
+
+  // Downloads the subscriber table as currently filtered.
+  const exportCsv = () => {
+    const csv = toCsv(
+      ["name", "email", "signup_date", "sequence", "stage", "stage_label", "status", "next_send", "last_send_at", "last_send_stage", "last_send_status", "opens", "clicks", "attributes"],
+      filtered.map((sub) => {
+        const lastSend = lastSendFor(sub.id);
+        const next = nextSendFor(sub);
+        const engagement = engagementFor(sub.id);
+        return [
+          sub.name,
+          sub.email,
+          sub.signup_date,
+          sequence?.name,
+          sub.current_stage,
+          steps[sub.current_stage - 1]?.label,
+          sub.status,
+          next?.toISOString(),
+          lastSend?.sent_at,
+          lastSend?.email_number,
+          lastSend?.status,
+          engagement.opened,
+          engagement.clicked,
+          sub.attributes && Object.keys(sub.attributes).length > 0 ? JSON.stringify(sub.attributes) : null,
+        ];
+      })
+    );
+    const url = URL.createObjectURL(new Blob([csv], { type: "text/csv;charset=utf-8" }));
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = `subscribers-${new Date().toISOString().slice(0, 10)}.csv`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
   const recentActivity = sends.slice(0, 10);
+  const clickedSubscriberIds = new Set(deliveredSends.filter((s) => clickedSendIds.has(s.id)).map((s) => s.subscriber_id));
+
+  // Public signups grouped by UTM source (or the form's source), with how
+  // many confirmed and how many went on to click an email in any sequence.
+  const signupSources = Object.values(
+    subscribers
+      .filter((sub) => sub.source)
+      .reduce<Record<string, { key: string; campaigns: Set<string>; signups: number; confirmed: number; clicked: number }>>((acc, sub) => {
+        const key = sub.utm_source || sub.source || "unknown";
+        const row = (acc[key] ??= { key, campaigns: new Set(), signups: 0, confirmed: 0, clicked: 0 });
+        row.signups++;
+        if (sub.confirmed_at) row.confirmed++;
+        if (clickedSubscriberIds.has(sub.id)) row.clicked++;
+        if (sub.utm_campaign) row.campaigns.add(sub.utm_campaign);
+        return acc;
+      }, {})
+  ).sort((a, b) => b.signups - a.signups);
+
+  const previewTemplate = previewStage !== null ? steps.find((t) => t.stage === previewStage + 1) ?? null : null;
+  const viewedVersion = viewVersion !== null ? versions.find((v) => v.version === viewVersion) ?? null : null;
+  const previewVariant = previewVariantId ? variants.find((v) => v.id === previewVariantId) ?? null : null;
+  const previewSource = draft ?? previewVariant ?? viewedVersion ?? previewTemplate;
+  // Diff the selected version against current, or current against the one before it.
+  const diffBase = viewedVersion ?? versions.find((v) => previewTemplate !== null && v.version < previewTemplate.version) ?? null;
+
+  // Engagement for each version of the previewed stage, from the version
+  // recorded on every send.
+  const versionStats = (version: number) => {
+    const versionSends = sequenceDelivered.filter((s) => previewStage !== null && s.email_number === previewStage + 1 && s.template_version === version);
+    return {
+      sent: versionSends.length,
+      openRate: formatRate(versionSends.filter((s) => openedSendIds.has(s.id)).length, versionSends.length),
+      clickRate: formatRate(versionSends.filter((s) => clickedSendIds.has(s.id)).length, versionSends.length),
+    };
+  };
+  const previewRecipient = subscribers.find((sub) => sub.id === previewSubscriberId) ?? SAMPLE_SUBSCRIBER;
+  const previewRender = previewSource && previewStage !== null
+    ? renderTemplate(previewSource, buildMergeContext(previewRecipient, previewStage + 1, PREVIEW_UNSUBSCRIBE_URL))
+    : null;
+  // Same processing as the send path: inline CSS, then lint and derive the
+  // plain-text part from the result. Lint errors block sending.
+  const previewHtml = previewRender ? inlineCss(previewRender.html) : null;
+  const lintIssues = previewHtml ? lintEmailHtml(previewHtml, PREVIEW_UNSUBSCRIBE_URL) : [];
 
   const cardStyle: React.CSSProperties = {
     background: "#0D0D0D",
@@ -202,7 +654,7 @@ export default function EmailPage() {
 
       <main style={{ padding: isMobile ? "12px" : "24px", maxWidth: "1200px", margin: "0 auto" }}>
         {/* KPI Row */}
-        <div style={{ display: "grid", gridTemplateColumns: isMobile ? "repeat(2, 1fr)" : "repeat(6, 1fr)", gap: isMobile ? "10px" : "12px", marginBottom: "24px" }}>
+        <div style={{ display: "grid", gridTemplateColumns: isMobile ? "repeat(2, 1fr)" : "repeat(7, 1fr)", gap: isMobile ? "10px" : "12px", marginBottom: "24px" }}>
           {[
             { label: "Total Subscribers", value: subscribers.length, color: "#FFFFFF" },
             { label: "Emails Sent", value: totalSent, color: "#86EFAC" },
@@ -210,8 +662,9 @@ export default function EmailPage() {
             { label: "Completed Sequence", value: completedCount, color: "#A0A0A0" },
             { label: "Open Rate", value: openRate, color: "#60A5FA" },
             { label: "Click Rate", value: clickRate, color: "#F59E0B" },
+            { label: "Bounce Rate", value: bounceRate, color: "#EF4444", title: bounceBreakdown },
           ].map((kpi) => (
-            <div key={kpi.label} style={cardStyle}>
+            <div key={kpi.label} style={cardStyle} title={kpi.title}>
               <div style={{ fontSize: "10px", color: "#A0A0A0", fontFamily: "'Inter', sans-serif", marginBottom: "8px", textTransform: "uppercase", letterSpacing: "0.5px" }}>
                 {kpi.label}
               </div>
@@ -224,72 +677,263 @@ export default function EmailPage() {
 
         {/* Funnel Visualization */}
         <div style={{ ...cardStyle, marginBottom: "24px" }}>
-          <h3 style={{ fontFamily: "'Space Grotesk', sans-serif", fontWeight: 700, fontSize: "14px", margin: "0 0 16px 0" }}>
-            Email Sequence Funnel
-          </h3>
-          <div style={{ display: "flex", gap: "8px", alignItems: "flex-end", height: "120px" }}>
+          <div style={{ display: "flex", justifyContent: "space-between", alignItems: "center", marginBottom: "16px", flexWrap: "wrap", gap: "8px" }}>
+            <h3 style={{ fontFamily: "'Space Grotesk', sans-serif", fontWeight: 700, fontSize: "14px", margin: 0 }}>
+              {sequence?.name ?? "Email Sequence"} Funnel
+              {notStartedCount > 0 && <span style={{ fontFamily: "'Inter', sans-serif", fontWeight: 400, fontSize: "11px", color: "#555" }}> · {notStartedCount} not started</span>}
+            </h3>
+            <div style={{ display: "flex", gap: "8px", alignItems: "center" }}>
+              <select value={sequence?.id ?? ""} onChange={(e) => selectSequence(e.target.value)} style={{ background: "#000", border: "1px solid #1F1F1F", borderRadius: "6px", padding: "6px 8px", color: "#A0A0A0", fontSize: "12px", fontFamily: "'Inter', sans-serif" }}>
+                {sequences.map((seq) => <option key={seq.id} value={seq.id}>{seq.name}{seq.is_default ? " (signups)" : ""}</option>)}
+              </select>
+              {canOperate && (
+                <>
+                  <button onClick={addStep} disabled={!sequence} style={{ background: "#60A5FA20", color: "#60A5FA", border: "none", borderRadius: "6px", padding: "6px 10px", fontSize: "12px", cursor: "pointer", fontFamily: "'Inter', sans-serif" }}>Add Step</button>
+                  <button onClick={createSequence} style={{ background: "#86EFAC20", color: "#86EFAC", border: "none", borderRadius: "6px", padding: "6px 10px", fontSize: "12px", cursor: "pointer", fontFamily: "'Inter', sans-serif" }}>New Sequence</button>
+                </>
+              )}
+            </div>
+          </div>
+          {sequence?.description && <div style={{ fontSize: "11px", color: "#555", fontFamily: "'Inter', sans-serif", margin: "-8px 0 12px" }}>{sequence.description}</div>}
+          {steps.length === 0 && (
+            <div style={{ padding: "24px", textAlign: "center", color: "#555", fontSize: "12px", fontFamily: "'Inter', sans-serif" }}>No steps yet. Add one to start sending this sequence.</div>
+          )}
+          <div style={{ display: steps.length === 0 ? "none" : "flex", gap: "8px", alignItems: "flex-end", height: isMobile ? "120px" : "136px" }}>
             {stageCounts.map((count, i) => (
-              <div key={i} style={{ flex: 1, display: "flex", flexDirection: "column", alignItems: "center", gap: "6px", cursor: "pointer" }} onClick={() => setPreviewStage(i)}>
+              <div key={i} style={{ flex: 1, display: "flex", flexDirection: "column", alignItems: "center", gap: "6px", cursor: "pointer" }} onClick={() => openPreview(i)}>
                 <span style={{ fontSize: "14px", fontWeight: 700, color: "#fff", fontFamily: "'Space Grotesk', sans-serif" }}>{count}</span>
                 <div style={{ width: "100%", height: `${Math.max((count / maxStageCount) * 80, 4)}px`, background: count > 0 ? "#86EFAC" : "#1F1F1F", borderRadius: "4px 4px 0 0", transition: "height 0.3s" }} />
                 <span style={{ fontSize: isMobile ? "8px" : "10px", color: "#A0A0A0", fontFamily: "'Inter', sans-serif", textAlign: "center", lineHeight: "1.2" }}>
-                  {isMobile ? `${i + 1}` : `${i + 1}. ${STAGE_LABELS[i]}`}
+                  {isMobile ? `${i + 1}` : `${i + 1}. ${steps[i].label}`}
                 </span>
+                {!isMobile && (
+                  <span style={{ fontSize: "9px", fontFamily: "'Inter', sans-serif", textAlign: "center" }} title={`${stageEngagement[i].sent} delivered · ${stageEngagement[i].bounceRate} bounced · sends ${steps[i].delay_days}d after ${i === 0 ? "enrollment" : "the previous step"}`}>
+                    <span style={{ color: "#60A5FA" }}>{stageEngagement[i].openRate}</span>
+                    <span style={{ color: "#555" }}> · </span>
+                    <span style={{ color: "#F59E0B" }}>{stageEngagement[i].clickRate}</span>
+                  </span>
+                )}
               </div>
             ))}
           </div>
         </div>
 
-        {/* Email Preview Modal — Full Render */}
+        {/* A/B Tests */}
+        {sequence && (
+          <VariantResults
+            sequenceId={sequence.id}
+            templates={steps}
+            variants={variants.filter((v) => v.sequence_id === sequence.id)}
+            sends={sequenceDelivered}
+            openedSendIds={openedSendIds}
+            clickedSendIds={clickedSendIds}
+            canOperate={canOperate}
+            onPreview={(stage, variantId) => openPreview(stage - 1, variantId)}
+            onChange={fetchData}
+            onError={showError}
+            cardStyle={cardStyle}
+            isMobile={isMobile}
+          />
+        )}
+
+        {/* Segments & Campaigns */}
+        <EmailCampaigns
+          sequences={sequences}
+          subscribers={subscribers}
+          enrollments={enrollments}
+          segments={segments}
+          campaigns={campaigns}
+          recipients={campaignRecipients}
+          canOperate={canOperate}
+          onChange={fetchData}
+          onError={showError}
+          cardStyle={cardStyle}
+          isMobile={isMobile}
+        />
+
+        {/* Outbox */}
+        <EmailOutbox
+          items={outbox}
+          subscriberName={(id) => subscribers.find((s) => s.id === id)?.name ?? "Deleted subscriber"}
+          stepLabel={stepLabel}
+          canOperate={canOperate}
+          onChange={fetchData}
+          onError={showError}
+          cardStyle={cardStyle}
+          isMobile={isMobile}
+        />
+
+        {showImport && sequence && (
+          <SubscriberImport
+            sequence={sequence}
+            onClose={() => setShowImport(false)}
+            onImported={(message) => {
+              setShowImport(false);
+              showNotice(message);
+              fetchData();
+            }}
+          />
+        )}
+
+        {/* Email Preview Modal — Full Render, doubles as the template editor */}
         {previewStage !== null && (
-          <div style={{ position: "fixed", top: 0, left: 0, right: 0, bottom: 0, background: "rgba(0,0,0,0.85)", zIndex: 1000, display: "flex", alignItems: "center", justifyContent: "center", padding: "20px" }} onClick={() => setPreviewStage(null)}>
-            <div style={{ background: "#0D0D0D", border: "1px solid #1F1F1F", borderRadius: "16px", maxWidth: "700px", width: "100%", maxHeight: "90vh", display: "flex", flexDirection: "column", overflow: "hidden" }} onClick={(e) => e.stopPropagation()}>
+          <div style={{ position: "fixed", top: 0, left: 0, right: 0, bottom: 0, background: "rgba(0,0,0,0.85)", zIndex: 1000, display: "flex", alignItems: "center", justifyContent: "center", padding: "20px" }} onClick={() => openPreview(null)}>
+            <div style={{ background: "#0D0D0D", border: "1px solid #1F1F1F", borderRadius: "16px", maxWidth: draft || showDiff ? "1200px" : "700px", width: "100%", maxHeight: "90vh", display: "flex", flexDirection: "column", overflow: "hidden" }} onClick={(e) => e.stopPropagation()}>
               {/* Header bar */}
-              <div style={{ padding: "16px 24px", borderBottom: "1px solid #1F1F1F", display: "flex", justifyContent: "space-between", alignItems: "center", flexShrink: 0 }}>
-                <div style={{ display: "flex", flexDirection: "column", gap: "4px" }}>
+              <div style={{ padding: "16px 24px", borderBottom: "1px solid #1F1F1F", display: "flex", justifyContent: "space-between", alignItems: "center", flexShrink: 0, gap: "12px" }}>
+                <div style={{ display: "flex", flexDirection: "column", gap: "4px", flex: 1, minWidth: 0 }}>
                   <span style={{ fontFamily: "'Space Grotesk', sans-serif", fontWeight: 700, fontSize: "11px", color: "#86EFAC", textTransform: "uppercase", letterSpacing: "0.08em" }}>
-                    Email {previewStage + 1} of 8 · {STAGE_LABELS[previewStage]}
+                    Email {previewStage + 1} of {steps.length} · {previewTemplate?.label ?? "No step"}{previewVariant && ` · Variant ${previewVariant.name}`}{draft && " · Editing"}
                   </span>
-                  <span style={{ fontFamily: "'Space Grotesk', sans-serif", fontWeight: 700, fontSize: "16px", color: "#fff" }}>
-                    {emailTemplates[String(previewStage + 1)]?.subject || STAGE_DETAILS[previewStage].subject}
-                  </span>
-                  <div style={{ display: "flex", gap: "16px", fontSize: "11px", fontFamily: "'Inter', sans-serif", color: "#555", marginTop: "2px" }}>
+                  {draft ? (
+                    <input value={draft.subject} onChange={(e) => setDraft({ ...draft, subject: e.target.value })} placeholder="Subject" style={{ background: "#000", border: "1px solid #1F1F1F", borderRadius: "6px", padding: "6px 10px", color: "#fff", fontSize: "14px", fontWeight: 700, fontFamily: "'Space Grotesk', sans-serif", outline: "none" }} />
+                  ) : (
+                    <span style={{ fontFamily: "'Space Grotesk', sans-serif", fontWeight: 700, fontSize: "16px", color: "#fff" }}>
+                      {previewRender?.subject ?? "No template for this stage"}
+                    </span>
+                  )}
+                  <div style={{ display: "flex", gap: "16px", fontSize: "11px", fontFamily: "'Inter', sans-serif", color: "#555", marginTop: "2px", flexWrap: "wrap" }}>
                     <span>From: <span style={{ color: "#A0A0A0" }}>Casper @ Traqd &lt;casperowens@traqd.io&gt;</span></span>
-                    <span>To: <span style={{ color: "#A0A0A0" }}>subscriber@email.com</span></span>
+                    <span>
+                      To:{" "}
+                      <select value={previewSubscriberId} onChange={(e) => setPreviewSubscriberId(e.target.value)} title="Render the merge fields for this subscriber" style={{ background: "transparent", border: "none", color: "#A0A0A0", fontSize: "11px", fontFamily: "'Inter', sans-serif", padding: 0, cursor: "pointer" }}>
+                        <option value="">{SAMPLE_SUBSCRIBER.email} (sample)</option>
+                        {subscribers.map((sub) => <option key={sub.id} value={sub.id}>{sub.name} &lt;{sub.email}&gt;</option>)}
+                      </select>
+                    </span>
+                    {previewTemplate && (
+                      <span>
+                        Sends{" "}
+                        {canOperate ? (
+                          <input
+                            key={`${previewTemplate.stage}:${previewTemplate.delay_days}`}
+                            type="number"
+                            min={0}
+                            defaultValue={previewTemplate.delay_days}
+                            onBlur={(e) => saveDelay(previewTemplate, e.target.value)}
+                            title="Delay in days"
+                            style={{ background: "#000", border: "1px solid #1F1F1F", borderRadius: "4px", padding: "1px 4px", color: "#A0A0A0", fontSize: "11px", width: "44px", fontFamily: "'Inter', sans-serif" }}
+                          />
+                        ) : (
+                          <span style={{ color: "#A0A0A0" }}>{previewTemplate.delay_days}</span>
+                        )}{" "}
+                        day{previewTemplate.delay_days === 1 ? "" : "s"} after {previewTemplate.stage === 1 ? "enrollment" : "the previous step"}
+                      </span>
+                    )}
+                    {previewTemplate?.updated_by && <span>Last edited by <span style={{ color: "#A0A0A0" }}>{previewTemplate.updated_by}</span> · {timeAgo(previewTemplate.updated_at)}</span>}
                   </div>
+                  {previewRender && previewRender.unknown.length > 0 && (
+                    <div style={{ fontSize: "11px", fontFamily: "'Inter', sans-serif", color: "#EF4444" }}>
+                      Unknown merge fields: {previewRender.unknown.map((f) => `{{${f}}}`).join(", ")}
+                    </div>
+                  )}
+                  {previewRender && previewRender.missing.length > 0 && (
+                    <div style={{ fontSize: "11px", fontFamily: "'Inter', sans-serif", color: "#F59E0B" }}>
+                      No value for {previewRender.missing.map((f) => `{{${f}}}`).join(", ")} — renders empty; add a fallback like {'{{field | "there"}}'}
+                    </div>
+                  )}
+                  {lintIssues.map((issue, i) => (
+                    <div key={i} style={{ fontSize: "11px", fontFamily: "'Inter', sans-serif", color: issue.level === "error" ? "#EF4444" : "#F59E0B" }}>
+                      {issue.level === "error" ? "Blocks sending: " : "Warning: "}{issue.message}
+                    </div>
+                  ))}
                 </div>
-                <button onClick={() => setPreviewStage(null)} style={{ background: "none", border: "none", color: "#555", fontSize: "20px", cursor: "pointer", padding: "4px 8px" }}>✕</button>
+                {previewHtml && !showDiff && (
+                  <button onClick={() => setShowText(!showText)} title="The plain-text part sent alongside the HTML" style={{ background: showText ? "#A0A0A0" : "#1F1F1F", color: showText ? "#000" : "#A0A0A0", border: "none", borderRadius: "6px", padding: "6px 12px", fontSize: "12px", cursor: "pointer", fontFamily: "'Inter', sans-serif", whiteSpace: "nowrap" }}>{showText ? "HTML" : "Plain Text"}</button>
+                )}
+                {canOperate && previewTemplate && !draft && viewVersion === null && (
+                  <button onClick={() => setDraft({ subject: (previewVariant ?? previewTemplate).subject, html: (previewVariant ?? previewTemplate).html })} style={{ background: "#60A5FA20", color: "#60A5FA", border: "none", borderRadius: "6px", padding: "6px 12px", fontSize: "12px", cursor: "pointer", fontFamily: "'Inter', sans-serif" }}>Edit</button>
+                )}
+                <button onClick={() => openPreview(null)} style={{ background: "none", border: "none", color: "#555", fontSize: "20px", cursor: "pointer", padding: "4px 8px" }}>✕</button>
               </div>
 
-              {/* Email body iframe */}
-              <div style={{ flex: 1, overflow: "auto", background: "#fff" }}>
-                {emailTemplates[String(previewStage + 1)] ? (
-                  <iframe
-                    srcDoc={emailTemplates[String(previewStage + 1)].html.replace(/\{\{name\}\}/g, "Sarah")}
-                    style={{ width: "100%", height: "100%", minHeight: "500px", border: "none" }}
-                    sandbox="allow-same-origin"
-                    title={`Email ${previewStage + 1} Preview`}
-                  />
-                ) : (
-                  <div style={{ padding: "40px", textAlign: "center", color: "#666" }}>
-                    <p style={{ fontFamily: "'Inter', sans-serif", fontSize: "14px" }}>{STAGE_DETAILS[previewStage].description}</p>
-                    <p style={{ fontFamily: "'Inter', sans-serif", fontSize: "12px", color: "#999" }}>Full template preview not available</p>
+              {/* Version history */}
+              {previewTemplate && !previewVariant && !draft && versions.length > 0 && (
+                <div style={{ padding: "8px 24px", borderBottom: "1px solid #1F1F1F", display: "flex", gap: "8px", alignItems: "center", flexWrap: "wrap", fontSize: "11px", fontFamily: "'Inter', sans-serif", flexShrink: 0 }}>
+                  <select value={viewVersion ?? ""} onChange={(e) => setViewVersion(e.target.value ? Number(e.target.value) : null)} style={{ background: "#000", border: "1px solid #1F1F1F", borderRadius: "6px", padding: "4px 8px", color: "#A0A0A0", fontSize: "11px", fontFamily: "'Inter', sans-serif" }}>
+                    {versions.map((v) => {
+                      const stats = versionStats(v.version);
+                      const isCurrent = v.version === previewTemplate.version;
+                      return (
+                        <option key={v.version} value={isCurrent ? "" : v.version}>
+                          v{v.version}{isCurrent ? " (current)" : ""} · {v.created_by ?? "seed"} · {timeAgo(v.created_at)}{v.restored_from ? ` · restored v${v.restored_from}` : ""} · {stats.sent} sent{stats.sent > 0 ? `, ${stats.openRate} open, ${stats.clickRate} click` : ""}
+                        </option>
+                      );
+                    })}
+                  </select>
+                  {diffBase && (
+                    <button onClick={() => setShowDiff(!showDiff)} style={{ background: showDiff ? "#60A5FA" : "#60A5FA20", color: showDiff ? "#000" : "#60A5FA", border: "none", borderRadius: "6px", padding: "4px 10px", fontSize: "11px", cursor: "pointer", fontFamily: "'Inter', sans-serif" }}>
+                      {showDiff ? "Show Preview" : `Diff v${diffBase.version} → v${previewTemplate.version}`}
+                    </button>
+                  )}
+                  {isAdmin && viewedVersion && (
+                    <button onClick={() => rollbackTemplate(viewedVersion.version)} style={{ background: "#F59E0B20", color: "#F59E0B", border: "none", borderRadius: "6px", padding: "4px 10px", fontSize: "11px", cursor: "pointer", fontFamily: "'Inter', sans-serif" }}>
+                      Roll back to v{viewedVersion.version}
+                    </button>
+                  )}
+                </div>
+              )}
+
+              {/* Editor + email body iframe */}
+              <div style={{ flex: 1, display: "grid", gridTemplateColumns: draft && !isMobile ? "1fr 1fr" : "1fr", minHeight: 0 }}>
+                {draft && (
+                  <div style={{ display: "flex", flexDirection: "column", borderRight: isMobile ? "none" : "1px solid #1F1F1F", minHeight: 0 }}>
+                    <textarea
+                      value={draft.html}
+                      onChange={(e) => setDraft({ ...draft, html: e.target.value })}
+                      spellCheck={false}
+                      style={{ flex: 1, minHeight: isMobile ? "240px" : "500px", background: "#000", color: "#E5E5E5", border: "none", padding: "16px", fontSize: "12px", lineHeight: "1.5", fontFamily: "ui-monospace, SFMono-Regular, Menlo, monospace", outline: "none", resize: "none" }}
+                    />
+                    <div style={{ padding: "8px 16px", fontSize: "11px", color: "#555", fontFamily: "'Inter', sans-serif", borderTop: "1px solid #1F1F1F" }}>
+                      Merge fields:{" "}
+                      {Object.entries(BUILT_IN_FIELDS).map(([field, description], i) => (
+                        <span key={field}>{i > 0 && ", "}<span style={{ color: "#A0A0A0" }} title={description}>{`{{${field}}}`}</span></span>
+                      ))}
+                      , <span style={{ color: "#A0A0A0" }}>{"{{attr.<key>}}"}</span> for custom attributes. Fallback: <span style={{ color: "#A0A0A0" }}>{'{{first_name | "there"}}'}</span>. <span style={{ color: "#A0A0A0" }}>{"{{unsubscribe_url}}"}</span> is required.
+                    </div>
                   </div>
                 )}
+                <div style={{ overflow: "auto", background: showDiff || showText ? "#000" : "#fff" }}>
+                  {showDiff && diffBase && previewTemplate && !draft ? (
+                    <TemplateDiff before={diffBase} after={previewTemplate} beforeLabel={`v${diffBase.version}`} afterLabel={`v${previewTemplate.version} (current)`} />
+                  ) : previewHtml && showText ? (
+                    <pre style={{ margin: 0, padding: "16px 24px", minHeight: "500px", color: "#E5E5E5", fontSize: "12px", lineHeight: "1.6", fontFamily: "ui-monospace, SFMono-Regular, Menlo, monospace", whiteSpace: "pre-wrap" }}>
+                      {htmlToText(previewHtml)}
+                    </pre>
+                  ) : previewHtml ? (
+                    <iframe
+                      srcDoc={previewHtml}
+                      style={{ width: "100%", height: "100%", minHeight: "500px", border: "none" }}
+                      sandbox="allow-same-origin"
+                      title={`Email ${previewStage + 1} Preview`}
+                    />
+                  ) : (
+                    <div style={{ padding: "40px", textAlign: "center", color: "#666" }}>
+                      <p style={{ fontFamily: "'Inter', sans-serif", fontSize: "12px", color: "#999" }}>No template found for this stage</p>
+                    </div>
+                  )}
+                </div>
               </div>
 
               {/* Footer nav */}
               <div style={{ padding: "12px 24px", borderTop: "1px solid #1F1F1F", display: "flex", justifyContent: "space-between", alignItems: "center", flexShrink: 0 }}>
-                <div style={{ display: "flex", gap: "8px" }}>
-                  {previewStage > 0 && (
-                    <button onClick={() => setPreviewStage(previewStage - 1)} style={{ background: "#1F1F1F", border: "none", borderRadius: "8px", padding: "8px 16px", color: "#A0A0A0", fontSize: "12px", cursor: "pointer", fontFamily: "'Inter', sans-serif" }}>← Previous</button>
-                  )}
-                  {previewStage < 7 && (
-                    <button onClick={() => setPreviewStage(previewStage + 1)} style={{ background: "rgba(134,239,172,0.1)", border: "1px solid rgba(134,239,172,0.3)", borderRadius: "8px", padding: "8px 16px", color: "#86EFAC", fontSize: "12px", cursor: "pointer", fontFamily: "'Inter', sans-serif" }}>Next →</button>
-                  )}
-                </div>
+                {draft ? (
+                  <div style={{ display: "flex", gap: "8px" }}>
+                    <button onClick={() => setDraft(null)} style={{ background: "#1F1F1F", border: "none", borderRadius: "8px", padding: "8px 16px", color: "#A0A0A0", fontSize: "12px", cursor: "pointer", fontFamily: "'Inter', sans-serif" }}>Cancel</button>
+                    <button onClick={saveTemplate} disabled={savingTemplate} style={{ background: "#86EFAC", border: "none", borderRadius: "8px", padding: "8px 16px", color: "#000", fontSize: "12px", fontWeight: 600, cursor: savingTemplate ? "wait" : "pointer", fontFamily: "'Inter', sans-serif" }}>{savingTemplate ? "Saving…" : previewVariant ? `Save Variant ${previewVariant.name}` : "Save Template"}</button>
+                  </div>
+                ) : (
+                  <div style={{ display: "flex", gap: "8px" }}>
+                    {previewStage > 0 && (
+                      <button onClick={() => openPreview(previewStage - 1)} style={{ background: "#1F1F1F", border: "none", borderRadius: "8px", padding: "8px 16px", color: "#A0A0A0", fontSize: "12px", cursor: "pointer", fontFamily: "'Inter', sans-serif" }}>← Previous</button>
+                    )}
+                    {previewStage < steps.length - 1 && (
+                      <button onClick={() => openPreview(previewStage + 1)} style={{ background: "rgba(134,239,172,0.1)", border: "1px solid rgba(134,239,172,0.3)", borderRadius: "8px", padding: "8px 16px", color: "#86EFAC", fontSize: "12px", cursor: "pointer", fontFamily: "'Inter', sans-serif" }}>Next →</button>
+                    )}
+                  </div>
+                )}
                 <span style={{ fontSize: "11px", color: "#555", fontFamily: "'Inter', sans-serif" }}>
-                  {subscribers.filter(s => s.current_stage === previewStage + 1 && s.status === "active").length} subscribers at this stage
+                  {members.filter(s => s.current_stage === previewStage + 1 && s.status === "active").length} subscribers at this stage
                 </span>
               </div>
             </div>
@@ -302,26 +946,65 @@ export default function EmailPage() {
             <div style={{ display: "flex", justifyContent: "space-between", alignItems: "center", marginBottom: "16px", flexWrap: "wrap", gap: "8px" }}>
               <h3 style={{ fontFamily: "'Space Grotesk', sans-serif", fontWeight: 700, fontSize: "14px", margin: 0 }}>Subscribers</h3>
               <div style={{ display: "flex", gap: "8px", alignItems: "center" }}>
+                {notice && <span style={{ fontSize: "11px", color: "#86EFAC", fontFamily: "'Inter', sans-serif" }}>{notice}</span>}
+                {canOperate && (
+                  <button onClick={() => setShowImport(true)} style={{ background: "#60A5FA20", color: "#60A5FA", border: "none", borderRadius: "6px", padding: "6px 10px", fontSize: "12px", cursor: "pointer", fontFamily: "'Inter', sans-serif" }}>Import CSV</button>
+                )}
+                <button onClick={exportCsv} disabled={filtered.length === 0} title="Download the subscribers shown below" style={{ background: "#1F1F1F", color: "#A0A0A0", border: "none", borderRadius: "6px", padding: "6px 10px", fontSize: "12px", cursor: filtered.length === 0 ? "not-allowed" : "pointer", fontFamily: "'Inter', sans-serif" }}>Export CSV</button>
+                {canOperate && (
+                  <button onClick={runDrip} disabled={dripRunning} title="Send every subscriber whose next email is due" style={{ background: "#86EFAC20", color: "#86EFAC", border: "none", borderRadius: "6px", padding: "6px 10px", fontSize: "12px", cursor: dripRunning ? "wait" : "pointer", fontFamily: "'Inter', sans-serif" }}>
+                    {dripRunning ? "Running…" : "Run Drip Now"}
+                  </button>
+                )}
                 <input type="text" placeholder="Search…" value={search} onChange={(e) => setSearch(e.target.value)} style={{ background: "#000", border: "1px solid #1F1F1F", borderRadius: "6px", padding: "6px 10px", color: "#fff", fontSize: "12px", fontFamily: "'Inter', sans-serif", outline: "none", width: "140px" }} />
                 <select value={filterStage ?? ""} onChange={(e) => setFilterStage(e.target.value ? Number(e.target.value) : null)} style={{ background: "#000", border: "1px solid #1F1F1F", borderRadius: "6px", padding: "6px 8px", color: "#A0A0A0", fontSize: "12px", fontFamily: "'Inter', sans-serif" }}>
                   <option value="">All Stages</option>
-                  {STAGE_LABELS.map((l, i) => <option key={i} value={i + 1}>{i + 1}. {l}</option>)}
+                  <option value="0">0. Not started</option>
+                  {steps.map((step) => <option key={step.stage} value={step.stage}>{step.stage}. {step.label}</option>)}
                 </select>
                 <select value={filterStatus ?? ""} onChange={(e) => setFilterStatus(e.target.value || null)} style={{ background: "#000", border: "1px solid #1F1F1F", borderRadius: "6px", padding: "6px 8px", color: "#A0A0A0", fontSize: "12px", fontFamily: "'Inter', sans-serif" }}>
                   <option value="">All Status</option>
+                  <option value="pending">Pending</option>
                   <option value="active">Active</option>
                   <option value="paused">Paused</option>
                   <option value="completed">Completed</option>
+                  <option value="unsubscribed">Unsubscribed</option>
+                  <option value="suppressed">Suppressed</option>
                 </select>
               </div>
             </div>
 
+            {canOperate && sequence && selectedSubscribers.length > 0 && (
+              <SubscriberBulkActions
+                sequence={sequence}
+                otherSequences={sequences.filter((seq) => seq.id !== sequence.id)}
+                selected={selectedSubscribers}
+                isAdmin={isAdmin}
+                stageLabels={steps.map((step) => step.label)}
+                onClear={() => setSelectedIds(new Set())}
+                onDone={() => {
+                  setSelectedIds(new Set());
+                  fetchData();
+                }}
+              />
+            )}
+
             {/* Table Header */}
-            <div style={{ display: "grid", gridTemplateColumns: isMobile ? "1fr 0.6fr 0.5fr 0.9fr" : "1.2fr 1.5fr 0.6fr 0.5fr 0.5fr 0.6fr 0.5fr 1fr", gap: "8px", padding: "8px 12px", fontSize: "10px", color: "#A0A0A0", fontFamily: "'Inter', sans-serif", textTransform: "uppercase", letterSpacing: "0.5px", borderBottom: "1px solid #1F1F1F" }}>
+            <div style={{ display: "grid", gridTemplateColumns: tableColumns, alignItems: "center", gap: "8px", padding: "8px 12px", fontSize: "10px", color: "#A0A0A0", fontFamily: "'Inter', sans-serif", textTransform: "uppercase", letterSpacing: "0.5px", borderBottom: "1px solid #1F1F1F" }}>
+              {canOperate && (
+                <input
+                  type="checkbox"
+                  checked={allFilteredSelected}
+                  onChange={() => setSelectedIds(allFilteredSelected ? new Set() : new Set(filtered.map((s) => s.id)))}
+                  title="Select all shown"
+                  style={{ margin: 0, cursor: "pointer" }}
+                />
+              )}
               <span>Name</span>
               {!isMobile && <span>Email</span>}
               <span>Stage</span>
               {!isMobile && <span>Signed Up</span>}
+              {!isMobile && <span>Next Send</span>}
               {!isMobile && <span>Opens</span>}
               {!isMobile && <span>Clicks</span>}
               <span>Status</span>
@@ -334,23 +1017,39 @@ export default function EmailPage() {
               const subSends = subscriberSends(sub.id);
               const isSending = sendingId === sub.id;
               const justSent = sentId === sub.id;
+              const engagement = engagementFor(sub.id);
 
               return (
                 <div key={sub.id}>
-                  <div onClick={() => setExpandedId(isExpanded ? null : sub.id)} style={{ display: "grid", gridTemplateColumns: isMobile ? "1fr 0.6fr 0.5fr 0.9fr" : "1.2fr 1.5fr 0.6fr 0.5fr 0.5fr 0.6fr 0.5fr 1fr", gap: "8px", padding: "10px 12px", fontSize: isMobile ? "11px" : "12px", fontFamily: "'Inter', sans-serif", borderBottom: "1px solid #0D0D0D", cursor: "pointer", background: isExpanded ? "#111" : "transparent", transition: "background 0.15s" }}>
-                    <span style={{ color: "#fff", fontWeight: 500, overflow: "hidden", textOverflow: "ellipsis", whiteSpace: "nowrap" }}>{sub.name}</span>
+                  <div onClick={() => setExpandedId(isExpanded ? null : sub.id)} style={{ display: "grid", gridTemplateColumns: tableColumns, gap: "8px", padding: "10px 12px", fontSize: isMobile ? "11px" : "12px", fontFamily: "'Inter', sans-serif", borderBottom: "1px solid #0D0D0D", cursor: "pointer", background: isExpanded ? "#111" : "transparent", transition: "background 0.15s" }}>
+                    {canOperate && (
+                      <input
+                        type="checkbox"
+                        checked={selectedIds.has(sub.id)}
+                        onChange={() => toggleSelected(sub.id)}
+                        onClick={(e) => e.stopPropagation()}
+                        style={{ margin: 0, cursor: "pointer" }}
+                      />
+                    )}
+                    <Link href={`/email/${sub.id}`} onClick={(e) => e.stopPropagation()} style={{ color: "#fff", fontWeight: 500, overflow: "hidden", textOverflow: "ellipsis", whiteSpace: "nowrap", textDecoration: "none" }}>{sub.name}</Link>
                     {!isMobile && <span style={{ color: "#A0A0A0", overflow: "hidden", textOverflow: "ellipsis", whiteSpace: "nowrap" }}>{sub.email}</span>}
                     <span>
-                      <span onClick={(e) => { e.stopPropagation(); setPreviewStage(sub.current_stage - 1); }} style={{ background: "#86EFAC20", color: "#86EFAC", padding: "2px 8px", borderRadius: "10px", fontSize: "11px", fontWeight: 600, cursor: "pointer" }}>
-                        {sub.current_stage}/8
+                      <span onClick={(e) => { e.stopPropagation(); openPreview(Math.max(sub.current_stage - 1, 0)); }} style={{ background: "#86EFAC20", color: "#86EFAC", padding: "2px 8px", borderRadius: "10px", fontSize: "11px", fontWeight: 600, cursor: "pointer" }}>
+                        {sub.current_stage}/{steps.length}
                       </span>
                     </span>
                     {!isMobile && <span style={{ color: "#A0A0A0" }}>{new Date(sub.signup_date).toLocaleDateString("en-US", { month: "short", day: "numeric" })}</span>}
-                    {!isMobile && <span style={{ color: "#555" }}>—</span>}
-                    {!isMobile && <span style={{ color: "#555" }}>—</span>}
+                    {!isMobile && (() => {
+                      const next = nextSendFor(sub);
+                      const overdue = next !== null && next.getTime() <= Date.now();
+                      return <span style={{ color: overdue ? "#F59E0B" : "#A0A0A0" }} title={next ? next.toLocaleString() : undefined}>{formatNextSend(next)}</span>;
+                    })()}
+                    {!isMobile && <span style={{ color: engagement.opened > 0 ? "#60A5FA" : "#555" }} title={`${formatRate(engagement.opened, engagement.sent)} of delivered emails opened`}>{engagement.sent > 0 ? `${engagement.opened}/${engagement.sent}` : "—"}</span>}
+                    {!isMobile && <span style={{ color: engagement.clicked > 0 ? "#F59E0B" : "#555" }} title={`${formatRate(engagement.clicked, engagement.sent)} of delivered emails clicked`}>{engagement.sent > 0 ? `${engagement.clicked}/${engagement.sent}` : "—"}</span>}
                     <span style={{ color: STATUS_COLORS[sub.status], fontSize: "11px", fontWeight: 500, textTransform: "capitalize" }}>{sub.status}</span>
                     <div style={{ display: "flex", gap: "4px" }} onClick={(e) => e.stopPropagation()}>
-                      {sub.status === "active" && (
+                      {!canOperate && <span style={{ color: "#555" }}>—</span>}
+                      {canOperate && sub.status === "active" && (
                         <>
                           <button onClick={() => advanceStage(sub)} disabled={isSending} style={{
                             background: justSent ? "#22C55E20" : "#86EFAC20",
@@ -362,7 +1061,7 @@ export default function EmailPage() {
                           <button onClick={() => updateStatus(sub.id, "paused")} style={{ background: "#F59E0B20", color: "#F59E0B", border: "none", borderRadius: "4px", padding: "3px 8px", fontSize: "10px", cursor: "pointer", fontFamily: "'Inter', sans-serif" }}>Pause</button>
                         </>
                       )}
-                      {sub.status === "paused" && (
+                      {canOperate && sub.status === "paused" && (
                         <button onClick={() => updateStatus(sub.id, "active")} style={{ background: "#86EFAC20", color: "#86EFAC", border: "none", borderRadius: "4px", padding: "3px 8px", fontSize: "10px", cursor: "pointer", fontFamily: "'Inter', sans-serif" }}>Resume</button>
                       )}
                     </div>
@@ -370,6 +1069,24 @@ export default function EmailPage() {
 
                   {isExpanded && (
                     <div style={{ padding: "12px 24px", background: "#0A0A0A", borderBottom: "1px solid #1F1F1F" }}>
+                      {sub.source && (
+                        <div style={{ display: "flex", gap: "12px", flexWrap: "wrap", fontSize: "11px", fontFamily: "'Inter', sans-serif", marginBottom: "10px", color: "#555" }}>
+                          <span>Source: <span style={{ color: "#A0A0A0" }}>{sub.source}</span></span>
+                          {sub.utm_source && <span>utm_source: <span style={{ color: "#A0A0A0" }}>{sub.utm_source}</span></span>}
+                          {sub.utm_medium && <span>utm_medium: <span style={{ color: "#A0A0A0" }}>{sub.utm_medium}</span></span>}
+                          {sub.utm_campaign && <span>utm_campaign: <span style={{ color: "#A0A0A0" }}>{sub.utm_campaign}</span></span>}
+                          {sub.referrer && <span>Referrer: <span style={{ color: "#A0A0A0" }}>{sub.referrer}</span></span>}
+                          <span>{sub.confirmed_at ? <>Confirmed {timeAgo(sub.confirmed_at)}</> : "Not confirmed"}</span>
+                        </div>
+                      )}
+                      {((sub.attributes && Object.keys(sub.attributes).length > 0) || (sub.tags && sub.tags.length > 0)) && (
+                        <div style={{ display: "flex", gap: "12px", flexWrap: "wrap", fontSize: "11px", fontFamily: "'Inter', sans-serif", marginBottom: "10px" }}>
+                          {sub.tags && sub.tags.length > 0 && <span style={{ color: "#555" }}>Tags: <span style={{ color: "#A0A0A0" }}>{sub.tags.join(", ")}</span></span>}
+                          {Object.entries(sub.attributes ?? {}).map(([key, value]) => (
+                            <span key={key} style={{ color: "#555" }}>attr.{key}: <span style={{ color: "#A0A0A0" }}>{String(value)}</span></span>
+                          ))}
+                        </div>
+                      )}
                       <div style={{ fontSize: "11px", color: "#A0A0A0", fontFamily: "'Inter', sans-serif", marginBottom: "8px" }}>
                         Send History — {subSends.length} email{subSends.length !== 1 ? "s" : ""} sent
                       </div>
@@ -380,9 +1097,15 @@ export default function EmailPage() {
                           {subSends.map((s) => (
                             <div key={s.id} style={{ display: "flex", gap: "12px", fontSize: "11px", fontFamily: "'Inter', sans-serif" }}>
                               <span style={{ color: "#86EFAC" }}>Email #{s.email_number}</span>
-                              <span style={{ color: "#A0A0A0" }}>{STAGE_LABELS[s.email_number - 1]}</span>
+                              <span style={{ color: "#A0A0A0" }}>{stepLabel(s.sequence_id, s.email_number)}</span>
+                              {s.template_version !== null && <span style={{ color: "#555" }}>v{s.template_version}</span>}
                               <span style={{ color: "#555" }}>{timeAgo(s.sent_at)}</span>
                               <span style={{ color: s.status === "sent" ? "#86EFAC" : "#EF4444" }}>{s.status}</span>
+                              {openedSendIds.has(s.id) && <span style={{ color: "#60A5FA" }}>opened</span>}
+                              {clickedSendIds.has(s.id) && <span style={{ color: "#F59E0B" }}>clicked</span>}
+                              {s.bounce_type && <span style={{ color: "#EF4444" }}>{s.bounce_type} bounce</span>}
+                              {s.complained_at && <span style={{ color: "#EF4444" }}>spam complaint</span>}
+                              {s.error && <span style={{ color: "#555", overflow: "hidden", textOverflow: "ellipsis", whiteSpace: "nowrap" }} title={s.error}>{s.error}</span>}
                             </div>
                           ))}
                         </div>
@@ -398,29 +1121,59 @@ export default function EmailPage() {
             )}
           </div>
 
-          {/* Activity Feed */}
-          <div style={cardStyle}>
-            <h3 style={{ fontFamily: "'Space Grotesk', sans-serif", fontWeight: 700, fontSize: "14px", margin: "0 0 16px 0" }}>Recent Activity</h3>
-            {recentActivity.length === 0 ? (
-              <div style={{ fontSize: "12px", color: "#555", fontFamily: "'Inter', sans-serif" }}>No activity yet</div>
-            ) : (
-              <div style={{ display: "flex", flexDirection: "column", gap: "12px" }}>
-                {recentActivity.map((send) => {
-                  const sub = subscribers.find((s) => s.id === send.subscriber_id);
-                  return (
-                    <div key={send.id} style={{ display: "flex", flexDirection: "column", gap: "2px" }}>
-                      <div style={{ fontSize: "12px", fontFamily: "'Inter', sans-serif" }}>
-                        <span style={{ color: "#fff", fontWeight: 500 }}>{sub?.name ?? "Unknown"}</span>
-                        <span style={{ color: "#A0A0A0" }}> → Email #{send.email_number}</span>
-                      </div>
-                      <div style={{ fontSize: "10px", color: "#555", fontFamily: "'Inter', sans-serif" }}>
-                        {STAGE_LABELS[send.email_number - 1]} · {timeAgo(send.sent_at)} · <span style={{ color: send.status === "sent" ? "#86EFAC" : "#EF4444" }}>{send.status}</span>
-                      </div>
+          <div style={{ display: "flex", flexDirection: "column", gap: isMobile ? "16px" : "24px" }}>
+            {/* Signup Sources */}
+            <div style={cardStyle}>
+              <h3 style={{ fontFamily: "'Space Grotesk', sans-serif", fontWeight: 700, fontSize: "14px", margin: "0 0 16px 0" }}>Signup Sources</h3>
+              {signupSources.length === 0 ? (
+                <div style={{ fontSize: "12px", color: "#555", fontFamily: "'Inter', sans-serif" }}>No waitlist signups yet</div>
+              ) : (
+                <div style={{ display: "flex", flexDirection: "column" }}>
+                  <div style={{ display: "grid", gridTemplateColumns: "1.6fr 0.6fr 0.7fr 0.6fr", gap: "8px", padding: "4px 0", fontSize: "10px", color: "#A0A0A0", fontFamily: "'Inter', sans-serif", textTransform: "uppercase", letterSpacing: "0.5px", borderBottom: "1px solid #1F1F1F" }}>
+                    <span>Source</span>
+                    <span>Signups</span>
+                    <span>Confirmed</span>
+                    <span>Clicked</span>
+                  </div>
+                  {signupSources.map((row) => (
+                    <div key={row.key} style={{ display: "grid", gridTemplateColumns: "1.6fr 0.6fr 0.7fr 0.6fr", gap: "8px", padding: "6px 0", fontSize: "12px", fontFamily: "'Inter', sans-serif", borderBottom: "1px solid #141414" }}>
+                      <span style={{ overflow: "hidden", textOverflow: "ellipsis", whiteSpace: "nowrap" }} title={[...row.campaigns].join(", ")}>
+                        <span style={{ color: "#fff" }}>{row.key}</span>
+                        {row.campaigns.size > 0 && <span style={{ color: "#555", fontSize: "10px" }}> · {[...row.campaigns].join(", ")}</span>}
+                      </span>
+                      <span style={{ color: "#A0A0A0" }}>{row.signups}</span>
+                      <span style={{ color: "#86EFAC" }} title={`${row.confirmed} confirmed`}>{formatRate(row.confirmed, row.signups)}</span>
+                      <span style={{ color: "#F59E0B" }} title={`${row.clicked} clicked an email`}>{formatRate(row.clicked, row.signups)}</span>
                     </div>
-                  );
-                })}
-              </div>
-            )}
+                  ))}
+                </div>
+              )}
+            </div>
+
+            {/* Activity Feed */}
+            <div style={cardStyle}>
+              <h3 style={{ fontFamily: "'Space Grotesk', sans-serif", fontWeight: 700, fontSize: "14px", margin: "0 0 16px 0" }}>Recent Activity</h3>
+              {recentActivity.length === 0 ? (
+                <div style={{ fontSize: "12px", color: "#555", fontFamily: "'Inter', sans-serif" }}>No activity yet</div>
+              ) : (
+                <div style={{ display: "flex", flexDirection: "column", gap: "12px" }}>
+                  {recentActivity.map((send) => {
+                    const sub = subscribers.find((s) => s.id === send.subscriber_id);
+                    return (
+                      <div key={send.id} style={{ display: "flex", flexDirection: "column", gap: "2px" }}>
+                        <div style={{ fontSize: "12px", fontFamily: "'Inter', sans-serif" }}>
+                          <span style={{ color: "#fff", fontWeight: 500 }}>{sub?.name ?? "Unknown"}</span>
+                          <span style={{ color: "#A0A0A0" }}> → Email #{send.email_number}</span>
+                        </div>
+                        <div style={{ fontSize: "10px", color: "#555", fontFamily: "'Inter', sans-serif" }}>
+                          {sequences.find((seq) => seq.id === send.sequence_id)?.name} · {stepLabel(send.sequence_id, send.email_number)} · {timeAgo(send.sent_at)} · <span style={{ color: send.status === "sent" ? "#86EFAC" : "#EF4444" }}>{send.status}</span>
+                        </div>
+                      </div>
+                    );
+                  })}
+                </div>
+              )}
+            </div>
           </div>
         </div>
       </main>
@@ -3,10 +3,14 @@ import { supabase } from "../lib/supabase";
 
 type RealtimeEvent = "INSERT" | "UPDATE" | "DELETE" | "*";
 
+// Refetches whenever one of `tables` changes. Realtime only reports tables
+// the anon key can read, so pages that also load private tables through the
+// API pass pollMs to refetch on a timer as well.
 export function useRealtimeSubscription(
   tables: string | string[],
   event: RealtimeEvent,
-  onChangeCallback: () => Promise<void>
+  onChangeCallback: () => Promise<void>,
+  pollMs?: number
 ) {
   const [lastRefresh, setLastRefresh] = useState<Date | null>(null);
   const callbackRef = useRef(onChangeCallback);
@@ -36,12 +40,14 @@ export function useRealtimeSubscription(
     }
 
     channel.subscribe();
+    const timer = pollMs ? setInterval(doFetch, pollMs) : null;
 
     return () => {
       supabase.removeChannel(channel);
+      if (timer) clearInterval(timer);
     };
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [doFetch, event, tablesKey]);
+  }, [doFetch, event, tablesKey, pollMs]);
 
   const formatTime = (iso: string) => {
     return new Date(iso).toLocaleTimeString("en-GB", {
@@ -0,0 +1,18 @@
+import { createContext, useCallback, useContext } from "react";
+import type { Session } from "../lib/session";
+
+export const SessionContext = createContext<Session | null>(null);
+
+export function useSession() {
+  const session = useContext(SessionContext);
+
+  const logout = useCallback(async () => {
+    try {
+      await fetch("/api/auth/logout", { method: "POST" });
+    } finally {
+      window.location.href = "/";
+    }
+  }, []);
+
+  return { session, logout };
+}
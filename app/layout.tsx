@@ -1,17 +1,20 @@
 import type { Metadata } from "next";
 import "./globals.css";
 import AuthGate from "./components/AuthGate";
+import { getServerSession } from "./lib/auth";
 
 export const metadata: Metadata = {
   title: "Casper Operations Dashboard",
   description: "Real-time CMO agent pipeline for Traqd",
 };
 
-export default function RootLayout({
+export default async function RootLayout({
   children,
 }: {
   children: React.ReactNode;
 }) {
+  const session = await getServerSession();
+
   return (
     <html lang="en">
       <head>
@@ -23,7 +26,7 @@ export default function RootLayout({
         />
       </head>
       <body style={{ fontFamily: "'Inter', sans-serif", backgroundColor: "#000000" }}>
-        <AuthGate>{children}</AuthGate>
+        <AuthGate session={session}>{children}</AuthGate>
       </body>
     </html>
   );
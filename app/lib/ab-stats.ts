@@ -0,0 +1,46 @@
+// Two-proportion z-test for comparing a variant's open or click rate with the
+// control's. Client-safe.
+export interface Proportion {
+  successes: number;
+  trials: number;
+}
+
+export interface Comparison {
+  lift: number | null;
+  pValue: number | null;
+  significant: boolean;
+}
+
+// Below this many sends per arm the normal approximation is meaningless.
+export const MIN_TRIALS = 30;
+export const SIGNIFICANCE_LEVEL = 0.05;
+
+// Abramowitz & Stegun 7.1.26 — accurate to ~1.5e-7, plenty for a p-value.
+function erf(x: number): number {
+  const sign = x < 0 ? -1 : 1;
+  const t = 1 / (1 + 0.3275911 * Math.abs(x));
+  const y = 1 - ((((1.061405429 * t - 1.453152027) * t + 1.421413741) * t - 0.284496736) * t + 0.254829592) * t * Math.exp(-x * x);
+  return sign * y;
+}
+
+function normalCdf(z: number): number {
+  return 0.5 * (1 + erf(z / Math.SQRT2));
+}
+
+export function compareProportions(control: Proportion, variant: Proportion): Comparison {
+  if (control.trials === 0 || variant.trials === 0) return { lift: null, pValue: null, significant: false };
+
+  const p1 = control.successes / control.trials;
+  const p2 = variant.successes / variant.trials;
+  const lift = p1 > 0 ? (p2 - p1) / p1 : null;
+
+  if (control.trials < MIN_TRIALS || variant.trials < MIN_TRIALS) return { lift, pValue: null, significant: false };
+
+  const pooled = (control.successes + variant.successes) / (control.trials + variant.trials);
+  const se = Math.sqrt(pooled * (1 - pooled) * (1 / control.trials + 1 / variant.trials));
+  if (se === 0) return { lift, pValue: 1, significant: false };
+
+  const z = (p2 - p1) / se;
+  const pValue = 2 * (1 - normalCdf(Math.abs(z)));
+  return { lift, pValue, significant: pValue < SIGNIFICANCE_LEVEL };
+}
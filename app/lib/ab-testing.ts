@@ -0,0 +1,23 @@
+import { createHash } from "node:crypto";
+
+export interface WeightedOption<T> {
+  weight: number;
+  value: T;
+}
+
+// Picks an option in proportion to its weight. The same subscriber always
+// lands in the same bucket for a given stage, so retries and manual re-sends
+// never switch variants mid-test.
+export function assignVariant<T>(subscriberId: string, stage: number, options: WeightedOption<T>[]): T | null {
+  const eligible = options.filter((o) => o.weight > 0);
+  const total = eligible.reduce((sum, o) => sum + o.weight, 0);
+  if (total === 0) return null;
+
+  const digest = createHash("sha256").update(`${subscriberId}:${stage}`).digest();
+  let bucket = digest.readUInt32BE(0) % total;
+  for (const option of eligible) {
+    if (bucket < option.weight) return option.value;
+    bucket -= option.weight;
+  }
+  return eligible[eligible.length - 1].value;
+}
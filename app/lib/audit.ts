@@ -0,0 +1,80 @@
+import { getServiceSupabase } from "./supabase-admin";
+
+export type AuditAction =
+  | "subscriber.status"
+  | "subscriber.advance"
+  | "subscriber.unsubscribe"
+  | "subscriber.import"
+  | "subscriber.signup"
+  | "subscriber.confirm"
+  | "subscriber.bulk"
+  | "subscriber.note"
+  | "subscriber.tags"
+  | "subscriber.suppress"
+  | "reply.queue"
+  | "post.create"
+  | "post.update"
+  | "post.delete"
+  | "post.publish"
+  | "email.send"
+  | "email.resend"
+  | "outbox.retry"
+  | "template.update"
+  | "template.rollback"
+  | "variant.create"
+  | "variant.update"
+  | "sequence.create"
+  | "sequence.step"
+  | "sequence.enroll"
+  | "segment.create"
+  | "segment.delete"
+  | "campaign.create"
+  | "campaign.cancel"
+  | "user.create"
+  | "user.update"
+  | "user.delete"
+  | "drip.run"
+  | "campaign.run"
+  | "outbox.run";
+
+// A signed-in Session satisfies this; scheduled jobs pass a system actor.
+export interface AuditActor {
+  userId: string | null;
+  username: string;
+  role: string;
+}
+
+export const CRON_ACTOR: AuditActor = { userId: null, username: "cron", role: "system" };
+// Changes made by a subscriber through a signed link in one of our emails.
+export const SUBSCRIBER_ACTOR: AuditActor = { userId: null, username: "subscriber", role: "public" };
+// Changes made in response to bounce and complaint reports from mail servers.
+export const INBOUND_ACTOR: AuditActor = { userId: null, username: "inbound", role: "system" };
+
+export interface AuditEntry {
+  action: AuditAction;
+  targetTable: string;
+  targetId: string | null;
+  before?: unknown;
+  after?: unknown;
+}
+
+// Records who did what. Called after the mutation succeeds; a failed audit
+// write is logged rather than surfaced, since the change has already happened.
+export async function recordAuditEvent(actor: AuditActor, entry: AuditEntry): Promise<void> {
+  const { error } = await getServiceSupabase()
+    .from("audit_events")
+    .insert({
+      actor_id: actor.userId,
+      actor_username: actor.username,
+      actor_role: actor.role,
+      action: entry.action,
+      target_table: entry.targetTable,
+      target_id: entry.targetId,
+      before: entry.before ?? null,
+      after: entry.after ?? null,
+    });
+
+  if (error) {
+    console.error(`Failed to record audit event ${entry.action}:`, error.message);
+  }
+}
@@ -0,0 +1,119 @@
+import { randomBytes, scryptSync, timingSafeEqual } from "node:crypto";
+import { cookies } from "next/headers";
+import { NextRequest, NextResponse } from "next/server";
+import { hasRole, isRole, type Role } from "./roles";
+import { SESSION_COOKIE, verifySessionToken, type Session, type SessionUser } from "./session";
+import { getServiceSupabase } from "./supabase-admin";
+
+const KEY_LENGTH = 64;
+
+// Hashes are stored as "scrypt:<salt hex>:<key hex>" — see scripts/hash-password.mjs.
+export function hashPassword(password: string): string {
+  const salt = randomBytes(16);
+  const key = scryptSync(password, salt, KEY_LENGTH);
+  return `scrypt:${salt.toString("hex")}:${key.toString("hex")}`;
+}
+
+export function verifyPassword(password: string, stored: string): boolean {
+  const [scheme, saltHex, keyHex] = stored.split(":");
+  if (scheme !== "scrypt" || !saltHex || !keyHex) return false;
+
+  const expected = Buffer.from(keyHex, "hex");
+  const actual = scryptSync(password, Buffer.from(saltHex, "hex"), expected.length);
+  return expected.length === KEY_LENGTH && timingSafeEqual(expected, actual);
+}
+
+// The env-configured account is a bootstrap admin, used to create the first
+// dashboard_users rows (and as a break-glass login if Supabase is unreachable).
+function checkBootstrapAdmin(username: string, password: string): SessionUser | null {
+  const expectedUser = process.env.CASPER_AUTH_USERNAME;
+  const passwordHash = process.env.CASPER_AUTH_PASSWORD_HASH;
+  if (!expectedUser || !passwordHash) return null;
+
+  // Always run the hash so unknown usernames take as long as wrong passwords.
+  const passwordOk = verifyPassword(password, passwordHash);
+  if (!passwordOk || username !== expectedUser) return null;
+  return { userId: null, username, name: username, role: "admin" };
+}
+
+export async function authenticate(username: string, password: string): Promise<SessionUser | null> {
+  try {
+    const { data, error } = await getServiceSupabase()
+      .from("dashboard_users")
+      .select("id, username, display_name, password_hash, role, disabled")
+      .eq("username", username)
+      .maybeSingle();
+    if (error) throw error;
+
+    if (data) {
+      if (data.disabled || !isRole(data.role) || !verifyPassword(password, data.password_hash)) return null;
+      return { userId: data.id, username: data.username, name: data.display_name, role: data.role };
+    }
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    console.error("User lookup failed:", message);
+  }
+
+  return checkBootstrapAdmin(username, password);
+}
+
+export function getRequestSession(req: NextRequest): Session | null {
+  return verifySessionToken(req.cookies.get(SESSION_COOKIE)?.value);
+}
+
+export async function getServerSession(): Promise<Session | null> {
+  const store = await cookies();
+  return verifySessionToken(store.get(SESSION_COOKIE)?.value);
+}
+
+function hasBearerSecret(req: NextRequest, secret: string | undefined): boolean {
+  if (!secret) return false;
+  const expected = Buffer.from(`Bearer ${secret}`);
+  const actual = Buffer.from(req.headers.get("authorization") ?? "");
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+// Scheduled jobs authenticate with `Authorization: Bearer $CRON_SECRET`, which
+// is what Vercel Cron sends when CRON_SECRET is set on the project.
+export function isCronRequest(req: NextRequest): boolean {
+  return hasBearerSecret(req, process.env.CRON_SECRET);
+}
+
+// The bounce processor and provider webhooks send
+// `Authorization: Bearer $CASPER_INBOUND_SECRET`.
+export function isInboundRequest(req: NextRequest): boolean {
+  return hasBearerSecret(req, process.env.CASPER_INBOUND_SECRET);
+}
+
+type AuthorizeResult = { session: Session; error: null } | { session: null; error: NextResponse };
+
+// Route handler guard. The role is re-read from dashboard_users so demoting or
+// disabling an account takes effect immediately, not when the cookie expires.
+export async function authorize(req: NextRequest, required: Role): Promise<AuthorizeResult> {
+  const session = getRequestSession(req);
+  if (!session) {
+    return { session: null, error: NextResponse.json({ error: "Not authenticated" }, { status: 401 }) };
+  }
+
+  let role = session.role;
+  if (session.userId) {
+    const { data } = await getServiceSupabase()
+      .from("dashboard_users")
+      .select("role, disabled")
+      .eq("id", session.userId)
+      .maybeSingle();
+    if (!data || data.disabled || !isRole(data.role)) {
+      return { session: null, error: NextResponse.json({ error: "Account disabled" }, { status: 401 }) };
+    }
+    role = data.role;
+  }
+
+  if (!hasRole(role, required)) {
+    return {
+      session: null,
+      error: NextResponse.json({ error: `This action requires the ${required} role` }, { status: 403 }),
+    };
+  }
+
+  return { session: { ...session, role }, error: null };
+}
@@ -0,0 +1,254 @@
+// Rules for content_posts shared by the composer on the Content page and the
+// /api/posts routes. Pure and client-safe.
+//
+// A post is a thread of one or more segments, each its own tweet, published
+// in order as replies to the one before. Each segment has X's length limit.
+// Images are stored by media-storage.ts and go out with the first segment.
+//
+// Lengths are counted the way X counts them (twitter-text v3): most Latin,
+// Cyrillic and punctuation characters weigh 1, everything else — CJK, most
+// symbols — weighs 2, an emoji sequence weighs 2 however many code points it
+// has, and every URL weighs 23 because X wraps it in a t.co link.
+
+export const POST_ACCOUNTS = ["@gettraqd", "@igobykofi"] as const;
+export type PostAccount = (typeof POST_ACCOUNTS)[number];
+
+// Statuses a post can be saved with; "posted" is only set by the scheduler.
+export const EDITABLE_POST_STATUSES = ["draft", "scheduled"] as const;
+export type EditablePostStatus = (typeof EDITABLE_POST_STATUSES)[number];
+
+// Image attachments go on the first post of a thread. X takes up to 4
+// images of up to 5MB each, with alt text of up to 1,000 characters.
+export const MAX_POST_MEDIA = 4;
+export const MAX_MEDIA_BYTES = 5 * 1024 * 1024;
+export const MAX_ALT_TEXT_LENGTH = 1000;
+export const MEDIA_TYPES: Record<string, string> = {
+  "image/jpeg": "jpg",
+  "image/png": "png",
+  "image/gif": "gif",
+  "image/webp": "webp",
+};
+// Images in public/ that can be attached without uploading them first.
+export const SITE_ASSETS = [
+  "traqd-hero-phone.jpg",
+  "traqd-hero-phone.png",
+  "traqd-analytics.jpg",
+  "traqd-analytics-sq.jpg",
+  "traqd-ai-cfo.jpg",
+  "traqd-logo-square.jpg",
+];
+// Stored files are named <uuid>.<extension>.
+export const MEDIA_PATH_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}\.(?:jpg|png|gif|webp)$/;
+
+export interface PostMedia {
+  // File name in media storage.
+  path: string;
+  // Where the dashboard and the publisher fetch it from.
+  url: string;
+  alt: string;
+  content_type: string;
+  size: number;
+  // Set by POST /api/media on a new upload until it's saved with a post;
+  // never stored.
+  token?: string;
+}
+
+export const X_MAX_WEIGHTED_LENGTH = 280;
+export const X_URL_WEIGHT = 23;
+export const MAX_THREAD_SEGMENTS = 25;
+
+// content holds the segments joined with this, for readers that predate
+// threads.
+const SEGMENT_JOINER = "\n\n";
+
+// Code point ranges that weigh 1; everything else weighs 2.
+const LIGHT_RANGES: [number, number][] = [
+  [0x0000, 0x10ff],
+  [0x2000, 0x200d],
+  [0x2010, 0x201f],
+  [0x2032, 0x2037],
+];
+
+// Scheme URLs, plus bare domains on the TLDs we actually link to (X
+// autolinks those too, but not the domain of an email address). Trailing
+// punctuation is trimmed off each match.
+const URL_PATTERN = /\bhttps?:\/\/[^\s<>"]+|(?<![@\w.-])(?:[a-z0-9-]+\.)+(?:com|io|co|net|org|dev|app|ai|me|ly|so|xyz|gg)\b(?:\/[^\s<>"]*)?/gi;
+const TRAILING_PUNCTUATION = /[.,:;!?'")\]]+$/;
+
+const EMOJI_PATTERN = /\p{Extended_Pictographic}|\p{Regional_Indicator}/u;
+
+export interface PostLength {
+  weighted: number;
+  urls: string[];
+  remaining: number;
+}
+
+function characterWeight(cluster: string): number {
+  if (EMOJI_PATTERN.test(cluster)) return 2;
+  let weight = 0;
+  for (const char of cluster) {
+    const code = char.codePointAt(0) ?? 0;
+    weight += LIGHT_RANGES.some(([from, to]) => code >= from && code <= to) ? 1 : 2;
+  }
+  return weight;
+}
+
+function textWeight(text: string): number {
+  let weight = 0;
+  for (const { segment } of new Intl.Segmenter(undefined, { granularity: "grapheme" }).segment(text)) {
+    weight += characterWeight(segment);
+  }
+  return weight;
+}
+
+export function extractUrls(text: string): string[] {
+  return (text.match(URL_PATTERN) || []).map((url) => url.replace(TRAILING_PUNCTUATION, "")).filter(Boolean);
+}
+
+export function postLength(content: string): PostLength {
+  const text = content.normalize("NFC");
+  const urls = extractUrls(text);
+  let rest = text;
+  for (const url of urls) rest = rest.replace(url, "");
+  const weighted = textWeight(rest) + urls.length * X_URL_WEIGHT;
+  return { weighted, urls, remaining: X_MAX_WEIGHTED_LENGTH - weighted };
+}
+
+// Rows written before threads, or by scripts that only set content, have no
+// segments; their content is the single segment.
+export function postSegments(post: { content: string; segments?: string[] | null }): string[] {
+  return post.segments && post.segments.length > 0 ? post.segments : [post.content];
+}
+
+// Splits text into segments that each fit X's limit, breaking between words
+// (or inside a word longer than a whole segment).
+export function splitToFit(text: string): string[] {
+  const segments: string[] = [];
+  let current = "";
+  for (const word of text.trim().split(/(?<=\s)(?=\S)/)) {
+    if (postLength(current + word).weighted <= X_MAX_WEIGHTED_LENGTH) {
+      current += word;
+      continue;
+    }
+    if (current.trim()) segments.push(current.trim());
+    current = word;
+    while (postLength(current).weighted > X_MAX_WEIGHTED_LENGTH) {
+      let cut = current.length - 1;
+      while (cut > 1 && postLength(current.slice(0, cut)).weighted > X_MAX_WEIGHTED_LENGTH) cut--;
+      segments.push(current.slice(0, cut));
+      current = current.slice(cut);
+    }
+  }
+  if (current.trim()) segments.push(current.trim());
+  return segments;
+}
+
+export interface PostInput {
+  account: unknown;
+  // The thread's segments in order.
+  segments: unknown;
+  status: unknown;
+  // ISO timestamp, or null for a draft with no planned time.
+  scheduledAt: unknown;
+  // Image attachments; omitted means none.
+  media?: unknown;
+  // When editing, the post's saved status, time and images. A scheduled post
+  // whose time has passed (the scheduler hasn't got to it yet) can still be
+  // edited as long as neither changes.
+  current?: { status: string; scheduledAt: string | null; media: PostMedia[] };
+  // Checks the token POST /api/media returned with an image. Images not
+  // already on the post need one, so a post can't take over (and later
+  // delete) another post's files.
+  verifyUpload?: (path: string, token: unknown) => boolean;
+}
+
+export interface ValidPost {
+  account: PostAccount;
+  segments: string[];
+  // The segments joined, stored in content_posts.content.
+  content: string;
+  status: EditablePostStatus;
+  scheduledAt: string | null;
+  media: PostMedia[];
+}
+
+function validateMedia(
+  value: unknown,
+  attached: PostMedia[],
+  verifyUpload?: (path: string, token: unknown) => boolean,
+): { media: PostMedia[] } | { error: string } {
+  if (value === undefined || value === null) return { media: [] };
+  if (!Array.isArray(value)) return { error: "media must be a list" };
+  if (value.length > MAX_POST_MEDIA) return { error: `Posts can have at most ${MAX_POST_MEDIA} images` };
+  const media: PostMedia[] = [];
+  for (const item of value) {
+    const { path, url, alt, content_type, size, token } = (item ?? {}) as Record<string, unknown>;
+    if (typeof path !== "string" || !MEDIA_PATH_PATTERN.test(path)) return { error: "Attachment has an invalid path" };
+    if (!attached.some((existing) => existing.path === path) && !verifyUpload?.(path, token)) {
+      return { error: `${path} wasn't uploaded for this post; attach images through POST /api/media` };
+    }
+    if (typeof content_type !== "string" || !(content_type in MEDIA_TYPES)) return { error: `${path} is not a supported image type` };
+    const altText = typeof alt === "string" ? alt.trim() : "";
+    if (altText.length > MAX_ALT_TEXT_LENGTH) return { error: `Alt text can be at most ${MAX_ALT_TEXT_LENGTH} characters` };
+    media.push({ path, url: typeof url === "string" ? url : "", alt: altText, content_type, size: typeof size === "number" ? size : 0 });
+  }
+  if (new Set(media.map((m) => m.path)).size !== media.length) return { error: "The same image is attached twice" };
+  return { media };
+}
+
+// Checks a post from the composer. Scheduled posts need a time after `now`,
+// unless an edit keeps the time they already had; drafts may have a planned
+// time or none.
+export function validatePost(input: PostInput, now = new Date()): { post: ValidPost } | { error: string } {
+  if (!POST_ACCOUNTS.includes(input.account as PostAccount)) {
+    return { error: `account must be one of ${POST_ACCOUNTS.join(", ")}` };
+  }
+  if (!EDITABLE_POST_STATUSES.includes(input.status as EditablePostStatus)) {
+    return { error: `status must be one of ${EDITABLE_POST_STATUSES.join(", ")}` };
+  }
+  if (!Array.isArray(input.segments) || input.segments.some((segment) => typeof segment !== "string")) {
+    return { error: "segments must be a list of strings" };
+  }
+  const segments = (input.segments as string[]).map((segment) => segment.trim());
+  if (segments.length === 0 || segments.every((segment) => !segment)) return { error: "Post content is empty" };
+  if (segments.length > MAX_THREAD_SEGMENTS) {
+    return { error: `Threads can have at most ${MAX_THREAD_SEGMENTS} posts` };
+  }
+  for (const [index, segment] of segments.entries()) {
+    const label = segments.length > 1 ? `Post ${index + 1} of the thread` : "Post";
+    if (!segment) return { error: `${label} is empty` };
+    const { weighted } = postLength(segment);
+    if (weighted > X_MAX_WEIGHTED_LENGTH) {
+      return { error: `${label} is ${weighted} characters; X allows ${X_MAX_WEIGHTED_LENGTH}` };
+    }
+  }
+
+  let scheduledAt: string | null = null;
+  if (input.scheduledAt !== null && input.scheduledAt !== undefined && input.scheduledAt !== "") {
+    const parsed = typeof input.scheduledAt === "string" ? new Date(input.scheduledAt) : null;
+    if (!parsed || Number.isNaN(parsed.getTime())) return { error: "scheduledAt must be an ISO timestamp" };
+    scheduledAt = parsed.toISOString();
+  }
+  if (input.status === "scheduled") {
+    if (!scheduledAt) return { error: "Pick a date and time to schedule the post" };
+    const keepsSchedule =
+      input.current?.status === "scheduled" &&
+      input.current.scheduledAt !== null &&
+      new Date(input.current.scheduledAt).getTime() === new Date(scheduledAt).getTime();
+    if (new Date(scheduledAt) <= now && !keepsSchedule) return { error: "Scheduled time is in the past" };
+  }
+
+  const media = validateMedia(input.media, input.current?.media ?? [], input.verifyUpload);
+  if ("error" in media) return media;
+
+  return {
+    post: {
+      account: input.account as PostAccount,
+      segments,
+      content: segments.join(SEGMENT_JOINER),
+      status: input.status as EditablePostStatus,
+      scheduledAt,
+      media: media.media,
+    },
+  };
+}
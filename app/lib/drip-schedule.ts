@@ -0,0 +1,42 @@
+// Drip timing for a sequence, shared by the cron endpoint and the Email page's
+// "Next Send" column. `delays` holds each step's delay_days in stage order:
+// step 1 may go out delays[0] days after enrollment, and every later step
+// delays[i] days after the previous one — counted both from the schedule
+// (enrollment plus the running total) and from when the previous email
+// actually went out, whichever is later.
+
+// A failed attempt is retried on the next run after this many minutes.
+export const RETRY_AFTER_MINUTES = 60;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface DripEnrollment {
+  enrolled_at: string;
+  current_stage: number;
+  status: string;
+}
+
+// A subscriber's status within one sequence. pending, unsubscribed and
+// suppressed apply to every sequence they're in; paused and completed to one
+// enrollment.
+export function enrollmentStatus(subscriberStatus: string, status: string): string {
+  return subscriberStatus === "active" ? status : subscriberStatus;
+}
+
+export function nextSendAt(enrollment: DripEnrollment, delays: number[], lastSentAt: string | null): Date | null {
+  if (enrollment.status !== "active" || enrollment.current_stage >= delays.length) return null;
+
+  const nextStage = enrollment.current_stage + 1;
+  const offsetDays = delays.slice(0, nextStage).reduce((sum, d) => sum + d, 0);
+  const bySchedule = new Date(enrollment.enrolled_at).getTime() + offsetDays * DAY_MS;
+
+  if (!lastSentAt) return new Date(bySchedule);
+
+  const byLastSend = new Date(lastSentAt).getTime() + delays[nextStage - 1] * DAY_MS;
+  return new Date(Math.max(bySchedule, byLastSend));
+}
+
+export function isDue(enrollment: DripEnrollment, delays: number[], lastSentAt: string | null, now = new Date()): boolean {
+  const due = nextSendAt(enrollment, delays, lastSentAt);
+  return due !== null && due.getTime() <= now.getTime();
+}
@@ -0,0 +1,405 @@
+import { normalizeEmail, suppressEmail } from "./email-suppression";
+import { getServiceSupabase } from "./supabase-admin";
+
+// Bounces and spam complaints coming back from receiving mail servers.
+// Reports arrive as raw messages — DSNs (RFC 3464) and ARF feedback reports
+// (RFC 5965), fetched from the bounce mailbox by scripts/bounce-processor.py —
+// or as already-parsed events posted by a provider webhook. Both end up in
+// recordInboundReport().
+//
+// Hard bounces and complaints suppress the address and move the subscriber to
+// `suppressed`; soft bounces (mailbox full, greylisting, timeouts) are only
+// recorded, since the next send may well get through.
+
+// Outgoing nurture emails carry their email_sends id in this header. Bounces
+// usually quote the original headers, which is how a report finds its send.
+export const SEND_ID_HEADER = "X-Casper-Send-Id";
+
+export type BounceType = "hard" | "soft";
+export type InboundSource = "imap" | "maildir" | "webhook";
+
+export interface BounceRecipient {
+  // Null when the report redacts it (common in complaint feedback loops);
+  // the send id then supplies the address.
+  email: string | null;
+  bounceType: BounceType | null;
+  // Enhanced status code, e.g. "5.1.1".
+  status: string | null;
+  diagnostic: string | null;
+}
+
+export interface InboundReport {
+  kind: "bounce" | "complaint";
+  messageId: string | null;
+  sendId: string | null;
+  recipients: BounceRecipient[];
+}
+
+export interface BounceOutcome {
+  kind: "bounce" | "complaint";
+  bounceType: BounceType | null;
+  email: string | null;
+  subscriberId: string | null;
+  sendId: string | null;
+  // Already recorded from an earlier delivery of the same report.
+  duplicate: boolean;
+  // The subscriber's status before this report suppressed them, or null if
+  // their status didn't change.
+  suppressedFrom: string | null;
+}
+
+export interface InboundSummary {
+  received: number;
+  bounces: number;
+  complaints: number;
+  // Messages that weren't bounce or complaint reports, e.g. human replies.
+  ignored: number;
+  duplicates: number;
+  suppressed: number;
+  outcomes: BounceOutcome[];
+}
+
+interface MimePart {
+  headers: Map<string, string>;
+  body: string;
+}
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const STATUS_PATTERN = /\b([45]\.\d{1,3}\.\d{1,3})\b/;
+const SEND_ID_PATTERN = new RegExp(`^${SEND_ID_HEADER}:\\s*([0-9a-f-]{36})`, "im");
+// Permanent by code but temporary in practice: the mailbox is full.
+const SOFT_PERMANENT_STATUSES = ["5.2.2"];
+// Nested parts below this depth are ignored; real reports are 2–3 deep.
+const MAX_MIME_DEPTH = 5;
+
+// "Name: value" lines, with folded continuation lines joined. Used for message
+// headers and for the field groups of delivery-status and feedback-report parts.
+function parseFields(block: string): Map<string, string> {
+  const fields = new Map<string, string>();
+  for (const line of block.replace(/\n[ \t]+/g, " ").split("\n")) {
+    const colon = line.indexOf(":");
+    if (colon <= 0) continue;
+    const name = line.slice(0, colon).trim().toLowerCase();
+    if (!fields.has(name)) fields.set(name, line.slice(colon + 1).trim());
+  }
+  return fields;
+}
+
+function parsePart(raw: string): MimePart {
+  const text = raw.replace(/\r\n/g, "\n");
+  const split = text.indexOf("\n\n");
+  return split === -1
+    ? { headers: parseFields(text), body: "" }
+    : { headers: parseFields(text.slice(0, split)), body: text.slice(split + 2) };
+}
+
+function mediaType(part: MimePart): string {
+  return (part.headers.get("content-type") ?? "text/plain").split(";")[0].trim().toLowerCase();
+}
+
+function headerParam(value: string | undefined, name: string): string | null {
+  const match = value?.match(new RegExp(`;\\s*${name}\\s*=\\s*(?:"([^"]*)"|([^;\\s]+))`, "i"));
+  return match ? match[1] ?? match[2] : null;
+}
+
+function decodeBody(part: MimePart): string {
+  const encoding = (part.headers.get("content-transfer-encoding") ?? "").toLowerCase();
+  if (encoding === "base64") return Buffer.from(part.body.replace(/\s+/g, ""), "base64").toString("utf8");
+  if (encoding === "quoted-printable") {
+    return part.body
+      .replace(/=\n/g, "")
+      .replace(/=([0-9A-F]{2})/gi, (_match, hex: string) => String.fromCharCode(parseInt(hex, 16)));
+  }
+  return part.body;
+}
+
+// The message and every part nested in it, depth first. message/rfc822
+// parts are opened too, since the quoted original is where the send id is.
+function flattenParts(part: MimePart, depth = 0): MimePart[] {
+  const type = mediaType(part);
+  const parts = [part];
+  if (depth >= MAX_MIME_DEPTH) return parts;
+
+  if (type.startsWith("multipart/")) {
+    const boundary = headerParam(part.headers.get("content-type"), "boundary");
+    if (!boundary) return parts;
+    const sections = `\n${part.body}`.split(`\n--${boundary}`).slice(1);
+    for (const section of sections) {
+      if (section.startsWith("--")) break;
+      parts.push(...flattenParts(parsePart(section.slice(section.indexOf("\n") + 1)), depth + 1));
+    }
+  } else if (type === "message/rfc822") {
+    parts.push(...flattenParts(parsePart(decodeBody(part)), depth + 1));
+  }
+  return parts;
+}
+
+// "rfc822; someone@example.com" or "Someone <someone@example.com>" →
+// "someone@example.com"
+function addressField(value: string | undefined): string | null {
+  if (!value) return null;
+  const address = value.match(/<([^>]+)>/)?.[1] ?? value.slice(value.indexOf(";") + 1).trim();
+  return address.includes("@") ? normalizeEmail(address) : null;
+}
+
+function classifyStatus(status: string | null): BounceType {
+  if (!status) return "hard";
+  if (status.startsWith("4") || SOFT_PERMANENT_STATUSES.includes(status)) return "soft";
+  return "hard";
+}
+
+function findSendId(parts: MimePart[]): string | null {
+  for (const part of parts) {
+    const fromHeaders = part.headers.get(SEND_ID_HEADER.toLowerCase());
+    if (fromHeaders && UUID_PATTERN.test(fromHeaders)) return fromHeaders.toLowerCase();
+    // text/rfc822-headers parts hold the original headers as their body.
+    const match = decodeBody(part).match(SEND_ID_PATTERN);
+    if (match && UUID_PATTERN.test(match[1])) return match[1].toLowerCase();
+  }
+  return null;
+}
+
+// Per-recipient results of a delivery-status part. Only failed recipients are
+// returned; "delivered" and "relayed" aren't bounces, and "delayed" mail is
+// still being retried and may yet arrive.
+function deliveryStatusRecipients(part: MimePart): BounceRecipient[] {
+  // The first group describes the reporting server; the rest are recipients.
+  const groups = decodeBody(part).replace(/\r\n/g, "\n").split(/\n\s*\n/).slice(1).map(parseFields);
+  const recipients: BounceRecipient[] = [];
+  for (const fields of groups) {
+    const action = (fields.get("action") ?? "").toLowerCase();
+    if (action !== "failed") continue;
+    const status = fields.get("status")?.match(STATUS_PATTERN)?.[1] ?? null;
+    recipients.push({
+      email: addressField(fields.get("final-recipient") ?? fields.get("original-recipient")),
+      bounceType: classifyStatus(status),
+      status,
+      diagnostic: fields.get("diagnostic-code") ?? null,
+    });
+  }
+  return recipients;
+}
+
+// Parses one raw message. Returns null for anything that isn't a bounce or
+// complaint report, or that reports only successful deliveries.
+export function parseInboundMessage(raw: string): InboundReport | null {
+  const message = parsePart(raw);
+  const parts = flattenParts(message);
+  const messageId = message.headers.get("message-id")?.replace(/^<|>$/g, "") ?? null;
+  const sendId = findSendId(parts.slice(1));
+
+  const feedback = parts.find((p) => mediaType(p) === "message/feedback-report");
+  if (feedback) {
+    const fields = parseFields(decodeBody(feedback).replace(/\r\n/g, "\n"));
+    if ((fields.get("feedback-type") ?? "abuse").toLowerCase() === "not-spam") return null;
+    const original = parts.find((p, i) => i > 0 && p.headers.has("to"));
+    return {
+      kind: "complaint",
+      messageId,
+      sendId,
+      recipients: [
+        {
+          email: addressField(fields.get("original-rcpt-to")) ?? addressField(original?.headers.get("to")),
+          bounceType: null,
+          status: null,
+          diagnostic: fields.get("feedback-type") ?? null,
+        },
+      ],
+    };
+  }
+
+  const deliveryStatus = parts.find((p) => mediaType(p) === "message/delivery-status");
+  if (deliveryStatus) {
+    const recipients = deliveryStatusRecipients(deliveryStatus);
+    return recipients.length > 0 ? { kind: "bounce", messageId, sendId, recipients } : null;
+  }
+
+  // Exim and some hosted servers send plain-text bounces without a DSN part
+  // but name the failed addresses in this header.
+  const failed = message.headers.get("x-failed-recipients");
+  if (failed) {
+    const text = parts.map(decodeBody).join("\n");
+    const status = text.match(STATUS_PATTERN)?.[1] ?? null;
+    return {
+      kind: "bounce",
+      messageId,
+      sendId,
+      recipients: failed.split(",").map((address) => ({
+        email: addressField(address),
+        bounceType: classifyStatus(status),
+        status,
+        diagnostic: null,
+      })),
+    };
+  }
+
+  return null;
+}
+
+// Validates events from a provider webhook:
+// [{ type: "bounce" | "complaint", email, bounceType?, status?, diagnostic?, sendId?, id }]
+// `id` is the provider's event id, used to drop repeats, so it is required.
+export function parseBounceEvents(value: unknown): { reports: InboundReport[]; error: null } | { reports: null; error: string } {
+  if (!Array.isArray(value)) return { reports: null, error: "events must be a list" };
+  const reports: InboundReport[] = [];
+  for (const [i, event] of value.entries()) {
+    const fail = (reason: string) => ({ reports: null, error: `events[${i}]: ${reason}` });
+    if (typeof event !== "object" || event === null) return fail("must be an object");
+    const { type, email, bounceType, status, diagnostic, sendId, id } = event as Record<string, unknown>;
+    if (type !== "bounce" && type !== "complaint") return fail('type must be "bounce" or "complaint"');
+    if (typeof email !== "string" || !email.includes("@")) return fail("email is required");
+    if (typeof id !== "string" || !id) return fail("id is required");
+    if (bounceType !== undefined && bounceType !== "hard" && bounceType !== "soft") return fail('bounceType must be "hard" or "soft"');
+    if (sendId !== undefined && (typeof sendId !== "string" || !UUID_PATTERN.test(sendId))) return fail("sendId must be a UUID");
+    const code = typeof status === "string" ? status.match(STATUS_PATTERN)?.[1] ?? null : null;
+    reports.push({
+      kind: type,
+      messageId: id,
+      sendId: (sendId as string | undefined)?.toLowerCase() ?? null,
+      recipients: [
+        {
+          email: normalizeEmail(email),
+          bounceType: type === "complaint" ? null : (bounceType as BounceType | undefined) ?? classifyStatus(code),
+          status: code,
+          diagnostic: typeof diagnostic === "string" ? diagnostic.slice(0, 1000) : null,
+        },
+      ],
+    });
+  }
+  return { reports, error: null };
+}
+
+async function recordRecipient(report: InboundReport, recipient: BounceRecipient, source: InboundSource): Promise<BounceOutcome | null> {
+  const db = getServiceSupabase();
+
+  // The quoted send id is trusted only if it belongs to the reported address.
+  let send: { id: string; subscriber_id: string } | null = null;
+  let subscriber: { id: string; email: string; status: string } | null = null;
+  if (report.sendId) {
+    const { data, error } = await db
+      .from("email_sends")
+      .select("id, subscriber_id, email_subscribers(id, email, status)")
+      .eq("id", report.sendId)
+      .maybeSingle();
+    if (error) throw new Error(`Send lookup failed: ${error.message}`);
+    const owner = data?.email_subscribers as unknown as { id: string; email: string; status: string } | null;
+    if (data && owner && (!recipient.email || normalizeEmail(owner.email) === recipient.email)) {
+      send = { id: data.id, subscriber_id: data.subscriber_id };
+      subscriber = owner;
+    }
+  }
+  const email = recipient.email ?? (subscriber ? normalizeEmail(subscriber.email) : null);
+  if (!email) return null;
+
+  if (!subscriber) {
+    const { data, error } = await db.from("email_subscribers").select("id, email, status").eq("email", email).maybeSingle();
+    if (error) throw new Error(`Subscriber lookup failed: ${error.message}`);
+    subscriber = data;
+  }
+  // Without a send id the report is pinned on their latest delivered email.
+  if (!send && subscriber) {
+    const { data, error } = await db
+      .from("email_sends")
+      .select("id, subscriber_id")
+      .eq("subscriber_id", subscriber.id)
+      .eq("status", "sent")
+      .order("sent_at", { ascending: false })
+      .limit(1)
+      .maybeSingle();
+    if (error) throw new Error(`Send lookup failed: ${error.message}`);
+    send = data;
+  }
+
+  const outcome: BounceOutcome = {
+    kind: report.kind,
+    bounceType: recipient.bounceType,
+    email,
+    subscriberId: subscriber?.id ?? null,
+    sendId: send?.id ?? null,
+    duplicate: false,
+    suppressedFrom: null,
+  };
+
+  const { error: insertError } = await db.from("email_bounces").insert({
+    kind: report.kind,
+    bounce_type: recipient.bounceType,
+    email,
+    subscriber_id: outcome.subscriberId,
+    send_id: outcome.sendId,
+    status_code: recipient.status,
+    diagnostic: recipient.diagnostic,
+    source,
+    message_id: report.messageId,
+  });
+  // A repeat still goes through the steps below, which are all safe to run
+  // twice, in case an earlier attempt recorded the report but failed later.
+  if (insertError?.code === "23505") outcome.duplicate = true;
+  else if (insertError) throw new Error(`Failed to record ${report.kind} for ${email}: ${insertError.message}`);
+
+  const now = new Date().toISOString();
+  if (send) {
+    const { error } =
+      report.kind === "complaint"
+        ? await db.from("email_sends").update({ complained_at: now }).eq("id", send.id).is("complained_at", null)
+        : await db.from("email_sends").update({ bounced_at: now, bounce_type: recipient.bounceType }).eq("id", send.id).is("bounced_at", null);
+    if (error) throw new Error(`Failed to mark send ${send.id}: ${error.message}`);
+  }
+
+  if (report.kind === "complaint" || recipient.bounceType === "hard") {
+    const detail = [recipient.status, recipient.diagnostic].filter(Boolean).join(" ") || null;
+    await suppressEmail(email, report.kind === "complaint" ? "complained" : "bounced", detail);
+    // Unsubscribed subscribers keep that status; they left of their own accord.
+    if (subscriber && (subscriber.status === "pending" || subscriber.status === "active")) {
+      const { data, error } = await db
+        .from("email_subscribers")
+        .update({ status: "suppressed", suppressed_at: now })
+        .eq("id", subscriber.id)
+        .in("status", ["pending", "active"])
+        .select("id");
+      if (error) throw new Error(`Failed to suppress subscriber ${subscriber.id}: ${error.message}`);
+      if (data && data.length > 0) outcome.suppressedFrom = subscriber.status;
+    }
+  }
+  return outcome;
+}
+
+export async function recordInboundReport(report: InboundReport, source: InboundSource): Promise<BounceOutcome[]> {
+  const outcomes: BounceOutcome[] = [];
+  for (const recipient of report.recipients) {
+    const outcome = await recordRecipient(report, recipient, source);
+    if (outcome) outcomes.push(outcome);
+  }
+  return outcomes;
+}
+
+// Parses and records a batch of raw messages from one mailbox.
+export async function processInboundMessages(messages: string[], source: InboundSource): Promise<InboundSummary> {
+  const summary: InboundSummary = { received: messages.length, bounces: 0, complaints: 0, ignored: 0, duplicates: 0, suppressed: 0, outcomes: [] };
+  for (const raw of messages) {
+    const report = parseInboundMessage(raw);
+    if (!report) {
+      summary.ignored++;
+      continue;
+    }
+    summary.outcomes.push(...(await recordInboundReport(report, source)));
+  }
+  return tally(summary);
+}
+
+export async function processBounceEvents(reports: InboundReport[]): Promise<InboundSummary> {
+  const summary: InboundSummary = { received: reports.length, bounces: 0, complaints: 0, ignored: 0, duplicates: 0, suppressed: 0, outcomes: [] };
+  for (const report of reports) {
+    summary.outcomes.push(...(await recordInboundReport(report, "webhook")));
+  }
+  return tally(summary);
+}
+
+function tally(summary: InboundSummary): InboundSummary {
+  for (const outcome of summary.outcomes) {
+    if (outcome.duplicate) summary.duplicates++;
+    else if (outcome.kind === "complaint") summary.complaints++;
+    else summary.bounces++;
+    if (outcome.suppressedFrom) summary.suppressed++;
+  }
+  return summary;
+}
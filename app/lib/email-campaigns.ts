@@ -0,0 +1,231 @@
+import type { Transporter } from "nodemailer";
+import { prepareEmailHtml } from "./email-html";
+import type { SubscriberRow } from "./email-delivery";
+import { matchesSegment, type SegmentFilters } from "./email-segments";
+import { SuppressedAddressError, getSuppressedEmails, normalizeEmail, unsubscribeHeaders, unsubscribePageUrl } from "./email-suppression";
+import { createThrottledTransport, sendEmail } from "./mailer";
+import { buildMergeContext, findFields, renderTemplate, validateTemplateContent, type EmailTemplate } from "./render-template";
+import { getServiceSupabase, selectAll } from "./supabase-admin";
+
+// Campaign emails go out through one pooled SMTP connection at this rate.
+export const CAMPAIGN_SENDS_PER_SECOND = 5;
+// Upper bound per run so one invocation stays well inside the function
+// timeout; a bigger campaign carries on at the next run.
+const MAX_CAMPAIGN_SENDS_PER_RUN = 600;
+// Recipients are loaded this many at a time, and the campaign is re-checked
+// between batches so a cancel takes effect mid-run.
+const SEND_BATCH_SIZE = 25;
+// A recipient claimed for longer than this belongs to a run that died.
+const STALE_CLAIM_MINUTES = 10;
+
+export interface CampaignRow extends EmailTemplate {
+  id: string;
+  name: string;
+  segment_id: string;
+  status: "scheduled" | "sending" | "sent" | "cancelled";
+  scheduled_at: string;
+  started_at: string | null;
+  finished_at: string | null;
+  created_by: string | null;
+  created_at: string;
+}
+
+export interface CampaignRunSummary {
+  started: number;
+  finished: number;
+  sent: number;
+  failed: number;
+  skipped: number;
+  // Still queued for the next run.
+  remaining: number;
+}
+
+type CampaignWithSegment = CampaignRow & { email_segments: { filters: SegmentFilters } };
+
+interface RecipientRow {
+  id: string;
+  subscriber_id: string | null;
+}
+
+function staleClaimCutoff(now: Date): string {
+  return new Date(now.getTime() - STALE_CLAIM_MINUTES * 60 * 1000).toISOString();
+}
+
+// PostgREST filter for recipients no run is working on: queued, or claimed
+// by a run that died.
+export function unclaimedRecipientsFilter(now = new Date()): string {
+  return `status.eq.queued,and(status.eq.sending,locked_at.lt."${staleClaimCutoff(now)}")`;
+}
+
+// Why a campaign's subject/body can't be saved, or null if it can. The same
+// rules as a sequence step, except {{stage}}, which means nothing here.
+export function validateCampaignContent(subject: unknown, html: unknown): string | null {
+  const invalid = validateTemplateContent(subject, html);
+  if (invalid) return invalid;
+  return findFields(`${subject}\n${html}`).includes("stage") ? "{{stage}} only applies to sequence emails" : null;
+}
+
+// Renders a campaign for one subscriber and runs it through
+// prepareEmailHtml(), so lint errors throw EmailLintError.
+export function renderCampaign(content: EmailTemplate, subscriber: SubscriberRow) {
+  const unsubscribeUrl = unsubscribePageUrl(subscriber.id);
+  const rendered = renderTemplate(content, buildMergeContext(subscriber, 0, unsubscribeUrl));
+  const prepared = prepareEmailHtml(rendered.html, unsubscribeUrl);
+  return { subject: rendered.subject, html: prepared.html, text: prepared.text };
+}
+
+// Fixes the recipient list of a campaign that is starting: everyone in the
+// segment right now, with suppressed addresses recorded as skipped.
+async function snapshotRecipients(campaignId: string, filters: SegmentFilters) {
+  const db = getServiceSupabase();
+  const { sequenceId } = filters;
+  const [subscribers, enrollments] = await Promise.all([
+    selectAll((from, to) =>
+      db.from("email_subscribers").select("id, email, status, signup_date, tags").eq("status", "active").order("id").range(from, to)
+    ),
+    sequenceId
+      ? selectAll((from, to) =>
+          db
+            .from("sequence_enrollments")
+            .select("subscriber_id, current_stage, status")
+            .eq("sequence_id", sequenceId)
+            .order("subscriber_id")
+            .range(from, to)
+        )
+      : Promise.resolve([]),
+  ]);
+
+  const enrollmentsById = new Map(enrollments.map((e) => [e.subscriber_id as string, e]));
+  const matched = subscribers.filter((sub) => matchesSegment(sub, enrollmentsById.get(sub.id) ?? null, filters));
+  const suppressed = await getSuppressedEmails(matched.map((sub) => sub.email));
+  const rows = matched.map((sub) => {
+    const isSuppressed = suppressed.has(normalizeEmail(sub.email));
+    return { campaign_id: campaignId, subscriber_id: sub.id, email: sub.email, status: isSuppressed ? "skipped" : "queued", error: isSuppressed ? "Suppressed" : null };
+  });
+
+  for (let i = 0; i < rows.length; i += 500) {
+    const { error: insertError } = await db
+      .from("email_campaign_recipients")
+      .upsert(rows.slice(i, i + 500), { onConflict: "campaign_id,subscriber_id", ignoreDuplicates: true });
+    if (insertError) throw insertError;
+  }
+}
+
+async function deliverToRecipient(
+  campaign: CampaignRow,
+  subscriber: SubscriberRow | null,
+  transport: Transporter
+): Promise<{ status: "sent" | "failed" | "skipped"; error: string | null }> {
+  if (!subscriber) return { status: "skipped", error: "Subscriber deleted" };
+  if (subscriber.status !== "active") return { status: "skipped", error: `Subscriber is ${subscriber.status}` };
+  try {
+    const email = renderCampaign(campaign, subscriber);
+    await sendEmail({ to: subscriber.email, ...email, headers: unsubscribeHeaders(subscriber.id) }, transport);
+    return { status: "sent", error: null };
+  } catch (err: unknown) {
+    if (err instanceof SuppressedAddressError) return { status: "skipped", error: "Suppressed" };
+    const message = err instanceof Error ? err.message : "Unknown SMTP error";
+    console.error(`Campaign "${campaign.name}" to ${subscriber.email} failed:`, message);
+    return { status: "failed", error: message };
+  }
+}
+
+// Starts every scheduled campaign that is due and works through the queued
+// recipients of every campaign that is sending, throttled through one pooled
+// transport. A campaign is sent once nothing is left queued or being sent.
+export async function runEmailCampaigns(now = new Date()): Promise<CampaignRunSummary> {
+  const db = getServiceSupabase();
+  const [{ data: sending, error: sendingError }, { data: due, error: dueError }] = await Promise.all([
+    db.from("email_campaigns").select("*, email_segments(filters)").eq("status", "sending").order("started_at"),
+    db.from("email_campaigns").select("*, email_segments(filters)").eq("status", "scheduled").lte("scheduled_at", now.toISOString()).order("scheduled_at"),
+  ]);
+  if (sendingError) throw sendingError;
+  if (dueError) throw dueError;
+
+  const summary: CampaignRunSummary = { started: 0, finished: 0, sent: 0, failed: 0, skipped: 0, remaining: 0 };
+  let budget = MAX_CAMPAIGN_SENDS_PER_RUN;
+  const transport = createThrottledTransport(CAMPAIGN_SENDS_PER_SECOND);
+
+  try {
+    for (const campaign of [...(sending || []), ...(due || [])] as CampaignWithSegment[]) {
+      if (campaign.status === "scheduled") {
+        // Claiming first means an overlapping run can't start it twice.
+        const { data: claimed, error: claimError } = await db
+          .from("email_campaigns")
+          .update({ status: "sending", started_at: now.toISOString() })
+          .eq("id", campaign.id)
+          .eq("status", "scheduled")
+          .select("id")
+          .maybeSingle();
+        if (claimError) throw claimError;
+        if (!claimed) continue;
+        try {
+          await snapshotRecipients(campaign.id, campaign.email_segments.filters);
+        } catch (err: unknown) {
+          await db.from("email_campaigns").update({ status: "scheduled", started_at: null }).eq("id", campaign.id);
+          throw err;
+        }
+        summary.started++;
+      }
+
+      while (budget > 0) {
+        const { data: current, error: currentError } = await db.from("email_campaigns").select("status").eq("id", campaign.id).single();
+        if (currentError) throw currentError;
+        if (current.status !== "sending") break;
+
+        // Only rows this run claimed are sent; a concurrent run gets others.
+        const { data: claimed, error: claimError } = await db.rpc("claim_campaign_recipients", {
+          p_campaign_id: campaign.id,
+          p_limit: Math.min(SEND_BATCH_SIZE, budget),
+          p_stale_before: staleClaimCutoff(now),
+        });
+        if (claimError) throw claimError;
+        const batch = (claimed || []) as RecipientRow[];
+        if (batch.length === 0) break;
+
+        const ids = batch.map((r) => r.subscriber_id).filter((id): id is string => id !== null);
+        const { data: subscribers, error: subscriberError } = await db
+          .from("email_subscribers")
+          .select("id, name, email, signup_date, status, attributes")
+          .in("id", ids);
+        if (subscriberError) throw subscriberError;
+        const subscribersById = new Map(((subscribers || []) as SubscriberRow[]).map((sub) => [sub.id, sub]));
+
+        for (const recipient of batch) {
+          budget--;
+          const subscriber = (recipient.subscriber_id && subscribersById.get(recipient.subscriber_id)) || null;
+          const result = await deliverToRecipient(campaign, subscriber, transport);
+          summary[result.status]++;
+          const { error: updateError } = await db
+            .from("email_campaign_recipients")
+            .update({ status: result.status, error: result.error, locked_at: null, sent_at: result.status === "sent" ? new Date().toISOString() : null })
+            .eq("id", recipient.id);
+          if (updateError) throw updateError;
+        }
+      }
+
+      const { count, error: countError } = await db
+        .from("email_campaign_recipients")
+        .select("id", { count: "exact", head: true })
+        .eq("campaign_id", campaign.id)
+        .in("status", ["queued", "sending"]);
+      if (countError) throw countError;
+      if (count) {
+        summary.remaining += count;
+      } else {
+        const { data: finished, error: finishError } = await db
+          .from("email_campaigns")
+          .update({ status: "sent", finished_at: new Date().toISOString() })
+          .eq("id", campaign.id)
+          .eq("status", "sending")
+          .select("id");
+        if (finishError) throw finishError;
+        summary.finished += finished?.length ?? 0;
+      }
+    }
+  } finally {
+    transport.close();
+  }
+
+  return summary;
+}
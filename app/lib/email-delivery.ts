@@ -0,0 +1,84 @@
+import { randomUUID } from "node:crypto";
+import { SEND_ID_HEADER } from "./email-bounces";
+import { SuppressedAddressError, unsubscribeHeaders, unsubscribePageUrl } from "./email-suppression";
+import { getEmailTemplate } from "./email-templates";
+import { addTracking } from "./email-tracking";
+import { sendEmail } from "./mailer";
+import { getServiceSupabase } from "./supabase-admin";
+
+export interface SubscriberRow {
+  id: string;
+  name: string;
+  email: string;
+  signup_date: string;
+  status: string;
+  attributes: Record<string, unknown> | null;
+}
+
+export interface EmailSendRow {
+  id: string;
+  subscriber_id: string;
+  sequence_id: string;
+  email_number: number;
+  sent_at: string;
+  status: "sent" | "failed";
+  error: string | null;
+  template_version: number | null;
+  variant_id: string | null;
+  subject: string | null;
+  // As rendered, before tracking was added.
+  html: string | null;
+}
+
+export interface DeliveryResult {
+  ok: boolean;
+  send: EmailSendRow;
+  error: string | null;
+}
+
+// Renders and sends one step of a sequence, then records the real outcome.
+// The subscriber's enrollment only moves to `stage` if the SMTP send
+// succeeded; see record_email_send() for the transactional half.
+export async function deliverStageEmail(subscriber: SubscriberRow, sequenceId: string, stage: number): Promise<DeliveryResult> {
+  const template = await getEmailTemplate(sequenceId, stage, { subscriber, unsubscribeUrl: unsubscribePageUrl(subscriber.id) });
+  if (!template) {
+    throw new Error(`No template found for email stage ${stage}`);
+  }
+
+  // The send id is embedded in the open pixel, click links and a header that
+  // bounces quote back, so it has to exist before the email goes out.
+  const sendId = randomUUID();
+  let error: string | null = null;
+  try {
+    await sendEmail({
+      to: subscriber.email,
+      subject: template.subject,
+      html: addTracking(template.html, sendId),
+      text: template.text,
+      headers: { ...unsubscribeHeaders(subscriber.id), [SEND_ID_HEADER]: sendId },
+    });
+  } catch (err: unknown) {
+    // A refused send never reached SMTP, so there is no attempt to record.
+    if (err instanceof SuppressedAddressError) throw err;
+    error = err instanceof Error ? err.message : "Unknown SMTP error";
+    console.error(`Email #${stage} to ${subscriber.email} failed:`, error);
+  }
+
+  const { data, error: recordError } = await getServiceSupabase().rpc("record_email_send", {
+    p_subscriber_id: subscriber.id,
+    p_sequence_id: sequenceId,
+    p_email_number: stage,
+    p_status: error ? "failed" : "sent",
+    p_error: error,
+    p_send_id: sendId,
+    p_template_version: template.version,
+    p_variant_id: template.variantId,
+    p_subject: template.subject,
+    p_html: template.html,
+  });
+  if (recordError) {
+    throw new Error(`Email #${stage} ${error ? "failed" : "was sent"} but could not be recorded: ${recordError.message}`);
+  }
+
+  return { ok: !error, send: data as EmailSendRow, error };
+}
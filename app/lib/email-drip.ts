@@ -0,0 +1,118 @@
+import { RETRY_AFTER_MINUTES, isDue } from "./drip-schedule";
+import { deliverStageEmail, type EmailSendRow, type SubscriberRow } from "./email-delivery";
+import { claimEnrollment, releaseEnrollment, type EnrollmentRow } from "./email-sequences";
+import { getSuppressedEmails, normalizeEmail } from "./email-suppression";
+import { chunked, getServiceSupabase, selectAll } from "./supabase-admin";
+
+// Upper bound per run so one invocation stays well inside the function timeout.
+const MAX_SENDS_PER_RUN = 50;
+
+export interface DripResult {
+  subscriberId: string;
+  email: string;
+  sequenceId: string;
+  stage: number;
+  status: "sent" | "failed";
+  error: string | null;
+}
+
+export interface DripSummary {
+  checked: number;
+  due: number;
+  sent: number;
+  failed: number;
+  deferred: number;
+  suppressed: number;
+  results: DripResult[];
+}
+
+type ActiveEnrollment = EnrollmentRow & { email_subscribers: SubscriberRow };
+type SendHistoryRow = Pick<EmailSendRow, "id" | "subscriber_id" | "sequence_id" | "email_number" | "sent_at" | "status">;
+
+// Finds active enrollments of active subscribers whose next step is due and
+// sends it. A subscriber in several sequences can get one email from each.
+export async function runEmailDrip(now = new Date()): Promise<DripSummary> {
+  const db = getServiceSupabase();
+
+  const [enrollmentRows, stepRows] = await Promise.all([
+    selectAll<ActiveEnrollment>((from, to) =>
+      db
+        .from("sequence_enrollments")
+        .select("*, email_subscribers!inner(*)")
+        .eq("status", "active")
+        .eq("email_subscribers.status", "active")
+        .order("enrolled_at", { ascending: true })
+        .order("subscriber_id")
+        .order("sequence_id")
+        .range(from, to)
+    ),
+    selectAll<{ sequence_id: string; stage: number; delay_days: number }>((from, to) =>
+      db.from("email_templates").select("sequence_id, stage, delay_days").order("sequence_id").order("stage").range(from, to)
+    ),
+  ]);
+
+  const delays = new Map<string, number[]>();
+  for (const step of stepRows) {
+    delays.set(step.sequence_id, [...(delays.get(step.sequence_id) ?? []), step.delay_days]);
+  }
+  const delaysFor = (sequenceId: string) => delays.get(sequenceId) ?? [];
+
+  const enrollments = enrollmentRows.filter((e) => e.current_stage < delaysFor(e.sequence_id).length);
+  // Each subscriber's history comes back newest first from a single chunk.
+  const sends: SendHistoryRow[] = [];
+  for (const ids of chunked([...new Set(enrollments.map((e) => e.subscriber_id))])) {
+    const rows = await selectAll<SendHistoryRow>((from, to) =>
+      db
+        .from("email_sends")
+        .select("id, subscriber_id, sequence_id, email_number, sent_at, status")
+        .in("subscriber_id", ids)
+        .order("sent_at", { ascending: false })
+        .order("id")
+        .range(from, to)
+    );
+    sends.push(...rows);
+  }
+
+  const suppressed = await getSuppressedEmails(enrollments.map((e) => e.email_subscribers.email));
+  const retryCutoff = now.getTime() - RETRY_AFTER_MINUTES * 60 * 1000;
+
+  const due = enrollments.filter((enrollment) => {
+    if (suppressed.has(normalizeEmail(enrollment.email_subscribers.email))) return false;
+    const history = sends.filter((s) => s.subscriber_id === enrollment.subscriber_id && s.sequence_id === enrollment.sequence_id);
+    const lastSent = history.find((s) => s.status === "sent");
+    if (!isDue(enrollment, delaysFor(enrollment.sequence_id), lastSent?.sent_at ?? null, now)) return false;
+
+    // Back off after a failure for this step instead of retrying every run.
+    const lastAttempt = history.find((s) => s.email_number === enrollment.current_stage + 1);
+    return !(lastAttempt?.status === "failed" && new Date(lastAttempt.sent_at).getTime() > retryCutoff);
+  });
+
+  const batch = due.slice(0, MAX_SENDS_PER_RUN);
+  const results: DripResult[] = [];
+  for (const enrollment of batch) {
+    const sub = enrollment.email_subscribers;
+    const stage = enrollment.current_stage + 1;
+    const base = { subscriberId: sub.id, email: sub.email, sequenceId: enrollment.sequence_id, stage };
+    // Another run, or an operator, is sending this step or already has.
+    if (!(await claimEnrollment(enrollment, now))) continue;
+    try {
+      const result = await deliverStageEmail(sub, enrollment.sequence_id, stage);
+      results.push({ ...base, status: result.ok ? "sent" : "failed", error: result.error });
+    } catch (err: unknown) {
+      const message = err instanceof Error ? err.message : "Unknown error";
+      results.push({ ...base, status: "failed", error: message });
+    } finally {
+      await releaseEnrollment(enrollment);
+    }
+  }
+
+  return {
+    checked: enrollments.length,
+    due: due.length,
+    sent: results.filter((r) => r.status === "sent").length,
+    failed: results.filter((r) => r.status === "failed").length,
+    deferred: due.length - batch.length,
+    suppressed: enrollments.filter((e) => suppressed.has(normalizeEmail(e.email_subscribers.email))).length,
+    results,
+  };
+}
@@ -0,0 +1,191 @@
+// Send-path processing for rendered email HTML: CSS inlining, a plain-text
+// alternative and a lint pass. Regex-based on purpose — it only has to cope
+// with our own templates, and it stays client-safe so the Email page preview
+// can show the same warnings the send path enforces.
+
+export type LintLevel = "error" | "warning";
+
+export interface LintIssue {
+  level: LintLevel;
+  message: string;
+}
+
+// Gmail clips messages over 102KB, hiding everything below the cut —
+// including the unsubscribe link.
+export const MAX_HTML_BYTES = 102 * 1024;
+const WARN_HTML_BYTES = 80 * 1024;
+
+export class EmailLintError extends Error {
+  constructor(public readonly issues: LintIssue[]) {
+    super(`Email failed lint: ${issues.filter((i) => i.level === "error").map((i) => i.message).join("; ")}`);
+    this.name = "EmailLintError";
+  }
+}
+
+const ENTITIES: Record<string, string> = { amp: "&", lt: "<", gt: ">", quot: '"', "#39": "'", apos: "'", nbsp: " ", mdash: "—", ndash: "–", hellip: "…" };
+
+function decodeEntities(text: string): string {
+  return text
+    .replace(/&#(\d+);/g, (m, code) => (m === "&#39;" ? "'" : String.fromCodePoint(Number(code))))
+    .replace(/&#x([0-9a-f]+);/gi, (_m, hex) => String.fromCodePoint(parseInt(hex, 16)))
+    .replace(/&([a-z]+|#39);/gi, (m, name: string) => ENTITIES[name.toLowerCase()] ?? m);
+}
+
+function getAttribute(tag: string, name: string): string | null {
+  const match = tag.match(new RegExp(`\\s${name}\\s*=\\s*(?:"([^"]*)"|'([^']*)'|([^\\s>]+))`, "i"));
+  return match ? match[1] ?? match[2] ?? match[3] ?? "" : null;
+}
+
+function byteLength(text: string): number {
+  return new TextEncoder().encode(text).length;
+}
+
+interface CssRule {
+  tag: string | null;
+  className: string | null;
+  id: string | null;
+  declarations: string;
+}
+
+// Supports the selectors worth writing in an email: `tag`, `.class`, `#id`,
+// `tag.class`, and comma-separated lists of those.
+function parseSelector(selector: string): Omit<CssRule, "declarations"> | null {
+  const match = selector.trim().match(/^([a-z][a-z0-9]*)?(?:\.([\w-]+))?(?:#([\w-]+))?$/i);
+  if (!match || (!match[1] && !match[2] && !match[3])) return null;
+  return { tag: match[1]?.toLowerCase() ?? null, className: match[2] ?? null, id: match[3] ?? null };
+}
+
+// Moves <style> rules onto the matching elements' style attributes, since
+// most mail clients drop <style> blocks. Existing inline styles win over
+// stylesheet rules. Rules that can't be inlined (@media, descendant
+// selectors…) are kept in a <style> block for the clients that do support it.
+export function inlineCss(html: string): string {
+  const rules: CssRule[] = [];
+  const leftovers: string[] = [];
+
+  const withoutStyles = html.replace(/<style[^>]*>([\s\S]*?)<\/style>/gi, (_m, css: string) => {
+    const body = css.replace(/\/\*[\s\S]*?\*\//g, "");
+    const atRules: string[] = body.match(/@[^{]+\{(?:[^{}]*\{[^{}]*\})*[^{}]*\}/g) ?? [];
+    leftovers.push(...atRules);
+    const plain = atRules.reduce((rest, rule) => rest.replace(rule, ""), body);
+    for (const [, selectors, declarations] of plain.matchAll(/([^{}]+)\{([^{}]*)\}/g)) {
+      for (const selector of selectors.split(",")) {
+        const parsed = parseSelector(selector);
+        if (parsed) rules.push({ ...parsed, declarations: declarations.trim().replace(/;?\s*$/, ";") });
+        else leftovers.push(`${selector.trim()} {${declarations}}`);
+      }
+    }
+    return "";
+  });
+
+  if (rules.length === 0 && leftovers.length === 0) return html;
+
+  const inlined = withoutStyles.replace(/<([a-z][a-z0-9]*)(\s[^>]*)?>/gi, (tag, name: string, attrs = "") => {
+    const classes = (getAttribute(tag, "class") ?? "").split(/\s+/).filter(Boolean);
+    const id = getAttribute(tag, "id");
+    const matched = rules
+      .filter((r) => (!r.tag || r.tag === name.toLowerCase()) && (!r.className || classes.includes(r.className)) && (!r.id || r.id === id))
+      .map((r) => r.declarations);
+    if (matched.length === 0) return tag;
+
+    const existing = getAttribute(tag, "style");
+    const style = [...matched, existing ?? ""].join(" ").trim();
+    const cleaned = existing === null ? attrs : attrs.replace(/\sstyle\s*=\s*(?:"[^"]*"|'[^']*'|[^\s>]+)/i, "");
+    const selfClosing = /\/\s*$/.test(cleaned);
+    return `<${name}${cleaned.replace(/\/\s*$/, "")} style="${style.replace(/"/g, "'")}"${selfClosing ? " /" : ""}>`;
+  });
+
+  return leftovers.length > 0 ? `<style>${leftovers.join("\n")}</style>\n${inlined}` : inlined;
+}
+
+// Plain-text alternative part. Links keep their URL in brackets, list items
+// become dashes, and block elements become line breaks.
+export function htmlToText(html: string): string {
+  const text = html
+    .replace(/<(style|script|head|title)[^>]*>[\s\S]*?<\/\1>/gi, "")
+    .replace(/<!--[\s\S]*?-->/g, "")
+    .replace(/<a\s[^>]*?href\s*=\s*"([^"]*)"[^>]*>([\s\S]*?)<\/a>/gi, (_m, href: string, inner: string) => {
+      const label = inner.replace(/<[^>]+>/g, "").trim();
+      const url = decodeEntities(href);
+      if (!url.startsWith("http") || !label || decodeEntities(label) === url) return label || url;
+      return `${label} [${url}]`;
+    })
+    .replace(/<img\s[^>]*>/gi, "")
+    .replace(/<br\s*\/?>/gi, "\n")
+    .replace(/<hr\s*\/?>/gi, "\n----\n")
+    .replace(/<li[^>]*>/gi, "\n- ")
+    .replace(/<\/(p|div|h[1-6]|ul|ol|table|tr|blockquote)>/gi, "\n\n")
+    .replace(/<[^>]+>/g, "");
+
+  return decodeEntities(text)
+    .split("\n")
+    .map((line) => line.replace(/[ \t]+/g, " ").trim())
+    .join("\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
+
+function isAbsoluteUrl(url: string): boolean {
+  return /^https?:\/\//i.test(url);
+}
+
+// `unsubscribeUrl` is the link the recipient's copy must contain.
+export function lintEmailHtml(html: string, unsubscribeUrl: string): LintIssue[] {
+  const issues: LintIssue[] = [];
+
+  for (const [tag] of html.matchAll(/<img\s[^>]*>/gi)) {
+    const src = getAttribute(tag, "src");
+    const alt = getAttribute(tag, "alt");
+    if (!src) {
+      issues.push({ level: "error", message: "Image with no src" });
+      continue;
+    }
+    if (!isAbsoluteUrl(src)) {
+      issues.push({ level: "error", message: `Relative image URL "${src}" will be broken in mail clients` });
+    } else if (src.startsWith("http://")) {
+      issues.push({ level: "warning", message: `Image ${src} is not served over https` });
+    }
+    if (alt === null) issues.push({ level: "warning", message: `Image ${src} has no alt text` });
+  }
+
+  for (const [tag] of html.matchAll(/<a\s[^>]*>/gi)) {
+    const href = getAttribute(tag, "href");
+    if (href === null || href === "") {
+      issues.push({ level: "warning", message: "Link with no href" });
+    } else if (!isAbsoluteUrl(href) && !/^(mailto:|tel:|#)/i.test(href)) {
+      issues.push({ level: "error", message: `Relative link "${href}" will be broken in mail clients` });
+    }
+  }
+
+  if (/<script[\s>]/i.test(html)) {
+    issues.push({ level: "error", message: "Scripts are stripped by every mail client" });
+  }
+
+  const size = byteLength(html);
+  if (size > MAX_HTML_BYTES) {
+    issues.push({ level: "error", message: `HTML is ${Math.round(size / 1024)}KB; Gmail clips anything over ${MAX_HTML_BYTES / 1024}KB` });
+  } else if (size > WARN_HTML_BYTES) {
+    issues.push({ level: "warning", message: `HTML is ${Math.round(size / 1024)}KB, close to Gmail's ${MAX_HTML_BYTES / 1024}KB clipping limit` });
+  }
+
+  if (!html.includes(unsubscribeUrl.replace(/&/g, "&amp;")) && !html.includes(unsubscribeUrl)) {
+    issues.push({ level: "error", message: "Missing the unsubscribe link" });
+  }
+
+  return issues;
+}
+
+export interface PreparedEmail {
+  html: string;
+  text: string;
+  issues: LintIssue[];
+}
+
+// Inlines CSS, lints the result and derives the text part. Throws
+// EmailLintError if any issue is an error, so the email is never sent.
+export function prepareEmailHtml(html: string, unsubscribeUrl: string): PreparedEmail {
+  const inlined = inlineCss(html);
+  const issues = lintEmailHtml(inlined, unsubscribeUrl);
+  if (issues.some((i) => i.level === "error")) throw new EmailLintError(issues);
+  return { html: inlined, text: htmlToText(inlined), issues };
+}
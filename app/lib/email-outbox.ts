@@ -0,0 +1,268 @@
+import { randomUUID } from "node:crypto";
+import type { Transporter } from "nodemailer";
+import { SEND_ID_HEADER } from "./email-bounces";
+import type { SubscriberRow } from "./email-delivery";
+import { EmailLintError } from "./email-html";
+import { SuppressedAddressError, unsubscribeHeaders, unsubscribePageUrl } from "./email-suppression";
+import { getEmailTemplate, type RenderedTemplate } from "./email-templates";
+import { addTracking } from "./email-tracking";
+import { getPooledTransport, sendEmail } from "./mailer";
+import { getServiceSupabase } from "./supabase-admin";
+
+// The delivery queue behind POST /api/send-email. A request queues a row and
+// tries it once straight away; failures are retried by the outbox worker
+// (/api/cron/email-outbox) with exponential backoff until the row runs out
+// of attempts and is dead. Like the old synchronous route, these sends don't
+// touch the subscriber's progress, but every attempt is recorded in
+// email_sends and tracked like a drip send.
+
+export const OUTBOX_MAX_ATTEMPTS = 5;
+// Retry n waits RETRY_BASE_MINUTES × 2^(n-1): 5, 10, 20 and 40 minutes.
+const RETRY_BASE_MINUTES = 5;
+// A row locked for longer than this belongs to a worker that died mid-send.
+const STALE_LOCK_MINUTES = 10;
+// Upper bound per run so one invocation stays well inside the function timeout.
+const MAX_OUTBOX_SENDS_PER_RUN = 100;
+// Tries at writing an attempt to email_sends, a second apart, before giving up.
+const RECORD_ATTEMPTS = 3;
+
+export interface OutboxRow {
+  id: string;
+  idempotency_key: string;
+  subscriber_id: string;
+  sequence_id: string;
+  email_number: number;
+  status: "queued" | "sending" | "sent" | "dead";
+  attempts: number;
+  max_attempts: number;
+  next_attempt_at: string;
+  locked_at: string | null;
+  last_error: string | null;
+  created_by: string | null;
+  created_at: string;
+  sent_at: string | null;
+}
+
+export interface OutboxRunSummary {
+  processed: number;
+  sent: number;
+  // Failed this time, queued again with a later next_attempt_at.
+  retrying: number;
+  dead: number;
+}
+
+export interface OutboxRequest {
+  subscriberId: string;
+  sequenceId: string;
+  emailNumber: number;
+}
+
+// The key a request gets unless the caller sends its own Idempotency-Key. It
+// never expires: to send the same step again on purpose, pass a new key.
+export function outboxKey({ subscriberId, sequenceId, emailNumber }: OutboxRequest): string {
+  return `${subscriberId}:${sequenceId}:${emailNumber}`;
+}
+
+export function retryDelayMinutes(attempts: number): number {
+  return RETRY_BASE_MINUTES * 2 ** (attempts - 1);
+}
+
+// Queues an email unless a row with the same key exists, in which case that
+// row is returned with created: false.
+export async function enqueueOutboxEmail(request: OutboxRequest, key: string, createdBy: string): Promise<{ item: OutboxRow; created: boolean }> {
+  const db = getServiceSupabase();
+  const { data: inserted, error } = await db
+    .from("email_outbox")
+    .upsert(
+      {
+        idempotency_key: key,
+        subscriber_id: request.subscriberId,
+        sequence_id: request.sequenceId,
+        email_number: request.emailNumber,
+        max_attempts: OUTBOX_MAX_ATTEMPTS,
+        created_by: createdBy,
+      },
+      { onConflict: "idempotency_key", ignoreDuplicates: true }
+    )
+    .select("*");
+  if (error) throw new Error(`Failed to queue email: ${error.message}`);
+  if (inserted && inserted.length > 0) return { item: inserted[0] as OutboxRow, created: true };
+
+  const { data: existing, error: existingError } = await db.from("email_outbox").select("*").eq("idempotency_key", key).single();
+  if (existingError) throw new Error(`Failed to load queued email: ${existingError.message}`);
+  return { item: existing as OutboxRow, created: false };
+}
+
+// PostgREST filter for rows a worker may pick up: queued and due, or locked
+// by a worker that died.
+function claimableFilter(now: Date): string {
+  const staleBefore = new Date(now.getTime() - STALE_LOCK_MINUTES * 60 * 1000).toISOString();
+  return `and(status.eq.queued,next_attempt_at.lte."${now.toISOString()}"),and(status.eq.sending,locked_at.lt."${staleBefore}")`;
+}
+
+// Locks a row for delivery. Returns null if another worker has it or it
+// isn't due.
+async function claimOutboxItem(id: string, now: Date): Promise<OutboxRow | null> {
+  const { data, error } = await getServiceSupabase()
+    .from("email_outbox")
+    .update({ status: "sending", locked_at: now.toISOString() })
+    .eq("id", id)
+    .or(claimableFilter(now))
+    .select("*")
+    .maybeSingle();
+  if (error) throw new Error(`Failed to claim queued email ${id}: ${error.message}`);
+  return data as OutboxRow | null;
+}
+
+// Records one delivery attempt. Written directly rather than through
+// record_email_send(), which would also move the enrollment on. Returns why
+// it couldn't be written, after a few tries; failing the attempt instead
+// would send the email again on the retry.
+async function recordOutboxSend(item: OutboxRow, sendId: string, template: RenderedTemplate, error: string | null): Promise<string | null> {
+  let recordError: string | null = null;
+  for (let attempt = 1; attempt <= RECORD_ATTEMPTS; attempt++) {
+    const { error: insertError } = await getServiceSupabase().from("email_sends").upsert(
+      {
+        id: sendId,
+        subscriber_id: item.subscriber_id,
+        sequence_id: item.sequence_id,
+        email_number: item.email_number,
+        status: error ? "failed" : "sent",
+        error,
+        template_version: template.version,
+        variant_id: template.variantId,
+        subject: template.subject,
+        html: template.html,
+      },
+      { onConflict: "id", ignoreDuplicates: true }
+    );
+    if (!insertError) return null;
+    recordError = insertError.message;
+    if (attempt < RECORD_ATTEMPTS) await new Promise((resolve) => setTimeout(resolve, 1000));
+  }
+  console.error(`Outbox email #${item.email_number} for ${item.subscriber_id} ${error ? "failed" : "was sent"} but could not be recorded:`, recordError);
+  return recordError;
+}
+
+interface DeliveryAttempt {
+  error: string | null;
+  permanent: boolean;
+  // Why the attempt is missing from email_sends, if it is.
+  recordError?: string | null;
+}
+
+async function attemptDelivery(item: OutboxRow, transport: Transporter): Promise<DeliveryAttempt> {
+  const { data, error: lookupError } = await getServiceSupabase()
+    .from("email_subscribers")
+    .select("id, name, email, signup_date, status, attributes")
+    .eq("id", item.subscriber_id)
+    .maybeSingle();
+  if (lookupError) return { error: `Subscriber lookup failed: ${lookupError.message}`, permanent: false };
+  const subscriber = data as SubscriberRow | null;
+  if (!subscriber) return { error: "Subscriber not found", permanent: true };
+  if (subscriber.status === "pending") return { error: "Subscriber hasn't confirmed their email yet", permanent: true };
+
+  let template: RenderedTemplate | null;
+  try {
+    // Merge fields render from the stored subscriber at send time.
+    template = await getEmailTemplate(item.sequence_id, item.email_number, {
+      subscriber,
+      unsubscribeUrl: unsubscribePageUrl(subscriber.id),
+    });
+  } catch (err: unknown) {
+    // A template that fails lint won't get better on a retry; a database
+    // error might.
+    return { error: err instanceof Error ? err.message : "Unknown error", permanent: err instanceof EmailLintError };
+  }
+  if (!template) return { error: `No template found for email stage ${item.email_number}`, permanent: true };
+
+  // As in deliverStageEmail(), the send id goes into the tracking links and
+  // a header bounces quote back.
+  const sendId = randomUUID();
+  let error: string | null = null;
+  try {
+    await sendEmail(
+      {
+        to: subscriber.email,
+        subject: template.subject,
+        html: addTracking(template.html, sendId),
+        text: template.text,
+        headers: { ...unsubscribeHeaders(subscriber.id), [SEND_ID_HEADER]: sendId },
+      },
+      transport
+    );
+  } catch (err: unknown) {
+    // A refused send never reached SMTP, so there is no attempt to record.
+    if (err instanceof SuppressedAddressError) return { error: err.message, permanent: true };
+    error = err instanceof Error ? err.message : "Unknown SMTP error";
+  }
+
+  const recordError = await recordOutboxSend(item, sendId, template, error);
+  return { error, permanent: false, recordError };
+}
+
+// Claims and tries one row, then records the outcome: sent, queued for a
+// retry, or dead. Returns the updated row, or null if it couldn't be claimed.
+export async function processOutboxItem(id: string, transport: Transporter = getPooledTransport(), now = new Date()): Promise<OutboxRow | null> {
+  const item = await claimOutboxItem(id, now);
+  if (!item) return null;
+
+  const result = await attemptDelivery(item, transport);
+  const attempts = item.attempts + 1;
+  const finishedAt = new Date();
+  // A sent row keeps a note if the send history is missing it, so the Outbox
+  // card shows it.
+  const unrecorded = result.recordError ? `Sent, but missing from the send history: ${result.recordError}` : null;
+  const update = !result.error
+    ? { status: "sent", attempts, locked_at: null, last_error: unrecorded, sent_at: finishedAt.toISOString() }
+    : result.permanent || attempts >= item.max_attempts
+      ? { status: "dead", attempts, locked_at: null, last_error: result.error }
+      : {
+          status: "queued",
+          attempts,
+          locked_at: null,
+          last_error: result.error,
+          next_attempt_at: new Date(finishedAt.getTime() + retryDelayMinutes(attempts) * 60 * 1000).toISOString(),
+        };
+  if (result.error) console.error(`Outbox email #${item.email_number} for ${item.subscriber_id} failed (attempt ${attempts}):`, result.error);
+
+  const { data, error } = await getServiceSupabase().from("email_outbox").update(update).eq("id", item.id).select("*").single();
+  if (error) throw new Error(`Queued email ${item.id} ${result.error ? "failed" : "was sent"} but could not be updated: ${error.message}`);
+  return data as OutboxRow;
+}
+
+// Delivers every queued row that is due, oldest first, through one pooled
+// transport.
+export async function drainOutbox(now = new Date()): Promise<OutboxRunSummary> {
+  const { data: due, error } = await getServiceSupabase()
+    .from("email_outbox")
+    .select("id")
+    .or(claimableFilter(now))
+    .order("next_attempt_at")
+    .limit(MAX_OUTBOX_SENDS_PER_RUN);
+  if (error) throw error;
+
+  const summary: OutboxRunSummary = { processed: 0, sent: 0, retrying: 0, dead: 0 };
+  for (const { id } of due || []) {
+    const item = await processOutboxItem(id, undefined, now);
+    if (!item) continue;
+    summary.processed++;
+    if (item.status === "sent") summary.sent++;
+    else if (item.status === "dead") summary.dead++;
+    else summary.retrying++;
+  }
+  return summary;
+}
+
+// Gives a dead row a fresh set of attempts. Returns null unless it was dead.
+export async function requeueOutboxItem(id: string): Promise<OutboxRow | null> {
+  const { data, error } = await getServiceSupabase()
+    .from("email_outbox")
+    .update({ status: "queued", attempts: 0, next_attempt_at: new Date().toISOString() })
+    .eq("id", id)
+    .eq("status", "dead")
+    .select("*")
+    .maybeSingle();
+  if (error) throw new Error(`Failed to requeue email ${id}: ${error.message}`);
+  return data as OutboxRow | null;
+}
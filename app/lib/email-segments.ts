@@ -0,0 +1,125 @@
+// Segments: saved subscriber filters that campaigns are sent to. Client-safe:
+// the Email page uses matchesSegment() to preview a segment's recipient
+// count, the campaign run uses it to pick the actual recipients.
+//
+// Only active subscribers (confirmed, not unsubscribed) ever match. Status
+// and stage filters apply to the subscriber's enrollment in `sequenceId`, so
+// they need a sequence; without one every active subscriber is a candidate.
+
+export interface SegmentFilters {
+  sequenceId: string | null;
+  // Enrollment statuses in the sequence; empty means any.
+  statuses: string[];
+  // Inclusive bounds on the enrollment's current stage.
+  stageMin: number | null;
+  stageMax: number | null;
+  // Inclusive signup date bounds, YYYY-MM-DD.
+  signedUpFrom: string | null;
+  signedUpTo: string | null;
+  // Matches subscribers with any of these tags; empty means any.
+  tags: string[];
+}
+
+export const EMPTY_SEGMENT: SegmentFilters = {
+  sequenceId: null,
+  statuses: [],
+  stageMin: null,
+  stageMax: null,
+  signedUpFrom: null,
+  signedUpTo: null,
+  tags: [],
+};
+
+export const SEGMENT_STATUSES = ["active", "paused", "completed"];
+
+export interface SegmentCandidate {
+  status: string;
+  signup_date: string;
+  tags: string[] | null;
+}
+
+export interface SegmentEnrollment {
+  current_stage: number;
+  status: string;
+}
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// Tags are compared lower-cased and trimmed.
+export function normalizeTags(tags: string[]): string[] {
+  return Array.from(new Set(tags.map((t) => t.trim().toLowerCase()).filter(Boolean)));
+}
+
+// Validates filters from a request body. Returns the normalized filters, or
+// why they were rejected.
+export function parseSegmentFilters(value: unknown): { filters: SegmentFilters; error: null } | { filters: null; error: string } {
+  const fail = (error: string) => ({ filters: null, error });
+  if (typeof value !== "object" || value === null) return fail("filters must be an object");
+  const input = { ...EMPTY_SEGMENT, ...(value as Partial<SegmentFilters>) };
+
+  if (input.sequenceId !== null && typeof input.sequenceId !== "string") return fail("sequenceId must be a string");
+  if (!Array.isArray(input.statuses) || !input.statuses.every((s) => SEGMENT_STATUSES.includes(s))) {
+    return fail(`statuses must be a list of ${SEGMENT_STATUSES.join(", ")}`);
+  }
+  for (const bound of [input.stageMin, input.stageMax]) {
+    if (bound !== null && (!Number.isInteger(bound) || bound < 0)) return fail("Stage bounds must be non-negative integers");
+  }
+  if (input.stageMin !== null && input.stageMax !== null && input.stageMin > input.stageMax) {
+    return fail("stageMin must not be above stageMax");
+  }
+  if (!input.sequenceId && (input.statuses.length > 0 || input.stageMin !== null || input.stageMax !== null)) {
+    return fail("Status and stage filters need a sequence");
+  }
+  for (const date of [input.signedUpFrom, input.signedUpTo]) {
+    if (date !== null && (typeof date !== "string" || !DATE_PATTERN.test(date))) return fail("Signup dates must be YYYY-MM-DD");
+  }
+  if (!Array.isArray(input.tags) || !input.tags.every((t) => typeof t === "string")) return fail("tags must be a list of strings");
+
+  return {
+    filters: {
+      sequenceId: input.sequenceId || null,
+      statuses: input.statuses,
+      stageMin: input.stageMin,
+      stageMax: input.stageMax,
+      signedUpFrom: input.signedUpFrom || null,
+      signedUpTo: input.signedUpTo || null,
+      tags: normalizeTags(input.tags),
+    },
+    error: null,
+  };
+}
+
+// `enrollment` is the subscriber's enrollment in filters.sequenceId, or null
+// if they aren't in it (or no sequence is set).
+export function matchesSegment(sub: SegmentCandidate, enrollment: SegmentEnrollment | null, filters: SegmentFilters): boolean {
+  if (sub.status !== "active") return false;
+  if (filters.sequenceId) {
+    if (!enrollment) return false;
+    if (filters.statuses.length > 0 && !filters.statuses.includes(enrollment.status)) return false;
+    if (filters.stageMin !== null && enrollment.current_stage < filters.stageMin) return false;
+    if (filters.stageMax !== null && enrollment.current_stage > filters.stageMax) return false;
+  }
+  if (filters.signedUpFrom && sub.signup_date < filters.signedUpFrom) return false;
+  if (filters.signedUpTo && sub.signup_date > filters.signedUpTo) return false;
+  if (filters.tags.length > 0 && !(sub.tags ?? []).some((t) => filters.tags.includes(t))) return false;
+  return true;
+}
+
+// One-line summary for lists, e.g. "Waitlist Nurture · active · stage 3–8 · tagged beta".
+export function describeSegment(filters: SegmentFilters, sequenceName: (id: string) => string): string {
+  const parts: string[] = [];
+  if (filters.sequenceId) parts.push(sequenceName(filters.sequenceId));
+  if (filters.statuses.length > 0) parts.push(filters.statuses.join("/"));
+  if (filters.stageMin !== null || filters.stageMax !== null) {
+    parts.push(
+      filters.stageMin === filters.stageMax
+        ? `stage ${filters.stageMin}`
+        : `stage ${filters.stageMin ?? 0}–${filters.stageMax ?? "end"}`
+    );
+  }
+  if (filters.signedUpFrom || filters.signedUpTo) {
+    parts.push(`signed up ${filters.signedUpFrom ?? "…"} to ${filters.signedUpTo ?? "today"}`);
+  }
+  if (filters.tags.length > 0) parts.push(`tagged ${filters.tags.join(" or ")}`);
+  return parts.length > 0 ? parts.join(" · ") : "All active subscribers";
+}
@@ -0,0 +1,107 @@
+import type { SubscriberRow } from "./email-delivery";
+import { getServiceSupabase } from "./supabase-admin";
+
+export interface SequenceRow {
+  id: string;
+  name: string;
+  description: string | null;
+  is_default: boolean;
+  created_by: string | null;
+  created_at: string;
+}
+
+export interface SequenceStep {
+  stage: number;
+  label: string;
+  delay_days: number;
+}
+
+export interface LoadedSequence {
+  sequence: SequenceRow;
+  // Ordered by stage; stage N is steps[N - 1].
+  steps: SequenceStep[];
+}
+
+export interface EnrollmentRow {
+  subscriber_id: string;
+  sequence_id: string;
+  current_stage: number;
+  status: "active" | "paused" | "completed";
+  enrolled_at: string;
+  // Set while a drip run is sending the next step.
+  locked_at: string | null;
+}
+
+export const MAX_DELAY_DAYS = 365;
+// An enrollment locked for longer than this belongs to a send that died.
+const STALE_LOCK_MINUTES = 10;
+
+export function isValidDelay(value: unknown): value is number {
+  return Number.isInteger(value) && (value as number) >= 0 && (value as number) <= MAX_DELAY_DAYS;
+}
+
+// Loads a sequence and its steps, or the default sequence when no id is
+// given (so API callers from before sequences existed keep working).
+// Returns null if there is no such sequence.
+export async function getSequence(sequenceId?: string | null): Promise<LoadedSequence | null> {
+  const db = getServiceSupabase();
+  const query = db.from("email_sequences").select("*");
+  const { data: sequence, error } = await (sequenceId ? query.eq("id", sequenceId) : query.eq("is_default", true)).maybeSingle();
+  if (error) throw new Error(`Failed to load sequence: ${error.message}`);
+  if (!sequence) return null;
+
+  const { data: steps, error: stepError } = await db
+    .from("email_templates")
+    .select("stage, label, delay_days")
+    .eq("sequence_id", sequence.id)
+    .order("stage");
+  if (stepError) throw new Error(`Failed to load steps of ${sequence.name}: ${stepError.message}`);
+  return { sequence, steps: steps || [] };
+}
+
+// A subscriber together with their enrollment in one sequence. enrollment is
+// null if they aren't enrolled in it.
+export async function getEnrolledSubscriber(
+  subscriberId: string,
+  sequenceId: string
+): Promise<{ subscriber: SubscriberRow; enrollment: EnrollmentRow | null } | null> {
+  const db = getServiceSupabase();
+  const [{ data: subscriber, error: subError }, { data: enrollment, error: enrollmentError }] = await Promise.all([
+    db.from("email_subscribers").select("*").eq("id", subscriberId).maybeSingle(),
+    db.from("sequence_enrollments").select("*").eq("subscriber_id", subscriberId).eq("sequence_id", sequenceId).maybeSingle(),
+  ]);
+  if (subError) throw new Error(subError.message);
+  if (enrollmentError) throw new Error(enrollmentError.message);
+  if (!subscriber) return null;
+  return { subscriber, enrollment };
+}
+
+// Locks an enrollment while one of its emails is sent, so the drip, advance
+// and resend can't send at the same time. Returns false if someone else holds
+// the lock or the enrollment has changed since it was read (a send moved
+// current_stage on).
+export async function claimEnrollment(enrollment: EnrollmentRow, now = new Date()): Promise<boolean> {
+  const staleBefore = new Date(now.getTime() - STALE_LOCK_MINUTES * 60 * 1000).toISOString();
+  const { data, error } = await getServiceSupabase()
+    .from("sequence_enrollments")
+    .update({ locked_at: now.toISOString() })
+    .eq("subscriber_id", enrollment.subscriber_id)
+    .eq("sequence_id", enrollment.sequence_id)
+    .eq("status", enrollment.status)
+    .eq("current_stage", enrollment.current_stage)
+    .or(`locked_at.is.null,locked_at.lt."${staleBefore}"`)
+    .select("subscriber_id")
+    .maybeSingle();
+  if (error) throw new Error(`Failed to claim enrollment: ${error.message}`);
+  return data !== null;
+}
+
+export async function releaseEnrollment(enrollment: EnrollmentRow) {
+  const { error } = await getServiceSupabase()
+    .from("sequence_enrollments")
+    .update({ locked_at: null })
+    .eq("subscriber_id", enrollment.subscriber_id)
+    .eq("sequence_id", enrollment.sequence_id);
+  // The lock goes stale on its own, so this only delays the next send.
+  if (error) console.error(`Failed to release enrollment of ${enrollment.subscriber_id}:`, error.message);
+}
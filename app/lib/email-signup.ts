@@ -0,0 +1,125 @@
+import { normalizeEmail } from "./email-suppression";
+import { htmlToText } from "./email-html";
+import { getSequence } from "./email-sequences";
+import { getPublicBaseUrl, signEmailLink, verifyEmailLink } from "./email-tracking";
+import { sendEmail } from "./mailer";
+import { getServiceSupabase } from "./supabase-admin";
+
+export const UTM_FIELDS = ["utm_source", "utm_medium", "utm_campaign", "utm_term", "utm_content"] as const;
+
+export type Attribution = Partial<Record<(typeof UTM_FIELDS)[number] | "source" | "referrer", string>>;
+
+export interface PendingSubscriber {
+  id: string;
+  name: string;
+  email: string;
+  status: string;
+}
+
+function confirmToken(subscriberId: string): string {
+  return signEmailLink(`confirm:${subscriberId}`);
+}
+
+export function verifyConfirmToken(subscriberId: string, token: string): boolean {
+  return verifyEmailLink(`confirm:${subscriberId}`, token);
+}
+
+export function confirmPageUrl(subscriberId: string): string {
+  const params = new URLSearchParams({ id: subscriberId, token: confirmToken(subscriberId) });
+  return `${getPublicBaseUrl()}/confirm?${params.toString()}`;
+}
+
+// Creates a pending subscriber enrolled at the start of the default sequence.
+// Returns the existing row instead if the address has signed up (or been
+// added) before.
+export async function createPendingSubscriber(
+  email: string,
+  name: string,
+  attribution: Attribution
+): Promise<{ subscriber: PendingSubscriber; created: boolean }> {
+  const db = getServiceSupabase();
+  const address = normalizeEmail(email);
+
+  const { data: existing, error: lookupError } = await db
+    .from("email_subscribers")
+    .select("id, name, email, status")
+    .eq("email", address)
+    .maybeSingle();
+  if (lookupError) throw new Error(lookupError.message);
+  if (existing) return { subscriber: existing, created: false };
+
+  const { data, error } = await db
+    .from("email_subscribers")
+    .insert({
+      name,
+      email: address,
+      signup_date: new Date().toISOString().slice(0, 10),
+      status: "pending",
+      ...attribution,
+    })
+    .select("id, name, email, status")
+    .single();
+  // A concurrent signup for the same address hit the unique constraint first.
+  if (error?.code === "23505") return createPendingSubscriber(email, name, attribution);
+  if (error) throw new Error(error.message);
+
+  // The drip skips pending subscribers; confirming sends step 1 right away.
+  // Without its enrollment the subscriber is taken out again, so signing up
+  // once more starts from scratch instead of finding a half-created row.
+  try {
+    const defaultSequence = await getSequence();
+    if (defaultSequence) {
+      const { error: enrollError } = await db
+        .from("sequence_enrollments")
+        .insert({ subscriber_id: data.id, sequence_id: defaultSequence.sequence.id });
+      if (enrollError) throw new Error(enrollError.message);
+    }
+  } catch (err: unknown) {
+    const { error: rollbackError } = await db.from("email_subscribers").delete().eq("id", data.id);
+    if (rollbackError) console.error(`Failed to remove subscriber ${data.id} after enrollment failed:`, rollbackError.message);
+    throw err;
+  }
+  return { subscriber: data, created: true };
+}
+
+// The double opt-in email. Deliberately not a nurture template: it isn't part
+// of the sequence, isn't tracked and has no unsubscribe link — ignoring it is
+// how you decline.
+export async function sendConfirmationEmail(subscriber: PendingSubscriber) {
+  const url = confirmPageUrl(subscriber.id).replace(/&/g, "&amp;");
+  const html = `<div style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', sans-serif; max-width: 480px; margin: 0 auto; padding: 24px; color: #111;">
+  <h1 style="font-size: 20px; margin: 0 0 12px 0;">Confirm your spot on the Traqd waitlist</h1>
+  <p style="font-size: 14px; line-height: 1.6; margin: 0 0 20px 0;">Someone (hopefully you) signed up to the Traqd waitlist with this address. Confirm it and we'll start sending you updates.</p>
+  <p style="margin: 0 0 20px 0;"><a href="${url}" style="display: inline-block; background: #86EFAC; color: #000; padding: 12px 20px; border-radius: 8px; text-decoration: none; font-weight: 600;">Confirm my email</a></p>
+  <p style="font-size: 12px; line-height: 1.6; color: #666; margin: 0;">If you didn't sign up, ignore this email and you won't hear from us again.</p>
+</div>`;
+
+  await sendEmail({
+    to: subscriber.email,
+    subject: "Confirm your spot on the Traqd waitlist",
+    html,
+    text: htmlToText(html),
+  });
+}
+
+// Activates a pending subscriber. Returns null if the id is unknown; the
+// returned previousStatus tells the caller whether anything changed.
+export async function confirmSubscriber(subscriberId: string) {
+  const db = getServiceSupabase();
+  const { data: before, error: beforeError } = await db.from("email_subscribers").select("*").eq("id", subscriberId).maybeSingle();
+  if (beforeError) throw new Error(beforeError.message);
+  if (!before) return null;
+  if (before.status !== "pending") return { subscriber: before, previousStatus: before.status as string };
+
+  const { data, error } = await db
+    .from("email_subscribers")
+    .update({ status: "active", confirmed_at: new Date().toISOString() })
+    .eq("id", subscriberId)
+    .eq("status", "pending")
+    .select("*")
+    .maybeSingle();
+  if (error) throw new Error(error.message);
+  // Someone else confirmed in between; report it as already done.
+  if (!data) return { subscriber: before, previousStatus: "active" };
+  return { subscriber: data, previousStatus: "pending" };
+}
@@ -0,0 +1,97 @@
+import { getPublicBaseUrl, signEmailLink, verifyEmailLink } from "./email-tracking";
+import { chunked, getServiceSupabase } from "./supabase-admin";
+
+export type SuppressionReason = "unsubscribed" | "bounced" | "complained";
+
+// Thrown by sendEmail() instead of contacting an address on the suppression list.
+export class SuppressedAddressError extends Error {
+  constructor(public readonly email: string, public readonly reason: SuppressionReason) {
+    super(`${email} is suppressed (${reason}) and will not be emailed`);
+    this.name = "SuppressedAddressError";
+  }
+}
+
+export function normalizeEmail(email: string): string {
+  return email.trim().toLowerCase();
+}
+
+function unsubscribeToken(subscriberId: string): string {
+  return signEmailLink(`unsubscribe:${subscriberId}`);
+}
+
+export function verifyUnsubscribeToken(subscriberId: string, token: string): boolean {
+  return verifyEmailLink(`unsubscribe:${subscriberId}`, token);
+}
+
+// The confirmation page linked from the email footer. Mail clients that
+// support RFC 8058 skip it and POST straight to unsubscribeEndpoint().
+export function unsubscribePageUrl(subscriberId: string): string {
+  const params = new URLSearchParams({ id: subscriberId, token: unsubscribeToken(subscriberId) });
+  return `${getPublicBaseUrl()}/unsubscribe?${params.toString()}`;
+}
+
+export function unsubscribeEndpoint(subscriberId: string): string {
+  const params = new URLSearchParams({ id: subscriberId, token: unsubscribeToken(subscriberId) });
+  return `${getPublicBaseUrl()}/api/unsubscribe?${params.toString()}`;
+}
+
+export function unsubscribeHeaders(subscriberId: string): Record<string, string> {
+  return {
+    "List-Unsubscribe": `<${unsubscribeEndpoint(subscriberId)}>`,
+    "List-Unsubscribe-Post": "List-Unsubscribe=One-Click",
+  };
+}
+
+export async function getSuppression(email: string): Promise<SuppressionReason | null> {
+  const { data, error } = await getServiceSupabase()
+    .from("email_suppressions")
+    .select("reason")
+    .eq("email", normalizeEmail(email))
+    .maybeSingle();
+  if (error) throw new Error(`Suppression check failed: ${error.message}`);
+  return (data?.reason as SuppressionReason | undefined) ?? null;
+}
+
+// Which of the addresses are suppressed, normalized. Looked up in chunks, so
+// any number of addresses can be checked.
+export async function getSuppressedEmails(emails: string[]): Promise<Set<string>> {
+  const suppressed = new Set<string>();
+  for (const chunk of chunked([...new Set(emails.map(normalizeEmail))])) {
+    const { data, error } = await getServiceSupabase().from("email_suppressions").select("email").in("email", chunk);
+    if (error) throw new Error(`Suppression check failed: ${error.message}`);
+    for (const row of data || []) suppressed.add(row.email as string);
+  }
+  return suppressed;
+}
+
+export async function suppressEmail(email: string, reason: SuppressionReason, detail: string | null = null) {
+  const { error } = await getServiceSupabase()
+    .from("email_suppressions")
+    .upsert({ email: normalizeEmail(email), reason, detail }, { onConflict: "email", ignoreDuplicates: true });
+  if (error) throw new Error(`Failed to suppress ${email}: ${error.message}`);
+}
+
+export interface UnsubscribeResult {
+  email: string;
+  previousStatus: string;
+}
+
+// Takes the subscriber out of the sequence and suppresses the address. Safe to
+// call twice: mail clients and link scanners often repeat the request.
+export async function unsubscribeSubscriber(subscriberId: string): Promise<UnsubscribeResult | null> {
+  const db = getServiceSupabase();
+  const { data: sub, error } = await db.from("email_subscribers").select("id, email, status").eq("id", subscriberId).maybeSingle();
+  if (error) throw new Error(`Subscriber lookup failed: ${error.message}`);
+  if (!sub) return null;
+
+  if (sub.status !== "unsubscribed") {
+    const { error: updateError } = await db
+      .from("email_subscribers")
+      .update({ status: "unsubscribed", unsubscribed_at: new Date().toISOString() })
+      .eq("id", subscriberId);
+    if (updateError) throw new Error(`Failed to unsubscribe: ${updateError.message}`);
+  }
+  await suppressEmail(sub.email, "unsubscribed");
+
+  return { email: sub.email, previousStatus: sub.status };
+}
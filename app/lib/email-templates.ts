@@ -1,369 +1,122 @@
-export interface EmailTemplate {
-  subject: string;
-  html: string;
+import { assignVariant } from "./ab-testing";
+import { prepareEmailHtml, type LintIssue } from "./email-html";
+import { buildMergeContext, renderTemplate, type EmailTemplate, type MergeSubscriber } from "./render-template";
+import { getServiceSupabase } from "./supabase-admin";
+
+export interface EmailTemplateRow extends EmailTemplate {
+  sequence_id: string;
+  stage: number;
+  label: string;
+  delay_days: number;
+  version: number;
+  control_weight: number;
+  updated_at: string;
+  updated_by: string | null;
 }
 
-export function getEmailTemplate(stage: number, name: string): EmailTemplate | null {
-  const templates: Record<number, EmailTemplate> = {
-    1: {
-      subject: "Welcome to Traqd — You're In 🎉",
-      html: `
-<div style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; max-width: 600px; margin: 0 auto; padding: 40px 20px; color: #1a1a1a;">
-  <img src="https://traqd.io/traqd-logo.png" alt="Traqd" style="height: 32px; margin-bottom: 30px;" />
-
-  <h1 style="font-size: 24px; font-weight: 700; margin-bottom: 16px; color: #000;">You're on the list, ${name}.</h1>
-
-  <p style="font-size: 16px; line-height: 1.6; color: #333;">
-    You just took the first step toward actually seeing your full financial picture. No more guessing. No more scattered spreadsheets. No more "I'll figure it out later."
-  </p>
-
-  <div style="text-align: center; margin: 30px 0; background: #000; border-radius: 16px; padding: 20px;">
-    <img src="https://casperops.vercel.app/traqd-hero-phone.jpg" alt="Traqd Dashboard" style="max-width: 300px; width: 100%; height: auto;" />
-  </div>
-
-  <p style="font-size: 16px; line-height: 1.6; color: #333;"><strong>Here's what happens next:</strong></p>
-
-  <ul style="font-size: 16px; line-height: 1.8; color: #333; padding-left: 20px;">
-    <li>You'll get early access before anyone else</li>
-    <li>Your launch price is <strong>locked in forever</strong></li>
-    <li>We'll share tips on tracking your income smarter</li>
-  </ul>
-
-  <p style="font-size: 16px; line-height: 1.6; color: #333;">
-    We built Traqd because we were tired of juggling 5 platforms and having zero clarity on what we actually earned. If that sounds familiar — you're in the right place.
-  </p>
-
-  <p style="font-size: 16px; line-height: 1.6; color: #333;">
-    Talk soon,<br/><strong>Kofi & Curtis</strong><br/><span style="color: #666;">Founders, Traqd</span>
-  </p>
-
-  <hr style="border: none; border-top: 1px solid #eee; margin: 30px 0;" />
-  <p style="font-size: 12px; color: #999;">You're receiving this because you signed up for the Traqd waitlist. <a href="https://traqd.io" style="color: #999;">traqd.io</a></p>
-</div>`,
-    },
-    2: {
-      subject: "Be honest — do you actually know how much you made last month?",
-      html: `
-<div style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; max-width: 600px; margin: 0 auto; padding: 40px 20px; color: #1a1a1a;">
-  <img src="https://traqd.io/traqd-logo.png" alt="Traqd" style="height: 32px; margin-bottom: 30px;" />
-
-  <h1 style="font-size: 24px; font-weight: 700; margin-bottom: 16px; color: #000;">Here's what no one talks about, ${name}.</h1>
-
-  <p style="font-size: 16px; line-height: 1.6; color: #333;">
-    You worked hard last month. Clients paid you. Your shop made sales. Maybe a side gig came through. But if someone asked you <strong>"exactly how much did you make?"</strong> — could you answer?
-  </p>
-
-  <p style="font-size: 16px; line-height: 1.6; color: #333;">
-    Most people earning from multiple sources can't. Not because they're bad with money — but because the money is <strong>scattered everywhere</strong>.
-  </p>
-
-  <ul style="font-size: 16px; line-height: 1.8; color: #333; padding-left: 20px;">
-    <li>Freelance payments in one app</li>
-    <li>Shop revenue in another</li>
-    <li>Side gig money in a third</li>
-    <li>Bank statements that don't match any of it</li>
-  </ul>
-
-  <p style="font-size: 16px; line-height: 1.6; color: #333;">
-    Then tax season hits. And suddenly you're spending <strong>days</strong> trying to piece together what you earned, from where, and when.
-  </p>
-
-  <p style="font-size: 16px; line-height: 1.6; color: #333;">
-    Sound familiar? Tomorrow we'll show you how we're fixing this. For good.
-  </p>
-
-  <div style="background: #000; border-radius: 16px; padding: 20px; margin: 30px 0; text-align: center;">
-    <img src="https://casperops.vercel.app/traqd-ai-cfo.jpg" alt="Traqd AI — Your Personal CFO" style="max-width: 100%; border-radius: 12px;" />
-  </div>
-
-  <p style="font-size: 16px; line-height: 1.6; color: #333;">
-    — Kofi & Curtis
-  </p>
-
-  <hr style="border: none; border-top: 1px solid #eee; margin: 30px 0;" />
-  <p style="font-size: 12px; color: #999;">You're receiving this because you signed up for the Traqd waitlist. <a href="https://traqd.io" style="color: #999;">traqd.io</a></p>
-</div>`,
-    },
-    3: {
-      subject: "Screenshot your income. AI does the rest.",
-      html: `
-<div style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; max-width: 600px; margin: 0 auto; padding: 40px 20px; color: #1a1a1a;">
-  <img src="https://traqd.io/traqd-logo.png" alt="Traqd" style="height: 32px; margin-bottom: 30px;" />
-
-  <h1 style="font-size: 24px; font-weight: 700; margin-bottom: 16px; color: #000;">${name}, meet Traqd.</h1>
-
-  <p style="font-size: 16px; line-height: 1.6; color: #333;">
-    Yesterday we talked about the problem. Today — the solution.
-  </p>
-
-  <div style="text-align: center; margin: 30px 0;">
-    <img src="https://casperops.vercel.app/traqd-analytics-sq.jpg" alt="Traqd Analytics Dashboard" style="max-width: 280px; width: 280px; border-radius: 12px;" />
-  </div>
-
-  <p style="font-size: 16px; line-height: 1.6; color: #333;">
-    <strong>Traqd works in 3 steps:</strong>
-  </p>
-
-  <div style="background: #f8f8f8; border-radius: 12px; padding: 24px; margin: 20px 0;">
-    <p style="font-size: 16px; margin: 0 0 12px 0;"><strong>1. Capture</strong> — Screenshot your earnings from any platform. Upload bank statements. The AI reads it instantly.</p>
-    <p style="font-size: 16px; margin: 0 0 12px 0;"><strong>2. See everything</strong> — One dashboard shows ALL your income streams, expenses, and net profit in real time.</p>
-    <p style="font-size: 16px; margin: 0;"><strong>3. Share</strong> — Generate a clean, shareable link for your accountant. Tax season in seconds, not days.</p>
-  </div>
-
-  <p style="font-size: 16px; line-height: 1.6; color: #333;">
-    No manual entry. No spreadsheets. No accounting degree required. Works with <strong>100+ platforms</strong> — Upwork, Shopify, YouTube, Airbnb, Stripe, PayPal, and more.
-  </p>
-
-  <p style="font-size: 16px; line-height: 1.6; color: #333;">
-    Built for people who hustle, not accountants.
-  </p>
-
-  <p style="font-size: 16px; line-height: 1.6; color: #333;">
-    — Kofi & Curtis
-  </p>
-
-  <hr style="border: none; border-top: 1px solid #eee; margin: 30px 0;" />
-  <p style="font-size: 12px; color: #999;">You're receiving this because you signed up for the Traqd waitlist. <a href="https://traqd.io" style="color: #999;">traqd.io</a></p>
-</div>`,
-    },
-    4: {
-      subject: "\"I finally know exactly what I earn\" — here's what people are saying",
-      html: `
-<div style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; max-width: 600px; margin: 0 auto; padding: 40px 20px; color: #1a1a1a;">
-  <img src="https://traqd.io/traqd-logo.png" alt="Traqd" style="height: 32px; margin-bottom: 30px;" />
-
-  <h1 style="font-size: 24px; font-weight: 700; margin-bottom: 16px; color: #000;">You're not the only one tired of guessing, ${name}.</h1>
-
-  <div style="text-align: center; margin: 24px 0;">
-    <img src="https://casperops.vercel.app/traqd-hero-phone.png" alt="Traqd App" style="max-width: 280px; width: 280px; border-radius: 12px;" />
-  </div>
-
-  <p style="font-size: 16px; line-height: 1.6; color: #333;">
-    Here's what early testers are telling us:
-  </p>
-
-  <div style="border-left: 3px solid #22C55E; padding: 16px 20px; margin: 20px 0; background: #f8fdf8; border-radius: 0 8px 8px 0;">
-    <p style="font-size: 16px; margin: 0; color: #333; font-style: italic;">"I was using 3 different spreadsheets to track income from my Etsy shop, freelance work, and Airbnb. With Traqd I just screenshot my dashboards and it's all in one place. I can't go back."</p>
-    <p style="font-size: 14px; margin: 8px 0 0 0; color: #666;">— Side hustler, 4 income streams</p>
-  </div>
-
-  <div style="border-left: 3px solid #22C55E; padding: 16px 20px; margin: 20px 0; background: #f8fdf8; border-radius: 0 8px 8px 0;">
-    <p style="font-size: 16px; margin: 0; color: #333; font-style: italic;">"Tax season used to take me a full week. Now I generate a link and send it to my accountant. Done in minutes."</p>
-    <p style="font-size: 14px; margin: 8px 0 0 0; color: #666;">— Freelance developer</p>
-  </div>
-
-  <div style="border-left: 3px solid #22C55E; padding: 16px 20px; margin: 20px 0; background: #f8fdf8; border-radius: 0 8px 8px 0;">
-    <p style="font-size: 16px; margin: 0; color: #333; font-style: italic;">"I thought I was making good money. Turns out two of my income streams were barely breaking even. Traqd showed me where to focus."</p>
-    <p style="font-size: 14px; margin: 8px 0 0 0; color: #666;">— E-commerce seller</p>
-  </div>
-
-  <p style="font-size: 16px; line-height: 1.6; color: #333;">
-    You're already on the list. When we launch, you'll be first in line.
-  </p>
-
-  <p style="font-size: 16px; line-height: 1.6; color: #333;">— Kofi & Curtis</p>
-
-  <hr style="border: none; border-top: 1px solid #eee; margin: 30px 0;" />
-  <p style="font-size: 12px; color: #999;">You're receiving this because you signed up for the Traqd waitlist. <a href="https://traqd.io" style="color: #999;">traqd.io</a></p>
-</div>`,
-    },
-    5: {
-      subject: "The AI feature that changes everything",
-      html: `
-<div style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; max-width: 600px; margin: 0 auto; padding: 40px 20px; color: #1a1a1a;">
-  <img src="https://traqd.io/traqd-logo.png" alt="Traqd" style="height: 32px; margin-bottom: 30px;" />
-
-  <h1 style="font-size: 24px; font-weight: 700; margin-bottom: 16px; color: #000;">${name}, imagine asking your money a question.</h1>
-
-  <div style="text-align: center; margin: 30px 0; background: #000; border-radius: 16px; padding: 20px;">
-    <img src="https://casperops.vercel.app/traqd-hero-phone.jpg" alt="Traqd Dashboard" style="max-width: 300px; width: 100%; height: auto;" />
-  </div>
-
-  <p style="font-size: 16px; line-height: 1.6; color: #333;">
-    "How much did I make from Shopify this quarter?"<br/>
-    "Which income stream grew the most?"<br/>
-    "What's my monthly average across all platforms?"
-  </p>
-
-  <p style="font-size: 16px; line-height: 1.6; color: #333;">
-    With <strong>Traqd AI</strong>, you just ask. No formulas. No pivot tables. No digging through bank statements. Just plain-language questions and instant answers from your real data.
-  </p>
-
-  <div style="background: #0D0D0D; border-radius: 12px; padding: 24px; margin: 20px 0; color: #fff;">
-    <p style="font-size: 14px; color: #22C55E; margin: 0 0 8px 0;">You asked:</p>
-    <p style="font-size: 16px; margin: 0 0 16px 0;">"What's my best performing platform this year?"</p>
-    <p style="font-size: 14px; color: #22C55E; margin: 0 0 8px 0;">Traqd AI:</p>
-    <p style="font-size: 16px; margin: 0;">"Your Shopify store generated the most revenue at $4,230, up 47% from last quarter. YouTube is your fastest growing source at +28% month over month."</p>
-  </div>
-
-  <p style="font-size: 16px; line-height: 1.6; color: #333;"><strong>Other features you'll love:</strong></p>
-
-  <ul style="font-size: 16px; line-height: 1.8; color: #333; padding-left: 20px;">
-    <li>Screenshot capture — AI reads your earnings instantly</li>
-    <li>Bank statement upload — CSV or PDF from any bank</li>
-    <li>Real-time dashboard — all income streams at a glance</li>
-    <li>Shareable reports — one link for your accountant</li>
-    <li>Bank-level encryption — AES-256, we never store raw screenshots</li>
-  </ul>
-
-  <p style="font-size: 16px; line-height: 1.6; color: #333;">— Kofi & Curtis</p>
-
-  <hr style="border: none; border-top: 1px solid #eee; margin: 30px 0;" />
-  <p style="font-size: 12px; color: #999;">You're receiving this because you signed up for the Traqd waitlist. <a href="https://traqd.io" style="color: #999;">traqd.io</a></p>
-</div>`,
-    },
-    6: {
-      subject: "\"But I already use spreadsheets...\"",
-      html: `
-<div style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; max-width: 600px; margin: 0 auto; padding: 40px 20px; color: #1a1a1a;">
-  <img src="https://traqd.io/traqd-logo.png" alt="Traqd" style="height: 32px; margin-bottom: 30px;" />
-
-  <h1 style="font-size: 24px; font-weight: 700; margin-bottom: 16px; color: #000;">Let's address the elephant in the room, ${name}.</h1>
-
-  <div style="text-align: center; margin: 24px 0;">
-    <img src="https://casperops.vercel.app/traqd-ai-cfo.jpg" alt="Traqd AI CFO" style="max-width: 280px; width: 280px; border-radius: 12px;" />
-  </div>
-
-  <p style="font-size: 16px; line-height: 1.6; color: #333;">
-    We hear these a lot. Let's be real about each one:
-  </p>
-
-  <p style="font-size: 16px; line-height: 1.6; color: #333;">
-    <strong>"I already track things in a spreadsheet."</strong><br/>
-    How many hours a month does that take? Do you update it every time money comes in? When was the last time it was accurate? Traqd does it in seconds with a screenshot.
-  </p>
-
-  <p style="font-size: 16px; line-height: 1.6; color: #333;">
-    <strong>"QuickBooks/FreshBooks handles this."</strong><br/>
-    Those are built for accountants running businesses with invoices and payroll. You're a creator/freelancer/hustler earning from 5 different platforms. Different problem, different solution. Also — they cost $37-137/month. Traqd starts at $8.25/month.
-  </p>
-
-  <p style="font-size: 16px; line-height: 1.6; color: #333;">
-    <strong>"I'll just figure it out at tax time."</strong><br/>
-    That's what everyone says. Then tax season arrives and you're spending 3-5 days reconstructing a year of income from memory, bank statements, and platform dashboards. Every year. Same pain, on repeat.
-  </p>
-
-  <p style="font-size: 16px; line-height: 1.6; color: #333;">
-    <strong>"Is my data safe?"</strong><br/>
-    AES-256 encryption. We never store raw screenshots — only encrypted, extracted data. Bank-level security, because your financial data deserves it.
-  </p>
-
-  <p style="font-size: 16px; line-height: 1.6; color: #333;">
-    Still have questions? Reply to this email — we read every one.
-  </p>
-
-  <p style="font-size: 16px; line-height: 1.6; color: #333;">— Kofi & Curtis</p>
-
-  <hr style="border: none; border-top: 1px solid #eee; margin: 30px 0;" />
-  <p style="font-size: 12px; color: #999;">You're receiving this because you signed up for the Traqd waitlist. <a href="https://traqd.io" style="color: #999;">traqd.io</a></p>
-</div>`,
-    },
-    7: {
-      subject: "Launch prices won't last — here's what you're locking in",
-      html: `
-<div style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; max-width: 600px; margin: 0 auto; padding: 40px 20px; color: #1a1a1a;">
-  <img src="https://traqd.io/traqd-logo.png" alt="Traqd" style="height: 32px; margin-bottom: 30px;" />
-
-  <h1 style="font-size: 24px; font-weight: 700; margin-bottom: 16px; color: #000;">${name}, your spot is secured — but the price won't stay this low.</h1>
-
-  <div style="text-align: center; margin: 24px 0;">
-    <img src="https://casperops.vercel.app/traqd-analytics-sq.jpg" alt="Traqd Analytics" style="max-width: 280px; width: 280px; border-radius: 12px;" />
-  </div>
-
-  <p style="font-size: 16px; line-height: 1.6; color: #333;">
-    Because you joined the waitlist, you've locked in our <strong>launch pricing forever</strong>. Here's what that looks like:
-  </p>
-
-  <div style="background: #f8f8f8; border-radius: 12px; padding: 24px; margin: 20px 0;">
-    <div style="display: flex; justify-content: space-between; margin-bottom: 16px; padding-bottom: 16px; border-bottom: 1px solid #eee;">
-      <div><strong>Starter</strong><br/><span style="color: #666;">5 income sources, 10 AI imports/mo</span></div>
-      <div style="text-align: right;"><strong>$8.25/mo</strong><br/><span style="color: #666;">$99/year</span></div>
-    </div>
-    <div style="display: flex; justify-content: space-between; margin-bottom: 16px; padding-bottom: 16px; border-bottom: 1px solid #eee;">
-      <div><strong>Pro</strong><br/><span style="color: #666;">Unlimited everything</span></div>
-      <div style="text-align: right;"><strong>$12.42/mo</strong><br/><span style="color: #666;">$149/year</span></div>
-    </div>
-    <div style="display: flex; justify-content: space-between;">
-      <div><strong>Business</strong><br/><span style="color: #666;">Up to 5 businesses</span></div>
-      <div style="text-align: right;"><strong>$20.75/mo</strong><br/><span style="color: #666;">$249/year</span></div>
-    </div>
-  </div>
-
-  <p style="font-size: 16px; line-height: 1.6; color: #333;">
-    Compare that to QuickBooks ($37-137/mo) or FreshBooks ($19-60/mo) — and those aren't even built for multi-income earners.
-  </p>
-
-  <p style="font-size: 16px; line-height: 1.6; color: #333;">
-    <strong>After launch, prices go up.</strong> Waitlist members keep their price locked. That's the deal.
-  </p>
-
-  <p style="font-size: 16px; line-height: 1.6; color: #333;">
-    Launch is imminent. Stay tuned.
-  </p>
-
-  <p style="font-size: 16px; line-height: 1.6; color: #333;">— Kofi & Curtis</p>
-
-  <hr style="border: none; border-top: 1px solid #eee; margin: 30px 0;" />
-  <p style="font-size: 12px; color: #999;">You're receiving this because you signed up for the Traqd waitlist. <a href="https://traqd.io" style="color: #999;">traqd.io</a></p>
-</div>`,
-    },
-    8: {
-      subject: "We're almost live — are you ready?",
-      html: `
-<div style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; max-width: 600px; margin: 0 auto; padding: 40px 20px; color: #1a1a1a;">
-  <img src="https://traqd.io/traqd-logo.png" alt="Traqd" style="height: 32px; margin-bottom: 30px;" />
-
-  <h1 style="font-size: 24px; font-weight: 700; margin-bottom: 16px; color: #000;">${name}, this is it.</h1>
-
-  <div style="text-align: center; margin: 24px 0;">
-    <img src="https://casperops.vercel.app/traqd-hero-phone.png" alt="Traqd App" style="max-width: 280px; width: 280px; border-radius: 12px;" />
-  </div>
-
-  <p style="font-size: 16px; line-height: 1.6; color: #333;">
-    Over the past week, we've shown you:
-  </p>
-
-  <ul style="font-size: 16px; line-height: 1.8; color: #333; padding-left: 20px;">
-    <li>The real problem with tracking multiple income streams</li>
-    <li>How Traqd solves it in 3 simple steps</li>
-    <li>What early testers think</li>
-    <li>The AI that lets you talk to your money</li>
-    <li>Why spreadsheets and accounting software aren't the answer</li>
-    <li>The launch pricing you've locked in</li>
-  </ul>
-
-  <p style="font-size: 16px; line-height: 1.6; color: #333;">
-    Now it's almost time.
-  </p>
-
-  <div style="background: #0D0D0D; border-radius: 12px; padding: 24px; margin: 20px 0; text-align: center;">
-    <p style="font-size: 20px; font-weight: 700; color: #22C55E; margin: 0 0 8px 0;">Launch is imminent</p>
-    <p style="font-size: 16px; color: #ccc; margin: 0;">You'll be the first to know. Watch your inbox.</p>
-  </div>
-
-  <p style="font-size: 16px; line-height: 1.6; color: #333;">
-    When we go live, waitlist members get:
-  </p>
+export interface EmailVariantRow extends EmailTemplate {
+  id: string;
+  sequence_id: string;
+  stage: number;
+  name: string;
+  weight: number;
+  active: boolean;
+}
 
-  <ul style="font-size: 16px; line-height: 1.8; color: #333; padding-left: 20px;">
-    <li>First access — before the public</li>
-    <li>Launch price locked forever</li>
-    <li>Priority onboarding support</li>
-  </ul>
+export interface RenderedTemplate extends EmailTemplate {
+  // Plain-text alternative derived from the (CSS-inlined) html.
+  text: string;
+  // Lint warnings; errors never get this far.
+  warnings: LintIssue[];
+  version: number;
+  // null when the control template was chosen.
+  variantId: string | null;
+}
 
-  <p style="font-size: 16px; line-height: 1.6; color: #333;">
-    Every day without Traqd is another day you don't know your real numbers. That changes soon.
-  </p>
+export interface TemplateRecipient {
+  subscriber: MergeSubscriber & { id: string };
+  unsubscribeUrl: string;
+}
 
-  <p style="font-size: 16px; line-height: 1.6; color: #333;">
-    See you on the other side,<br/><strong>Kofi & Curtis</strong><br/><span style="color: #666;">Founders, Traqd</span>
-  </p>
+// Stage numbers run from 1 to the sequence's step count; whether the step
+// exists is up to the caller.
+export function parseStage(value: string): number | null {
+  const stage = Number(value);
+  return Number.isInteger(stage) && stage >= 1 ? stage : null;
+}
 
-  <hr style="border: none; border-top: 1px solid #eee; margin: 30px 0;" />
-  <p style="font-size: 12px; color: #999;">You're receiving this because you signed up for the Traqd waitlist. <a href="https://traqd.io" style="color: #999;">traqd.io</a></p>
-</div>`,
-    },
+// Loads a step's current template and its active A/B variants, picks the
+// recipient's variant, renders it and runs it through prepareEmailHtml().
+// Returns null if the sequence has no such step; throws if it uses merge
+// fields the engine doesn't know or fails lint with an error (EmailLintError).
+export async function getEmailTemplate(sequenceId: string, stage: number, recipient: TemplateRecipient): Promise<RenderedTemplate | null> {
+  const db = getServiceSupabase();
+  const [{ data, error }, { data: variants, error: variantError }] = await Promise.all([
+    db.from("email_templates").select("subject, html, version, control_weight").eq("sequence_id", sequenceId).eq("stage", stage).maybeSingle(),
+    db.from("email_template_variants").select("id, subject, html, weight").eq("sequence_id", sequenceId).eq("stage", stage).eq("active", true).order("name"),
+  ]);
+  if (error) throw new Error(`Failed to load template for stage ${stage}: ${error.message}`);
+  if (variantError) throw new Error(`Failed to load variants for stage ${stage}: ${variantError.message}`);
+  if (!data) return null;
+
+  const variant = assignVariant(recipient.subscriber.id, stage, [
+    { weight: data.control_weight, value: null },
+    ...(variants || []).map((v) => ({ weight: v.weight, value: v })),
+  ]);
+  const content = variant ?? data;
+
+  const rendered = renderTemplate(content, buildMergeContext(recipient.subscriber, stage, recipient.unsubscribeUrl));
+  if (rendered.unknown.length > 0) {
+    throw new Error(`Template for stage ${stage} uses unknown merge fields: ${rendered.unknown.join(", ")}`);
+  }
+
+  const prepared = prepareEmailHtml(rendered.html, recipient.unsubscribeUrl);
+  return {
+    subject: rendered.subject,
+    html: prepared.html,
+    text: prepared.text,
+    warnings: prepared.issues,
+    version: data.version,
+    variantId: variant?.id ?? null,
   };
+}
+
+// Creates the next version of a step's template and makes it current; see
+// save_email_template() for the transactional half.
+export async function saveEmailTemplate(
+  sequenceId: string,
+  stage: number,
+  content: EmailTemplate,
+  author: string,
+  restoredFrom: number | null = null
+): Promise<EmailTemplateRow> {
+  const { data, error } = await getServiceSupabase().rpc("save_email_template", {
+    p_sequence_id: sequenceId,
+    p_stage: stage,
+    p_subject: content.subject,
+    p_html: content.html,
+    p_author: author,
+    p_restored_from: restoredFrom,
+  });
+  if (error) throw new Error(error.message);
+  return data as EmailTemplateRow;
+}
 
-  return templates[stage] ?? null;
+// Appends a step to the end of a sequence, as version 1 of a new template;
+// see add_sequence_step() for the transactional half.
+export async function addSequenceStep(
+  sequenceId: string,
+  step: EmailTemplate & { label: string; delayDays: number },
+  author: string
+): Promise<EmailTemplateRow> {
+  const { data, error } = await getServiceSupabase().rpc("add_sequence_step", {
+    p_sequence_id: sequenceId,
+    p_label: step.label,
+    p_subject: step.subject,
+    p_html: step.html,
+    p_delay_days: step.delayDays,
+    p_author: author,
+  });
+  if (error) throw new Error(error.message);
+  return data as EmailTemplateRow;
 }
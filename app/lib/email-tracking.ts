@@ -0,0 +1,79 @@
+import { createHmac, timingSafeEqual } from "node:crypto";
+import { getServiceSupabase } from "./supabase-admin";
+
+export type EmailEventType = "open" | "click";
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// 1×1 transparent GIF served by the open-tracking pixel.
+export const TRACKING_PIXEL = Buffer.from("R0lGODlhAQABAIAAAAAAAP///yH5BAEAAAAALAAAAAABAAEAAAIBRAA7", "base64");
+
+// Links in sent emails have to be absolute — they are opened from the
+// recipient's mail client, not from the dashboard.
+export function getPublicBaseUrl(): string {
+  return (process.env.CASPER_PUBLIC_URL || "https://casperops.vercel.app").replace(/\/+$/, "");
+}
+
+function getSecret(): string {
+  const secret = process.env.CASPER_SESSION_SECRET;
+  if (!secret || secret.length < 32) {
+    throw new Error("CASPER_SESSION_SECRET must be set (at least 32 characters)");
+  }
+  return secret;
+}
+
+// Signs the parameters of a link embedded in an email (click redirects,
+// unsubscribe links). `input` should start with the link's purpose so a
+// signature for one kind of link is never valid for another.
+export function signEmailLink(input: string): string {
+  return createHmac("sha256", getSecret()).update(input).digest("base64url");
+}
+
+export function verifyEmailLink(input: string, signature: string): boolean {
+  const expected = Buffer.from(signEmailLink(input));
+  const actual = Buffer.from(signature);
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+// Click links are signed so /api/track/click can't be used as an open redirect.
+export function verifyClick(sendId: string, url: string, signature: string): boolean {
+  return verifyEmailLink(`click:${sendId}:${url}`, signature);
+}
+
+export function isSendId(value: string): boolean {
+  return UUID_PATTERN.test(value);
+}
+
+export function clickTrackingUrl(sendId: string, url: string): string {
+  const params = new URLSearchParams({ url, sig: signEmailLink(`click:${sendId}:${url}`) });
+  return `${getPublicBaseUrl()}/api/track/click/${sendId}?${params.toString()}`;
+}
+
+export function openTrackingUrl(sendId: string): string {
+  return `${getPublicBaseUrl()}/api/track/open/${sendId}`;
+}
+
+// Rewrites every http(s) link through the click tracker and appends the open
+// pixel. mailto: links and our own unsubscribe link are left alone.
+export function addTracking(html: string, sendId: string): string {
+  const unsubscribePrefix = `${getPublicBaseUrl()}/unsubscribe`;
+  const tracked = html.replace(/href="(https?:\/\/[^"]+)"/g, (match, url: string) => {
+    const decoded = url.replace(/&amp;/g, "&");
+    if (decoded.startsWith(unsubscribePrefix)) return match;
+    return `href="${clickTrackingUrl(sendId, decoded).replace(/&/g, "&amp;")}"`;
+  });
+  const pixel = `<img src="${openTrackingUrl(sendId)}" width="1" height="1" alt="" style="display: block; width: 1px; height: 1px; border: 0;" />`;
+  return `${tracked}\n${pixel}`;
+}
+
+export async function recordEmailEvent(sendId: string, eventType: EmailEventType, url: string | null, userAgent: string | null) {
+  const { error } = await getServiceSupabase().from("email_events").insert({
+    send_id: sendId,
+    event_type: eventType,
+    url,
+    user_agent: userAgent,
+  });
+  if (error) {
+    console.error(`Failed to record ${eventType} for send ${sendId}:`, error.message);
+  }
+}
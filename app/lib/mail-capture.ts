@@ -0,0 +1,105 @@
+import { randomUUID } from "node:crypto";
+import { mkdir, readFile, readdir, rm, writeFile } from "node:fs/promises";
+import path from "node:path";
+import nodemailer, { type Transporter } from "nodemailer";
+import type MailMessage from "nodemailer/lib/mailer/mail-message";
+
+// Development stand-ins for SMTP, selected with CASPER_MAIL_TRANSPORT (see
+// getMailTransportKind() in mailer.ts). Instead of sending, the transport
+// captures each message — in this process's memory, or as a JSON file per
+// message in CASPER_MAIL_SINK_DIR — for the /dev/outbox page.
+
+export type CaptureMode = "file" | "memory";
+
+export interface CapturedEmail {
+  id: string;
+  capturedAt: string;
+  from: string;
+  to: string;
+  subject: string;
+  // Exactly as handed to the transport: tracking added, CSS inlined.
+  html: string;
+  text: string | null;
+  headers: Record<string, string>;
+  // The full RFC 822 message nodemailer built.
+  raw: string;
+}
+
+// Newest messages kept in memory mode and listed in either mode.
+const MAX_CAPTURED = 200;
+
+// On globalThis so captures survive dev-server module reloads.
+const store = globalThis as typeof globalThis & { __capturedEmails?: CapturedEmail[] };
+
+// /dev/outbox and its API exist only outside production builds.
+export function isDevOutboxEnabled(): boolean {
+  return process.env.NODE_ENV !== "production";
+}
+
+function sinkDir(): string {
+  return path.resolve(process.env.CASPER_MAIL_SINK_DIR || ".mail-sink");
+}
+
+function asText(value: unknown): string | null {
+  return typeof value === "string" ? value : Buffer.isBuffer(value) ? value.toString("utf8") : null;
+}
+
+function addressText(value: unknown): string {
+  if (Array.isArray(value)) return value.map(addressText).join(", ");
+  if (value && typeof value === "object" && "address" in value) return String((value as { address: string }).address);
+  return typeof value === "string" ? value : "";
+}
+
+async function saveCapture(mode: CaptureMode, email: CapturedEmail) {
+  if (mode === "memory") {
+    store.__capturedEmails = [email, ...(store.__capturedEmails ?? [])].slice(0, MAX_CAPTURED);
+    return;
+  }
+  await mkdir(sinkDir(), { recursive: true });
+  await writeFile(path.join(sinkDir(), `${Date.parse(email.capturedAt)}-${email.id}.json`), JSON.stringify(email, null, 2));
+}
+
+export function createCaptureTransport(mode: CaptureMode): Transporter {
+  return nodemailer.createTransport({
+    name: `capture-${mode}`,
+    version: "1.0.0",
+    send(mail: MailMessage, callback: (err: Error | null, info: unknown) => void) {
+      mail.message.build((buildError, raw) => {
+        if (buildError) return callback(buildError, null);
+        const email: CapturedEmail = {
+          id: randomUUID(),
+          capturedAt: new Date().toISOString(),
+          from: addressText(mail.data.from),
+          to: addressText(mail.data.to),
+          subject: mail.data.subject ?? "",
+          html: asText(mail.data.html) ?? "",
+          text: asText(mail.data.text),
+          headers: Object.fromEntries(Object.entries(mail.data.headers ?? {}).map(([key, value]) => [key, String(value)])),
+          raw: raw.toString("utf8"),
+        };
+        saveCapture(mode, email)
+          .then(() => callback(null, { envelope: mail.message.getEnvelope(), messageId: mail.message.messageId(), captureId: email.id }))
+          .catch((err: Error) => callback(err, null));
+      });
+    },
+    // Nothing to release, but callers close throttled transports when done.
+    close() {},
+  });
+}
+
+// Newest first.
+export async function listCapturedEmails(mode: CaptureMode): Promise<CapturedEmail[]> {
+  if (mode === "memory") return store.__capturedEmails ?? [];
+  const files = await readdir(sinkDir()).catch(() => [] as string[]);
+  const newest = files.filter((f) => f.endsWith(".json")).sort().reverse().slice(0, MAX_CAPTURED);
+  return Promise.all(newest.map(async (file) => JSON.parse(await readFile(path.join(sinkDir(), file), "utf8")) as CapturedEmail));
+}
+
+export async function clearCapturedEmails(mode: CaptureMode): Promise<void> {
+  if (mode === "memory") {
+    store.__capturedEmails = [];
+    return;
+  }
+  const files = await readdir(sinkDir()).catch(() => [] as string[]);
+  await Promise.all(files.filter((f) => f.endsWith(".json")).map((file) => rm(path.join(sinkDir(), file))));
+}
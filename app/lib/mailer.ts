@@ -0,0 +1,84 @@
+import nodemailer, { type Transporter } from "nodemailer";
+import { SuppressedAddressError, getSuppression } from "./email-suppression";
+import { createCaptureTransport, isDevOutboxEnabled, type CaptureMode } from "./mail-capture";
+
+export const EMAIL_FROM = "Traqd <Casperowens@traqd.io>";
+
+export interface OutgoingEmail {
+  to: string;
+  subject: string;
+  html: string;
+  // Plain-text alternative part.
+  text?: string;
+  headers?: Record<string, string>;
+}
+
+const SMTP_OPTIONS = {
+  host: process.env.CASPER_SMTP_HOST,
+  port: 587,
+  secure: false,
+  requireTLS: true,
+  auth: {
+    user: process.env.CASPER_EMAIL,
+    pass: process.env.CASPER_EMAIL_PASSWORD,
+  },
+};
+
+export type MailTransportKind = "smtp" | CaptureMode;
+
+const MAIL_TRANSPORT_KINDS: MailTransportKind[] = ["smtp", "file", "memory"];
+
+// CASPER_MAIL_TRANSPORT picks where mail goes: "smtp" (the default) sends it,
+// "file" and "memory" capture it for /dev/outbox without needing an SMTP
+// server. Capturing is refused in production, where /dev/outbox doesn't
+// exist and every email would be recorded as sent without going anywhere.
+export function getMailTransportKind(): MailTransportKind {
+  const kind = (process.env.CASPER_MAIL_TRANSPORT || "smtp").trim().toLowerCase();
+  if (!MAIL_TRANSPORT_KINDS.includes(kind as MailTransportKind)) {
+    throw new Error(`CASPER_MAIL_TRANSPORT must be one of ${MAIL_TRANSPORT_KINDS.join(", ")} (got "${kind}")`);
+  }
+  if (kind !== "smtp" && !isDevOutboxEnabled()) {
+    throw new Error(`CASPER_MAIL_TRANSPORT=${kind} only works outside production; unset it to send through SMTP`);
+  }
+  return kind as MailTransportKind;
+}
+
+// Pooled SMTP connections kept open between sends.
+const POOL_MAX_CONNECTIONS = 3;
+
+let pooledTransport: Transporter | null = null;
+
+// Shared by every send that doesn't bring its own transport, so a warm server
+// instance reuses its SMTP connections instead of opening one per email.
+export function getPooledTransport(): Transporter {
+  const kind = getMailTransportKind();
+  if (kind !== "smtp") return createCaptureTransport(kind);
+  pooledTransport ??= nodemailer.createTransport({ ...SMTP_OPTIONS, pool: true, maxConnections: POOL_MAX_CONNECTIONS });
+  return pooledTransport;
+}
+
+// A pooled transport on one connection that holds sends back to at most
+// `perSecond` a second, for bulk sends. Close it when done.
+export function createThrottledTransport(perSecond: number): Transporter {
+  const kind = getMailTransportKind();
+  if (kind !== "smtp") return createCaptureTransport(kind);
+  return nodemailer.createTransport({ ...SMTP_OPTIONS, pool: true, maxConnections: 1, rateDelta: 1000, rateLimit: perSecond });
+}
+
+// Every send goes through here, so this is where unsubscribed and bounced
+// addresses are refused.
+export async function sendEmail(email: OutgoingEmail, transport: Transporter = getPooledTransport()) {
+  const suppression = await getSuppression(email.to);
+  if (suppression) {
+    throw new SuppressedAddressError(email.to, suppression);
+  }
+
+  return transport.sendMail({
+    from: EMAIL_FROM,
+    to: email.to,
+    subject: email.subject,
+    html: email.html,
+    text: email.text,
+    headers: email.headers,
+  });
+}
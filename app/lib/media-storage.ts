@@ -0,0 +1,89 @@
+import { createHmac, randomUUID, timingSafeEqual } from "node:crypto";
+import { mkdir, readFile, rm, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { MEDIA_PATH_PATTERN, MEDIA_TYPES, type PostMedia } from "./content-posts";
+import { getServiceSupabase } from "./supabase-admin";
+
+// Where post images live. CASPER_MEDIA_STORAGE picks "supabase" (the
+// default), a public Storage bucket, or "local", files in CASPER_MEDIA_DIR
+// served by /api/media/:path — a stand-in for development without Storage.
+
+export type MediaStorageKind = "supabase" | "local";
+
+// Created by supabase/migrations/20261019170000_content_post_media.sql.
+const MEDIA_BUCKET = "post-media";
+
+export function getMediaStorageKind(): MediaStorageKind {
+  const kind = (process.env.CASPER_MEDIA_STORAGE || "supabase").trim().toLowerCase();
+  if (kind !== "supabase" && kind !== "local") {
+    throw new Error(`CASPER_MEDIA_STORAGE must be supabase or local (got "${kind}")`);
+  }
+  return kind;
+}
+
+function localDir(): string {
+  return path.resolve(process.env.CASPER_MEDIA_DIR || ".media-uploads");
+}
+
+// Public URL of a stored file; local ones are relative to the dashboard.
+export function mediaUrl(file: string): string {
+  if (getMediaStorageKind() === "local") return `/api/media/${file}`;
+  return getServiceSupabase().storage.from(MEDIA_BUCKET).getPublicUrl(file).data.publicUrl;
+}
+
+// Stores an image under a new name. The caller checks type and size.
+export async function storeMedia(bytes: Buffer, contentType: string): Promise<Omit<PostMedia, "alt">> {
+  const file = `${randomUUID()}.${MEDIA_TYPES[contentType]}`;
+  if (getMediaStorageKind() === "local") {
+    await mkdir(localDir(), { recursive: true });
+    await writeFile(path.join(localDir(), file), bytes);
+  } else {
+    const { error } = await getServiceSupabase().storage.from(MEDIA_BUCKET).upload(file, bytes, { contentType });
+    if (error) throw new Error(`Failed to upload image: ${error.message}`);
+  }
+  return { path: file, url: mediaUrl(file), content_type: contentType, size: bytes.length };
+}
+
+// Signs a newly stored file's name. POST /api/media hands the token to the
+// composer, and saving a post checks it for every image not already on it.
+export function uploadToken(file: string): string {
+  const secret = process.env.CASPER_SESSION_SECRET;
+  if (!secret || secret.length < 32) {
+    throw new Error("CASPER_SESSION_SECRET must be set (at least 32 characters)");
+  }
+  return createHmac("sha256", secret).update(`media:${file}`).digest("base64url");
+}
+
+export function verifyUploadToken(file: string, token: unknown): boolean {
+  if (typeof token !== "string") return false;
+  const expected = Buffer.from(uploadToken(file));
+  const actual = Buffer.from(token);
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+// Reads a file from local storage; null if it doesn't exist.
+export async function readLocalMedia(file: string): Promise<Buffer | null> {
+  if (!MEDIA_PATH_PATTERN.test(file)) return null;
+  return readFile(path.join(localDir(), file)).catch(() => null);
+}
+
+// Best effort: a file left behind only costs storage, so failures are logged.
+export async function deleteMedia(files: string[]): Promise<void> {
+  if (files.length === 0) return;
+  try {
+    if (getMediaStorageKind() === "local") {
+      await Promise.all(files.filter((f) => MEDIA_PATH_PATTERN.test(f)).map((f) => rm(path.join(localDir(), f), { force: true })));
+    } else {
+      const { error } = await getServiceSupabase().storage.from(MEDIA_BUCKET).remove(files);
+      if (error) throw error;
+    }
+  } catch (err: unknown) {
+    console.error("Failed to delete post images:", err instanceof Error ? err.message : err);
+  }
+}
+
+// Attachments as saved on a post, with URLs rebuilt from their paths so a
+// client can't point the publisher somewhere else.
+export function withStoredUrls(media: PostMedia[]): PostMedia[] {
+  return media.map((item) => ({ ...item, url: mediaUrl(item.path) }));
+}
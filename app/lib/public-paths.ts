@@ -0,0 +1,8 @@
+// Pages that subscribers reach from links in our emails. They render without a
+// dashboard session — proxy.ts lets them through and AuthGate skips the login
+// form. Safe to import from client components.
+export const PUBLIC_PAGES = ["/unsubscribe", "/confirm"];
+
+export function isPublicPage(pathname: string | null): boolean {
+  return pathname !== null && PUBLIC_PAGES.includes(pathname);
+}
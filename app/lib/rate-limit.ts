@@ -0,0 +1,33 @@
+import { createHash } from "node:crypto";
+import type { NextRequest } from "next/server";
+import { getServiceSupabase } from "./supabase-admin";
+
+// Sliding-window limiter backed by the rate_limit_hits table — serverless
+// instances share no memory, so an in-process counter would reset on every
+// cold start. Returns true (and records nothing) once `key` has been seen
+// `limit` times in the last `windowMs`.
+export async function isRateLimited(key: string, limit: number, windowMs: number): Promise<boolean> {
+  const db = getServiceSupabase();
+  const bucket = createHash("sha256").update(key).digest("hex");
+  const since = new Date(Date.now() - windowMs).toISOString();
+
+  const { count, error } = await db
+    .from("rate_limit_hits")
+    .select("id", { count: "exact", head: true })
+    .eq("bucket", bucket)
+    .gte("created_at", since);
+  if (error) throw new Error(`Rate limit check failed: ${error.message}`);
+  if ((count ?? 0) >= limit) return true;
+
+  const { error: insertError } = await db.from("rate_limit_hits").insert({ bucket });
+  if (insertError) throw new Error(`Rate limit check failed: ${insertError.message}`);
+
+  // Old hits are never read again; clear this bucket's so the table stays small.
+  await db.from("rate_limit_hits").delete().eq("bucket", bucket).lt("created_at", since);
+  return false;
+}
+
+// Vercel puts the client address first in x-forwarded-for.
+export function clientIp(req: NextRequest): string {
+  return req.headers.get("x-forwarded-for")?.split(",")[0].trim() || req.headers.get("x-real-ip") || "unknown";
+}
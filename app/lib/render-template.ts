@@ -0,0 +1,116 @@
+// Merge-field engine for email templates. Pure and client-safe: the Email page
+// uses it for previews and validation, the send path for real emails.
+//
+// Syntax: {{field}} or {{field | "fallback"}}. Fields are the built-ins below
+// plus {{attr.<key>}} for keys in email_subscribers.attributes. Values are
+// HTML-escaped in the body and inserted as-is in the subject.
+export interface EmailTemplate {
+  subject: string;
+  html: string;
+}
+
+export interface MergeSubscriber {
+  name: string;
+  email: string;
+  signup_date: string;
+  attributes?: Record<string, unknown> | null;
+}
+
+export type MergeContext = Record<string, string>;
+
+export interface RenderedContent extends EmailTemplate {
+  // Fields that rendered empty because the recipient has no value and the
+  // template gave no fallback.
+  missing: string[];
+  // Fields that are neither built-in nor attr.* — a template bug.
+  unknown: string[];
+}
+
+export const BUILT_IN_FIELDS: Record<string, string> = {
+  name: "Full name as entered at signup",
+  first_name: "First word of the name",
+  email: "Email address",
+  signup_date: "Signup date, e.g. February 28, 2026",
+  stage: "Number of this email in its sequence, from 1",
+  unsubscribe_url: "Signed unsubscribe link (required in the body)",
+};
+
+export const ATTRIBUTE_PREFIX = "attr.";
+
+// Every body must keep its unsubscribe link.
+export const REQUIRED_FIELDS = ["unsubscribe_url"];
+
+const FIELD_PATTERN = /\{\{\s*([a-zA-Z_][\w.]*)\s*(?:\|\s*"([^"]*)"\s*)?\}\}/g;
+
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+function isKnownField(field: string): boolean {
+  return field in BUILT_IN_FIELDS || (field.startsWith(ATTRIBUTE_PREFIX) && field.length > ATTRIBUTE_PREFIX.length);
+}
+
+export function findFields(text: string): string[] {
+  return Array.from(new Set(Array.from(text.matchAll(FIELD_PATTERN), (m) => m[1])));
+}
+
+export function findUnknownFields(template: EmailTemplate): string[] {
+  return findFields(`${template.subject}\n${template.html}`).filter((f) => !isKnownField(f));
+}
+
+// Returns why a subject/body can't be saved, or null if it can.
+export function validateTemplateContent(subject: unknown, html: unknown): string | null {
+  if (typeof subject !== "string" || !subject.trim() || typeof html !== "string" || !html.trim()) {
+    return "subject and html are required";
+  }
+  const unknown = findUnknownFields({ subject, html });
+  if (unknown.length > 0) {
+    return `Unknown merge field${unknown.length > 1 ? "s" : ""}: ${unknown.map((f) => `{{${f}}}`).join(", ")}`;
+  }
+  const bodyFields = findFields(html);
+  const missing = REQUIRED_FIELDS.filter((f) => !bodyFields.includes(f));
+  return missing.length > 0 ? `html must include ${missing.map((f) => `{{${f}}}`).join(", ")}` : null;
+}
+
+function formatSignupDate(value: string): string {
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) return value;
+  return date.toLocaleDateString("en-US", { month: "long", day: "numeric", year: "numeric", timeZone: "UTC" });
+}
+
+export function buildMergeContext(subscriber: MergeSubscriber, stage: number, unsubscribeUrl: string): MergeContext {
+  const context: MergeContext = {
+    name: subscriber.name.trim(),
+    first_name: subscriber.name.trim().split(/\s+/)[0] ?? "",
+    email: subscriber.email,
+    signup_date: subscriber.signup_date ? formatSignupDate(subscriber.signup_date) : "",
+    stage: String(stage),
+    unsubscribe_url: unsubscribeUrl,
+  };
+  for (const [key, value] of Object.entries(subscriber.attributes ?? {})) {
+    if (value !== null && value !== undefined) context[`${ATTRIBUTE_PREFIX}${key}`] = String(value);
+  }
+  return context;
+}
+
+function fill(text: string, context: MergeContext, escape: boolean, missing: Set<string>, unknown: Set<string>): string {
+  return text.replace(FIELD_PATTERN, (_match, field: string, fallback: string | undefined) => {
+    const value = context[field]?.trim() ? context[field] : fallback ?? "";
+    if (!isKnownField(field)) unknown.add(field);
+    else if (!value && fallback === undefined) missing.add(field);
+    return escape ? escapeHtml(value) : value;
+  });
+}
+
+export function renderTemplate(template: EmailTemplate, context: MergeContext): RenderedContent {
+  const missing = new Set<string>();
+  const unknown = new Set<string>();
+  const subject = fill(template.subject, context, false, missing, unknown);
+  const html = fill(template.html, context, true, missing, unknown);
+  return { subject, html, missing: Array.from(missing), unknown: Array.from(unknown) };
+}
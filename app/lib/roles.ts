@@ -0,0 +1,19 @@
+export type Role = "viewer" | "operator" | "admin";
+
+export const ROLES: Role[] = ["viewer", "operator", "admin"];
+
+const ROLE_RANK: Record<Role, number> = {
+  viewer: 0,
+  operator: 1,
+  admin: 2,
+};
+
+export function isRole(value: unknown): value is Role {
+  return typeof value === "string" && (ROLES as string[]).includes(value);
+}
+
+// True when `role` is at least as privileged as `required`.
+export function hasRole(role: Role | null | undefined, required: Role): boolean {
+  if (!role) return false;
+  return ROLE_RANK[role] >= ROLE_RANK[required];
+}
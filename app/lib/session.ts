@@ -0,0 +1,70 @@
+import { createHmac, timingSafeEqual } from "node:crypto";
+import { isRole, type Role } from "./roles";
+
+export const SESSION_COOKIE = "casper_session";
+export const SESSION_MAX_AGE = 60 * 60 * 12; // seconds
+
+export interface SessionUser {
+  // null for the bootstrap admin configured through env vars.
+  userId: string | null;
+  username: string;
+  name: string;
+  role: Role;
+}
+
+export interface Session extends SessionUser {
+  issuedAt: number;
+  expiresAt: number;
+}
+
+function getSecret(): string | null {
+  const secret = process.env.CASPER_SESSION_SECRET;
+  return secret && secret.length >= 32 ? secret : null;
+}
+
+function sign(payload: string, secret: string) {
+  return createHmac("sha256", secret).update(payload).digest("base64url");
+}
+
+export function createSessionToken(user: SessionUser): { token: string; session: Session } {
+  const secret = getSecret();
+  if (!secret) {
+    throw new Error("CASPER_SESSION_SECRET must be set (at least 32 characters)");
+  }
+
+  const now = Math.floor(Date.now() / 1000);
+  const session: Session = { ...user, issuedAt: now, expiresAt: now + SESSION_MAX_AGE };
+  const payload = Buffer.from(JSON.stringify(session)).toString("base64url");
+  return { token: `${payload}.${sign(payload, secret)}`, session };
+}
+
+export function verifySessionToken(token: string | undefined | null): Session | null {
+  const secret = getSecret();
+  if (!secret || !token) return null;
+
+  const [payload, signature] = token.split(".");
+  if (!payload || !signature) return null;
+
+  const expected = Buffer.from(sign(payload, secret));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) return null;
+
+  try {
+    const session = JSON.parse(Buffer.from(payload, "base64url").toString("utf8")) as Session;
+    if (typeof session.username !== "string" || !isRole(session.role) || typeof session.expiresAt !== "number") return null;
+    if (session.expiresAt <= Math.floor(Date.now() / 1000)) return null;
+    return session;
+  } catch {
+    return null;
+  }
+}
+
+export function sessionCookieOptions(maxAge = SESSION_MAX_AGE) {
+  return {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === "production",
+    sameSite: "lax" as const,
+    path: "/",
+    maxAge,
+  };
+}
@@ -0,0 +1,71 @@
+// Bulk actions on the subscriber table. Client-safe: the Email page uses
+// checkBulkAction() to show how many selected rows an action will skip, the
+// bulk route uses it to decide which rows to change. Every action but delete
+// applies to the subscribers' enrollment in one sequence, so `status` and
+// `current_stage` are the enrollment's (see enrollmentStatus()).
+import type { Role } from "./roles";
+
+export type BulkAction = "pause" | "resume" | "advance" | "reset" | "delete";
+
+export interface BulkActionInfo {
+  label: string;
+  // advance and reset move every subscriber to one chosen stage.
+  needsStage: boolean;
+  role: Role;
+  description: string;
+}
+
+export const BULK_ACTIONS: Record<BulkAction, BulkActionInfo> = {
+  pause: { label: "Pause", needsStage: false, role: "operator", description: "Active subscribers stop receiving drip emails until resumed." },
+  resume: { label: "Resume", needsStage: false, role: "operator", description: "Paused subscribers pick up the drip where they left off." },
+  advance: { label: "Advance to stage", needsStage: true, role: "operator", description: "Skips ahead without sending the skipped emails; the drip continues from the new stage." },
+  reset: { label: "Reset to stage", needsStage: true, role: "operator", description: "Moves back so the drip re-sends the following emails. Completed subscribers become active again." },
+  delete: { label: "Delete", needsStage: false, role: "admin", description: "Permanently deletes the subscribers from every sequence, with their send history. Suppressed addresses stay suppressed." },
+};
+
+export const MAX_BULK_IDS = 500;
+
+export interface BulkSubscriber {
+  id: string;
+  email: string;
+  status: string;
+  current_stage: number;
+}
+
+export interface BulkResult {
+  id: string;
+  email: string;
+  ok: boolean;
+  error: string | null;
+}
+
+export function isBulkAction(value: unknown): value is BulkAction {
+  return typeof value === "string" && value in BULK_ACTIONS;
+}
+
+// Why `action` can't be applied to `sub`, or null if it can.
+export function checkBulkAction(action: BulkAction, sub: BulkSubscriber, stage: number | null): string | null {
+  switch (action) {
+    case "pause":
+      return sub.status === "active" ? null : `Subscriber is ${sub.status}`;
+    case "resume":
+      return sub.status === "paused" ? null : `Subscriber is ${sub.status}`;
+    case "advance":
+      if (stage === null) return "No stage chosen";
+      if (sub.status !== "active" && sub.status !== "paused") return `Subscriber is ${sub.status}`;
+      return stage > sub.current_stage ? null : `Already at stage ${sub.current_stage}`;
+    case "reset":
+      if (stage === null) return "No stage chosen";
+      if (sub.status === "pending" || sub.status === "unsubscribed" || sub.status === "suppressed") return `Subscriber is ${sub.status}`;
+      return stage < sub.current_stage ? null : `Already at stage ${sub.current_stage}`;
+    case "delete":
+      return null;
+  }
+}
+
+// The enrollment status a subscriber ends up with after moving to `stage` of
+// a sequence with `stepCount` steps.
+export function statusAfterStageChange(sub: BulkSubscriber, stage: number, stepCount: number): string {
+  if (stage >= stepCount) return "completed";
+  return sub.status === "completed" ? "active" : sub.status;
+}
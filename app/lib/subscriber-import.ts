@@ -0,0 +1,151 @@
+// Column mapping and row validation for CSV subscriber imports. Client-safe:
+// the Email page uses the field list and header guessing, the import route
+// uses planImport() for both the dry run and the real import. Stage and
+// status describe the subscriber's enrollment in the sequence imported into.
+
+import { normalizeTags } from "./email-segments";
+
+export const IMPORT_FIELDS = {
+  email: "Email",
+  name: "Name",
+  signup_date: "Signup date",
+  current_stage: "Stage",
+  status: "Status",
+  tags: "Tags",
+} as const;
+
+export type ImportField = keyof typeof IMPORT_FIELDS;
+
+// What a CSV column is imported as: a subscriber field, a custom attribute
+// keyed by the column header, or nothing.
+export type ColumnTarget = ImportField | "attribute" | "";
+
+export const IMPORT_STATUSES = ["active", "paused", "completed"];
+export const MAX_IMPORT_ROWS = 5000;
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+export function isValidEmail(email: string): boolean {
+  return EMAIL_PATTERN.test(email);
+}
+
+const HEADER_ALIASES: Record<ImportField, string[]> = {
+  email: ["email", "email address", "e-mail", "mail"],
+  name: ["name", "full name", "first name", "firstname"],
+  signup_date: ["signup date", "signup_date", "signed up", "created", "created at", "date"],
+  current_stage: ["stage", "current stage", "current_stage"],
+  status: ["status"],
+  tags: ["tags", "tag", "labels"],
+};
+
+export interface NewSubscriber {
+  name: string;
+  email: string;
+  signup_date: string;
+  current_stage: number;
+  status: string;
+  tags: string[];
+  attributes: Record<string, string>;
+}
+
+export interface ImportSkip {
+  // 1-based data row, not counting the header.
+  row: number;
+  email: string;
+  reason: string;
+}
+
+export interface ImportPlan {
+  subscribers: NewSubscriber[];
+  skipped: ImportSkip[];
+}
+
+export function guessColumnTargets(header: string[]): ColumnTarget[] {
+  const used = new Set<ImportField>();
+  return header.map((column) => {
+    const normalized = column.trim().toLowerCase();
+    const field = (Object.keys(HEADER_ALIASES) as ImportField[]).find((f) => !used.has(f) && HEADER_ALIASES[f].includes(normalized));
+    if (field) {
+      used.add(field);
+      return field;
+    }
+    return normalized ? "attribute" : "";
+  });
+}
+
+// Returns an error message, or null if the mapping can be imported.
+export function validateMapping(header: string[], targets: ColumnTarget[]): string | null {
+  if (targets.length !== header.length) return "Every column needs a mapping";
+  if (!targets.includes("email")) return "Map a column to Email";
+  for (const field of Object.keys(IMPORT_FIELDS) as ImportField[]) {
+    if (targets.filter((t) => t === field).length > 1) return `More than one column is mapped to ${IMPORT_FIELDS[field]}`;
+  }
+  const attributeKeys = header.filter((_, i) => targets[i] === "attribute").map((h) => h.trim());
+  if (attributeKeys.some((key) => !key)) return "Columns imported as attributes need a header";
+  if (new Set(attributeKeys).size !== attributeKeys.length) return "Attribute columns must have distinct headers";
+  return null;
+}
+
+function parseDate(value: string): string | null {
+  const parsed = new Date(/^\d{4}-\d{2}-\d{2}$/.test(value) ? `${value}T00:00:00Z` : value);
+  return Number.isNaN(parsed.getTime()) ? null : parsed.toISOString().slice(0, 10);
+}
+
+// Validates every row against the mapping. `existing` and `suppressed` hold
+// lower-cased addresses already in email_subscribers and email_suppressions;
+// `stepCount` is the length of the sequence imported into.
+export function planImport(
+  header: string[],
+  rows: string[][],
+  targets: ColumnTarget[],
+  existing: Set<string>,
+  suppressed: Set<string>,
+  today: string,
+  stepCount: number
+): ImportPlan {
+  const subscribers: NewSubscriber[] = [];
+  const skipped: ImportSkip[] = [];
+  const seen = new Set<string>();
+  const column = (field: ImportField) => targets.indexOf(field);
+
+  rows.forEach((cells, i) => {
+    const value = (field: ImportField) => (column(field) >= 0 ? (cells[column(field)] ?? "").trim() : "");
+    const email = value("email").toLowerCase();
+    const skip = (reason: string) => skipped.push({ row: i + 1, email, reason });
+
+    if (!isValidEmail(email)) return skip(email ? "Invalid email" : "No email");
+    if (seen.has(email)) return skip("Duplicate in file");
+    seen.add(email);
+    if (existing.has(email)) return skip("Already a subscriber");
+    if (suppressed.has(email)) return skip("On the suppression list");
+
+    const signupDate = value("signup_date") ? parseDate(value("signup_date")) : today;
+    if (!signupDate) return skip(`Invalid signup date "${value("signup_date")}"`);
+
+    // Stage is the last step already sent; 0 (or blank) starts the sequence.
+    const stage = value("current_stage") ? Number(value("current_stage")) : 0;
+    if (!Number.isInteger(stage) || stage < 0 || stage > stepCount) return skip(`Stage must be 0–${stepCount}, got "${value("current_stage")}"`);
+
+    const status = value("status").toLowerCase() || "active";
+    if (!IMPORT_STATUSES.includes(status)) return skip(`Status must be ${IMPORT_STATUSES.join(", ")}, got "${value("status")}"`);
+
+    const attributes: Record<string, string> = {};
+    targets.forEach((target, col) => {
+      const cell = (cells[col] ?? "").trim();
+      if (target === "attribute" && cell) attributes[header[col].trim()] = cell;
+    });
+
+    subscribers.push({
+      name: value("name") || email.split("@")[0],
+      email,
+      signup_date: signupDate,
+      current_stage: stage,
+      status,
+      // Several tags in one cell are separated by commas, semicolons or pipes.
+      tags: normalizeTags(value("tags").split(/[,;|]/)),
+      attributes,
+    });
+  });
+
+  return { subscribers, skipped };
+}
@@ -0,0 +1,45 @@
+import { createClient, type SupabaseClient } from "@supabase/supabase-js";
+
+// Server-only client using the service-role key. Never import this from a
+// "use client" module — the key bypasses row level security.
+let client: SupabaseClient | null = null;
+
+export function getServiceSupabase(): SupabaseClient {
+  if (!client) {
+    const url = process.env.NEXT_PUBLIC_SUPABASE_URL;
+    const key = process.env.SUPABASE_SERVICE_KEY;
+    if (!url || !key) {
+      throw new Error("NEXT_PUBLIC_SUPABASE_URL and SUPABASE_SERVICE_KEY must be set");
+    }
+    client = createClient(url, key, { auth: { persistSession: false } });
+  }
+  return client;
+}
+
+// Values per .in() filter. The list goes into the request URL, and a few
+// thousand addresses are enough to hit URL length limits (414).
+export const IN_FILTER_CHUNK = 200;
+
+export function chunked<T>(items: T[], size = IN_FILTER_CHUNK): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) chunks.push(items.slice(i, i + size));
+  return chunks;
+}
+
+// PostgREST returns at most this many rows per request (max-rows).
+const PAGE_SIZE = 1000;
+
+// Runs a select page by page with .range() until a short page comes back, so
+// rows past the max-rows cap aren't silently dropped. `page` must order the
+// query by something unique, or rows can repeat or go missing between pages.
+export async function selectAll<T>(
+  page: (from: number, to: number) => PromiseLike<{ data: T[] | null; error: { message: string } | null }>
+): Promise<T[]> {
+  const rows: T[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await page(from, from + PAGE_SIZE - 1);
+    if (error) throw error;
+    rows.push(...(data || []));
+    if (!data || data.length < PAGE_SIZE) return rows;
+  }
+}
@@ -1,5 +1,9 @@
 import { createClient } from "@supabase/supabase-js";
 
+// Browser client. The anon key is read-only (see the lock_down_anon_writes
+// migration) and can't see subscriber data at all (revoke_anon_pii_reads) —
+// writes and those reads go through the /api routes, which use
+// supabase-admin.ts.
 export const supabase = createClient(
   process.env.NEXT_PUBLIC_SUPABASE_URL!,
   process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
@@ -0,0 +1,63 @@
+// Line-based diff (longest common subsequence) for comparing template
+// versions. Templates are a few hundred lines at most, so the O(n·m) table is
+// fine. Client-safe.
+export type DiffOp = { type: "same" | "added" | "removed"; text: string };
+
+export interface DiffRow {
+  type: "same" | "changed" | "added" | "removed";
+  left: string | null;
+  right: string | null;
+}
+
+export function diffLines(before: string, after: string): DiffOp[] {
+  const a = before.split("\n");
+  const b = after.split("\n");
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const ops: DiffOp[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      ops.push({ type: "same", text: a[i] });
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      ops.push({ type: "removed", text: a[i++] });
+    } else {
+      ops.push({ type: "added", text: b[j++] });
+    }
+  }
+  while (i < a.length) ops.push({ type: "removed", text: a[i++] });
+  while (j < b.length) ops.push({ type: "added", text: b[j++] });
+  return ops;
+}
+
+// Pairs each run of removed lines with the run of added lines that follows
+// it, so a side-by-side view lines edits up on the same row.
+export function sideBySide(ops: DiffOp[]): DiffRow[] {
+  const rows: DiffRow[] = [];
+  let k = 0;
+  while (k < ops.length) {
+    if (ops[k].type === "same") {
+      rows.push({ type: "same", left: ops[k].text, right: ops[k].text });
+      k++;
+      continue;
+    }
+    const removed: string[] = [];
+    const added: string[] = [];
+    while (k < ops.length && ops[k].type === "removed") removed.push(ops[k++].text);
+    while (k < ops.length && ops[k].type === "added") added.push(ops[k++].text);
+    for (let n = 0; n < Math.max(removed.length, added.length); n++) {
+      const left = removed[n] ?? null;
+      const right = added[n] ?? null;
+      rows.push({ type: left !== null && right !== null ? "changed" : left !== null ? "removed" : "added", left, right });
+    }
+  }
+  return rows;
+}
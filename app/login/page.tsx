@@ -0,0 +1,5 @@
+// Unauthenticated page requests are rewritten here by proxy.ts; AuthGate in the
+// root layout renders the login form in place of this (empty) page.
+export default function LoginPage() {
+  return null;
+}
@@ -0,0 +1,85 @@
+"use client";
+
+import { Suspense, useState } from "react";
+import { useSearchParams } from "next/navigation";
+
+type State = "confirm" | "submitting" | "done" | "error";
+
+const cardStyle: React.CSSProperties = {
+  background: "#0D0D0D",
+  border: "1px solid #1F1F1F",
+  borderRadius: "16px",
+  padding: "40px 36px",
+  width: "100%",
+  maxWidth: "400px",
+  textAlign: "center",
+};
+
+// Public confirmation page linked from the footer of every nurture email.
+// Asking for a click (rather than unsubscribing on GET) keeps link scanners
+// from unsubscribing people by accident.
+function UnsubscribeForm() {
+  const params = useSearchParams();
+  const id = params.get("id");
+  const token = params.get("token");
+  const [state, setState] = useState<State>("confirm");
+  const [error, setError] = useState<string | null>(null);
+
+  const unsubscribe = async () => {
+    if (!id || !token) return;
+    setState("submitting");
+    try {
+      const query = new URLSearchParams({ id, token });
+      const res = await fetch(`/api/unsubscribe?${query.toString()}`, { method: "POST" });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(data.error || `HTTP ${res.status}`);
+      setState("done");
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : "Network error");
+      setState("error");
+    }
+  };
+
+  if (!id || !token) {
+    return (
+      <div style={cardStyle}>
+        <h1 style={{ fontFamily: "'Space Grotesk', sans-serif", fontWeight: 700, fontSize: "20px", color: "#fff", margin: "0 0 8px 0" }}>Invalid link</h1>
+        <p style={{ fontSize: "13px", color: "#A0A0A0", margin: 0 }}>This unsubscribe link is incomplete. Use the link at the bottom of any Traqd email.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div style={cardStyle}>
+      {state === "done" ? (
+        <>
+          <h1 style={{ fontFamily: "'Space Grotesk', sans-serif", fontWeight: 700, fontSize: "20px", color: "#fff", margin: "0 0 8px 0" }}>You&apos;re unsubscribed</h1>
+          <p style={{ fontSize: "13px", color: "#A0A0A0", margin: 0 }}>You won&apos;t receive any more emails from the Traqd waitlist sequence.</p>
+        </>
+      ) : (
+        <>
+          <h1 style={{ fontFamily: "'Space Grotesk', sans-serif", fontWeight: 700, fontSize: "20px", color: "#fff", margin: "0 0 8px 0" }}>Unsubscribe from Traqd emails?</h1>
+          <p style={{ fontSize: "13px", color: "#A0A0A0", margin: "0 0 24px 0" }}>You&apos;ll stop receiving the waitlist email sequence. This can&apos;t be undone from here.</p>
+          {state === "error" && <div style={{ fontSize: "12px", color: "#EF4444", marginBottom: "12px" }}>{error}</div>}
+          <button
+            onClick={unsubscribe}
+            disabled={state === "submitting"}
+            style={{ width: "100%", background: "#86EFAC", color: "#000", border: "none", borderRadius: "8px", padding: "12px", fontSize: "14px", fontWeight: 600, fontFamily: "'Space Grotesk', sans-serif", cursor: state === "submitting" ? "wait" : "pointer" }}
+          >
+            {state === "submitting" ? "Unsubscribing…" : "Unsubscribe"}
+          </button>
+        </>
+      )}
+    </div>
+  );
+}
+
+export default function UnsubscribePage() {
+  return (
+    <div style={{ minHeight: "100vh", background: "#000", display: "flex", alignItems: "center", justifyContent: "center", fontFamily: "'Inter', sans-serif", padding: "20px" }}>
+      <Suspense fallback={<span style={{ color: "#A0A0A0" }}>Loading…</span>}>
+        <UnsubscribeForm />
+      </Suspense>
+    </div>
+  );
+}
@@ -0,0 +1,210 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import Header from "../components/Header";
+import { useSession } from "../hooks/useSession";
+import { ROLES, hasRole, type Role } from "../lib/roles";
+
+function useIsMobile(breakpoint = 768) {
+  const [isMobile, setIsMobile] = useState(false);
+  useEffect(() => {
+    const check = () => setIsMobile(window.innerWidth <= breakpoint);
+    check();
+    window.addEventListener("resize", check);
+    return () => window.removeEventListener("resize", check);
+  }, [breakpoint]);
+  return isMobile;
+}
+
+interface DashboardUser {
+  id: string;
+  username: string;
+  display_name: string;
+  role: Role;
+  disabled: boolean;
+  created_at: string;
+}
+
+const ROLE_DESCRIPTIONS: Record<Role, string> = {
+  viewer: "Read-only access to every page",
+  operator: "Can act on the Email and Content pages",
+  admin: "Operator access plus user management",
+};
+
+const inputStyle: React.CSSProperties = {
+  background: "#000",
+  border: "1px solid #1F1F1F",
+  borderRadius: "6px",
+  padding: "8px 10px",
+  color: "#fff",
+  fontSize: "12px",
+  fontFamily: "'Inter', sans-serif",
+  outline: "none",
+};
+
+export default function UsersPage() {
+  const isMobile = useIsMobile();
+  const { session } = useSession();
+  const isAdmin = hasRole(session?.role, "admin");
+  const [users, setUsers] = useState<DashboardUser[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [form, setForm] = useState({ username: "", displayName: "", password: "", role: "viewer" as Role });
+  const [saving, setSaving] = useState(false);
+
+  const fetchUsers = useCallback(async () => {
+    try {
+      const res = await fetch("/api/users");
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || `HTTP ${res.status}`);
+      setUsers(data.users || []);
+      setError(null);
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : "Failed to load users");
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (isAdmin) fetchUsers();
+    else setLoading(false);
+  }, [isAdmin, fetchUsers]);
+
+  const updateUser = async (id: string, updates: Record<string, unknown>) => {
+    const res = await fetch(`/api/users/${id}`, {
+      method: "PATCH",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(updates),
+    });
+    const data = await res.json().catch(() => ({}));
+    if (!res.ok) setError(data.error || `HTTP ${res.status}`);
+    fetchUsers();
+  };
+
+  const resetPassword = async (user: DashboardUser) => {
+    const password = window.prompt(`New password for ${user.username} (10+ characters)`);
+    if (password) await updateUser(user.id, { password });
+  };
+
+  const deleteUser = async (user: DashboardUser) => {
+    if (!window.confirm(`Delete ${user.username}? This cannot be undone.`)) return;
+    const res = await fetch(`/api/users/${user.id}`, { method: "DELETE" });
+    const data = await res.json().catch(() => ({}));
+    if (!res.ok) setError(data.error || `HTTP ${res.status}`);
+    fetchUsers();
+  };
+
+  const createUser = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    try {
+      const res = await fetch("/api/users", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(form),
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        setError(data.error || `HTTP ${res.status}`);
+      } else {
+        setForm({ username: "", displayName: "", password: "", role: "viewer" });
+        setError(null);
+        fetchUsers();
+      }
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const cardStyle: React.CSSProperties = {
+    background: "#0D0D0D",
+    border: "1px solid #1F1F1F",
+    borderRadius: "12px",
+    padding: "20px",
+  };
+
+  return (
+    <div style={{ minHeight: "100vh", background: "#000", color: "#fff" }}>
+      <Header activePage="users" />
+
+      <main style={{ padding: isMobile ? "12px" : "24px", maxWidth: "1000px", margin: "0 auto" }}>
+        {!isAdmin ? (
+          <div style={{ ...cardStyle, textAlign: "center", color: "#A0A0A0", fontSize: "13px", fontFamily: "'Inter', sans-serif" }}>
+            User management is only available to admins.
+          </div>
+        ) : (
+          <>
+            {error && (
+              <div style={{ background: "rgba(239,68,68,0.1)", border: "1px solid rgba(239,68,68,0.3)", color: "#EF4444", borderRadius: "8px", padding: "10px 14px", fontSize: "12px", fontFamily: "'Inter', sans-serif", marginBottom: "16px" }}>
+                {error}
+              </div>
+            )}
+
+            <form onSubmit={createUser} style={{ ...cardStyle, marginBottom: "24px" }}>
+              <h3 style={{ fontFamily: "'Space Grotesk', sans-serif", fontWeight: 700, fontSize: "14px", margin: "0 0 16px 0" }}>Add User</h3>
+              <div style={{ display: "grid", gridTemplateColumns: isMobile ? "1fr" : "1fr 1fr 1fr 0.8fr auto", gap: "8px" }}>
+                <input style={inputStyle} placeholder="Username" value={form.username} onChange={(e) => setForm({ ...form, username: e.target.value })} required />
+                <input style={inputStyle} placeholder="Display name" value={form.displayName} onChange={(e) => setForm({ ...form, displayName: e.target.value })} />
+                <input style={inputStyle} type="password" placeholder="Password (10+ chars)" value={form.password} onChange={(e) => setForm({ ...form, password: e.target.value })} required minLength={10} autoComplete="new-password" />
+                <select style={{ ...inputStyle, color: "#A0A0A0" }} value={form.role} onChange={(e) => setForm({ ...form, role: e.target.value as Role })}>
+                  {ROLES.map((r) => <option key={r} value={r}>{r}</option>)}
+                </select>
+                <button type="submit" disabled={saving} style={{ background: "#86EFAC", color: "#000", border: "none", borderRadius: "6px", padding: "8px 16px", fontSize: "12px", fontWeight: 600, fontFamily: "'Inter', sans-serif", cursor: saving ? "wait" : "pointer" }}>
+                  {saving ? "Adding…" : "Add"}
+                </button>
+              </div>
+              <div style={{ display: "flex", gap: "16px", flexWrap: "wrap", marginTop: "12px", fontSize: "11px", color: "#555", fontFamily: "'Inter', sans-serif" }}>
+                {ROLES.map((r) => <span key={r}><span style={{ color: "#A0A0A0" }}>{r}</span> — {ROLE_DESCRIPTIONS[r]}</span>)}
+              </div>
+            </form>
+
+            <div style={{ ...cardStyle, ...(isMobile ? { overflowX: "auto" as const } : {}) }}>
+              <h3 style={{ fontFamily: "'Space Grotesk', sans-serif", fontWeight: 700, fontSize: "14px", margin: "0 0 16px 0" }}>Users</h3>
+              <div style={{ minWidth: isMobile ? "620px" : "unset" }}>
+                <div style={{ display: "grid", gridTemplateColumns: "1fr 1.2fr 0.8fr 0.6fr 1.4fr", gap: "8px", padding: "8px 12px", fontSize: "10px", color: "#A0A0A0", fontFamily: "'Inter', sans-serif", textTransform: "uppercase", letterSpacing: "0.5px", borderBottom: "1px solid #1F1F1F" }}>
+                  <span>Username</span>
+                  <span>Name</span>
+                  <span>Role</span>
+                  <span>Status</span>
+                  <span>Actions</span>
+                </div>
+
+                {loading ? (
+                  <div style={{ padding: "24px", textAlign: "center", color: "#555", fontSize: "12px", fontFamily: "'Inter', sans-serif" }}>Loading…</div>
+                ) : users.length === 0 ? (
+                  <div style={{ padding: "24px", textAlign: "center", color: "#555", fontSize: "12px", fontFamily: "'Inter', sans-serif" }}>No users yet — you are signed in with the bootstrap admin account.</div>
+                ) : (
+                  users.map((user) => {
+                    const isSelf = user.id === session?.userId;
+                    return (
+                      <div key={user.id} style={{ display: "grid", gridTemplateColumns: "1fr 1.2fr 0.8fr 0.6fr 1.4fr", gap: "8px", padding: "10px 12px", fontSize: "12px", fontFamily: "'Inter', sans-serif", borderBottom: "1px solid #141414", alignItems: "center" }}>
+                        <span style={{ color: "#fff", fontWeight: 500 }}>{user.username}{isSelf && <span style={{ color: "#555" }}> (you)</span>}</span>
+                        <span style={{ color: "#A0A0A0" }}>{user.display_name}</span>
+                        <select value={user.role} disabled={isSelf} onChange={(e) => updateUser(user.id, { role: e.target.value })} style={{ ...inputStyle, padding: "4px 6px", color: "#A0A0A0" }}>
+                          {ROLES.map((r) => <option key={r} value={r}>{r}</option>)}
+                        </select>
+                        <span style={{ color: user.disabled ? "#EF4444" : "#86EFAC", fontSize: "11px" }}>{user.disabled ? "Disabled" : "Active"}</span>
+                        <div style={{ display: "flex", gap: "4px", flexWrap: "wrap" }}>
+                          <button onClick={() => resetPassword(user)} style={{ background: "#1F1F1F", color: "#A0A0A0", border: "none", borderRadius: "4px", padding: "3px 8px", fontSize: "10px", cursor: "pointer", fontFamily: "'Inter', sans-serif" }}>Reset password</button>
+                          {!isSelf && (
+                            <>
+                              <button onClick={() => updateUser(user.id, { disabled: !user.disabled })} style={{ background: "#F59E0B20", color: "#F59E0B", border: "none", borderRadius: "4px", padding: "3px 8px", fontSize: "10px", cursor: "pointer", fontFamily: "'Inter', sans-serif" }}>
+                                {user.disabled ? "Enable" : "Disable"}
+                              </button>
+                              <button onClick={() => deleteUser(user)} style={{ background: "#EF444420", color: "#EF4444", border: "none", borderRadius: "4px", padding: "3px 8px", fontSize: "10px", cursor: "pointer", fontFamily: "'Inter', sans-serif" }}>Delete</button>
+                            </>
+                          )}
+                        </div>
+                      </div>
+                    );
+                  })
+                )}
+              </div>
+            </div>
+          </>
+        )}
+      </main>
+    </div>
+  );
+}
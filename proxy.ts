@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from "next/server";
+import { isPublicPage } from "./app/lib/public-paths";
+import { SESSION_COOKIE, verifySessionToken } from "./app/lib/session";
+
+// Routes reachable without a session (plus PUBLIC_PAGES). Everything else —
+// every page and every /api/* handler — requires a valid signed session cookie.
+const PUBLIC_API_ROUTES = ["/api/auth/login", "/api/auth/logout", "/api/unsubscribe", "/api/subscribe", "/api/subscribe/confirm"];
+// Handlers under these prefixes authenticate the caller themselves: cron jobs
+// with CRON_SECRET, inbound webhooks with CASPER_INBOUND_SECRET, email
+// tracking links with a signature (or not at all for the open pixel), since
+// they are fetched by recipients' mail clients. /api/media/:path serves
+// locally stored post images, public like the Storage bucket it stands in for.
+const SELF_AUTHENTICATED_API_PREFIXES = ["/api/cron/", "/api/webhooks/", "/api/track/", "/api/media/"];
+
+export function proxy(req: NextRequest) {
+  const { pathname } = req.nextUrl;
+  const session = verifySessionToken(req.cookies.get(SESSION_COOKIE)?.value);
+
+  if (
+    PUBLIC_API_ROUTES.includes(pathname) ||
+    SELF_AUTHENTICATED_API_PREFIXES.some((p) => pathname.startsWith(p)) ||
+    isPublicPage(pathname)
+  ) {
+    return NextResponse.next();
+  }
+
+  if (pathname.startsWith("/api/")) {
+    if (!session) {
+      return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+    }
+    return NextResponse.next();
+  }
+
+  if (pathname === "/login") {
+    return session ? NextResponse.redirect(new URL("/", req.url)) : NextResponse.next();
+  }
+
+  if (!session) {
+    // Keep the requested URL so a successful login lands back on it.
+    return NextResponse.rewrite(new URL("/login", req.url));
+  }
+
+  return NextResponse.next();
+}
+
+export const config = {
+  matcher: ["/((?!_next/static|_next/image|favicon.ico|.*\\.(?:png|jpg|jpeg|gif|svg|ico|webp)$).*)"],
+};
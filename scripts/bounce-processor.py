@@ -0,0 +1,130 @@
+#!/usr/bin/env python3
+"""
+Bounce Processor — runs every 15 min
+Reads new messages from the bounce mailbox (IMAP or a local maildir) and posts
+them to the dashboard's /api/webhooks/bounces, which parses DSN bounces and
+spam complaints and suppresses hard-bounced addresses. Anything that isn't a
+report (e.g. a human reply) is ignored by the dashboard and left untouched here.
+
+Usage:
+  bounce-processor.py                # IMAP, from IMAP_HOST / IMAP_USER / IMAP_PASSWORD
+  bounce-processor.py --maildir DIR  # a local maildir; processed mail moves new/ -> cur/
+"""
+
+import imaplib
+import json
+import mailbox
+import os
+import sys
+import urllib.request
+
+DASHBOARD_URL = os.environ.get("CASPER_PUBLIC_URL", "https://casperops.vercel.app").rstrip("/")
+INBOUND_SECRET = os.environ.get("CASPER_INBOUND_SECRET", "")
+if not INBOUND_SECRET:
+    sys.exit("❌ Error: CASPER_INBOUND_SECRET env var is not set.")
+
+IMAP_HOST = os.environ.get("IMAP_HOST", "")
+IMAP_USER = os.environ.get("IMAP_USER", os.environ.get("CASPER_EMAIL", ""))
+IMAP_PASSWORD = os.environ.get("IMAP_PASSWORD", os.environ.get("CASPER_EMAIL_PASSWORD", ""))
+IMAP_FOLDER = os.environ.get("IMAP_FOLDER", "INBOX")
+
+# Last IMAP UID processed per folder, so messages are read once without
+# changing their flags in a mailbox people also read.
+STATE_FILE = os.path.join(os.path.dirname(os.path.abspath(__file__)), "bounce-processor-state.json")
+
+# Must not exceed MAX_MESSAGES_PER_REQUEST in app/api/webhooks/bounces/route.ts.
+BATCH_SIZE = 25
+
+
+def post_messages(source, messages):
+    req = urllib.request.Request(
+        f"{DASHBOARD_URL}/api/webhooks/bounces",
+        data=json.dumps({"source": source, "messages": messages}).encode(),
+        headers={"Authorization": f"Bearer {INBOUND_SECRET}", "Content-Type": "application/json"},
+        method="POST"
+    )
+    with urllib.request.urlopen(req, timeout=120) as resp:
+        return json.loads(resp.read())
+
+
+def report(summary):
+    print(f"  {summary['bounces']} bounces, {summary['complaints']} complaints, "
+          f"{summary['ignored']} ignored, {summary['duplicates']} already recorded, "
+          f"{summary['suppressed']} subscribers suppressed")
+
+
+def load_state():
+    if not os.path.exists(STATE_FILE):
+        return {}
+    with open(STATE_FILE) as f:
+        return json.load(f)
+
+
+def save_state(state):
+    with open(STATE_FILE, "w") as f:
+        json.dump(state, f, indent=2)
+
+
+def process_imap():
+    if not IMAP_HOST:
+        sys.exit("❌ Error: IMAP_HOST env var is not set (or pass --maildir).")
+
+    state = load_state()
+    folder_state = state.get(IMAP_FOLDER, {})
+
+    imap = imaplib.IMAP4_SSL(IMAP_HOST)
+    try:
+        imap.login(IMAP_USER, IMAP_PASSWORD)
+        imap.select(IMAP_FOLDER, readonly=True)
+
+        # UIDs are only comparable within one UIDVALIDITY; start over if it changed.
+        uidvalidity = imap.untagged_responses.get("UIDVALIDITY", [b"0"])[0].decode()
+        last_uid = folder_state.get("last_uid", 0) if folder_state.get("uidvalidity") == uidvalidity else 0
+
+        _, data = imap.uid("search", None, f"UID {last_uid + 1}:*")
+        # "n:*" always matches the newest message, even when it is older than n.
+        uids = [int(u) for u in data[0].split() if int(u) > last_uid]
+        if not uids:
+            print("  No new messages.")
+            return
+
+        for i in range(0, len(uids), BATCH_SIZE):
+            batch = uids[i:i + BATCH_SIZE]
+            messages = []
+            for uid in batch:
+                _, fetched = imap.uid("fetch", str(uid), "(BODY.PEEK[])")
+                messages.append(fetched[0][1].decode("utf-8", errors="replace"))
+            report(post_messages("imap", messages))
+            # Saved per batch, so a failure later on doesn't resend these.
+            state[IMAP_FOLDER] = {"uidvalidity": uidvalidity, "last_uid": batch[-1]}
+            save_state(state)
+    finally:
+        imap.logout()
+
+
+def process_maildir(path):
+    box = mailbox.Maildir(path, factory=None, create=False)
+    keys = [key for key, message in box.iteritems() if message.get_subdir() == "new"]
+    if not keys:
+        print("  No new messages.")
+        return
+
+    for i in range(0, len(keys), BATCH_SIZE):
+        batch = keys[i:i + BATCH_SIZE]
+        messages = [box.get_bytes(key).decode("utf-8", errors="replace") for key in batch]
+        report(post_messages("maildir", messages))
+        for key in batch:
+            message = box[key]
+            message.set_subdir("cur")
+            box[key] = message
+
+
+if __name__ == "__main__":
+    print("📬 Bounce Processor")
+    if len(sys.argv) == 3 and sys.argv[1] == "--maildir":
+        process_maildir(sys.argv[2])
+    elif len(sys.argv) == 1:
+        process_imap()
+    else:
+        sys.exit(__doc__)
+    print("  Done.")
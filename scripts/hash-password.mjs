@@ -0,0 +1,16 @@
+#!/usr/bin/env node
+// Generates a password hash for CASPER_AUTH_PASSWORD_HASH.
+// Usage: node scripts/hash-password.mjs '<password>'
+// Must stay in sync with hashPassword() in app/lib/auth.ts.
+
+import { randomBytes, scryptSync } from "node:crypto";
+
+const password = process.argv[2];
+if (!password) {
+  console.error("Usage: node scripts/hash-password.mjs '<password>'");
+  process.exit(1);
+}
+
+const salt = randomBytes(16);
+const key = scryptSync(password, salt, 64);
+console.log(`scrypt:${salt.toString("hex")}:${key.toString("hex")}`);
@@ -0,0 +1,16 @@
+-- Named dashboard accounts. Only the service role (server route handlers) may
+-- read or write this table; the anon key used by the browser has no access.
+CREATE TABLE IF NOT EXISTS dashboard_users (
+  id uuid DEFAULT gen_random_uuid() PRIMARY KEY,
+  username text NOT NULL UNIQUE,
+  display_name text NOT NULL,
+  password_hash text NOT NULL,
+  role text NOT NULL DEFAULT 'viewer' CHECK (role IN ('viewer','operator','admin')),
+  disabled boolean NOT NULL DEFAULT false,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE dashboard_users ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "service_all_dashboard_users" ON dashboard_users FOR ALL TO service_role USING (true) WITH CHECK (true);
@@ -0,0 +1,21 @@
+-- Append-only record of every mutation made through the dashboard API.
+CREATE TABLE IF NOT EXISTS audit_events (
+  id uuid DEFAULT gen_random_uuid() PRIMARY KEY,
+  actor_id uuid REFERENCES dashboard_users(id) ON DELETE SET NULL,
+  actor_username text NOT NULL,
+  actor_role text NOT NULL,
+  action text NOT NULL,
+  target_table text NOT NULL,
+  target_id text,
+  before jsonb,
+  after jsonb,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+ALTER TABLE audit_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "service_all_audit_events" ON audit_events FOR ALL TO service_role USING (true) WITH CHECK (true);
+
+CREATE INDEX IF NOT EXISTS idx_audit_events_created_at ON audit_events (created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_audit_events_action ON audit_events (action);
+CREATE INDEX IF NOT EXISTS idx_audit_events_target ON audit_events (target_table, target_id);
@@ -0,0 +1,33 @@
+-- The browser uses the anon key for reads and realtime only. Every write now
+-- goes through an authenticated API route (service role) or a cron script
+-- holding SUPABASE_SERVICE_KEY, so anon loses all write access.
+
+-- dashboard_state / pipeline_history: "Allow service write" had no TO clause,
+-- which applied it to every role including anon.
+DROP POLICY IF EXISTS "Allow service write" ON dashboard_state;
+CREATE POLICY "service_all_dashboard_state" ON dashboard_state FOR ALL TO service_role USING (true) WITH CHECK (true);
+
+DROP POLICY IF EXISTS "Allow service write" ON pipeline_history;
+CREATE POLICY "service_all_pipeline_history" ON pipeline_history FOR ALL TO service_role USING (true) WITH CHECK (true);
+
+-- Email tables
+DROP POLICY IF EXISTS "anon_all_subscribers" ON email_subscribers;
+DROP POLICY IF EXISTS "anon_all_sends" ON email_sends;
+
+-- Content tables: replace full access with read-only
+DROP POLICY IF EXISTS "anon_all_content_posts" ON content_posts;
+DROP POLICY IF EXISTS "anon_all_content_research" ON content_research;
+DROP POLICY IF EXISTS "anon_all_content_replies" ON content_replies;
+DROP POLICY IF EXISTS "anon_all_target_accounts" ON target_accounts;
+
+CREATE POLICY "anon_read_content_posts" ON content_posts FOR SELECT TO anon USING (true);
+CREATE POLICY "anon_read_content_research" ON content_research FOR SELECT TO anon USING (true);
+CREATE POLICY "anon_read_content_replies" ON content_replies FOR SELECT TO anon USING (true);
+CREATE POLICY "anon_read_target_accounts" ON target_accounts FOR SELECT TO anon USING (true);
+
+-- Belt and braces: even if a permissive policy is re-added by mistake, anon
+-- cannot write without table privileges.
+REVOKE INSERT, UPDATE, DELETE ON dashboard_state, pipeline_history,
+  email_subscribers, email_sends,
+  content_posts, content_research, content_replies, target_accounts
+  FROM anon;
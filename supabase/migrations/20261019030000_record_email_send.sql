@@ -0,0 +1,36 @@
+-- Sends now record their real outcome. A failed send keeps the SMTP error and
+-- leaves the subscriber's stage untouched.
+ALTER TABLE email_sends ADD COLUMN IF NOT EXISTS error text;
+
+-- Records a send attempt and, if it succeeded, moves the subscriber to that
+-- stage — in one transaction, so a stage change never exists without its
+-- email_sends row (or vice versa).
+CREATE OR REPLACE FUNCTION record_email_send(
+  p_subscriber_id uuid,
+  p_email_number int,
+  p_status text,
+  p_error text DEFAULT NULL
+) RETURNS email_sends
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_send email_sends;
+BEGIN
+  INSERT INTO email_sends (subscriber_id, email_number, status, error)
+  VALUES (p_subscriber_id, p_email_number, p_status, p_error)
+  RETURNING * INTO v_send;
+
+  IF p_status = 'sent' THEN
+    UPDATE email_subscribers
+    SET current_stage = p_email_number,
+        status = CASE WHEN p_email_number >= 8 THEN 'completed' ELSE status END
+    WHERE id = p_subscriber_id
+      AND current_stage < p_email_number;
+  END IF;
+
+  RETURN v_send;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION record_email_send(uuid, int, text, text) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION record_email_send(uuid, int, text, text) TO service_role;
@@ -0,0 +1,54 @@
+-- Opens and clicks reported by the tracking pixel and rewritten links in
+-- nurture emails (see app/lib/email-tracking.ts).
+CREATE TABLE IF NOT EXISTS email_events (
+  id uuid DEFAULT gen_random_uuid() PRIMARY KEY,
+  send_id uuid NOT NULL REFERENCES email_sends(id) ON DELETE CASCADE,
+  event_type text NOT NULL CHECK (event_type IN ('open','click')),
+  url text,
+  user_agent text,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+ALTER TABLE email_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "anon_read_email_events" ON email_events FOR SELECT TO anon USING (true);
+CREATE POLICY "service_all_email_events" ON email_events FOR ALL TO service_role USING (true) WITH CHECK (true);
+
+CREATE INDEX IF NOT EXISTS idx_email_events_send ON email_events (send_id, event_type);
+
+ALTER PUBLICATION supabase_realtime ADD TABLE email_events;
+
+-- The send id is now generated before the email goes out so it can be
+-- embedded in the tracking URLs; record_email_send() accepts it.
+DROP FUNCTION IF EXISTS record_email_send(uuid, int, text, text);
+
+CREATE OR REPLACE FUNCTION record_email_send(
+  p_subscriber_id uuid,
+  p_email_number int,
+  p_status text,
+  p_error text DEFAULT NULL,
+  p_send_id uuid DEFAULT NULL
+) RETURNS email_sends
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_send email_sends;
+BEGIN
+  INSERT INTO email_sends (id, subscriber_id, email_number, status, error)
+  VALUES (COALESCE(p_send_id, gen_random_uuid()), p_subscriber_id, p_email_number, p_status, p_error)
+  RETURNING * INTO v_send;
+
+  IF p_status = 'sent' THEN
+    UPDATE email_subscribers
+    SET current_stage = p_email_number,
+        status = CASE WHEN p_email_number >= 8 THEN 'completed' ELSE status END
+    WHERE id = p_subscriber_id
+      AND current_stage < p_email_number;
+  END IF;
+
+  RETURN v_send;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION record_email_send(uuid, int, text, text, uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION record_email_send(uuid, int, text, text, uuid) TO service_role;
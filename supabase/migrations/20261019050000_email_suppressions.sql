@@ -0,0 +1,19 @@
+-- Subscribers who follow an unsubscribe link leave the sequence for good.
+ALTER TABLE email_subscribers DROP CONSTRAINT IF EXISTS email_subscribers_status_check;
+ALTER TABLE email_subscribers ADD CONSTRAINT email_subscribers_status_check
+  CHECK (status IN ('active','paused','completed','unsubscribed'));
+ALTER TABLE email_subscribers ADD COLUMN IF NOT EXISTS unsubscribed_at timestamptz;
+
+-- Addresses that must never be emailed again, whoever they belong to. Checked
+-- by the mailer before every send (see app/lib/email-suppression.ts).
+CREATE TABLE IF NOT EXISTS email_suppressions (
+  email text PRIMARY KEY CHECK (email = lower(email)),
+  reason text NOT NULL CHECK (reason IN ('unsubscribed','bounced','complained')),
+  detail text,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+ALTER TABLE email_suppressions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "anon_read_email_suppressions" ON email_suppressions FOR SELECT TO anon USING (true);
+CREATE POLICY "service_all_email_suppressions" ON email_suppressions FOR ALL TO service_role USING (true) WITH CHECK (true);
@@ -0,0 +1,102 @@
+-- Every save of an email template becomes an immutable version. The row in
+-- email_templates always holds the current version's content.
+ALTER TABLE email_templates ADD COLUMN IF NOT EXISTS version int NOT NULL DEFAULT 1;
+
+CREATE TABLE IF NOT EXISTS email_template_versions (
+  id uuid DEFAULT gen_random_uuid() PRIMARY KEY,
+  stage int NOT NULL REFERENCES email_templates(stage) ON DELETE CASCADE,
+  version int NOT NULL,
+  subject text NOT NULL,
+  html text NOT NULL,
+  created_by text,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  -- Set when this version was created by rolling back to an older one.
+  restored_from int,
+  UNIQUE (stage, version)
+);
+
+ALTER TABLE email_template_versions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "anon_read_email_template_versions" ON email_template_versions FOR SELECT TO anon USING (true);
+CREATE POLICY "service_all_email_template_versions" ON email_template_versions FOR ALL TO service_role USING (true) WITH CHECK (true);
+
+ALTER PUBLICATION supabase_realtime ADD TABLE email_template_versions;
+
+INSERT INTO email_template_versions (stage, version, subject, html, created_by, created_at)
+SELECT stage, version, subject, html, updated_by, updated_at FROM email_templates
+ON CONFLICT (stage, version) DO NOTHING;
+
+-- Which template version each send actually used.
+ALTER TABLE email_sends ADD COLUMN IF NOT EXISTS template_version int;
+
+-- Saves a new version and makes it current in one transaction. The row lock
+-- on email_templates serialises concurrent saves of the same stage.
+CREATE OR REPLACE FUNCTION save_email_template(
+  p_stage int,
+  p_subject text,
+  p_html text,
+  p_author text,
+  p_restored_from int DEFAULT NULL
+) RETURNS email_templates
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_template email_templates;
+BEGIN
+  SELECT * INTO v_template FROM email_templates WHERE stage = p_stage FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'No template for stage %', p_stage;
+  END IF;
+
+  UPDATE email_templates
+  SET subject = p_subject,
+      html = p_html,
+      version = v_template.version + 1,
+      updated_at = now(),
+      updated_by = p_author
+  WHERE stage = p_stage
+  RETURNING * INTO v_template;
+
+  INSERT INTO email_template_versions (stage, version, subject, html, created_by, restored_from)
+  VALUES (p_stage, v_template.version, p_subject, p_html, p_author, p_restored_from);
+
+  RETURN v_template;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION save_email_template(int, text, text, text, int) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION save_email_template(int, text, text, text, int) TO service_role;
+
+DROP FUNCTION IF EXISTS record_email_send(uuid, int, text, text, uuid);
+
+CREATE OR REPLACE FUNCTION record_email_send(
+  p_subscriber_id uuid,
+  p_email_number int,
+  p_status text,
+  p_error text DEFAULT NULL,
+  p_send_id uuid DEFAULT NULL,
+  p_template_version int DEFAULT NULL
+) RETURNS email_sends
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_send email_sends;
+BEGIN
+  INSERT INTO email_sends (id, subscriber_id, email_number, status, error, template_version)
+  VALUES (COALESCE(p_send_id, gen_random_uuid()), p_subscriber_id, p_email_number, p_status, p_error, p_template_version)
+  RETURNING * INTO v_send;
+
+  IF p_status = 'sent' THEN
+    UPDATE email_subscribers
+    SET current_stage = p_email_number,
+        status = CASE WHEN p_email_number >= 8 THEN 'completed' ELSE status END
+    WHERE id = p_subscriber_id
+      AND current_stage < p_email_number;
+  END IF;
+
+  RETURN v_send;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION record_email_send(uuid, int, text, text, uuid, int) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION record_email_send(uuid, int, text, text, uuid, int) TO service_role;
@@ -0,0 +1,64 @@
+-- A/B variants of a stage's email. The email_templates row is the control
+-- ("A"); each subscriber is deterministically assigned the control or one of
+-- the active variants in proportion to their weights (see app/lib/ab-testing.ts).
+ALTER TABLE email_templates ADD COLUMN IF NOT EXISTS control_weight int NOT NULL DEFAULT 100 CHECK (control_weight >= 0);
+
+CREATE TABLE IF NOT EXISTS email_template_variants (
+  id uuid DEFAULT gen_random_uuid() PRIMARY KEY,
+  stage int NOT NULL REFERENCES email_templates(stage) ON DELETE CASCADE,
+  name text NOT NULL,
+  subject text NOT NULL,
+  html text NOT NULL,
+  weight int NOT NULL DEFAULT 100 CHECK (weight >= 0),
+  -- Variants are deactivated rather than deleted so past sends keep their results.
+  active boolean NOT NULL DEFAULT true,
+  created_by text,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (stage, name)
+);
+
+ALTER TABLE email_template_variants ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "anon_read_email_template_variants" ON email_template_variants FOR SELECT TO anon USING (true);
+CREATE POLICY "service_all_email_template_variants" ON email_template_variants FOR ALL TO service_role USING (true) WITH CHECK (true);
+
+ALTER PUBLICATION supabase_realtime ADD TABLE email_template_variants;
+
+-- NULL means the control template was sent.
+ALTER TABLE email_sends ADD COLUMN IF NOT EXISTS variant_id uuid REFERENCES email_template_variants(id);
+
+DROP FUNCTION IF EXISTS record_email_send(uuid, int, text, text, uuid, int);
+
+CREATE OR REPLACE FUNCTION record_email_send(
+  p_subscriber_id uuid,
+  p_email_number int,
+  p_status text,
+  p_error text DEFAULT NULL,
+  p_send_id uuid DEFAULT NULL,
+  p_template_version int DEFAULT NULL,
+  p_variant_id uuid DEFAULT NULL
+) RETURNS email_sends
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_send email_sends;
+BEGIN
+  INSERT INTO email_sends (id, subscriber_id, email_number, status, error, template_version, variant_id)
+  VALUES (COALESCE(p_send_id, gen_random_uuid()), p_subscriber_id, p_email_number, p_status, p_error, p_template_version, p_variant_id)
+  RETURNING * INTO v_send;
+
+  IF p_status = 'sent' THEN
+    UPDATE email_subscribers
+    SET current_stage = p_email_number,
+        status = CASE WHEN p_email_number >= 8 THEN 'completed' ELSE status END
+    WHERE id = p_subscriber_id
+      AND current_stage < p_email_number;
+  END IF;
+
+  RETURN v_send;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION record_email_send(uuid, int, text, text, uuid, int, uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION record_email_send(uuid, int, text, text, uuid, int, uuid) TO service_role;
@@ -0,0 +1,4 @@
+-- Free-form per-subscriber data for merge fields: {{attr.company}} renders
+-- attributes->>'company'.
+ALTER TABLE email_subscribers ADD COLUMN IF NOT EXISTS attributes jsonb NOT NULL DEFAULT '{}'::jsonb
+  CHECK (jsonb_typeof(attributes) = 'object');
@@ -0,0 +1,29 @@
+-- Public waitlist signups. New subscribers start 'pending' until they click
+-- the double opt-in link; the drip only sends to 'active' subscribers.
+ALTER TABLE email_subscribers DROP CONSTRAINT IF EXISTS email_subscribers_status_check;
+ALTER TABLE email_subscribers ADD CONSTRAINT email_subscribers_status_check
+  CHECK (status IN ('pending','active','paused','completed','unsubscribed'));
+ALTER TABLE email_subscribers ADD COLUMN IF NOT EXISTS confirmed_at timestamptz;
+
+-- Attribution. NULL source means the subscriber was added by hand or imported.
+ALTER TABLE email_subscribers ADD COLUMN IF NOT EXISTS source text;
+ALTER TABLE email_subscribers ADD COLUMN IF NOT EXISTS utm_source text;
+ALTER TABLE email_subscribers ADD COLUMN IF NOT EXISTS utm_medium text;
+ALTER TABLE email_subscribers ADD COLUMN IF NOT EXISTS utm_campaign text;
+ALTER TABLE email_subscribers ADD COLUMN IF NOT EXISTS utm_term text;
+ALTER TABLE email_subscribers ADD COLUMN IF NOT EXISTS utm_content text;
+ALTER TABLE email_subscribers ADD COLUMN IF NOT EXISTS referrer text;
+
+-- One row per rate-limited request; see app/lib/rate-limit.ts. Buckets hold
+-- a hashed key (e.g. the client IP), never the raw value.
+CREATE TABLE IF NOT EXISTS rate_limit_hits (
+  id bigint GENERATED ALWAYS AS IDENTITY PRIMARY KEY,
+  bucket text NOT NULL,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS rate_limit_hits_bucket_created_at_idx ON rate_limit_hits (bucket, created_at);
+
+ALTER TABLE rate_limit_hits ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "service_all_rate_limit_hits" ON rate_limit_hits FOR ALL TO service_role USING (true) WITH CHECK (true);
@@ -0,0 +1,60 @@
+-- What each subscriber actually received, for the /email/[id] timeline. The
+-- html is stored before click/open tracking is added, so viewing it in the
+-- dashboard never counts as an open. NULL for sends made before this column.
+ALTER TABLE email_sends ADD COLUMN IF NOT EXISTS subject text;
+ALTER TABLE email_sends ADD COLUMN IF NOT EXISTS html text;
+
+DROP FUNCTION IF EXISTS record_email_send(uuid, int, text, text, uuid, int, uuid);
+
+CREATE OR REPLACE FUNCTION record_email_send(
+  p_subscriber_id uuid,
+  p_email_number int,
+  p_status text,
+  p_error text DEFAULT NULL,
+  p_send_id uuid DEFAULT NULL,
+  p_template_version int DEFAULT NULL,
+  p_variant_id uuid DEFAULT NULL,
+  p_subject text DEFAULT NULL,
+  p_html text DEFAULT NULL
+) RETURNS email_sends
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_send email_sends;
+BEGIN
+  INSERT INTO email_sends (id, subscriber_id, email_number, status, error, template_version, variant_id, subject, html)
+  VALUES (COALESCE(p_send_id, gen_random_uuid()), p_subscriber_id, p_email_number, p_status, p_error, p_template_version, p_variant_id, p_subject, p_html)
+  RETURNING * INTO v_send;
+
+  IF p_status = 'sent' THEN
+    UPDATE email_subscribers
+    SET current_stage = p_email_number,
+        status = CASE WHEN p_email_number >= 8 THEN 'completed' ELSE status END
+    WHERE id = p_subscriber_id
+      AND current_stage < p_email_number;
+  END IF;
+
+  RETURN v_send;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION record_email_send(uuid, int, text, text, uuid, int, uuid, text, text) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION record_email_send(uuid, int, text, text, uuid, int, uuid, text, text) TO service_role;
+
+-- Free-form notes operators keep on a subscriber.
+CREATE TABLE IF NOT EXISTS subscriber_notes (
+  id uuid DEFAULT gen_random_uuid() PRIMARY KEY,
+  subscriber_id uuid NOT NULL REFERENCES email_subscribers(id) ON DELETE CASCADE,
+  body text NOT NULL CHECK (length(body) BETWEEN 1 AND 5000),
+  author text NOT NULL,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS subscriber_notes_subscriber_id_idx ON subscriber_notes (subscriber_id, created_at);
+
+ALTER TABLE subscriber_notes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "anon_read_subscriber_notes" ON subscriber_notes FOR SELECT TO anon USING (true);
+CREATE POLICY "service_all_subscriber_notes" ON subscriber_notes FOR ALL TO service_role USING (true) WITH CHECK (true);
+
+ALTER PUBLICATION supabase_realtime ADD TABLE subscriber_notes;
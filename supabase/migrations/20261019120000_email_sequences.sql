@@ -0,0 +1,229 @@
+-- Sequences replace the single hard-coded 8-email funnel. A sequence's steps
+-- are its email_templates rows ordered by stage, each sent delay_days after
+-- the previous one. Subscribers are enrolled in any number of sequences and
+-- progress through each independently.
+CREATE TABLE IF NOT EXISTS email_sequences (
+  id uuid DEFAULT gen_random_uuid() PRIMARY KEY,
+  name text NOT NULL UNIQUE CHECK (length(name) BETWEEN 1 AND 100),
+  description text,
+  -- Waitlist signups and CSV imports without a chosen sequence go here.
+  is_default boolean NOT NULL DEFAULT false,
+  created_by text,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS email_sequences_single_default_idx ON email_sequences (is_default) WHERE is_default;
+
+ALTER TABLE email_sequences ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "anon_read_email_sequences" ON email_sequences FOR SELECT TO anon USING (true);
+CREATE POLICY "service_all_email_sequences" ON email_sequences FOR ALL TO service_role USING (true) WITH CHECK (true);
+
+ALTER PUBLICATION supabase_realtime ADD TABLE email_sequences;
+
+INSERT INTO email_sequences (name, description, is_default)
+VALUES ('Waitlist Nurture', 'The original eight-email waitlist funnel.', true)
+ON CONFLICT (name) DO NOTHING;
+
+-- Steps. delay_days is counted from the previous step (from enrollment for
+-- step 1); the existing stages keep the old STAGE_DELAY_DAYS schedule of
+-- days 0, 2, 4, 7, 10, 14, 18 and 21.
+ALTER TABLE email_templates ADD COLUMN IF NOT EXISTS sequence_id uuid REFERENCES email_sequences(id) ON DELETE CASCADE;
+ALTER TABLE email_templates ADD COLUMN IF NOT EXISTS delay_days int NOT NULL DEFAULT 0 CHECK (delay_days BETWEEN 0 AND 365);
+ALTER TABLE email_template_versions ADD COLUMN IF NOT EXISTS sequence_id uuid;
+ALTER TABLE email_template_variants ADD COLUMN IF NOT EXISTS sequence_id uuid;
+
+UPDATE email_templates
+SET sequence_id = (SELECT id FROM email_sequences WHERE is_default),
+    delay_days = (ARRAY[0, 2, 2, 3, 3, 4, 4, 3])[stage]
+WHERE sequence_id IS NULL;
+UPDATE email_template_versions SET sequence_id = (SELECT id FROM email_sequences WHERE is_default) WHERE sequence_id IS NULL;
+UPDATE email_template_variants SET sequence_id = (SELECT id FROM email_sequences WHERE is_default) WHERE sequence_id IS NULL;
+
+-- Stage numbers are now only unique within a sequence.
+ALTER TABLE email_template_versions DROP CONSTRAINT IF EXISTS email_template_versions_stage_fkey;
+ALTER TABLE email_template_versions DROP CONSTRAINT IF EXISTS email_template_versions_stage_version_key;
+ALTER TABLE email_template_variants DROP CONSTRAINT IF EXISTS email_template_variants_stage_fkey;
+ALTER TABLE email_template_variants DROP CONSTRAINT IF EXISTS email_template_variants_stage_name_key;
+ALTER TABLE email_templates DROP CONSTRAINT IF EXISTS email_templates_pkey;
+ALTER TABLE email_templates DROP CONSTRAINT IF EXISTS email_templates_stage_check;
+
+ALTER TABLE email_templates ALTER COLUMN sequence_id SET NOT NULL;
+ALTER TABLE email_templates ADD PRIMARY KEY (sequence_id, stage);
+ALTER TABLE email_templates ADD CONSTRAINT email_templates_stage_check CHECK (stage >= 1);
+
+ALTER TABLE email_template_versions ALTER COLUMN sequence_id SET NOT NULL;
+ALTER TABLE email_template_versions ADD CONSTRAINT email_template_versions_step_fkey
+  FOREIGN KEY (sequence_id, stage) REFERENCES email_templates(sequence_id, stage) ON DELETE CASCADE;
+ALTER TABLE email_template_versions ADD CONSTRAINT email_template_versions_step_version_key UNIQUE (sequence_id, stage, version);
+
+ALTER TABLE email_template_variants ALTER COLUMN sequence_id SET NOT NULL;
+ALTER TABLE email_template_variants ADD CONSTRAINT email_template_variants_step_fkey
+  FOREIGN KEY (sequence_id, stage) REFERENCES email_templates(sequence_id, stage) ON DELETE CASCADE;
+ALTER TABLE email_template_variants ADD CONSTRAINT email_template_variants_step_name_key UNIQUE (sequence_id, stage, name);
+
+-- Which sequence each send belonged to.
+ALTER TABLE email_sends ADD COLUMN IF NOT EXISTS sequence_id uuid REFERENCES email_sequences(id);
+UPDATE email_sends SET sequence_id = (SELECT id FROM email_sequences WHERE is_default) WHERE sequence_id IS NULL;
+ALTER TABLE email_sends ALTER COLUMN sequence_id SET NOT NULL;
+ALTER TABLE email_sends DROP CONSTRAINT IF EXISTS email_sends_email_number_check;
+ALTER TABLE email_sends ADD CONSTRAINT email_sends_email_number_check CHECK (email_number >= 1);
+
+-- A subscriber's progress through one sequence. paused and completed now
+-- live here; email_subscribers.status only says whether the subscriber can
+-- be emailed at all (pending, active or unsubscribed).
+CREATE TABLE IF NOT EXISTS sequence_enrollments (
+  subscriber_id uuid NOT NULL REFERENCES email_subscribers(id) ON DELETE CASCADE,
+  sequence_id uuid NOT NULL REFERENCES email_sequences(id) ON DELETE CASCADE,
+  -- Last step sent; 0 until the first one goes out.
+  current_stage int NOT NULL DEFAULT 0 CHECK (current_stage >= 0),
+  status text NOT NULL DEFAULT 'active' CHECK (status IN ('active','paused','completed')),
+  -- Step delays count from here.
+  enrolled_at timestamptz NOT NULL DEFAULT now(),
+  PRIMARY KEY (subscriber_id, sequence_id)
+);
+
+CREATE INDEX IF NOT EXISTS sequence_enrollments_sequence_id_idx ON sequence_enrollments (sequence_id, status);
+
+ALTER TABLE sequence_enrollments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "anon_read_sequence_enrollments" ON sequence_enrollments FOR SELECT TO anon USING (true);
+CREATE POLICY "service_all_sequence_enrollments" ON sequence_enrollments FOR ALL TO service_role USING (true) WITH CHECK (true);
+
+ALTER PUBLICATION supabase_realtime ADD TABLE sequence_enrollments;
+
+-- Everyone is enrolled in the original funnel where they were. Anchoring on
+-- the signup date keeps their schedule unchanged.
+INSERT INTO sequence_enrollments (subscriber_id, sequence_id, current_stage, status, enrolled_at)
+SELECT id,
+       (SELECT id FROM email_sequences WHERE is_default),
+       current_stage,
+       CASE WHEN status IN ('paused','completed') THEN status ELSE 'active' END,
+       signup_date::timestamp AT TIME ZONE 'UTC'
+FROM email_subscribers
+ON CONFLICT (subscriber_id, sequence_id) DO NOTHING;
+
+UPDATE email_subscribers SET status = 'active' WHERE status IN ('paused','completed');
+ALTER TABLE email_subscribers DROP CONSTRAINT IF EXISTS email_subscribers_status_check;
+ALTER TABLE email_subscribers ADD CONSTRAINT email_subscribers_status_check
+  CHECK (status IN ('pending','active','unsubscribed'));
+ALTER TABLE email_subscribers DROP COLUMN IF EXISTS current_stage;
+
+-- Sends now advance the enrollment, completing it on the sequence's last step.
+DROP FUNCTION IF EXISTS record_email_send(uuid, int, text, text, uuid, int, uuid, text, text);
+
+CREATE OR REPLACE FUNCTION record_email_send(
+  p_subscriber_id uuid,
+  p_sequence_id uuid,
+  p_email_number int,
+  p_status text,
+  p_error text DEFAULT NULL,
+  p_send_id uuid DEFAULT NULL,
+  p_template_version int DEFAULT NULL,
+  p_variant_id uuid DEFAULT NULL,
+  p_subject text DEFAULT NULL,
+  p_html text DEFAULT NULL
+) RETURNS email_sends
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_send email_sends;
+  v_steps int;
+BEGIN
+  INSERT INTO email_sends (id, subscriber_id, sequence_id, email_number, status, error, template_version, variant_id, subject, html)
+  VALUES (COALESCE(p_send_id, gen_random_uuid()), p_subscriber_id, p_sequence_id, p_email_number, p_status, p_error, p_template_version, p_variant_id, p_subject, p_html)
+  RETURNING * INTO v_send;
+
+  IF p_status = 'sent' THEN
+    SELECT count(*) INTO v_steps FROM email_templates WHERE sequence_id = p_sequence_id;
+
+    UPDATE sequence_enrollments
+    SET current_stage = p_email_number,
+        status = CASE WHEN p_email_number >= v_steps THEN 'completed' ELSE status END
+    WHERE subscriber_id = p_subscriber_id
+      AND sequence_id = p_sequence_id
+      AND current_stage < p_email_number;
+  END IF;
+
+  RETURN v_send;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION record_email_send(uuid, uuid, int, text, text, uuid, int, uuid, text, text) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION record_email_send(uuid, uuid, int, text, text, uuid, int, uuid, text, text) TO service_role;
+
+DROP FUNCTION IF EXISTS save_email_template(int, text, text, text, int);
+
+CREATE OR REPLACE FUNCTION save_email_template(
+  p_sequence_id uuid,
+  p_stage int,
+  p_subject text,
+  p_html text,
+  p_author text,
+  p_restored_from int DEFAULT NULL
+) RETURNS email_templates
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_template email_templates;
+BEGIN
+  SELECT * INTO v_template FROM email_templates WHERE sequence_id = p_sequence_id AND stage = p_stage FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'No template for stage %', p_stage;
+  END IF;
+
+  UPDATE email_templates
+  SET subject = p_subject,
+      html = p_html,
+      version = v_template.version + 1,
+      updated_at = now(),
+      updated_by = p_author
+  WHERE sequence_id = p_sequence_id AND stage = p_stage
+  RETURNING * INTO v_template;
+
+  INSERT INTO email_template_versions (sequence_id, stage, version, subject, html, created_by, restored_from)
+  VALUES (p_sequence_id, p_stage, v_template.version, p_subject, p_html, p_author, p_restored_from);
+
+  RETURN v_template;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION save_email_template(uuid, int, text, text, text, int) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION save_email_template(uuid, int, text, text, text, int) TO service_role;
+
+-- Appends a step to a sequence with its first version. The row lock on the
+-- sequence serialises concurrent appends so stage numbers stay contiguous.
+CREATE OR REPLACE FUNCTION add_sequence_step(
+  p_sequence_id uuid,
+  p_label text,
+  p_subject text,
+  p_html text,
+  p_delay_days int,
+  p_author text
+) RETURNS email_templates
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_stage int;
+  v_template email_templates;
+BEGIN
+  PERFORM 1 FROM email_sequences WHERE id = p_sequence_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'No sequence %', p_sequence_id;
+  END IF;
+
+  SELECT COALESCE(max(stage), 0) + 1 INTO v_stage FROM email_templates WHERE sequence_id = p_sequence_id;
+
+  INSERT INTO email_templates (sequence_id, stage, label, subject, html, delay_days, updated_by)
+  VALUES (p_sequence_id, v_stage, p_label, p_subject, p_html, p_delay_days, p_author)
+  RETURNING * INTO v_template;
+
+  INSERT INTO email_template_versions (sequence_id, stage, version, subject, html, created_by)
+  VALUES (p_sequence_id, v_stage, v_template.version, p_subject, p_html, p_author);
+
+  RETURN v_template;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION add_sequence_step(uuid, text, text, text, int, text) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION add_sequence_step(uuid, text, text, text, int, text) TO service_role;
@@ -0,0 +1,67 @@
+-- Free-form labels on subscribers, set from a CSV import or the subscriber
+-- page, for targeting segments.
+ALTER TABLE email_subscribers ADD COLUMN IF NOT EXISTS tags text[] NOT NULL DEFAULT '{}';
+
+CREATE INDEX IF NOT EXISTS email_subscribers_tags_idx ON email_subscribers USING gin (tags);
+
+-- Saved subscriber filters for one-off campaigns. filters is the JSON form of
+-- SegmentFilters (app/lib/email-segments.ts); only active subscribers ever
+-- match, whatever the filters say.
+CREATE TABLE IF NOT EXISTS email_segments (
+  id uuid DEFAULT gen_random_uuid() PRIMARY KEY,
+  name text NOT NULL UNIQUE CHECK (length(name) BETWEEN 1 AND 100),
+  filters jsonb NOT NULL DEFAULT '{}',
+  created_by text,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+ALTER TABLE email_segments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "anon_read_email_segments" ON email_segments FOR SELECT TO anon USING (true);
+CREATE POLICY "service_all_email_segments" ON email_segments FOR ALL TO service_role USING (true) WITH CHECK (true);
+
+ALTER PUBLICATION supabase_realtime ADD TABLE email_segments;
+
+-- A broadcast email to a segment, sent once at scheduled_at (or on the next
+-- campaign run after it). The recipient list is fixed when sending starts.
+CREATE TABLE IF NOT EXISTS email_campaigns (
+  id uuid DEFAULT gen_random_uuid() PRIMARY KEY,
+  name text NOT NULL CHECK (length(name) BETWEEN 1 AND 100),
+  subject text NOT NULL,
+  html text NOT NULL,
+  segment_id uuid NOT NULL REFERENCES email_segments(id) ON DELETE RESTRICT,
+  status text NOT NULL DEFAULT 'scheduled' CHECK (status IN ('scheduled', 'sending', 'sent', 'cancelled')),
+  scheduled_at timestamptz NOT NULL DEFAULT now(),
+  started_at timestamptz,
+  finished_at timestamptz,
+  created_by text,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS email_campaigns_status_idx ON email_campaigns (status, scheduled_at);
+
+-- One row per recipient with their delivery result. The email is kept so
+-- results survive the subscriber being deleted.
+CREATE TABLE IF NOT EXISTS email_campaign_recipients (
+  id uuid DEFAULT gen_random_uuid() PRIMARY KEY,
+  campaign_id uuid NOT NULL REFERENCES email_campaigns(id) ON DELETE CASCADE,
+  subscriber_id uuid REFERENCES email_subscribers(id) ON DELETE SET NULL,
+  email text NOT NULL,
+  status text NOT NULL DEFAULT 'queued' CHECK (status IN ('queued', 'sent', 'failed', 'skipped')),
+  error text,
+  sent_at timestamptz,
+  UNIQUE (campaign_id, subscriber_id)
+);
+
+CREATE INDEX IF NOT EXISTS email_campaign_recipients_queued_idx ON email_campaign_recipients (campaign_id) WHERE status = 'queued';
+
+ALTER TABLE email_campaigns ENABLE ROW LEVEL SECURITY;
+ALTER TABLE email_campaign_recipients ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "anon_read_email_campaigns" ON email_campaigns FOR SELECT TO anon USING (true);
+CREATE POLICY "service_all_email_campaigns" ON email_campaigns FOR ALL TO service_role USING (true) WITH CHECK (true);
+CREATE POLICY "anon_read_email_campaign_recipients" ON email_campaign_recipients FOR SELECT TO anon USING (true);
+CREATE POLICY "service_all_email_campaign_recipients" ON email_campaign_recipients FOR ALL TO service_role USING (true) WITH CHECK (true);
+
+ALTER PUBLICATION supabase_realtime ADD TABLE email_campaigns;
+ALTER PUBLICATION supabase_realtime ADD TABLE email_campaign_recipients;
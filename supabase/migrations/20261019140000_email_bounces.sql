@@ -0,0 +1,39 @@
+-- Hard bounces and spam complaints take a subscriber out of every sequence,
+-- like unsubscribing, but without their consent: the address is suppressed.
+ALTER TABLE email_subscribers DROP CONSTRAINT IF EXISTS email_subscribers_status_check;
+ALTER TABLE email_subscribers ADD CONSTRAINT email_subscribers_status_check
+  CHECK (status IN ('pending','active','unsubscribed','suppressed'));
+ALTER TABLE email_subscribers ADD COLUMN IF NOT EXISTS suppressed_at timestamptz;
+
+-- status stays the SMTP outcome; these record what the receiving side
+-- reported afterwards.
+ALTER TABLE email_sends ADD COLUMN IF NOT EXISTS bounce_type text CHECK (bounce_type IN ('hard','soft'));
+ALTER TABLE email_sends ADD COLUMN IF NOT EXISTS bounced_at timestamptz;
+ALTER TABLE email_sends ADD COLUMN IF NOT EXISTS complained_at timestamptz;
+
+-- Every bounce and complaint report received (see app/lib/email-bounces.ts),
+-- from the IMAP/maildir processor or the webhook. A report is recorded once
+-- per (message_id, email), so re-processing a mailbox is harmless.
+CREATE TABLE IF NOT EXISTS email_bounces (
+  id uuid DEFAULT gen_random_uuid() PRIMARY KEY,
+  kind text NOT NULL CHECK (kind IN ('bounce','complaint')),
+  bounce_type text CHECK (bounce_type IN ('hard','soft')),
+  email text NOT NULL CHECK (email = lower(email)),
+  subscriber_id uuid REFERENCES email_subscribers(id) ON DELETE SET NULL,
+  send_id uuid REFERENCES email_sends(id) ON DELETE SET NULL,
+  status_code text,
+  diagnostic text,
+  source text NOT NULL CHECK (source IN ('imap','maildir','webhook')),
+  message_id text,
+  received_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (message_id, email)
+);
+
+CREATE INDEX IF NOT EXISTS email_bounces_subscriber_idx ON email_bounces (subscriber_id);
+
+ALTER TABLE email_bounces ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "anon_read_email_bounces" ON email_bounces FOR SELECT TO anon USING (true);
+CREATE POLICY "service_all_email_bounces" ON email_bounces FOR ALL TO service_role USING (true) WITH CHECK (true);
+
+ALTER PUBLICATION supabase_realtime ADD TABLE email_bounces;
@@ -0,0 +1,34 @@
+-- One-off sends requested through POST /api/send-email. The request only
+-- queues the email; app/lib/email-outbox.ts delivers it and retries failures
+-- with exponential backoff until max_attempts, after which it is dead.
+--
+-- idempotency_key defaults to subscriber + sequence + stage, so a repeated
+-- request (a double click, a client retry) finds the existing row instead of
+-- sending twice.
+CREATE TABLE IF NOT EXISTS email_outbox (
+  id uuid DEFAULT gen_random_uuid() PRIMARY KEY,
+  idempotency_key text NOT NULL UNIQUE,
+  subscriber_id uuid NOT NULL REFERENCES email_subscribers(id) ON DELETE CASCADE,
+  sequence_id uuid NOT NULL REFERENCES email_sequences(id) ON DELETE CASCADE,
+  email_number int NOT NULL CHECK (email_number >= 1),
+  status text NOT NULL DEFAULT 'queued' CHECK (status IN ('queued','sending','sent','dead')),
+  attempts int NOT NULL DEFAULT 0,
+  max_attempts int NOT NULL DEFAULT 5 CHECK (max_attempts >= 1),
+  next_attempt_at timestamptz NOT NULL DEFAULT now(),
+  -- Set while a worker is delivering the row; a stale lock means the worker
+  -- died and the row can be claimed again.
+  locked_at timestamptz,
+  last_error text,
+  created_by text,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  sent_at timestamptz
+);
+
+CREATE INDEX IF NOT EXISTS email_outbox_due_idx ON email_outbox (next_attempt_at) WHERE status IN ('queued','sending');
+
+ALTER TABLE email_outbox ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "anon_read_email_outbox" ON email_outbox FOR SELECT TO anon USING (true);
+CREATE POLICY "service_all_email_outbox" ON email_outbox FOR ALL TO service_role USING (true) WITH CHECK (true);
+
+ALTER PUBLICATION supabase_realtime ADD TABLE email_outbox;
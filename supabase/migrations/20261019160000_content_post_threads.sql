@@ -0,0 +1,18 @@
+-- Threads: a post is an ordered list of segments, each published as a reply
+-- to the one before. content keeps the segments joined by a blank line for
+-- readers that predate threads, and rows that only set content (like the
+-- drafts from scripts/intelligence.py) are a single segment.
+--
+-- post_ids gets one X post ID per published segment. post-scheduler.py
+-- records each as it goes, so a thread that fails partway resumes after its
+-- last published segment instead of starting over; post_id stays the ID of
+-- the first one.
+ALTER TABLE content_posts
+  ADD COLUMN IF NOT EXISTS segments text[] NOT NULL DEFAULT '{}',
+  ADD COLUMN IF NOT EXISTS post_ids text[] NOT NULL DEFAULT '{}';
+
+ALTER TABLE content_posts
+  ADD CONSTRAINT content_posts_segments_max CHECK (cardinality(segments) <= 25);
+
+UPDATE content_posts SET segments = ARRAY[content] WHERE cardinality(segments) = 0;
+UPDATE content_posts SET post_ids = ARRAY[post_id] WHERE post_id IS NOT NULL AND cardinality(post_ids) = 0;
@@ -0,0 +1,15 @@
+-- Image attachments on posts: up to 4, published with the first segment of
+-- a thread. Each element is { path, url, alt, content_type, size }, where
+-- path names the file in the post-media bucket (or in local media storage,
+-- see app/lib/media-storage.ts).
+ALTER TABLE content_posts
+  ADD COLUMN IF NOT EXISTS media jsonb NOT NULL DEFAULT '[]'::jsonb;
+
+ALTER TABLE content_posts
+  ADD CONSTRAINT content_posts_media_max CHECK (jsonb_typeof(media) = 'array' AND jsonb_array_length(media) <= 4);
+
+-- Public so the dashboard and scripts/post-scheduler.py can fetch images by
+-- URL; file names are random UUIDs and only the service role can write.
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES ('post-media', 'post-media', true, 5242880, ARRAY['image/jpeg','image/png','image/gif','image/webp'])
+ON CONFLICT (id) DO NOTHING;
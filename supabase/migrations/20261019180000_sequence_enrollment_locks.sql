@@ -0,0 +1,5 @@
+-- Set while a drip run is sending an enrollment's next step, so overlapping
+-- runs (a manual run during the cron, or a run longer than the interval)
+-- can't both send it. A stale lock belongs to a run that died mid-send and
+-- can be claimed again; see app/lib/email-drip.ts.
+ALTER TABLE sequence_enrollments ADD COLUMN IF NOT EXISTS locked_at timestamptz;
@@ -0,0 +1,36 @@
+-- Campaign runs claim their recipients a batch at a time, so overlapping runs
+-- (Send Due Now during the cron, or a run longer than the interval) never
+-- email the same recipient twice. A claimed row is 'sending' until its result
+-- is written; one locked before p_stale_before belongs to a run that died
+-- and is claimed again.
+ALTER TABLE email_campaign_recipients ADD COLUMN IF NOT EXISTS locked_at timestamptz;
+
+ALTER TABLE email_campaign_recipients DROP CONSTRAINT IF EXISTS email_campaign_recipients_status_check;
+ALTER TABLE email_campaign_recipients ADD CONSTRAINT email_campaign_recipients_status_check
+  CHECK (status IN ('queued', 'sending', 'sent', 'failed', 'skipped'));
+
+DROP INDEX IF EXISTS email_campaign_recipients_queued_idx;
+CREATE INDEX IF NOT EXISTS email_campaign_recipients_pending_idx ON email_campaign_recipients (campaign_id) WHERE status IN ('queued', 'sending');
+
+CREATE OR REPLACE FUNCTION claim_campaign_recipients(
+  p_campaign_id uuid,
+  p_limit int,
+  p_stale_before timestamptz
+) RETURNS SETOF email_campaign_recipients
+LANGUAGE sql
+AS $$
+  UPDATE email_campaign_recipients
+  SET status = 'sending', locked_at = now()
+  WHERE id IN (
+    SELECT id FROM email_campaign_recipients
+    WHERE campaign_id = p_campaign_id
+      AND (status = 'queued' OR (status = 'sending' AND locked_at < p_stale_before))
+    ORDER BY email
+    LIMIT p_limit
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING *;
+$$;
+
+REVOKE EXECUTE ON FUNCTION claim_campaign_recipients(uuid, int, timestamptz) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION claim_campaign_recipients(uuid, int, timestamptz) TO service_role;
@@ -0,0 +1,17 @@
+-- The anon key ships to every browser, so anything it can read is public.
+-- Subscriber addresses, send history (email_sends.html embeds each
+-- subscriber's signed unsubscribe link), opens and clicks, notes, bounces,
+-- the suppression list, campaign recipients and the outbox are now read
+-- through authenticated API routes with the service role instead.
+DROP POLICY IF EXISTS "anon_read_subscribers" ON email_subscribers;
+DROP POLICY IF EXISTS "anon_read_sends" ON email_sends;
+DROP POLICY IF EXISTS "anon_read_email_events" ON email_events;
+DROP POLICY IF EXISTS "anon_read_email_suppressions" ON email_suppressions;
+DROP POLICY IF EXISTS "anon_read_subscriber_notes" ON subscriber_notes;
+DROP POLICY IF EXISTS "anon_read_email_campaign_recipients" ON email_campaign_recipients;
+DROP POLICY IF EXISTS "anon_read_email_bounces" ON email_bounces;
+DROP POLICY IF EXISTS "anon_read_email_outbox" ON email_outbox;
+
+REVOKE ALL ON email_subscribers, email_sends, email_events, email_suppressions,
+  subscriber_notes, email_campaign_recipients, email_bounces, email_outbox
+  FROM anon;
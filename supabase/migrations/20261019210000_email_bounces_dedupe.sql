@@ -0,0 +1,6 @@
+-- UNIQUE (message_id, email) never matches a report without a message id,
+-- since NULLs are distinct. Webhook events must now carry one; a mailbox
+-- message without a Message-ID header is recorded once per send, address
+-- and kind instead.
+CREATE UNIQUE INDEX IF NOT EXISTS email_bounces_no_message_id_idx
+  ON email_bounces (send_id, email, kind) WHERE message_id IS NULL;